@@ -76,7 +76,7 @@ export class DashboardService {
     const durationString = `${durationHours}h ${durationMinutes}m`;
 
     // Generate insights
-    const topModels = this.generateTopModelsInsight();
+    const topModels = await this.generateTopModelsInsight();
     const cachePatterns = await this.generateCachePatternsInsight();
     const costBreakdown = this.generateCostBreakdownInsight();
 
@@ -113,13 +113,16 @@ export class DashboardService {
     };
   }
 
-  private generateTopModelsInsight(): Array<{ model: string; usage_count: number; savings: string }> {
-    // This would typically come from cache analytics
-    return [
-      { model: 'moonshot-v1-8k', usage_count: 45, savings: '77.5%' },
-      { model: 'moonshot-v1-32k', usage_count: 23, savings: '65.2%' },
-      { model: 'gpt-4o-mini', usage_count: 12, savings: '25.1%' }
-    ];
+  private async generateTopModelsInsight(): Promise<Array<{ model: string; usage_count: number; savings: string }>> {
+    // Share of tokens saved per model, from the persistent cache
+    const usage = await this.cacheEngine.getModelUsage();
+    const totalSaved = usage.reduce((sum, model) => sum + model.tokens_saved, 0);
+
+    return usage.slice(0, 5).map(model => ({
+      model: model.model,
+      usage_count: model.hits,
+      savings: totalSaved > 0 ? `${((model.tokens_saved / totalSaved) * 100).toFixed(1)}%` : '0.0%'
+    }));
   }
 
   private async generateCachePatternsInsight(): Promise<Array<{ pattern: string; hit_rate: string; frequency: number }>> {
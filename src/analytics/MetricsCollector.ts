@@ -1,4 +1,5 @@
-import { UsageMetrics, EfficiencyMetrics } from '../types/index.js';
+import { UsageMetrics, EfficiencyMetrics, RedactionMetrics } from '../types/index.js';
+import { RedactionFinding } from '../redaction/Redactor.js';
 import { Logger } from '../utils/Logger.js';
 
 /**
@@ -6,6 +7,7 @@ import { Logger } from '../utils/Logger.js';
  */
 export class MetricsCollector {
   private metrics: UsageMetrics;
+  private redaction: RedactionMetrics = MetricsCollector.emptyRedactionMetrics();
   private logger: Logger;
   private startTime: number;
   private sessionMetrics: Map<string, any> = new Map();
@@ -15,8 +17,10 @@ export class MetricsCollector {
       requests: 0,
       hits: 0,
       misses: 0,
+      coalesced: 0,
       tokens_saved: 0,
       decisions_made: 0,
+      rated_decisions: 0,
       correct_decisions: 0,
       model_optimizations: 0,
       cost_savings: 0
@@ -40,6 +44,15 @@ export class MetricsCollector {
     }
   }
 
+  /**
+   * Records a miss that waited on an in-flight upstream call instead of making its own
+   */
+  recordCoalescedRequest(tokensSaved: number = 0): void {
+    this.metrics.requests++;
+    this.metrics.coalesced++;
+    this.metrics.tokens_saved += tokensSaved;
+  }
+
   /**
    * Records a caching decision
    */
@@ -47,9 +60,36 @@ export class MetricsCollector {
     this.metrics.decisions_made++;
     
     if (correct !== undefined) {
-      if (correct) {
-        this.metrics.correct_decisions++;
-      }
+      this.recordDecisionFeedback(correct);
+    }
+  }
+
+  /**
+   * Records a rating of a cached answer: a good rating confirms the decision to cache it
+   */
+  recordDecisionFeedback(correct: boolean): void {
+    this.metrics.rated_decisions++;
+    if (correct) {
+      this.metrics.correct_decisions++;
+    }
+  }
+
+  /**
+   * Records the sensitive data found in one request or response
+   */
+  recordRedaction(findings: RedactionFinding[]): void {
+    if (findings.length === 0) return;
+
+    this.redaction.events++;
+    for (const finding of findings) {
+      this.redaction.by_detector[finding.detector] = (this.redaction.by_detector[finding.detector] || 0) + finding.count;
+    }
+    if (findings.some(finding => finding.action === 'reject')) {
+      this.redaction.rejected++;
+    } else if (findings.some(finding => finding.action === 'block-cache')) {
+      this.redaction.blocked_caching++;
+    } else {
+      this.redaction.masked++;
     }
   }
 
@@ -68,8 +108,8 @@ export class MetricsCollector {
     return {
       cache_hit_rate: this.metrics.requests > 0 ? 
         (this.metrics.hits / this.metrics.requests) * 100 : 0,
-      decision_accuracy: this.metrics.decisions_made > 0 ? 
-        (this.metrics.correct_decisions / this.metrics.decisions_made) * 100 : 0,
+      decision_accuracy: this.metrics.rated_decisions > 0 ? 
+        (this.metrics.correct_decisions / this.metrics.rated_decisions) * 100 : 0,
       avg_tokens_per_hit: this.metrics.hits > 0 ? 
         this.metrics.tokens_saved / this.metrics.hits : 0,
       estimated_cost_savings: this.metrics.tokens_saved * 0.000002 + this.metrics.cost_savings
@@ -82,6 +122,7 @@ export class MetricsCollector {
   getMetricsReport(): {
     usage: UsageMetrics;
     efficiency: EfficiencyMetrics;
+    redaction: RedactionMetrics;
     session: {
       duration_minutes: number;
       requests_per_minute: number;
@@ -99,6 +140,7 @@ export class MetricsCollector {
     return {
       usage: { ...this.metrics },
       efficiency,
+      redaction: { ...this.redaction, by_detector: { ...this.redaction.by_detector } },
       session: {
         duration_minutes: Math.round(durationMinutes * 100) / 100,
         requests_per_minute: durationMinutes > 0 ? 
@@ -195,13 +237,16 @@ export class MetricsCollector {
       requests: 0,
       hits: 0,
       misses: 0,
+      coalesced: 0,
       tokens_saved: 0,
       decisions_made: 0,
+      rated_decisions: 0,
       correct_decisions: 0,
       model_optimizations: 0,
       cost_savings: 0
     };
     
+    this.redaction = MetricsCollector.emptyRedactionMetrics();
     this.sessionMetrics.clear();
     this.startTime = Date.now();
     this.logger.info('Metrics reset');
@@ -214,6 +259,8 @@ export class MetricsCollector {
     overview: {
       total_requests: number;
       hit_rate: string;
+      coalesced_requests: number;
+      redaction_events: number;
       tokens_saved: number;
       cost_savings: string;
     };
@@ -245,6 +292,8 @@ export class MetricsCollector {
       overview: {
         total_requests: this.metrics.requests,
         hit_rate: `${efficiency.cache_hit_rate.toFixed(1)}%`,
+        coalesced_requests: this.metrics.coalesced,
+        redaction_events: this.redaction.events,
         tokens_saved: this.metrics.tokens_saved,
         cost_savings: `$${efficiency.estimated_cost_savings.toFixed(4)}`
       },
@@ -282,4 +331,8 @@ export class MetricsCollector {
 
     return customs;
   }
-}
\ No newline at end of file
+
+  private static emptyRedactionMetrics(): RedactionMetrics {
+    return { events: 0, masked: 0, blocked_caching: 0, rejected: 0, by_detector: {} };
+  }
+}
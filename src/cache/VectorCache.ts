@@ -1,13 +1,24 @@
 /**
  * Advanced Vector Cache - Semantic caching with embeddings
  * Based on recommendations from INSIGHTS-V2.md for ~85% hit rate improvement
- * Simplified version using local embeddings without external dependencies
+ * Embeddings come from a pluggable provider (see ./embeddings)
  */
 
 import { createHash } from 'crypto';
-import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from '../utils/Logger.js';
+import { EmbeddingProvider, EmbeddingProviderOptions } from './embeddings/EmbeddingProvider.js';
+import { EmbeddingProviderFactory } from './embeddings/EmbeddingProviderFactory.js';
+import { VectorIndex } from './index/VectorIndex.js';
+import { HNSWIndex, SerializedHNSW } from './index/HNSWIndex.js';
+import { VectorIndexFactory } from './index/VectorIndexFactory.js';
+import { SnapshotFile } from '../storage/SnapshotFile.js';
+import { Journal } from '../storage/Journal.js';
+import { CodecRegistry } from '../storage/codecs/CodecRegistry.js';
+import { ValueCipher } from '../storage/encryption/ValueCipher.js';
+import { EvictionPolicy, EvictionStats, selectVictims } from './eviction/EvictionPolicy.js';
+import { LRUPolicy } from './eviction/LRUPolicy.js';
+import { EMBEDDING_ENCODINGS, EmbeddingEncoding, decodeEmbedding, encodeEmbedding } from '../storage/codecs/EmbeddingCodecs.js';
 
 // Enhanced interfaces for vector cache
 export interface VectorCacheEntry {
@@ -24,11 +35,30 @@ export interface VectorCacheEntry {
     model: string;
     task_type?: string;
     quality_score?: number;
+    /** Number of ratings folded into quality_score */
+    ratings?: number;
     similarity_threshold?: number;
     embedding_model?: string;
+    /** Literal cache key of the same response, for joint invalidation */
+    cache_key?: string;
+    tags?: string[];
   };
 }
 
+/**
+ * Entry in portable form for export/import. The embedding travels with it and
+ * is reused on import when metadata.embedding_model matches the active model.
+ */
+export interface PortableVectorEntry {
+  prompt: string;
+  response: any;
+  tokens: number;
+  hits: number;
+  created_at: number;
+  metadata: VectorCacheEntry['metadata'];
+  embedding?: { encoding: EmbeddingEncoding; data: number[] | string };
+}
+
 export interface SimilarityResult {
   entry: VectorCacheEntry;
   similarity: number;
@@ -43,153 +73,90 @@ export interface VectorCacheOptions {
   embeddingDimensions?: number;
   enablePersistence?: boolean;
   embeddingModel?: string;
+  embedding?: EmbeddingProviderOptions;
   useFaiss?: boolean;
+  /** Codec for responses on disk: none | lz-string | gzip | brotli */
+  responseCodec?: string;
+  /** Embedding encoding on disk; float16 and int8 are lossy */
+  embeddingEncoding?: EmbeddingEncoding;
+  /** Responses shorter than this (in characters) are stored uncompressed */
+  codecThreshold?: number;
+  /** Entries rated below this quality score are no longer served */
+  minQualityScore?: number;
+  /** Picks the entries removed once maxEntries is exceeded (default LRU) */
+  evictionPolicy?: EvictionPolicy;
+  /** Encrypts prompts and responses on disk; embeddings stay readable for the index */
+  cipher?: ValueCipher | null;
 }
 
-export interface CacheHitMetrics {
-  literal_hits: number;
-  vector_hits: number;
-  total_requests: number;
-  vector_hit_rate: number;
-  average_similarity: number;
+export interface ReindexStatus {
+  state: 'idle' | 'running' | 'completed' | 'failed';
+  target_model: string;
+  target_dimensions: number;
+  total: number;
+  processed: number;
+  failed: number;
+  started_at?: number;
+  finished_at?: number;
+  error?: string;
+}
+
+export interface EmbeddingStatus {
+  model: string;
+  dimensions: number;
+  /** Model the file on disk was written with (null for files predating this record) */
+  persisted: { model: string; dimensions: number } | null;
+  /** Configured model could not be loaded and hash embeddings are in use */
+  degraded: boolean;
+  stale_entries: number;
+  reindex: ReindexStatus;
 }
 
 /**
- * Advanced embedding generator using local algorithms
+ * Entry as written to disk: embedding and response encoded, with the encodings
+ * recorded so files written with other settings still load
  */
-class LocalEmbeddingGenerator {
-  private readonly dimension: number;
-  private readonly modelName: string;
-
-  constructor(dimension: number = 384, modelName: string = 'local-minilm') {
-    this.dimension = dimension;
-    this.modelName = modelName;
-  }
-
-  /**
-   * Generate embedding using local algorithms
-   */
-  generate(text: string): number[] {
-    const normalized = text.toLowerCase().trim();
-    const words = normalized.split(/\s+/);
-    const chars = normalized.split('');
-    
-    const embedding = new Array(this.dimension).fill(0);
-    
-    // Advanced features based on content
-    const features = {
-      // Length features
-      length: Math.min(normalized.length / 1000, 1),
-      wordCount: Math.min(words.length / 100, 1),
-      avgWordLength: Math.min((normalized.length / Math.max(words.length, 1)) / 10, 1),
-      
-      // Content type features
-      hasCode: /```|function|class|import|def |const |let |var |=>|async|await/.test(normalized) ? 1 : 0,
-      hasQuestion: /\?|como|what|how|why|quando|onde|explain|describe/.test(normalized) ? 1 : 0,
-      hasNumbers: /\d+/.test(normalized) ? 1 : 0,
-      
-      // Domain features
-      isTechnical: /api|endpoint|database|server|client|framework|library|package|module/.test(normalized) ? 1 : 0,
-      isAnalysis: /analis|explica|descreva|compare|avalie|review|optimize|debug/.test(normalized) ? 1 : 0,
-      isCreation: /crie|gere|implemente|desenvolva|construa|build|create|generate/.test(normalized) ? 1 : 0,
-      
-      // Language features
-      isEnglish: /\b(the|and|or|but|with|for|from|this|that)\b/.test(normalized) ? 1 : 0,
-      isPortuguese: /\b(de|do|da|para|com|sem|este|esta|aquele|aquela)\b/.test(normalized) ? 1 : 0,
-      
-      // Complexity features
-      hasComplexWords: /\w{10,}/.test(normalized) ? 1 : 0,
-      sentenceComplexity: Math.min(words.length / 20, 1),
-      
-      // Context features
-      isCodeReview: /code|review|pr|pull|request|merge|commit|branch/.test(normalized) ? 1 : 0,
-      isArchitecture: /architecture|design|pattern|structure|system/.test(normalized) ? 1 : 0,
-    };
-
-    // Distribute features across dimensions
-    let idx = 0;
-    for (const [key, value] of Object.entries(features)) {
-      if (idx < this.dimension) {
-        embedding[idx] = value;
-        idx++;
-      }
-    }
-
-    // Character n-gram features
-    for (let i = 0; i < Math.min(chars.length - 1, this.dimension - idx); i++) {
-      const bigram = chars[i] + chars[i + 1];
-      const hash = this.hashString(bigram);
-      embedding[idx + i] = (hash % 100) / 100;
-    }
-
-    // Word frequency features
-    const wordFreq: Record<string, number> = {};
-    words.forEach(word => {
-      if (word.length > 2) {
-        wordFreq[word] = (wordFreq[word] || 0) + 1;
-      }
-    });
-
-    const topWords = Object.entries(wordFreq)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, Math.min(30, this.dimension - idx - (chars.length - 1)));
-
-    let wordIdx = idx + Math.min(chars.length - 1, this.dimension - idx);
-    topWords.forEach(([word, freq]) => {
-      if (wordIdx < this.dimension) {
-        const hash = this.hashString(word);
-        embedding[wordIdx] = Math.min(freq / words.length, 1) * ((hash % 100) / 100);
-        wordIdx++;
-      }
-    });
-
-    // Add positional encoding
-    for (let i = 0; i < Math.min(50, this.dimension); i++) {
-      embedding[i] += Math.sin(i / 10000) * 0.1;
-    }
-
-    // Normalize the vector
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return magnitude > 0 ? embedding.map(val => val / magnitude) : embedding;
-  }
-
-  /**
-   * Generate batch embeddings
-   */
-  generateBatch(texts: string[]): number[][] {
-    return texts.map(text => this.generate(text));
-  }
-
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & 0x7fffffff; // Convert to 32-bit integer
-    }
-    return Math.abs(hash);
-  }
+type PersistedVectorEntry = Omit<VectorCacheEntry, 'embedding'> & {
+  embedding: number[] | string;
+  encoding?: { embedding: EmbeddingEncoding; response: string; encrypted?: boolean };
+};
 
-  getModelName(): string {
-    return this.modelName;
-  }
+type VectorJournalRecord =
+  | { op: 'set'; entry: PersistedVectorEntry }
+  | { op: 'delete'; id: string };
 
-  getDimensions(): number {
-    return this.dimension;
-  }
+export interface CacheHitMetrics {
+  literal_hits: number;
+  vector_hits: number;
+  total_requests: number;
+  vector_hit_rate: number;
+  average_similarity: number;
 }
 
 /**
  * Main Vector Cache class with advanced features
  */
 export class VectorCache {
+  private static readonly FORMAT_VERSION = '2.3.0';
+
   private entries: Map<string, VectorCacheEntry> = new Map();
-  private embeddingGenerator: LocalEmbeddingGenerator;
+  private embeddingProvider: EmbeddingProvider;
   private options: Required<VectorCacheOptions>;
-  private persistenceFile: string;
+  private snapshot: SnapshotFile<any>;
+  private indexSnapshot: SnapshotFile<SerializedHNSW>;
+  private journal: Journal<VectorJournalRecord>;
+  private saveInFlight: Promise<void> | null = null;
+  private saveQueued: Promise<void> | null = null;
+  private bytesOnDisk: number = 0;
+  private index: VectorIndex = new HNSWIndex();
   private logger: Logger;
   private metrics: CacheHitMetrics;
   private initialized: boolean = false;
+  private initPromise: Promise<void> | null = null;
+  private persistedEmbedding: { model: string; dimensions: number } | null = null;
+  private embeddingDegraded: boolean = false;
+  private reindexStatus: ReindexStatus;
+  private evictionStats: EvictionStats;
 
   constructor(options: VectorCacheOptions) {
     this.options = {
@@ -198,16 +165,30 @@ export class VectorCache {
       embeddingDimensions: 384,
       enablePersistence: true,
       embeddingModel: 'local-advanced',
+      embedding: {},
       useFaiss: false,
+      responseCodec: 'gzip',
+      embeddingEncoding: 'float16',
+      codecThreshold: 256,
+      minQualityScore: 0.5,
+      evictionPolicy: new LRUPolicy(),
+      cipher: null,
       ...options
     };
+    this.evictionStats = { policy: this.options.evictionPolicy.name, evicted: 0, freed_mb: 0 };
+    CodecRegistry.get(this.options.responseCodec);
+    if (!EMBEDDING_ENCODINGS.includes(this.options.embeddingEncoding)) {
+      throw new Error(`Unknown embedding encoding: ${this.options.embeddingEncoding}`);
+    }
 
-    this.embeddingGenerator = new LocalEmbeddingGenerator(
-      this.options.embeddingDimensions,
-      this.options.embeddingModel
-    );
+    this.embeddingProvider = EmbeddingProviderFactory.create(this.options.embeddingModel, {
+      dimensions: this.options.embeddingDimensions,
+      ...this.options.embedding
+    });
 
-    this.persistenceFile = path.join(this.options.dataDir, 'vector-cache.json');
+    this.snapshot = new SnapshotFile(path.join(this.options.dataDir, 'vector-cache.json'));
+    this.indexSnapshot = new SnapshotFile(path.join(this.options.dataDir, 'vector-index.json'));
+    this.journal = new Journal(path.join(this.options.dataDir, 'vector-cache.journal'));
     this.logger = new Logger('VectorCache');
     
     this.metrics = {
@@ -218,21 +199,43 @@ export class VectorCache {
       average_similarity: 0
     };
 
+    this.reindexStatus = this.idleReindexStatus();
+
     this.initialize().catch(this.logger.error);
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
+    if (!this.initPromise) {
+      this.initPromise = this.doInitialize().finally(() => {
+        this.initPromise = null;
+      });
+    }
+    return this.initPromise;
+  }
 
+  private async doInitialize(): Promise<void> {
     try {
+      const requested = this.embeddingProvider;
+      this.embeddingProvider = await EmbeddingProviderFactory.initialize(requested, {
+        dimensions: this.options.embeddingDimensions,
+        ...this.options.embedding
+      });
+      this.embeddingDegraded = this.embeddingProvider !== requested;
+      this.reindexStatus = this.idleReindexStatus();
+
       if (this.options.enablePersistence) {
         await this.loadFromDisk();
       }
+      await this.loadIndex();
+      this.checkEmbeddingCompatibility();
 
       this.initialized = true;
       this.logger.info('Vector cache initialized successfully', {
         entries: this.entries.size,
-        model: this.embeddingGenerator.getModelName()
+        model: this.embeddingProvider.name,
+        dimensions: this.embeddingProvider.dimensions,
+        index: this.index.name
       });
     } catch (error) {
       this.logger.error('Failed to initialize vector cache', { error });
@@ -286,12 +289,12 @@ export class VectorCache {
     response: any,
     model: string,
     tokens: number,
-    metadata: { task_type?: string; quality_score?: number } = {}
+    metadata: { task_type?: string; quality_score?: number; cache_key?: string; tags?: string[] } = {}
   ): Promise<string> {
     await this.ensureInitialized();
 
     const normalizedPrompt = this.normalizePrompt(prompt);
-    const embedding = this.embeddingGenerator.generate(normalizedPrompt);
+    const [embedding] = await this.embeddingProvider.embed([normalizedPrompt]);
     
     const id = this.generateId(normalizedPrompt, model);
 
@@ -307,13 +310,16 @@ export class VectorCache {
       last_accessed: Date.now(),
       metadata: {
         model,
-        embedding_model: this.embeddingGenerator.getModelName(),
+        embedding_model: this.embeddingProvider.name,
         similarity_threshold: this.options.similarityThreshold,
         ...metadata
       },
     };
 
     this.entries.set(id, entry);
+    this.index.add(id, embedding);
+    this.options.evictionPolicy.recordAccess(id);
+    this.journalWrite({ op: 'set', entry: this.toPersisted(entry) });
 
     // Cleanup old entries if needed
     if (this.entries.size > this.options.maxEntries) {
@@ -333,6 +339,9 @@ export class VectorCache {
   getStats(): CacheHitMetrics & {
     total_entries: number;
     embedding_model: string;
+    index: { type: string; size: number };
+    storage: { response_codec: string; embedding_encoding: EmbeddingEncoding; bytes_on_disk: number };
+    eviction: EvictionStats;
     average_similarity_score: number;
     top_similar_queries: Array<{
       prompt: string;
@@ -349,7 +358,14 @@ export class VectorCache {
     return {
       ...this.metrics,
       total_entries: entries.length,
-      embedding_model: this.embeddingGenerator.getModelName(),
+      embedding_model: this.embeddingProvider.name,
+      index: { type: this.index.name, size: this.index.size },
+      storage: {
+        response_codec: this.options.responseCodec,
+        embedding_encoding: this.options.embeddingEncoding,
+        bytes_on_disk: this.bytesOnDisk
+      },
+      eviction: { ...this.evictionStats },
       average_similarity_score: this.metrics.average_similarity,
       top_similar_queries: topEntries.map(entry => ({
         prompt: entry.originalPrompt.substring(0, 100) + '...',
@@ -360,16 +376,16 @@ export class VectorCache {
   }
 
   /**
-   * Find literal match (exact or near-exact)
+   * Find literal match (exact or near-exact); entry ids are derived from the
+   * normalized prompt and model, so this is a direct lookup
    */
   private findLiteralMatch(normalizedPrompt: string, model: string): VectorCacheEntry | null {
-    for (const entry of this.entries.values()) {
-      if (entry.metadata.model === model && 
-          entry.normalizedPrompt === normalizedPrompt) {
-        entry.hits++;
-        entry.last_accessed = Date.now();
-        return entry;
-      }
+    const entry = this.entries.get(this.generateId(normalizedPrompt, model));
+    if (entry && entry.metadata.model === model && entry.normalizedPrompt === normalizedPrompt && this.isServable(entry)) {
+      entry.hits++;
+      entry.last_accessed = Date.now();
+      this.options.evictionPolicy.recordAccess(entry.id);
+      return entry;
     }
     return null;
   }
@@ -382,31 +398,33 @@ export class VectorCache {
     model: string,
     taskType?: string
   ): Promise<SimilarityResult | null> {
-    const queryEmbedding = this.embeddingGenerator.generate(normalizedPrompt);
+    const [queryEmbedding] = await this.embeddingProvider.embed([normalizedPrompt]);
     
-    let bestMatch: SimilarityResult | null = null;
-    let bestSimilarity = 0;
-
-    for (const entry of this.entries.values()) {
-      if (taskType && entry.metadata.task_type !== taskType) continue;
-      if (entry.metadata.model !== model) continue;
+    // Vectors from different embedding models are not comparable
+    const [nearest] = this.index.search(queryEmbedding, 1, id => {
+      const entry = this.entries.get(id);
+      return !!entry &&
+        entry.metadata.model === model &&
+        this.isCurrentEmbedding(entry) &&
+        this.isServable(entry) &&
+        (!taskType || entry.metadata.task_type === taskType);
+    });
 
-      const similarity = this.cosineSimilarity(queryEmbedding, entry.embedding);
-      
-      if (similarity >= this.options.similarityThreshold && similarity > bestSimilarity) {
-        bestSimilarity = similarity;
-        bestMatch = {
-          entry,
-          similarity,
-          reason: this.getSimilarityReason(similarity, entry, normalizedPrompt),
-          vector_distance: Math.sqrt(2 * (1 - similarity)) // Convert cosine to L2
-        };
-      }
+    let bestMatch: SimilarityResult | null = null;
+    if (nearest && nearest.similarity >= this.options.similarityThreshold) {
+      const entry = this.entries.get(nearest.id)!;
+      bestMatch = {
+        entry,
+        similarity: nearest.similarity,
+        reason: this.getSimilarityReason(nearest.similarity, entry, normalizedPrompt),
+        vector_distance: Math.sqrt(Math.max(0, 2 * (1 - nearest.similarity))) // Convert cosine to L2
+      };
     }
 
     if (bestMatch) {
       bestMatch.entry.hits++;
       bestMatch.entry.last_accessed = Date.now();
+      this.options.evictionPolicy.recordAccess(bestMatch.entry.id);
       
       if (this.options.enablePersistence) {
         this.saveToDisk().catch(this.logger.error);
@@ -436,30 +454,6 @@ export class VectorCache {
     this.metrics.vector_hit_rate = this.metrics.vector_hits / Math.max(this.metrics.total_requests, 1);
   }
 
-  /**
-   * Calculate cosine similarity between vectors
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let magnitudeA = 0;
-    let magnitudeB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      magnitudeA += a[i] * a[i];
-      magnitudeB += b[i] * b[i];
-    }
-    
-    magnitudeA = Math.sqrt(magnitudeA);
-    magnitudeB = Math.sqrt(magnitudeB);
-    
-    if (magnitudeA === 0 || magnitudeB === 0) return 0;
-    
-    return dotProduct / (magnitudeA * magnitudeB);
-  }
-
   /**
    * Get similarity reason
    */
@@ -485,32 +479,48 @@ export class VectorCache {
   }
 
   /**
-   * Intelligent cleanup
+   * Removes 20% of the entries: poorly rated ones first, then in eviction policy order
    */
   private async cleanup(): Promise<void> {
+    const now = Date.now();
     const entries = Array.from(this.entries.values());
-    
-    // Score based on hits, recency, and quality
-    const scored = entries.map(entry => {
-      const daysSinceAccess = (Date.now() - entry.last_accessed) / (1000 * 60 * 60 * 24);
-      const recencyScore = Math.max(0, 1 - daysSinceAccess / 30);
-      const hitScore = Math.min(1, entry.hits / 10);
-      const qualityScore = entry.metadata.quality_score || 0.5;
-      
-      const combinedScore = (hitScore * 0.4) + (recencyScore * 0.3) + (qualityScore * 0.3);
-      
-      return { entry, score: combinedScore };
-    });
-
-    // Remove 20% lowest scoring entries
-    scored.sort((a, b) => a.score - b.score);
     const toRemove = Math.floor(entries.length * 0.2);
-    
-    for (let i = 0; i < toRemove; i++) {
-      this.entries.delete(scored[i].entry.id);
+
+    const unservable = entries.filter(entry => !this.isServable(entry)).slice(0, toRemove);
+    const candidates = entries
+      .filter(entry => this.isServable(entry))
+      .map(entry => ({
+        key: entry.id,
+        size: this.entrySize(entry),
+        tokens: entry.tokens,
+        hits: entry.hits,
+        created_at: entry.created_at,
+        last_accessed: entry.last_accessed,
+        model: entry.metadata.model
+      }));
+    const victims = [
+      ...unservable.map(entry => ({ key: entry.id, size: this.entrySize(entry) })),
+      ...selectVictims(this.options.evictionPolicy, candidates, { count: toRemove - unservable.length }, now)
+    ];
+
+    for (const victim of victims) {
+      this.entries.delete(victim.key);
+      this.index.remove(victim.key);
+      this.journalWrite({ op: 'delete', id: victim.key });
     }
 
-    this.logger.info('Vector cache cleanup completed', { removed: toRemove });
+    this.evictionStats.evicted += victims.length;
+    this.evictionStats.freed_mb += victims.reduce((sum, victim) => sum + victim.size, 0) / 1024 / 1024;
+    this.evictionStats.last_run = now;
+    this.logger.info('Vector cache cleanup completed', { removed: victims.length, policy: this.options.evictionPolicy.name });
+  }
+
+  /**
+   * Approximate in-memory footprint of an entry
+   */
+  private entrySize(entry: VectorCacheEntry): number {
+    const response = typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response ?? '');
+    return (entry.originalPrompt.length + entry.normalizedPrompt.length + response.length) * 2 + entry.embedding.length * 8;
   }
 
   /**
@@ -525,45 +535,448 @@ export class VectorCache {
   }
 
   /**
-   * Persistence
+   * Persistence: atomic snapshots plus a journal of the sets and deletes made
+   * since the last one. Concurrent saves are coalesced into one follow-up write.
    */
-  private async saveToDisk(): Promise<void> {
+  private saveToDisk(): Promise<void> {
+    if (!this.saveInFlight) {
+      this.saveInFlight = this.writeSnapshot().finally(() => {
+        this.saveInFlight = null;
+      });
+      return this.saveInFlight;
+    }
+
+    if (!this.saveQueued) {
+      this.saveQueued = this.saveInFlight.then(() => {
+        this.saveQueued = null;
+        return this.saveToDisk();
+      });
+    }
+    return this.saveQueued;
+  }
+
+  private async writeSnapshot(): Promise<void> {
     try {
-      await fs.mkdir(path.dirname(this.persistenceFile), { recursive: true });
-      
+      if (this.countStaleEntries() === 0) {
+        this.persistedEmbedding = {
+          model: this.embeddingProvider.name,
+          dimensions: this.embeddingProvider.dimensions
+        };
+      }
+
       const data = {
-        entries: Array.from(this.entries.entries()),
+        entries: Array.from(this.entries.values()).map(entry => [entry.id, this.toPersisted(entry)]),
         metrics: this.metrics,
         metadata: {
           savedAt: Date.now(),
-          version: '2.0.0',
-          options: this.options
+          version: VectorCache.FORMAT_VERSION,
+          // Provider options may hold API keys, the cipher holds the encryption keys
+          options: { ...this.options, embedding: undefined, cipher: undefined },
+          embedding: this.persistedEmbedding
         }
       };
-      
-      await fs.writeFile(this.persistenceFile, JSON.stringify(data, null, 2));
+      const graph = this.index.serialize();
+
+      // Journal records from here on belong to the next snapshot
+      this.journal.beginCheckpoint();
+      this.bytesOnDisk = await this.snapshot.write(data);
+      this.journal.commitCheckpoint();
+
+      if (graph) {
+        await this.indexSnapshot.write(graph as SerializedHNSW);
+      }
     } catch (error) {
       this.logger.error('Failed to save vector cache', { error });
     }
   }
 
+  private toPersisted(entry: VectorCacheEntry): PersistedVectorEntry {
+    const encoding = this.options.embeddingEncoding;
+    const { codec, data } = typeof entry.response === 'undefined'
+      ? { codec: 'none', data: undefined }
+      : CodecRegistry.encode(this.options.responseCodec, JSON.stringify(entry.response), this.options.codecThreshold);
+
+    const cipher = this.options.cipher;
+    if (cipher) {
+      return {
+        ...entry,
+        originalPrompt: cipher.encrypt(entry.originalPrompt),
+        normalizedPrompt: cipher.encrypt(entry.normalizedPrompt),
+        embedding: encodeEmbedding(entry.embedding, encoding),
+        response: data === undefined ? undefined : cipher.encrypt(data),
+        encoding: { embedding: encoding, response: codec, encrypted: true }
+      };
+    }
+
+    return {
+      ...entry,
+      embedding: encodeEmbedding(entry.embedding, encoding),
+      // Uncompressed responses stay readable in the file
+      response: codec === 'none' ? entry.response : data,
+      encoding: { embedding: encoding, response: codec }
+    };
+  }
+
+  private fromPersisted(persisted: PersistedVectorEntry): VectorCacheEntry {
+    const { encoding, ...entry } = persisted;
+    if (!encoding) {
+      // Files before 2.3.0: plain arrays and values
+      return entry as VectorCacheEntry;
+    }
+
+    if (encoding.encrypted) {
+      const cipher = this.options.cipher;
+      if (!cipher) {
+        throw new Error('Entry is encrypted but no encryption key is configured');
+      }
+      return {
+        ...entry,
+        originalPrompt: cipher.decrypt(entry.originalPrompt),
+        normalizedPrompt: cipher.decrypt(entry.normalizedPrompt),
+        embedding: decodeEmbedding(entry.embedding, encoding.embedding),
+        response: entry.response === undefined
+          ? undefined
+          : JSON.parse(CodecRegistry.decode(encoding.response, cipher.decrypt(entry.response)))
+      };
+    }
+
+    return {
+      ...entry,
+      embedding: decodeEmbedding(entry.embedding, encoding.embedding),
+      response: encoding.response === 'none'
+        ? entry.response
+        : JSON.parse(CodecRegistry.decode(encoding.response, entry.response))
+    };
+  }
+
+  /**
+   * Restores a persisted entry, or skips it when it cannot be decrypted
+   */
+  private restore(persisted: PersistedVectorEntry, unreadable: { count: number }): VectorCacheEntry | null {
+    try {
+      return this.fromPersisted(persisted);
+    } catch (error) {
+      if (!persisted.encoding?.encrypted) throw error;
+      unreadable.count++;
+      return null;
+    }
+  }
+
+  private journalWrite(record: VectorJournalRecord): void {
+    if (!this.options.enablePersistence) return;
+
+    try {
+      this.journal.append(record);
+    } catch (error) {
+      this.logger.warn('Failed to append to vector cache journal', { error });
+    }
+  }
+
   private async loadFromDisk(): Promise<void> {
+    let fromBackup = false;
+    const unreadable = { count: 0 };
+
     try {
-      const data = JSON.parse(await fs.readFile(this.persistenceFile, 'utf-8'));
-      this.entries = new Map(data.entries);
+      const loaded = await this.snapshot.read();
+      fromBackup = loaded?.source === 'backup';
+      if (loaded?.source === 'backup') {
+        this.logger.warn('Vector cache file unusable, recovered last good snapshot', { reason: loaded.primaryError });
+      }
+
+      const data = loaded?.data || {};
+      this.bytesOnDisk = loaded?.bytes || 0;
+      this.entries = new Map();
+      for (const [id, persisted] of (data.entries || []) as Array<[string, PersistedVectorEntry]>) {
+        const entry = this.restore(persisted, unreadable);
+        if (entry) this.entries.set(id, entry);
+      }
+
+      // Files written before pluggable providers only ever held hash embeddings,
+      // whatever embedding_model they were labelled with
+      if (data.metadata?.version === '2.0.0') {
+        for (const entry of this.entries.values()) {
+          entry.metadata.embedding_model = 'local-advanced';
+        }
+      }
       
       if (data.metrics) {
         this.metrics = { ...this.metrics, ...data.metrics };
       }
-      
-      this.logger.info('Vector cache loaded from disk', { 
-        entries: this.entries.size,
-        requests: this.metrics.total_requests 
-      });
+
+      this.persistedEmbedding = data.metadata?.embedding || null;
     } catch (error) {
       this.logger.warn('Failed to load vector cache from disk', { error });
       this.entries = new Map();
     }
+
+    const { records, discarded } = this.journal.replay({ fromBackup });
+    for (const record of records) {
+      if (record.op === 'set') {
+        const entry = this.restore(record.entry, unreadable);
+        if (entry) this.entries.set(record.entry.id, entry);
+      } else {
+        this.entries.delete(record.id);
+      }
+    }
+
+    this.logger.info('Vector cache loaded from disk', {
+      entries: this.entries.size,
+      requests: this.metrics.total_requests,
+      journal_replayed: records.length,
+      journal_discarded: discarded
+    });
+    if (unreadable.count > 0) {
+      this.logger.warn('Encrypted vector entries skipped: no matching encryption key', { skipped: unreadable.count });
+    }
+  }
+
+  /**
+   * Removes every entry matching the predicate and returns the removed entries
+   */
+  async removeWhere(predicate: (entry: VectorCacheEntry) => boolean, dryRun: boolean = false): Promise<VectorCacheEntry[]> {
+    await this.ensureInitialized();
+
+    const matched = Array.from(this.entries.values()).filter(predicate);
+    if (dryRun || matched.length === 0) return matched;
+
+    for (const entry of matched) {
+      this.entries.delete(entry.id);
+      this.index.remove(entry.id);
+      this.journalWrite({ op: 'delete', id: entry.id });
+    }
+
+    if (this.options.enablePersistence) {
+      await this.saveToDisk();
+    }
+
+    this.logger.info('Vector cache entries invalidated', { removed: matched.length });
+    return matched;
+  }
+
+  /**
+   * Applies an in-place change to every matching entry and persists it
+   */
+  async updateWhere(
+    predicate: (entry: VectorCacheEntry) => boolean,
+    update: (entry: VectorCacheEntry) => void
+  ): Promise<VectorCacheEntry[]> {
+    await this.ensureInitialized();
+
+    const matched = Array.from(this.entries.values()).filter(predicate);
+    if (matched.length === 0) return matched;
+
+    for (const entry of matched) {
+      update(entry);
+      this.journalWrite({ op: 'set', entry: this.toPersisted(entry) });
+    }
+
+    if (this.options.enablePersistence) {
+      await this.saveToDisk();
+    }
+    return matched;
+  }
+
+  /**
+   * Entries rated below the quality floor stay stored but are not returned
+   */
+  private isServable(entry: VectorCacheEntry): boolean {
+    return entry.metadata.quality_score === undefined || entry.metadata.quality_score >= this.options.minQualityScore;
+  }
+
+  /**
+   * Whether an entry's vector was produced by the active embedding model
+   */
+  private isCurrentEmbedding(entry: VectorCacheEntry): boolean {
+    return entry.metadata.embedding_model === this.embeddingProvider.name &&
+      entry.embedding.length === this.embeddingProvider.dimensions;
+  }
+
+  private countStaleEntries(): number {
+    let stale = 0;
+    for (const entry of this.entries.values()) {
+      if (!this.isCurrentEmbedding(entry)) stale++;
+    }
+    return stale;
+  }
+
+  /**
+   * Warns when stored vectors come from another model or dimension count.
+   * Stale entries keep serving literal hits but are left out of the ANN index
+   * until reindexed.
+   */
+  private checkEmbeddingCompatibility(): void {
+    const stale = this.countStaleEntries();
+    const persisted = this.persistedEmbedding;
+    const mismatch = persisted !== null && (
+      persisted.model !== this.embeddingProvider.name ||
+      persisted.dimensions !== this.embeddingProvider.dimensions
+    );
+
+    if (stale > 0 || mismatch) {
+      this.logger.warn('Stored embeddings do not match the active model; run reindex_vector_cache', {
+        persisted,
+        active: { model: this.embeddingProvider.name, dimensions: this.embeddingProvider.dimensions },
+        stale_entries: stale,
+        degraded: this.embeddingDegraded
+      });
+    }
+  }
+
+  /**
+   * Embedding model state and reindex progress
+   */
+  getEmbeddingStatus(): EmbeddingStatus {
+    return {
+      model: this.embeddingProvider.name,
+      dimensions: this.embeddingProvider.dimensions,
+      persisted: this.persistedEmbedding,
+      degraded: this.embeddingDegraded,
+      stale_entries: this.countStaleEntries(),
+      reindex: { ...this.reindexStatus }
+    };
+  }
+
+  /**
+   * Starts re-embedding entries with the active model in background batches.
+   * Only stale entries are processed unless force is set. Returns immediately;
+   * poll getEmbeddingStatus() for progress.
+   */
+  async startReindex(options: { batchSize?: number; force?: boolean } = {}): Promise<ReindexStatus> {
+    await this.ensureInitialized();
+
+    if (this.reindexStatus.state === 'running') {
+      return { ...this.reindexStatus };
+    }
+
+    if (this.embeddingDegraded && !options.force) {
+      throw new Error(
+        `Embedding model ${this.options.embeddingModel} is unavailable; ` +
+        `refusing to re-embed with the ${this.embeddingProvider.name} fallback (use force to override)`
+      );
+    }
+
+    const ids = Array.from(this.entries.values())
+      .filter(entry => options.force || !this.isCurrentEmbedding(entry))
+      .map(entry => entry.id);
+
+    this.reindexStatus = {
+      ...this.idleReindexStatus(),
+      state: 'running',
+      total: ids.length,
+      started_at: Date.now()
+    };
+
+    this.runReindex(ids, Math.max(1, options.batchSize || 32)).catch(error => {
+      this.reindexStatus.state = 'failed';
+      this.reindexStatus.error = error instanceof Error ? error.message : String(error);
+      this.reindexStatus.finished_at = Date.now();
+      this.logger.error('Vector cache reindex failed', { error });
+    });
+
+    return { ...this.reindexStatus };
+  }
+
+  private async runReindex(ids: string[], batchSize: number): Promise<void> {
+    const status = this.reindexStatus;
+    this.logger.info('Vector cache reindex started', { entries: ids.length, model: status.target_model });
+
+    for (let offset = 0; offset < ids.length; offset += batchSize) {
+      const slice = ids.slice(offset, offset + batchSize);
+      // Entries may have been evicted since the reindex started
+      const batch = slice
+        .map(id => this.entries.get(id))
+        .filter((entry): entry is VectorCacheEntry => !!entry);
+
+      try {
+        const vectors = await this.embeddingProvider.embed(batch.map(entry => entry.normalizedPrompt));
+        batch.forEach((entry, i) => {
+          entry.embedding = vectors[i];
+          entry.metadata.embedding_model = this.embeddingProvider.name;
+          if (this.entries.has(entry.id)) {
+            this.index.add(entry.id, vectors[i]);
+          }
+        });
+      } catch (error) {
+        status.failed += batch.length;
+        this.logger.warn('Reindex batch failed', {
+          offset,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      status.processed += slice.length;
+      if ((offset / batchSize) % 10 === 0) {
+        this.logger.info('Vector cache reindex progress', { processed: status.processed, total: status.total });
+      }
+
+      // Keep serving lookups between batches
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    status.state = status.total > 0 && status.failed === status.total ? 'failed' : 'completed';
+    status.finished_at = Date.now();
+
+    if (this.options.enablePersistence) {
+      await this.saveToDisk();
+    }
+
+    this.logger.info('Vector cache reindex finished', {
+      state: status.state,
+      processed: status.processed,
+      failed: status.failed,
+      duration_ms: status.finished_at - (status.started_at || status.finished_at)
+    });
+  }
+
+  private idleReindexStatus(): ReindexStatus {
+    return {
+      state: 'idle',
+      target_model: this.embeddingProvider.name,
+      target_dimensions: this.embeddingProvider.dimensions,
+      total: 0,
+      processed: 0,
+      failed: 0
+    };
+  }
+
+  /**
+   * Builds the ANN index, restoring the persisted HNSW graph when it still
+   * matches the loaded entries and rebuilding it otherwise
+   */
+  private async loadIndex(): Promise<void> {
+    const indexable = (entry: VectorCacheEntry) => this.isCurrentEmbedding(entry);
+
+    let index = await VectorIndexFactory.create(this.embeddingProvider.dimensions, {
+      useFaiss: this.options.useFaiss
+    });
+
+    if (index instanceof HNSWIndex && this.options.enablePersistence) {
+      try {
+        const saved = (await this.indexSnapshot.read())?.data;
+        if (!saved) throw new Error('no saved graph');
+
+        const restored = HNSWIndex.restore(saved, id => {
+          const entry = this.entries.get(id);
+          return entry && indexable(entry) ? entry.embedding : undefined;
+        });
+        if (restored) {
+          index = restored;
+        } else {
+          this.logger.warn('Persisted vector index is stale, rebuilding');
+        }
+      } catch (error) {
+        // No saved graph yet
+      }
+    }
+
+    // Entries stored after the graph was last saved
+    for (const entry of this.entries.values()) {
+      if (indexable(entry) && !index.has(entry.id)) {
+        index.add(entry.id, entry.embedding);
+      }
+    }
+
+    this.index = index;
   }
 
   /**
@@ -576,17 +989,134 @@ export class VectorCache {
       entries,
       stats: this.getStats(),
       embeddings: {
-        model: this.embeddingGenerator.getModelName(),
-        dimensions: this.embeddingGenerator.getDimensions()
+        model: this.embeddingProvider.name,
+        dimensions: this.embeddingProvider.dimensions
       }
     };
   }
 
+  /**
+   * Entries matching the predicate in portable form, prompts and responses in clear
+   */
+  async exportEntries(predicate: (entry: VectorCacheEntry) => boolean = () => true): Promise<PortableVectorEntry[]> {
+    await this.ensureInitialized();
+
+    return Array.from(this.entries.values()).filter(predicate).map(entry => ({
+      prompt: entry.originalPrompt,
+      response: entry.response,
+      tokens: entry.tokens,
+      hits: entry.hits,
+      created_at: entry.created_at,
+      metadata: { ...entry.metadata },
+      embedding: {
+        encoding: this.options.embeddingEncoding,
+        data: encodeEmbedding(entry.embedding, this.options.embeddingEncoding)
+      }
+    }));
+  }
+
+  /**
+   * Stores exported entries. An entry already cached for the same prompt and
+   * model is replaced only when replace() says so. Embeddings from another
+   * model, or missing ones, are recomputed in batches.
+   */
+  async importEntries(
+    incoming: PortableVectorEntry[],
+    replace: (existing: VectorCacheEntry, entry: PortableVectorEntry) => boolean,
+    batchSize: number = 32
+  ): Promise<{ imported: number; skipped: number }> {
+    await this.ensureInitialized();
+
+    const accepted: Array<{ id: string; normalizedPrompt: string; entry: PortableVectorEntry }> = [];
+    let skipped = 0;
+    for (const entry of incoming) {
+      const normalizedPrompt = this.normalizePrompt(entry.prompt);
+      const id = this.generateId(normalizedPrompt, entry.metadata.model);
+      const existing = this.entries.get(id);
+      if (existing && !replace(existing, entry)) {
+        skipped++;
+      } else {
+        accepted.push({ id, normalizedPrompt, entry });
+      }
+    }
+
+    const now = Date.now();
+    for (let offset = 0; offset < accepted.length; offset += batchSize) {
+      const batch = accepted.slice(offset, offset + batchSize);
+      const vectors = batch.map(({ entry }) => this.reusableEmbedding(entry));
+      const missing = batch.filter((_, i) => !vectors[i]);
+      const embedded = missing.length > 0
+        ? await this.embeddingProvider.embed(missing.map(item => item.normalizedPrompt))
+        : [];
+
+      let next = 0;
+      batch.forEach(({ id, normalizedPrompt, entry }, i) => {
+        const embedding = vectors[i] || embedded[next++];
+        const stored: VectorCacheEntry = {
+          id,
+          originalPrompt: entry.prompt,
+          normalizedPrompt,
+          embedding,
+          response: entry.response,
+          tokens: entry.tokens,
+          hits: entry.hits,
+          created_at: entry.created_at,
+          last_accessed: now,
+          metadata: { ...entry.metadata, embedding_model: this.embeddingProvider.name }
+        };
+
+        this.entries.set(id, stored);
+        this.index.add(id, embedding);
+        this.options.evictionPolicy.recordAccess(id);
+        this.journalWrite({ op: 'set', entry: this.toPersisted(stored) });
+      });
+    }
+
+    if (this.entries.size > this.options.maxEntries) {
+      await this.cleanup();
+    }
+    if (this.options.enablePersistence && accepted.length > 0) {
+      await this.saveToDisk();
+    }
+
+    this.logger.info('Vector cache entries imported', { imported: accepted.length, skipped });
+    return { imported: accepted.length, skipped };
+  }
+
+  /**
+   * The entry's own vector, when it was produced by the active embedding model
+   */
+  private reusableEmbedding(entry: PortableVectorEntry): number[] | null {
+    if (!entry.embedding || entry.metadata.embedding_model !== this.embeddingProvider.name) return null;
+
+    const vector = decodeEmbedding(entry.embedding.data, entry.embedding.encoding);
+    return vector.length === this.embeddingProvider.dimensions ? vector : null;
+  }
+
+  /**
+   * Rewrites the cache file with the current encryption key. Entries are held
+   * decrypted in memory, so this is two snapshots: the second also replaces the
+   * backup, which would otherwise keep the previous key's (or plaintext) data.
+   */
+  async reencrypt(): Promise<{ key_id: string; reencrypted: number }> {
+    await this.ensureInitialized();
+    if (!this.options.cipher) {
+      throw new Error('No encryption key configured');
+    }
+
+    if (this.options.enablePersistence) {
+      await this.saveToDisk();
+      await this.saveToDisk();
+    }
+    return { key_id: this.options.cipher.currentKeyId, reencrypted: this.entries.size };
+  }
+
   /**
    * Clear all cache
    */
   async clear(): Promise<void> {
     this.entries.clear();
+    this.index.clear();
     this.metrics = {
       literal_hits: 0,
       vector_hits: 0,
@@ -596,11 +1126,9 @@ export class VectorCache {
     };
     
     if (this.options.enablePersistence) {
-      try {
-        await fs.unlink(this.persistenceFile);
-      } catch (error) {
-        // File might not exist
-      }
+      await this.snapshot.remove();
+      await this.indexSnapshot.remove();
+      this.journal.remove();
     }
   }
 }
\ No newline at end of file
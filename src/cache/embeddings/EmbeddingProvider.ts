@@ -0,0 +1,29 @@
+/**
+ * Embedding provider abstraction used by VectorCache
+ */
+export interface EmbeddingProvider {
+  /** Model identifier recorded on every entry embedded with this provider */
+  readonly name: string;
+  /** Vector length; only reliable after initialize() */
+  readonly dimensions: number;
+  initialize(): Promise<void>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderOptions {
+  /** Directory holding local transformers.js models (no downloads are attempted) */
+  localModelPath?: string;
+  /** Base URL of an OpenAI-compatible API exposing /embeddings */
+  baseURL?: string;
+  apiKey?: string;
+  /** Vector length for the hash provider, or requested length for remote models */
+  dimensions?: number;
+}
+
+/**
+ * L2-normalizes a vector so cosine similarity reduces to a dot product
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return magnitude > 0 ? vector.map(val => val / magnitude) : vector;
+}
@@ -0,0 +1,70 @@
+import { EmbeddingProvider, EmbeddingProviderOptions } from './EmbeddingProvider.js';
+import { HashEmbeddingProvider } from './HashEmbeddingProvider.js';
+import { TransformersEmbeddingProvider } from './TransformersEmbeddingProvider.js';
+import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider.js';
+import { HuggingFaceEmbeddingProvider } from './HuggingFaceEmbeddingProvider.js';
+import { Logger } from '../../utils/Logger.js';
+
+/**
+ * Chooses an embedding provider from VectorCacheOptions.embeddingModel:
+ * - "local-advanced" / "hash" / "local-*"  -> feature-hash fallback
+ * - "openai:<model>" or "text-embedding-*" -> OpenAI-compatible /embeddings
+ * - "hf:<model>"                           -> Hugging Face Inference API
+ * - "transformers:<model>" or "org/model"  -> local transformers.js model
+ */
+export class EmbeddingProviderFactory {
+  private static logger = new Logger('EmbeddingProviderFactory');
+
+  static create(model: string, options: EmbeddingProviderOptions = {}): EmbeddingProvider {
+    const dimensions = options.dimensions || 384;
+
+    if (!model || model === 'hash' || model.startsWith('local-')) {
+      return new HashEmbeddingProvider(dimensions, model || 'local-advanced');
+    }
+
+    if (model.startsWith('openai:')) {
+      return new OpenAIEmbeddingProvider(model.slice('openai:'.length), options);
+    }
+    if (/^text-embedding/.test(model)) {
+      return new OpenAIEmbeddingProvider(model, options);
+    }
+
+    if (model.startsWith('hf:')) {
+      return new HuggingFaceEmbeddingProvider(model.slice('hf:'.length), options.apiKey);
+    }
+
+    if (model.startsWith('transformers:')) {
+      return new TransformersEmbeddingProvider(model.slice('transformers:'.length), options.localModelPath);
+    }
+    if (model.includes('/')) {
+      return new TransformersEmbeddingProvider(model, options.localModelPath);
+    }
+
+    // Bare names (e.g. "nomic-embed-text") only make sense against a configured endpoint
+    if (options.baseURL || process.env.EMBEDDINGS_BASE_URL) {
+      return new OpenAIEmbeddingProvider(model, options);
+    }
+
+    this.logger.warn('Unknown embedding model, using hash embeddings', { model });
+    return new HashEmbeddingProvider(dimensions);
+  }
+
+  /**
+   * Initializes a provider, falling back to hash embeddings when the model
+   * cannot be loaded or the endpoint is unreachable
+   */
+  static async initialize(provider: EmbeddingProvider, options: EmbeddingProviderOptions = {}): Promise<EmbeddingProvider> {
+    try {
+      await provider.initialize();
+      return provider;
+    } catch (error) {
+      this.logger.warn('Embedding provider unavailable, falling back to hash embeddings', {
+        model: provider.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      const fallback = new HashEmbeddingProvider(options.dimensions || 384);
+      await fallback.initialize();
+      return fallback;
+    }
+  }
+}
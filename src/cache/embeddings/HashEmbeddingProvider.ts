@@ -0,0 +1,119 @@
+import { EmbeddingProvider, normalizeVector } from './EmbeddingProvider.js';
+
+/**
+ * Feature-hash embeddings computed locally (content flags, character bigrams,
+ * word frequencies). Needs no model files, but only near-duplicates score high,
+ * so it is used as the fallback when no real embedding model is available.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 384, name: string = 'local-advanced') {
+    this.dimensions = dimensions;
+    this.name = name;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.generate(text));
+  }
+
+  /**
+   * Generate embedding using local algorithms
+   */
+  generate(text: string): number[] {
+    const normalized = text.toLowerCase().trim();
+    const words = normalized.split(/\s+/);
+    const chars = normalized.split('');
+    
+    const embedding = new Array(this.dimensions).fill(0);
+    
+    // Advanced features based on content
+    const features = {
+      // Length features
+      length: Math.min(normalized.length / 1000, 1),
+      wordCount: Math.min(words.length / 100, 1),
+      avgWordLength: Math.min((normalized.length / Math.max(words.length, 1)) / 10, 1),
+      
+      // Content type features
+      hasCode: /```|function|class|import|def |const |let |var |=>|async|await/.test(normalized) ? 1 : 0,
+      hasQuestion: /\?|como|what|how|why|quando|onde|explain|describe/.test(normalized) ? 1 : 0,
+      hasNumbers: /\d+/.test(normalized) ? 1 : 0,
+      
+      // Domain features
+      isTechnical: /api|endpoint|database|server|client|framework|library|package|module/.test(normalized) ? 1 : 0,
+      isAnalysis: /analis|explica|descreva|compare|avalie|review|optimize|debug/.test(normalized) ? 1 : 0,
+      isCreation: /crie|gere|implemente|desenvolva|construa|build|create|generate/.test(normalized) ? 1 : 0,
+      
+      // Language features
+      isEnglish: /\b(the|and|or|but|with|for|from|this|that)\b/.test(normalized) ? 1 : 0,
+      isPortuguese: /\b(de|do|da|para|com|sem|este|esta|aquele|aquela)\b/.test(normalized) ? 1 : 0,
+      
+      // Complexity features
+      hasComplexWords: /\w{10,}/.test(normalized) ? 1 : 0,
+      sentenceComplexity: Math.min(words.length / 20, 1),
+      
+      // Context features
+      isCodeReview: /code|review|pr|pull|request|merge|commit|branch/.test(normalized) ? 1 : 0,
+      isArchitecture: /architecture|design|pattern|structure|system/.test(normalized) ? 1 : 0,
+    };
+
+    // Distribute features across dimensions
+    let idx = 0;
+    for (const [key, value] of Object.entries(features)) {
+      if (idx < this.dimensions) {
+        embedding[idx] = value;
+        idx++;
+      }
+    }
+
+    // Character n-gram features
+    for (let i = 0; i < Math.min(chars.length - 1, this.dimensions - idx); i++) {
+      const bigram = chars[i] + chars[i + 1];
+      const hash = this.hashString(bigram);
+      embedding[idx + i] = (hash % 100) / 100;
+    }
+
+    // Word frequency features
+    const wordFreq: Record<string, number> = {};
+    words.forEach(word => {
+      if (word.length > 2) {
+        wordFreq[word] = (wordFreq[word] || 0) + 1;
+      }
+    });
+
+    const topWords = Object.entries(wordFreq)
+      .sort(([,a], [,b]) => b - a)
+      .slice(0, Math.min(30, this.dimensions - idx - (chars.length - 1)));
+
+    let wordIdx = idx + Math.min(chars.length - 1, this.dimensions - idx);
+    topWords.forEach(([word, freq]) => {
+      if (wordIdx < this.dimensions) {
+        const hash = this.hashString(word);
+        embedding[wordIdx] = Math.min(freq / words.length, 1) * ((hash % 100) / 100);
+        wordIdx++;
+      }
+    });
+
+    // Add positional encoding
+    for (let i = 0; i < Math.min(50, this.dimensions); i++) {
+      embedding[i] += Math.sin(i / 10000) * 0.1;
+    }
+
+    return normalizeVector(embedding);
+  }
+
+  private hashString(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & 0x7fffffff; // Convert to 32-bit integer
+    }
+    return Math.abs(hash);
+  }
+}
@@ -0,0 +1,43 @@
+import { EmbeddingProvider, normalizeVector } from './EmbeddingProvider.js';
+import { InferenceClient } from '@huggingface/inference';
+
+/**
+ * Embeddings from the Hugging Face Inference API (feature-extraction task)
+ */
+export class HuggingFaceEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private _dimensions: number = 0;
+  private client: InferenceClient;
+
+  constructor(model: string, apiKey?: string) {
+    this.name = model;
+    this.client = new InferenceClient(apiKey || process.env.HF_TOKEN || process.env.HUGGINGFACE_API_KEY);
+  }
+
+  get dimensions(): number {
+    return this._dimensions;
+  }
+
+  async initialize(): Promise<void> {
+    if (this._dimensions) return;
+    const [probe] = await this.embed(['dimension probe']);
+    this._dimensions = probe.length;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const output = await this.client.featureExtraction({ model: this.name, inputs: texts });
+
+    return (output as Array<number[] | number[][]>).map(item => {
+      // Models without pooling return one vector per token: mean pool them
+      if (Array.isArray(item[0])) {
+        const tokens = item as number[][];
+        const pooled = new Array(tokens[0].length).fill(0);
+        for (const token of tokens) {
+          token.forEach((value, i) => { pooled[i] += value / tokens.length; });
+        }
+        return normalizeVector(pooled);
+      }
+      return normalizeVector(item as number[]);
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { EmbeddingProvider, normalizeVector } from './EmbeddingProvider.js';
+import OpenAI from 'openai';
+
+/**
+ * Embeddings from any OpenAI-compatible /embeddings endpoint
+ * (OpenAI, Ollama, LM Studio, vLLM, text-embeddings-inference)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private _dimensions: number = 0;
+  private client: OpenAI;
+  private requestedDimensions?: number;
+
+  constructor(model: string, options: { baseURL?: string; apiKey?: string; dimensions?: number } = {}) {
+    this.name = model;
+    this.requestedDimensions = options.dimensions;
+    this.client = new OpenAI({
+      baseURL: options.baseURL || process.env.EMBEDDINGS_BASE_URL || process.env.OPENAI_BASE_URL,
+      apiKey: options.apiKey || process.env.EMBEDDINGS_API_KEY || process.env.OPENAI_API_KEY || 'not-needed'
+    });
+  }
+
+  get dimensions(): number {
+    return this._dimensions;
+  }
+
+  async initialize(): Promise<void> {
+    if (this._dimensions) return;
+    const [probe] = await this.embed(['dimension probe']);
+    this._dimensions = probe.length;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.name,
+      input: texts,
+      ...(this.requestedDimensions ? { dimensions: this.requestedDimensions } : {})
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector(item.embedding));
+  }
+}
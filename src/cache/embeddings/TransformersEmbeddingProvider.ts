@@ -0,0 +1,54 @@
+import { EmbeddingProvider } from './EmbeddingProvider.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Sentence embeddings computed in-process with transformers.js
+ * (e.g. Xenova/all-MiniLM-L6-v2, mean pooled and normalized).
+ * Models are only read from localModelPath; remote downloads are disabled so
+ * the server never blocks on the network.
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private _dimensions: number = 0;
+  private extractor: any = null;
+  private readonly localModelPath: string;
+
+  constructor(model: string, localModelPath?: string) {
+    this.name = model;
+    this.localModelPath = localModelPath
+      || process.env.TRANSFORMERS_MODEL_DIR
+      || path.join(process.cwd(), 'models');
+  }
+
+  get dimensions(): number {
+    return this._dimensions;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.extractor) return;
+
+    const modelDir = path.join(this.localModelPath, this.name);
+    if (!fs.existsSync(modelDir)) {
+      throw new Error(`Embedding model not found at ${modelDir}`);
+    }
+
+    const { pipeline, env } = await import('@xenova/transformers');
+    env.allowRemoteModels = false;
+    env.allowLocalModels = true;
+    env.localModelPath = this.localModelPath;
+
+    this.extractor = await pipeline('feature-extraction', this.name, { quantized: true });
+    const [probe] = await this.embed(['dimension probe']);
+    this._dimensions = probe.length;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.extractor) {
+      throw new Error(`Embedding model ${this.name} is not initialized`);
+    }
+
+    const output = await this.extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+}
@@ -0,0 +1,48 @@
+import { EvictionCandidate, EvictionPolicy } from './EvictionPolicy.js';
+
+/** USD it would cost to generate this many tokens with the model again */
+export type CostFunction = (model: string | undefined, tokens: number) => number;
+
+export interface CostAwareOptions {
+  costOf: CostFunction;
+  /** Hits lose half their weight for every this many ms without access (default 24h) */
+  halfLifeMs?: number;
+}
+
+/**
+ * Evicts the entries expected to save the least money per byte stored: the
+ * cost of regenerating the response times its recency-decayed hit count,
+ * divided by its size. Under a fixed memory budget this keeps large cheap
+ * answers from crowding out small expensive ones.
+ */
+export class CostAwarePolicy implements EvictionPolicy {
+  readonly name = 'cost-aware' as const;
+
+  private costOf: CostFunction;
+  private halfLifeMs: number;
+
+  constructor(options: CostAwareOptions) {
+    this.costOf = options.costOf;
+    this.halfLifeMs = options.halfLifeMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  recordAccess(): void {
+    // Hits and recency are stored with the entries
+  }
+
+  /**
+   * Expected dollars saved per byte
+   */
+  score(candidate: EvictionCandidate, now: number): number {
+    const idle = Math.max(0, now - candidate.last_accessed);
+    const hits = Math.max(1, candidate.hits) * Math.pow(0.5, idle / this.halfLifeMs);
+    return this.costOf(candidate.model, candidate.tokens) * hits / Math.max(1, candidate.size);
+  }
+
+  rank(candidates: EvictionCandidate[], now: number): EvictionCandidate[] {
+    return candidates
+      .map(candidate => ({ candidate, score: this.score(candidate, now) }))
+      .sort((a, b) => a.score - b.score || a.candidate.last_accessed - b.candidate.last_accessed)
+      .map(({ candidate }) => candidate);
+  }
+}
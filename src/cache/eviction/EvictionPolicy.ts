@@ -0,0 +1,60 @@
+export type EvictionPolicyName = 'lru' | 'lfu' | 'tinylfu' | 'cost-aware';
+
+export const EVICTION_POLICIES: readonly EvictionPolicyName[] = ['lru', 'lfu', 'tinylfu', 'cost-aware'];
+
+/**
+ * What a policy knows about a stored entry
+ */
+export interface EvictionCandidate {
+  key: string;
+  /** Bytes the entry occupies in its store */
+  size: number;
+  tokens: number;
+  hits: number;
+  created_at: number;
+  last_accessed: number;
+  model?: string;
+}
+
+export interface EvictionStats {
+  policy: EvictionPolicyName;
+  evicted: number;
+  freed_mb: number;
+  last_run?: number;
+}
+
+/**
+ * Decides which entries a store gives up first when it is over its limit.
+ * Stores report accesses as they happen and hand the policy their candidates
+ * when cleaning up.
+ */
+export interface EvictionPolicy {
+  readonly name: EvictionPolicyName;
+  /** Called on every write and every hit of a key */
+  recordAccess(key: string): void;
+  /**
+   * Returns the candidates ordered first-to-evict first
+   */
+  rank(candidates: EvictionCandidate[], now: number): EvictionCandidate[];
+}
+
+/**
+ * Takes candidates in policy order until the byte and count targets are both met
+ */
+export function selectVictims(
+  policy: EvictionPolicy,
+  candidates: EvictionCandidate[],
+  target: { bytes?: number; count?: number },
+  now: number = Date.now()
+): EvictionCandidate[] {
+  const victims: EvictionCandidate[] = [];
+  let bytes = 0;
+
+  for (const candidate of policy.rank(candidates, now)) {
+    if (bytes >= (target.bytes ?? 0) && victims.length >= (target.count ?? 0)) break;
+    victims.push(candidate);
+    bytes += candidate.size;
+  }
+
+  return victims;
+}
@@ -0,0 +1,35 @@
+import { EVICTION_POLICIES, EvictionPolicy, EvictionPolicyName } from './EvictionPolicy.js';
+import { LRUPolicy } from './LRUPolicy.js';
+import { LFUPolicy } from './LFUPolicy.js';
+import { TinyLFUPolicy, TinyLFUOptions } from './TinyLFUPolicy.js';
+import { CostAwarePolicy, CostFunction } from './CostAwarePolicy.js';
+
+export interface EvictionPolicyOptions {
+  /** Required by cost-aware */
+  costOf?: CostFunction;
+  tinyLfu?: TinyLFUOptions;
+}
+
+/**
+ * Creates eviction policies by name. Each store needs its own instance,
+ * since policies may track accesses.
+ */
+export class EvictionPolicyFactory {
+  static create(name: string, options: EvictionPolicyOptions = {}): EvictionPolicy {
+    switch (name as EvictionPolicyName) {
+      case 'lru':
+        return new LRUPolicy();
+      case 'lfu':
+        return new LFUPolicy();
+      case 'tinylfu':
+        return new TinyLFUPolicy(options.tinyLfu);
+      case 'cost-aware':
+        if (!options.costOf) {
+          throw new Error('cost-aware eviction needs a cost function');
+        }
+        return new CostAwarePolicy({ costOf: options.costOf });
+      default:
+        throw new Error(`Unknown eviction policy: ${name} (expected ${EVICTION_POLICIES.join(', ')})`);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Count-min sketch of access frequencies with 4-bit counters. After a number
+ * of additions proportional to its width every counter is halved, so old
+ * popularity fades and the estimate tracks recent traffic.
+ */
+export class FrequencySketch {
+  private static readonly DEPTH = 4;
+  private static readonly MAX_COUNT = 15;
+  private static readonly SEEDS = [0x9747b28c, 0x85ebca6b, 0xc2b2ae35, 0x27d4eb2f];
+
+  private counters: Uint8Array;
+  private mask: number;
+  private additions = 0;
+  private readonly resetAfter: number;
+
+  constructor(width: number = 4096) {
+    // Power of two so a mask replaces the modulo
+    const size = 1 << Math.ceil(Math.log2(Math.max(16, width)));
+    this.counters = new Uint8Array(size * FrequencySketch.DEPTH);
+    this.mask = size - 1;
+    this.resetAfter = size * 10;
+  }
+
+  increment(key: string): void {
+    let added = false;
+    for (let row = 0; row < FrequencySketch.DEPTH; row++) {
+      const index = this.indexOf(key, row);
+      if (this.counters[index] < FrequencySketch.MAX_COUNT) {
+        this.counters[index]++;
+        added = true;
+      }
+    }
+
+    if (added && ++this.additions >= this.resetAfter) {
+      this.age();
+    }
+  }
+
+  estimate(key: string): number {
+    let min = FrequencySketch.MAX_COUNT;
+    for (let row = 0; row < FrequencySketch.DEPTH; row++) {
+      min = Math.min(min, this.counters[this.indexOf(key, row)]);
+    }
+    return min;
+  }
+
+  private age(): void {
+    for (let i = 0; i < this.counters.length; i++) {
+      this.counters[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  private indexOf(key: string, row: number): number {
+    // FNV-1a, seeded per row
+    let hash = FrequencySketch.SEEDS[row] ^ 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return row * (this.mask + 1) + ((hash >>> 0) & this.mask);
+  }
+}
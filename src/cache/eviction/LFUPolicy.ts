@@ -0,0 +1,16 @@
+import { EvictionCandidate, EvictionPolicy } from './EvictionPolicy.js';
+
+/**
+ * Fewest hits first, least recently used among equals
+ */
+export class LFUPolicy implements EvictionPolicy {
+  readonly name = 'lfu' as const;
+
+  recordAccess(): void {
+    // Frequency comes from the hit counts stored with the entries
+  }
+
+  rank(candidates: EvictionCandidate[]): EvictionCandidate[] {
+    return [...candidates].sort((a, b) => a.hits - b.hits || a.last_accessed - b.last_accessed);
+  }
+}
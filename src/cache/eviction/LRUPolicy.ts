@@ -0,0 +1,16 @@
+import { EvictionCandidate, EvictionPolicy } from './EvictionPolicy.js';
+
+/**
+ * Least recently used first
+ */
+export class LRUPolicy implements EvictionPolicy {
+  readonly name = 'lru' as const;
+
+  recordAccess(): void {
+    // Recency comes from last_accessed on the entries themselves
+  }
+
+  rank(candidates: EvictionCandidate[]): EvictionCandidate[] {
+    return [...candidates].sort((a, b) => a.last_accessed - b.last_accessed);
+  }
+}
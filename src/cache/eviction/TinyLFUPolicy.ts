@@ -0,0 +1,49 @@
+import { EvictionCandidate, EvictionPolicy } from './EvictionPolicy.js';
+import { FrequencySketch } from './FrequencySketch.js';
+
+export interface TinyLFUOptions {
+  /** Share of entries, most recently used, kept in the admission window (default 0.01) */
+  windowRatio?: number;
+  /** Counters per sketch row; roughly the number of entries tracked (default 4096) */
+  sketchWidth?: number;
+}
+
+/**
+ * Cleanup-time form of W-TinyLFU. The most recently used entries form a small
+ * window that is evicted last, giving new entries a chance to prove
+ * themselves; everything else is evicted by estimated recent frequency, so a
+ * burst of one-off entries cannot flush out the ones that keep being hit.
+ * Frequencies live in memory and start over when the process restarts.
+ */
+export class TinyLFUPolicy implements EvictionPolicy {
+  readonly name = 'tinylfu' as const;
+
+  private sketch: FrequencySketch;
+  private windowRatio: number;
+
+  constructor(options: TinyLFUOptions = {}) {
+    this.windowRatio = options.windowRatio ?? 0.01;
+    this.sketch = new FrequencySketch(options.sketchWidth);
+  }
+
+  recordAccess(key: string): void {
+    this.sketch.increment(key);
+  }
+
+  frequency(key: string): number {
+    return this.sketch.estimate(key);
+  }
+
+  rank(candidates: EvictionCandidate[]): EvictionCandidate[] {
+    const byRecency = [...candidates].sort((a, b) => b.last_accessed - a.last_accessed);
+    const windowSize = Math.ceil(candidates.length * this.windowRatio);
+
+    const window = byRecency.slice(0, windowSize).reverse();
+    const main = byRecency.slice(windowSize)
+      .map(candidate => ({ candidate, frequency: this.sketch.estimate(candidate.key) }))
+      .sort((a, b) => a.frequency - b.frequency || a.candidate.last_accessed - b.candidate.last_accessed)
+      .map(({ candidate }) => candidate);
+
+    return [...main, ...window];
+  }
+}
@@ -0,0 +1,96 @@
+import { VectorIndex, VectorSearchResult, toUnitVector } from './VectorIndex.js';
+
+/**
+ * Exact inner-product search on faiss-node's SIMD IndexFlatIP.
+ * faiss compacts positions on removeIds, so removals are batched: they are
+ * hidden from results immediately and purged once they pile up.
+ */
+export class FaissIndex implements VectorIndex {
+  readonly name = 'faiss-flat-ip';
+
+  private index: any;
+  private labels: string[] = [];
+  private positions: Map<string, number> = new Map();
+  private removed: Set<number> = new Set();
+
+  constructor(private readonly faiss: any, private readonly dimensions: number) {
+    this.index = new faiss.IndexFlatIP(dimensions);
+  }
+
+  get size(): number {
+    return this.positions.size;
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    if (this.positions.has(id)) {
+      this.remove(id);
+    }
+
+    this.index.add(Array.from(toUnitVector(vector)));
+    this.positions.set(id, this.labels.length);
+    this.labels.push(id);
+  }
+
+  remove(id: string): boolean {
+    const position = this.positions.get(id);
+    if (position === undefined) return false;
+
+    this.positions.delete(id);
+    this.removed.add(position);
+
+    if (this.removed.size > 256 && this.removed.size > this.labels.length * 0.1) {
+      this.purge();
+    }
+    return true;
+  }
+
+  search(query: number[], k: number, filter?: (id: string) => boolean): VectorSearchResult[] {
+    const total = this.labels.length;
+    if (total === 0 || k <= 0) return [];
+
+    // Over-fetch so removed and filtered-out vectors do not starve the result
+    let fetch = Math.min(total, (k + this.removed.size) * 4);
+    const vector = Array.from(toUnitVector(query));
+
+    for (;;) {
+      const { distances, labels } = this.index.search(vector, fetch);
+      const results: VectorSearchResult[] = [];
+
+      for (let i = 0; i < labels.length && results.length < k; i++) {
+        const position = labels[i];
+        if (position < 0 || this.removed.has(position)) continue;
+        const id = this.labels[position];
+        if (filter && !filter(id)) continue;
+        results.push({ id, similarity: distances[i] });
+      }
+
+      if (results.length >= k || fetch >= total) return results;
+      fetch = Math.min(total, fetch * 4);
+    }
+  }
+
+  serialize(): null {
+    return null;
+  }
+
+  clear(): void {
+    this.index = new this.faiss.IndexFlatIP(this.dimensions);
+    this.labels = [];
+    this.positions.clear();
+    this.removed.clear();
+  }
+
+  private purge(): void {
+    this.index.removeIds(Array.from(this.removed));
+    this.labels = this.labels.filter((_, position) => !this.removed.has(position));
+    this.removed.clear();
+    this.positions = new Map(this.labels.map((id, position) => [id, position]));
+  }
+}
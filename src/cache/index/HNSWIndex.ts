@@ -0,0 +1,418 @@
+import { VectorIndex, VectorSearchResult, toUnitVector } from './VectorIndex.js';
+
+export interface HNSWOptions {
+  M?: number;
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+export interface SerializedHNSW {
+  version: number;
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<{
+    id: string;
+    level: number;
+    neighbors: number[][];
+    deleted?: boolean;
+    /** Only kept for tombstones, whose entries no longer exist */
+    vector?: number[];
+  }>;
+}
+
+interface HNSWNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+/**
+ * Binary heap ordered by a comparator (top = first in order)
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin) over unit
+ * vectors. Removals leave tombstones that keep routing the graph; the index
+ * is rebuilt once tombstones outnumber live nodes.
+ */
+export class HNSWIndex implements VectorIndex {
+  readonly name = 'hnsw';
+
+  private static readonly FORMAT_VERSION = 1;
+
+  private readonly M: number;
+  private readonly M0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+
+  private nodes: HNSWNode[] = [];
+  private idToNode: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  private visited: Uint32Array = new Uint32Array(0);
+  private visitTag = 0;
+
+  constructor(options: HNSWOptions = {}) {
+    this.M = options.M || 16;
+    this.M0 = this.M * 2;
+    this.efConstruction = options.efConstruction || 100;
+    this.efSearch = options.efSearch || 64;
+    this.levelMultiplier = 1 / Math.log(this.M);
+  }
+
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  add(id: string, vector: number[]): void {
+    if (this.idToNode.has(id)) {
+      this.remove(id);
+    }
+    this.insert(id, toUnitVector(vector));
+  }
+
+  remove(id: string): boolean {
+    const index = this.idToNode.get(id);
+    if (index === undefined) return false;
+
+    this.nodes[index].deleted = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+
+    if (this.deletedCount > 1000 && this.deletedCount > this.idToNode.size) {
+      this.compact();
+    }
+    return true;
+  }
+
+  search(query: number[], k: number, filter?: (id: string) => boolean): VectorSearchResult[] {
+    if (this.entryPoint < 0 || k <= 0) return [];
+
+    const vector = toUnitVector(query);
+    let entry = this.entryPoint;
+    for (let level = this.maxLevel; level > 0; level--) {
+      entry = this.greedySearch(vector, entry, level);
+    }
+
+    const accept = (node: number) =>
+      !this.nodes[node].deleted && (!filter || filter(this.nodes[node].id));
+
+    return this.searchLayer(vector, entry, Math.max(this.efSearch, k), 0, accept)
+      .slice(0, k)
+      .map(candidate => ({ id: this.nodes[candidate.node].id, similarity: candidate.similarity }));
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.idToNode.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+  }
+
+  serialize(): SerializedHNSW {
+    return {
+      version: HNSWIndex.FORMAT_VERSION,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map(node => ({
+        id: node.id,
+        level: node.level,
+        neighbors: node.neighbors,
+        ...(node.deleted ? { deleted: true, vector: Array.from(node.vector) } : {})
+      }))
+    };
+  }
+
+  /**
+   * Restores a serialized graph; live node vectors come from the cache entries.
+   * Returns null when the data is unusable so the caller can rebuild instead.
+   */
+  static restore(data: SerializedHNSW, vectorOf: (id: string) => number[] | undefined): HNSWIndex | null {
+    if (!data || data.version !== HNSWIndex.FORMAT_VERSION || !Array.isArray(data.nodes)) {
+      return null;
+    }
+
+    const index = new HNSWIndex({ M: data.M, efConstruction: data.efConstruction, efSearch: data.efSearch });
+
+    for (const [position, node] of data.nodes.entries()) {
+      let deleted = !!node.deleted;
+      const vector = deleted ? node.vector : vectorOf(node.id);
+
+      if (!vector) {
+        // Entry vanished after the graph was saved
+        return null;
+      }
+      if (!deleted && index.idToNode.has(node.id)) {
+        deleted = true;
+      }
+
+      index.nodes.push({
+        id: node.id,
+        vector: toUnitVector(vector),
+        level: node.level,
+        neighbors: node.neighbors,
+        deleted
+      });
+
+      if (deleted) {
+        index.deletedCount++;
+      } else {
+        index.idToNode.set(node.id, position);
+      }
+    }
+
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    return index;
+  }
+
+  private insert(id: string, vector: Float32Array): void {
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const index = this.nodes.length;
+
+    this.nodes.push({
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    });
+    this.idToNode.set(id, index);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.greedySearch(vector, entry, l);
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, entry, this.efConstruction, l);
+      const maxConnections = l === 0 ? this.M0 : this.M;
+      const selected = this.selectNeighbors(candidates, this.M);
+
+      this.nodes[index].neighbors[l] = selected.map(c => c.node);
+
+      for (const neighbor of selected) {
+        const links = this.nodes[neighbor.node].neighbors[l];
+        links.push(index);
+        if (links.length > maxConnections) {
+          this.pruneConnections(neighbor.node, l, maxConnections);
+        }
+      }
+
+      if (candidates.length > 0) {
+        entry = candidates[0].node;
+      }
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  private greedySearch(vector: Float32Array, entry: number, level: number): number {
+    let current = entry;
+    let best = this.similarity(vector, this.nodes[current].vector);
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[level] || []) {
+        const similarity = this.similarity(vector, this.nodes[neighbor].vector);
+        if (similarity > best) {
+          best = similarity;
+          current = neighbor;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Best-first search within one layer. Every node is traversed, but only nodes
+   * passing accept() enter the result set, so filters never cut the graph.
+   */
+  private searchLayer(
+    vector: Float32Array,
+    entry: number,
+    ef: number,
+    level: number,
+    accept: (node: number) => boolean = () => true
+  ): Candidate[] {
+    const tag = this.nextVisitTag();
+    const candidates = new Heap<Candidate>((a, b) => a.similarity > b.similarity);
+    const results = new Heap<Candidate>((a, b) => a.similarity < b.similarity);
+
+    const start = { node: entry, similarity: this.similarity(vector, this.nodes[entry].vector) };
+    this.visited[entry] = tag;
+    candidates.push(start);
+    if (accept(entry)) results.push(start);
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.similarity < results.peek()!.similarity) break;
+
+      for (const neighbor of this.nodes[current.node].neighbors[level] || []) {
+        if (this.visited[neighbor] === tag) continue;
+        this.visited[neighbor] = tag;
+
+        const similarity = this.similarity(vector, this.nodes[neighbor].vector);
+        if (results.size < ef || similarity > results.peek()!.similarity) {
+          const candidate = { node: neighbor, similarity };
+          candidates.push(candidate);
+          if (accept(neighbor)) {
+            results.push(candidate);
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Neighbour selection heuristic: keeps candidates that are closer to the
+   * base node than to any already selected neighbour, then fills up to M
+   */
+  private selectNeighbors(candidates: Candidate[], M: number): Candidate[] {
+    if (candidates.length <= M) return candidates;
+
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= M) break;
+      const vector = this.nodes[candidate.node].vector;
+      const diverse = selected.every(s => this.similarity(vector, this.nodes[s.node].vector) < candidate.similarity);
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= M) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  private pruneConnections(node: number, level: number, maxConnections: number): void {
+    const vector = this.nodes[node].vector;
+    const candidates = this.nodes[node].neighbors[level]
+      .map(neighbor => ({ node: neighbor, similarity: this.similarity(vector, this.nodes[neighbor].vector) }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    this.nodes[node].neighbors[level] = this.selectNeighbors(candidates, maxConnections).map(c => c.node);
+  }
+
+  /**
+   * Rebuilds the graph from live nodes, dropping tombstones
+   */
+  private compact(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.clear();
+    for (const node of live) {
+      this.insert(node.id, node.vector);
+    }
+  }
+
+  private nextVisitTag(): number {
+    if (this.visited.length < this.nodes.length) {
+      this.visited = new Uint32Array(Math.max(this.nodes.length * 2, 1024));
+      this.visitTag = 0;
+    }
+    this.visitTag++;
+    if (this.visitTag === 0xffffffff) {
+      this.visited.fill(0);
+      this.visitTag = 1;
+    }
+    return this.visitTag;
+  }
+
+  private similarity(a: Float32Array, b: Float32Array): number {
+    if (a.length !== b.length) return -1;
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return dot;
+  }
+}
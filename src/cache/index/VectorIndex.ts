@@ -0,0 +1,35 @@
+/**
+ * Nearest-neighbour index over unit vectors (similarity = cosine)
+ */
+export interface VectorIndex {
+  readonly name: string;
+  readonly size: number;
+  add(id: string, vector: number[]): void;
+  remove(id: string): boolean;
+  has(id: string): boolean;
+  /**
+   * Returns up to k live entries accepted by the filter, most similar first
+   */
+  search(query: number[], k: number, filter?: (id: string) => boolean): VectorSearchResult[];
+  /**
+   * Persistable state, or null when the index is rebuilt from entries on load
+   */
+  serialize(): unknown | null;
+  clear(): void;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  similarity: number;
+}
+
+export function toUnitVector(vector: number[]): Float32Array {
+  const unit = Float32Array.from(vector);
+  let magnitude = 0;
+  for (let i = 0; i < unit.length; i++) magnitude += unit[i] * unit[i];
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let i = 0; i < unit.length; i++) unit[i] /= magnitude;
+  }
+  return unit;
+}
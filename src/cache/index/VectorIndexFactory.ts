@@ -0,0 +1,28 @@
+import { VectorIndex } from './VectorIndex.js';
+import { HNSWIndex, HNSWOptions } from './HNSWIndex.js';
+import { FaissIndex } from './FaissIndex.js';
+import { Logger } from '../../utils/Logger.js';
+
+/**
+ * Creates the ANN index for VectorCache: faiss-node when requested and its
+ * native binding loads, the TypeScript HNSW graph otherwise
+ */
+export class VectorIndexFactory {
+  private static logger = new Logger('VectorIndexFactory');
+
+  static async create(dimensions: number, options: { useFaiss?: boolean; hnsw?: HNSWOptions } = {}): Promise<VectorIndex> {
+    if (options.useFaiss) {
+      try {
+        const module: any = await import('faiss-node');
+        const faiss = module.default ?? module;
+        return new FaissIndex(faiss, dimensions);
+      } catch (error) {
+        this.logger.info('faiss-node unavailable, using HNSW index', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return new HNSWIndex(options.hnsw);
+  }
+}
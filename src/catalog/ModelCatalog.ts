@@ -0,0 +1,349 @@
+import { readFileSync, watch, FSWatcher } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { TokenizerSpec } from '../tokenizers/Tokenizer.js';
+import { Logger } from '../utils/Logger.js';
+
+/**
+ * One price of a model, in catalog currency per 1M tokens. A price applies from
+ * effective_from (inclusive) until effective_until (exclusive) or the next price.
+ */
+export interface CatalogPrice {
+  /** ISO date or timestamp */
+  effective_from: string;
+  effective_until?: string;
+  input_per_1m: number;
+  output_per_1m: number;
+  /** Input tokens served from the provider's prompt cache; defaults to input_per_1m */
+  cached_input_per_1m?: number;
+}
+
+export interface CatalogProvider {
+  name: string;
+  base_url: string;
+  supports_streaming: boolean;
+  supports_caching: boolean;
+  /** Tokenizer of the provider's models; without one the registry's family rules apply */
+  tokenizer?: TokenizerSpec;
+}
+
+export interface CatalogModelEntry {
+  id: string;
+  display_name: string;
+  /** Key in the catalog's providers */
+  provider: string;
+  /** Other names the model is requested by, such as dated snapshots */
+  aliases?: string[];
+  context_window: number;
+  max_output_tokens?: number;
+  /** streaming, tools, vision, prompt-caching, local... */
+  capabilities: string[];
+  /** Benchmark score 1-10 */
+  performance: number;
+  /** 0-1, relative to the best remote model */
+  quality: number;
+  /** Typical latency of a request */
+  latency_ms?: number;
+  /** Task types the model suits */
+  recommended: string[];
+  prices: CatalogPrice[];
+}
+
+export interface ModelCatalogFile {
+  format: 'mcp-model-catalog';
+  version: number;
+  /** Revision of the content, bumped on every price change */
+  revision: string;
+  currency: string;
+  providers: Record<string, CatalogProvider>;
+  models: CatalogModelEntry[];
+}
+
+/** A catalog model with the price in effect at the requested date */
+export interface CatalogModel extends CatalogModelEntry {
+  price: CatalogPrice;
+}
+
+export interface CatalogCost {
+  inputCost: number;
+  outputCost: number;
+  cachedInputCost: number;
+  totalCost: number;
+  /** Start date of the price used */
+  effectiveFrom: string;
+}
+
+/**
+ * Single source of model prices, context windows and capabilities, read from a
+ * versioned JSON file (config/model-catalog.json unless MODEL_CATALOG_FILE says
+ * otherwise). ModelOptimizer, LLMProviderFactory, TokenCostIntegration and
+ * SmartRouter all read the shared instance at call time, so a reload or a price
+ * whose effective date arrives applies without restarting.
+ *
+ * A reload that fails validation is logged and the previous content kept.
+ */
+export class ModelCatalog {
+  static readonly FORMAT = 'mcp-model-catalog';
+  static readonly VERSION = 1;
+  static readonly DEFAULT_FILE = fileURLToPath(new URL('../../config/model-catalog.json', import.meta.url));
+
+  private static sharedCatalog: ModelCatalog | null = null;
+
+  private content!: ModelCatalogFile;
+  /** Model ids and aliases to entries */
+  private byName: Map<string, CatalogModelEntry> = new Map();
+  /** Every effective_from and effective_until, ascending */
+  private priceChanges: number[] = [];
+  private loads = 0;
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private logger: Logger;
+
+  constructor(content: ModelCatalogFile, readonly filePath?: string) {
+    this.logger = new Logger('ModelCatalog');
+    this.apply(content);
+  }
+
+  /**
+   * Catalog shared by every consumer, loaded on first use and watched for
+   * changes unless MODEL_CATALOG_WATCH is false
+   */
+  static shared(): ModelCatalog {
+    if (!this.sharedCatalog) {
+      const catalog = ModelCatalog.load(process.env.MODEL_CATALOG_FILE || ModelCatalog.DEFAULT_FILE);
+      if (process.env.MODEL_CATALOG_WATCH !== 'false') {
+        catalog.watch();
+      }
+      this.sharedCatalog = catalog;
+    }
+    return this.sharedCatalog;
+  }
+
+  /**
+   * Replaces the shared catalog (null loads the configured file again on next use)
+   */
+  static setShared(catalog: ModelCatalog | null): void {
+    if (this.sharedCatalog && this.sharedCatalog !== catalog) {
+      this.sharedCatalog.close();
+    }
+    this.sharedCatalog = catalog;
+  }
+
+  static load(filePath: string): ModelCatalog {
+    return new ModelCatalog(ModelCatalog.parse(readFileSync(filePath, 'utf-8')), filePath);
+  }
+
+  static parse(text: string): ModelCatalogFile {
+    let content: ModelCatalogFile;
+    try {
+      content = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Not a model catalog: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!content || content.format !== ModelCatalog.FORMAT) {
+      throw new Error(`Not a model catalog: missing ${ModelCatalog.FORMAT} format marker`);
+    }
+    if (content.version !== ModelCatalog.VERSION) {
+      throw new Error(`Unsupported model catalog version ${content.version} (expected ${ModelCatalog.VERSION})`);
+    }
+    if (typeof content.revision !== 'string' || !content.providers || !Array.isArray(content.models)) {
+      throw new Error('Malformed model catalog: revision, providers and models are required');
+    }
+
+    const names = new Set<string>();
+    for (const model of content.models) {
+      ModelCatalog.validateModel(model, content.providers);
+      for (const name of [model.id, ...(model.aliases || [])]) {
+        if (names.has(name)) {
+          throw new Error(`Malformed model catalog: ${name} is listed twice`);
+        }
+        names.add(name);
+      }
+    }
+
+    return content;
+  }
+
+  private static validateModel(model: CatalogModelEntry, providers: Record<string, CatalogProvider>): void {
+    const fail = (problem: string) => {
+      throw new Error(`Malformed model catalog: ${model?.id || 'model without id'} ${problem}`);
+    };
+
+    if (!model || typeof model.id !== 'string' || !model.id) fail('has no id');
+    if (!providers[model.provider]) fail(`references unknown provider ${model.provider}`);
+    if (!Number.isInteger(model.context_window) || model.context_window <= 0) fail('needs a positive context_window');
+    if (!Array.isArray(model.prices) || model.prices.length === 0) fail('has no prices');
+
+    for (const price of model.prices) {
+      if (Number.isNaN(Date.parse(price.effective_from))) fail(`has an invalid effective_from ${price.effective_from}`);
+      if (price.effective_until !== undefined && !(Date.parse(price.effective_until) > Date.parse(price.effective_from))) {
+        fail(`has an effective_until not after ${price.effective_from}`);
+      }
+      for (const rate of [price.input_per_1m, price.output_per_1m, price.cached_input_per_1m ?? 0]) {
+        if (typeof rate !== 'number' || !(rate >= 0)) fail(`has an invalid price from ${price.effective_from}`);
+      }
+    }
+  }
+
+  get revision(): string {
+    return this.content.revision;
+  }
+
+  get currency(): string {
+    return this.content.currency;
+  }
+
+  /** Increases on every successful (re)load; consumers compare it to rebuild derived state */
+  get generation(): number {
+    return this.loads;
+  }
+
+  /**
+   * Whether state derived at builtAt from the given generation is out of date:
+   * the file was reloaded or a price has started or ended since
+   */
+  changedSince(generation: number, builtAt: number, now: number = Date.now()): boolean {
+    return generation !== this.loads || this.priceChanges.some(time => time > builtAt && time <= now);
+  }
+
+  /**
+   * The model with the price in effect at the given date, by id or alias;
+   * undefined when unknown or not priced yet at that date
+   */
+  get(model: string, at: Date | number = Date.now()): CatalogModel | undefined {
+    const entry = this.byName.get(model);
+    if (!entry) return undefined;
+
+    const price = ModelCatalog.priceAt(entry, at);
+    return price ? { ...entry, price } : undefined;
+  }
+
+  has(model: string, at?: Date | number): boolean {
+    return this.get(model, at) !== undefined;
+  }
+
+  /**
+   * Models priced at the given date, in catalog order
+   */
+  list(at: Date | number = Date.now()): CatalogModel[] {
+    return this.content.models
+      .map(model => this.get(model.id, at))
+      .filter((model): model is CatalogModel => model !== undefined);
+  }
+
+  /**
+   * Every price a model has had or is scheduled to have, oldest first
+   */
+  priceHistory(model: string): CatalogPrice[] {
+    const entry = this.byName.get(model);
+    return entry ? [...entry.prices].sort((a, b) => Date.parse(a.effective_from) - Date.parse(b.effective_from)) : [];
+  }
+
+  providers(): Array<[string, CatalogProvider]> {
+    return Object.entries(this.content.providers);
+  }
+
+  /**
+   * Cost of a request at the price in effect at the given date.
+   * cachedInputTokens is the part of inputTokens read from the provider's prompt cache.
+   */
+  cost(model: string, inputTokens: number, outputTokens: number, cachedInputTokens: number = 0, at?: Date | number): CatalogCost {
+    const entry = this.get(model, at);
+    if (!entry) {
+      throw new Error(`Model ${model} not found in model catalog ${this.revision}`);
+    }
+
+    const { price } = entry;
+    const cached = Math.min(cachedInputTokens, inputTokens);
+    const inputCost = ((inputTokens - cached) / 1_000_000) * price.input_per_1m;
+    const cachedInputCost = (cached / 1_000_000) * (price.cached_input_per_1m ?? price.input_per_1m);
+    const outputCost = (outputTokens / 1_000_000) * price.output_per_1m;
+
+    return {
+      inputCost,
+      outputCost,
+      cachedInputCost,
+      totalCost: inputCost + cachedInputCost + outputCost,
+      effectiveFrom: price.effective_from
+    };
+  }
+
+  /**
+   * Reads the file again; returns false and keeps the current content when it is invalid
+   */
+  reload(): boolean {
+    if (!this.filePath) return false;
+
+    try {
+      const previous = this.revision;
+      this.apply(ModelCatalog.parse(readFileSync(this.filePath, 'utf-8')));
+      this.logger.info('Model catalog reloaded', { file: this.filePath, previous, revision: this.revision });
+      return true;
+    } catch (error) {
+      this.logger.error(`Model catalog reload failed, keeping revision ${this.revision}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Reloads when the file changes. Watches the directory, since editors and
+   * deploys usually replace the file instead of writing it in place.
+   */
+  watch(debounceMs: number = 100): this {
+    if (!this.filePath || this.watcher) return this;
+
+    const fileName = path.basename(this.filePath);
+    this.watcher = watch(path.dirname(this.filePath), (_event, changed) => {
+      if (changed && changed.toString() !== fileName) return;
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => this.reload(), debounceMs);
+      this.reloadTimer.unref();
+    });
+    this.watcher.on('error', error => this.logger.error('Model catalog watcher failed', error));
+    // Watching must not keep the process alive
+    this.watcher.unref();
+    return this;
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private apply(content: ModelCatalogFile): void {
+    const byName = new Map<string, CatalogModelEntry>();
+    const priceChanges = new Set<number>();
+    for (const model of content.models) {
+      byName.set(model.id, model);
+      for (const alias of model.aliases || []) {
+        byName.set(alias, model);
+      }
+      for (const price of model.prices) {
+        priceChanges.add(Date.parse(price.effective_from));
+        if (price.effective_until !== undefined) priceChanges.add(Date.parse(price.effective_until));
+      }
+    }
+
+    this.content = content;
+    this.byName = byName;
+    this.priceChanges = Array.from(priceChanges).sort((a, b) => a - b);
+    this.loads++;
+  }
+
+  private static priceAt(model: CatalogModelEntry, at: Date | number): CatalogPrice | undefined {
+    const time = typeof at === 'number' ? at : at.getTime();
+    let current: CatalogPrice | undefined;
+
+    for (const price of model.prices) {
+      const from = Date.parse(price.effective_from);
+      if (from > time) continue;
+      if (price.effective_until !== undefined && Date.parse(price.effective_until) <= time) continue;
+      if (!current || from > Date.parse(current.effective_from)) {
+        current = price;
+      }
+    }
+    return current;
+  }
+}
@@ -0,0 +1,101 @@
+import zlib from 'zlib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CacheExportFilter, CacheImportStrategy } from '../types/index.js';
+import { PortableCacheEntry } from '../services/SimplePersistentCache.js';
+import { PortableVectorEntry } from '../cache/VectorCache.js';
+
+export const CACHE_IMPORT_STRATEGIES: CacheImportStrategy[] = ['skip', 'overwrite', 'keep-higher-quality'];
+
+/**
+ * Portable snapshot of a cache. Values are decrypted and decoded, so a bundle
+ * reads on machines with other codecs or encryption keys, and must be handled
+ * as the cached data itself.
+ */
+export interface CacheBundle {
+  format: 'mcp-cache-bundle';
+  version: number;
+  created_at: number;
+  /** Namespace the entries were exported from */
+  namespace?: string;
+  filter: CacheExportFilter;
+  literal: PortableCacheEntry[];
+  vector: PortableVectorEntry[];
+}
+
+/**
+ * Reads and writes cache bundles: JSON, gzipped when requested. Compressed
+ * bundles are recognised by their gzip header, whatever the file name.
+ */
+export class CacheBundleFile {
+  static readonly FORMAT = 'mcp-cache-bundle';
+  static readonly VERSION = 1;
+
+  static create(parts: Pick<CacheBundle, 'namespace' | 'filter' | 'literal' | 'vector'>): CacheBundle {
+    return {
+      format: CacheBundleFile.FORMAT,
+      version: CacheBundleFile.VERSION,
+      created_at: Date.now(),
+      ...parts
+    };
+  }
+
+  static serialize(bundle: CacheBundle, options: { compress?: boolean } = {}): Buffer {
+    const json = Buffer.from(JSON.stringify(bundle), 'utf8');
+    return options.compress ? zlib.gzipSync(json) : json;
+  }
+
+  /**
+   * Bundles live in one directory per namespace. Names are relative to it;
+   * absolute paths and .. segments are refused, so callers cannot read or
+   * overwrite files elsewhere.
+   */
+  static resolve(bundleDir: string, name: string): string {
+    const root = path.resolve(bundleDir);
+    const resolved = path.resolve(root, name);
+    if (!name || path.isAbsolute(name) || name.split(/[\\/]/).includes('..') || !resolved.startsWith(root + path.sep)) {
+      throw new Error('Invalid bundle path: use a file name inside the bundle directory');
+    }
+    return resolved;
+  }
+
+  static parse(data: Buffer): CacheBundle {
+    // Parser messages quote the file contents, so they are never passed on
+    let bundle: CacheBundle;
+    try {
+      const json = data[0] === 0x1f && data[1] === 0x8b ? zlib.gunzipSync(data) : data;
+      bundle = JSON.parse(json.toString('utf8'));
+    } catch {
+      throw new Error('Not a cache bundle');
+    }
+
+    if (!bundle || bundle.format !== CacheBundleFile.FORMAT) {
+      throw new Error('Not a cache bundle: missing mcp-cache-bundle format marker');
+    }
+    if (typeof bundle.version !== 'number' || bundle.version > CacheBundleFile.VERSION) {
+      throw new Error(`Unsupported cache bundle version ${bundle.version} (this server reads up to ${CacheBundleFile.VERSION})`);
+    }
+    if (!Array.isArray(bundle.literal) || !Array.isArray(bundle.vector)) {
+      throw new Error('Malformed cache bundle: literal and vector entry lists are required');
+    }
+    return bundle;
+  }
+
+  /**
+   * Writes through a temporary file, so an interrupted export never leaves a
+   * truncated bundle behind. Returns the number of bytes written.
+   */
+  static async write(filePath: string, bundle: CacheBundle, options: { compress?: boolean } = {}): Promise<number> {
+    const data = CacheBundleFile.serialize(bundle, options);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+    return data.length;
+  }
+
+  static async read(filePath: string): Promise<CacheBundle> {
+    return CacheBundleFile.parse(await fs.readFile(filePath));
+  }
+}
@@ -1,21 +1,98 @@
-import { SimplePersistentCache as PersistentCache } from '../services/SimplePersistentCache.js';
-import { VectorCache } from '../cache/VectorCache.js';
-import { CacheDecision, CacheEntry, CacheStats, SmartCacheOptions, TaskType } from '../types/index.js';
+import { SimplePersistentCache as PersistentCache, ReencryptResult, StorageBackendOption } from '../services/SimplePersistentCache.js';
+import { VectorCache, VectorCacheEntry } from '../cache/VectorCache.js';
+import { EmbeddingProviderOptions } from '../cache/embeddings/EmbeddingProvider.js';
+import { ModelUsage } from '../storage/StorageBackend.js';
+import { EmbeddingEncoding } from '../storage/codecs/EmbeddingCodecs.js';
+import { ValueCipher, ValueCipherOptions } from '../storage/encryption/ValueCipher.js';
+import {
+  CacheDecision,
+  CacheEntry,
+  CacheExportFilter,
+  CacheImportResult,
+  CacheImportStrategy,
+  CacheStats,
+  ChatMessage,
+  InvalidationFilter,
+  InvalidationResult,
+  RatingResult,
+  SmartCacheOptions,
+  TaskType
+} from '../types/index.js';
 import { CacheHeuristics } from '../services/CacheHeuristics.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { EvictionPolicy } from '../cache/eviction/EvictionPolicy.js';
+import { EvictionPolicyFactory } from '../cache/eviction/EvictionPolicyFactory.js';
+import { AdmissionModel, AdmissionModelStats } from '../services/AdmissionModel.js';
+import { Redactor, RedactionFinding, RedactionOptions } from '../redaction/Redactor.js';
+import { CACHE_IMPORT_STRATEGIES, CacheBundle, CacheBundleFile } from './CacheBundle.js';
+import { ConversationKey } from './ConversationKey.js';
+import { SingleFlight, SingleFlightResult, SingleFlightStats } from './SingleFlight.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
 import crypto from 'crypto';
 
+/** Quality assumed for entries nobody has rated yet */
+export const DEFAULT_QUALITY_SCORE = 0.8;
+
 /**
  * Enhanced Cache Engine with multi-layer caching (literal + semantic)
  * Integrates VectorCache for semantic similarity caching
  */
 export interface EnhancedCacheOptions extends SmartCacheOptions {
+  storageBackend?: StorageBackendOption;
+  /** Namespace this engine serves, reported on hits answered for other namespaces */
+  namespace?: string;
+  /** Redis key prefix, so namespaces sharing a Redis server stay apart */
+  keyPrefix?: string;
+  /** Caches of shared namespaces consulted, in order, after a miss here */
+  sharedReads?: CacheEngine[];
+  /** Literal cache codec: none | lz-string | gzip | brotli */
+  codec?: string;
+  codecThreshold?: number;
+  /**
+   * Fraction of the hard TTL an entry stays fresh when the caching decision sets
+   * no soft TTL. Unset disables stale-while-revalidate for those entries.
+   */
+  softTtlRatio?: number;
+  /** Pricing used by the cost-aware eviction policy */
+  pricing?: ModelOptimizer;
+  /** Quality score thresholds applied by rate() */
+  quality?: {
+    /** Removed from both caches below this score (default 0.3) */
+    evictBelow?: number;
+    /** Refreshed on next use and left out of semantic matches below this score (default 0.6) */
+    demoteBelow?: number;
+  };
+  /**
+   * Learned admission: once trained on re-request outcomes, its prediction
+   * replaces the static heuristics' yes/no (enabled unless CACHE_LEARNED_ADMISSION=false)
+   */
+  admission?: {
+    enabled?: boolean;
+    /** Minimum predicted re-hit probability to admit (default 0.25) */
+    threshold?: number;
+    /** Outcomes observed before predictions are used (default 50) */
+    minSamples?: number;
+  };
+  /**
+   * Sensitive-data detectors applied to everything stored; false disables them
+   * (default: from the REDACTION_* environment variables)
+   */
+  redaction?: RedactionOptions | false;
+  /**
+   * AES-GCM encryption of stored values in both caches; false disables it
+   * (default: from CACHE_ENCRYPTION_KEY / CACHE_ENCRYPTION_KEY_FILE)
+   */
+  encryption?: ValueCipherOptions | false;
   enableVectorCache?: boolean;
   vectorCacheOptions?: {
     maxEntries?: number;
     similarityThreshold?: number;
     embeddingModel?: string;
+    embedding?: EmbeddingProviderOptions;
     useFaiss?: boolean;
+    responseCodec?: string;
+    embeddingEncoding?: EmbeddingEncoding;
   };
 }
 
@@ -27,37 +104,124 @@ export interface CacheResult {
   cacheType: 'literal' | 'vector' | 'none';
   similarity?: number;
   cacheKey?: string;
+  /** Key of the entry that answered; differs from cacheKey on vector hits */
+  sourceKey?: string;
+  /** Shared namespace that answered, when the entry is not this namespace's own */
+  sharedFrom?: string;
+  conversation?: ConversationCacheInfo;
+  freshness?: CacheFreshness;
+}
+
+export interface CacheFreshness {
+  /** Past the soft expiry: usable, but should be refreshed */
+  stale: boolean;
+  age_ms: number;
+  stale_at?: number;
+  expires_at?: number;
+}
+
+export interface ConversationCacheInfo {
+  key: string;
+  turns: number;
+  cached_prefix_turns: number;
+}
+
+export interface CacheSetResult {
+  cached: boolean;
+  reason: string;
+  estimated_savings: number;
+  cacheKey: string;
+  vectorCached?: boolean;
 }
 
 export class CacheEngine {
   private cache: PersistentCache;
   private vectorCache: VectorCache | null = null;
   private heuristics: CacheHeuristics;
+  private admission: AdmissionModel | null = null;
+  private redactor: Redactor | null;
+  private cipher: ValueCipher | null;
+  private conversationKeys: ConversationKey;
+  private inFlight = new SingleFlight<any>();
   private logger: Logger;
   private enableHeuristics: boolean;
   private enableVectorCache: boolean;
+  private softTtlRatio?: number;
+  private evictBelow: number;
+  private demoteBelow: number;
+  private namespace?: string;
+  private sharedReads: CacheEngine[];
 
   constructor(options: EnhancedCacheOptions = {}) {
+    const evictionPolicy = options.evictionPolicy || process.env.CACHE_EVICTION_POLICY || 'lru';
+    let pricing = options.pricing;
+    const createPolicy = (): EvictionPolicy => EvictionPolicyFactory.create(evictionPolicy, {
+      costOf: (model, tokens) => (pricing ??= new ModelOptimizer()).estimateCost(model, tokens)
+    });
+
+    const cipher = options.encryption === undefined
+      ? ValueCipher.fromEnv()
+      : options.encryption ? new ValueCipher(options.encryption) : null;
+    this.cipher = cipher;
+
     this.cache = new PersistentCache({
       redisUrl: options.redisUrl,
       dataDir: options.dataDir,
       maxMemoryMB: options.maxMemoryMB,
-      defaultTTL: options.defaultTTL
+      defaultTTL: options.defaultTTL,
+      backend: options.storageBackend,
+      codec: options.codec,
+      codecThreshold: options.codecThreshold,
+      evictionPolicy: createPolicy(),
+      keyPrefix: options.keyPrefix,
+      cipher
     });
+    this.namespace = options.namespace;
+    this.sharedReads = options.sharedReads || [];
     
     this.heuristics = new CacheHeuristics();
+    this.conversationKeys = new ConversationKey(
+      (prompt, context, model) => this.generateCacheKey(prompt, context, model)
+    );
     this.logger = new Logger('CacheEngine');
     this.enableHeuristics = options.enableHeuristics !== false;
     this.enableVectorCache = options.enableVectorCache !== false;
 
+    const softTtlRatio = options.softTtlRatio ?? (process.env.CACHE_SOFT_TTL_RATIO ? Number(process.env.CACHE_SOFT_TTL_RATIO) : undefined);
+    if (softTtlRatio !== undefined && !(softTtlRatio > 0 && softTtlRatio <= 1)) {
+      throw new Error(`softTtlRatio must be in (0, 1], got ${softTtlRatio}`);
+    }
+    this.softTtlRatio = softTtlRatio;
+    this.evictBelow = options.quality?.evictBelow ?? 0.3;
+    this.demoteBelow = options.quality?.demoteBelow ?? 0.6;
+
+    if ((options.admission?.enabled ?? process.env.CACHE_LEARNED_ADMISSION !== 'false')) {
+      this.admission = new AdmissionModel({
+        dataDir: options.dataDir || './data',
+        threshold: options.admission?.threshold,
+        minSamples: options.admission?.minSamples
+      });
+    }
+
+    const redaction = options.redaction ?? Redactor.optionsFromEnv();
+    this.redactor = redaction ? new Redactor(redaction) : null;
+
     // Initialize vector cache if enabled
     if (this.enableVectorCache) {
       this.vectorCache = new VectorCache({
         dataDir: options.dataDir || './data',
         maxEntries: options.vectorCacheOptions?.maxEntries || 1000,
         similarityThreshold: options.vectorCacheOptions?.similarityThreshold || 0.85,
-        embeddingModel: options.vectorCacheOptions?.embeddingModel || 'Xenova/all-MiniLM-L6-v2',
+        embeddingModel: options.vectorCacheOptions?.embeddingModel || process.env.EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2',
+        embedding: options.vectorCacheOptions?.embedding,
         useFaiss: options.vectorCacheOptions?.useFaiss !== false,
+        responseCodec: options.vectorCacheOptions?.responseCodec || options.codec || process.env.CACHE_CODEC || 'gzip',
+        embeddingEncoding: options.vectorCacheOptions?.embeddingEncoding ||
+          (process.env.EMBEDDING_ENCODING as EmbeddingEncoding | undefined) || 'float16',
+        codecThreshold: options.codecThreshold ?? Number(process.env.CACHE_CODEC_THRESHOLD || 256),
+        minQualityScore: this.demoteBelow,
+        evictionPolicy: createPolicy(),
+        cipher,
         enablePersistence: true
       });
     }
@@ -77,9 +241,40 @@ export class CacheEngine {
   }
 
   /**
-   * Intelligent caching decision
+   * Runs an upstream call for a cache key at most once at a time: concurrent
+   * misses for the same key wait on the call already in flight and share its result
    */
-  shouldCache(prompt: string, context?: string, response?: any): CacheDecision {
+  coalesce<T>(cacheKey: string, fn: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    return this.inFlight.run(cacheKey, fn);
+  }
+
+  isInFlight(cacheKey: string): boolean {
+    return this.inFlight.isInFlight(cacheKey);
+  }
+
+  getCoalescingStats(): SingleFlightStats {
+    return this.inFlight.getStats();
+  }
+
+  /**
+   * Generates the cache key of a multi-turn conversation
+   */
+  generateConversationKey(messages: ChatMessage[], model?: string): string {
+    return this.conversationKeys.keyFor(messages, model);
+  }
+
+  /**
+   * Intelligent caching decision. The static heuristics set the TTL and decide
+   * until the admission model has seen enough outcomes; then the predicted
+   * chance of the entry being requested again decides.
+   */
+  shouldCache(
+    prompt: string,
+    context?: string,
+    response?: any,
+    model?: string,
+    meta: { tags?: string[]; taskType?: TaskType; tokens?: number } = {}
+  ): CacheDecision {
     if (!this.enableHeuristics) {
       return {
         shouldCache: true,
@@ -89,7 +284,100 @@ export class CacheEngine {
       };
     }
 
-    return this.heuristics.evaluateCachingDecision(prompt, context, response);
+    const decision = this.heuristics.evaluateCachingDecision(prompt, context, response, model);
+    const learned = this.admission?.decide(AdmissionModel.extractFeatures({
+      prompt,
+      context,
+      model,
+      taskType: meta.taskType,
+      tags: meta.tags,
+      tokens: meta.tokens ?? this.estimateTokens(prompt, context, model)
+    }));
+    if (!learned) {
+      return decision;
+    }
+
+    const tokens = meta.tokens ?? this.estimateTokens(prompt, context, model);
+    return {
+      ...decision,
+      shouldCache: learned.admit,
+      reason: `learned-admission p=${learned.probability.toFixed(2)}${learned.admit ? '' : ' (below threshold)'}`,
+      estimatedSavings: learned.admit ? Math.floor(tokens * learned.probability) : 0
+    };
+  }
+
+  private estimateTokens(prompt: string, context?: string, model?: string): number {
+    return TokenEstimator.estimateFromText(prompt, model) + (context ? TokenEstimator.estimateFromText(context, model) : 0);
+  }
+
+  /**
+   * Records a caching decision for the admission model to learn from
+   */
+  private recordAdmissionCandidate(
+    cacheKey: string,
+    ttl: number,
+    input: { prompt: string; context?: string; model?: string; taskType?: TaskType; tags?: string[]; tokens?: number }
+  ): void {
+    if (!this.admission) return;
+
+    const features = AdmissionModel.extractFeatures({
+      ...input,
+      tokens: input.tokens ?? this.estimateTokens(input.prompt, input.context, input.model)
+    });
+    this.admission.recordCandidate(cacheKey, features, ttl)
+      .catch(error => this.logger.warn('Admission candidate not recorded', { error }));
+  }
+
+  private observeLookup(cacheKey: string): void {
+    this.admission?.observeRequest(cacheKey)
+      .catch(error => this.logger.warn('Admission outcome not recorded', { error }));
+  }
+
+  getAdmissionModelStats(): AdmissionModelStats | null {
+    return this.admission?.getStats() ?? null;
+  }
+
+  /**
+   * Redactor applied to stored entries, shared with callers that scan requests
+   */
+  getRedactor(): Redactor | null {
+    return this.redactor;
+  }
+
+  /**
+   * Cipher for values at rest, shared with stores kept beside the cache
+   */
+  getCipher(): ValueCipher | null {
+    return this.cipher;
+  }
+
+  /**
+   * Masks sensitive data in a value and the prompt stored beside it; findings
+   * whose action is not mask keep the entry out of the cache altogether
+   */
+  private redactForStorage<T>(value: T, texts: string[]): { value: T; texts: string[]; blockedBy: RedactionFinding[] } {
+    if (!this.redactor) {
+      return { value, texts, blockedBy: [] };
+    }
+
+    const masked = this.redactor.scanValue(value);
+    const scanned = this.redactor.scanMany(texts);
+    const blockedBy = [...masked.result.findings, ...scanned.findings].filter(finding => finding.action !== 'mask');
+    if (!masked.result.cacheable && blockedBy.length === 0) {
+      blockedBy.push(...masked.result.findings);
+    }
+    return { value: masked.value, texts: scanned.texts, blockedBy };
+  }
+
+  private blockedBySensitiveData(cacheKey: string, findings: RedactionFinding[]): CacheSetResult {
+    const detectors = Array.from(new Set(findings.map(finding => finding.detector)));
+    this.logger.info('Entry not cached: sensitive data', { key: cacheKey.substring(0, 8), detectors });
+    return {
+      cached: false,
+      reason: `Sensitive data not cached (${detectors.join(', ')})`,
+      estimated_savings: 0,
+      cacheKey
+    };
   }
 
   /**
@@ -99,18 +387,20 @@ export class CacheEngine {
    */
   async get(prompt: string, context?: string, model?: string, taskType?: TaskType): Promise<CacheResult | null> {
     const cacheKey = this.generateCacheKey(prompt, context, model);
+    this.observeLookup(cacheKey);
     
     // Try literal cache first
     const literalResult = await this.cache.get(cacheKey);
     if (literalResult) {
-      this.logger.debug('Literal cache hit', { key: cacheKey.substring(0, 8) });
+      this.logger.debug('Literal cache hit', { key: cacheKey.substring(0, 8), stale: literalResult.stale });
       return {
         value: literalResult.value,
         tokens: literalResult.tokens,
         hits: literalResult.hits,
         cached: true,
         cacheType: 'literal',
-        cacheKey
+        cacheKey,
+        freshness: this.freshnessOf(literalResult)
       };
     }
 
@@ -131,7 +421,8 @@ export class CacheEngine {
             cached: true,
             cacheType: 'vector',
             similarity: vectorResult.similarity,
-            cacheKey
+            cacheKey,
+            sourceKey: vectorResult.entry.metadata.cache_key ?? vectorResult.entry.id
           };
         }
       } catch (error) {
@@ -140,7 +431,7 @@ export class CacheEngine {
     }
 
     this.logger.debug('Cache miss', { key: cacheKey.substring(0, 8) });
-    return null;
+    return this.getShared(engine => engine.get(prompt, context, model, taskType));
   }
 
   /**
@@ -157,38 +448,44 @@ export class CacheEngine {
       tags?: string[];
       forceCache?: boolean;
       taskType?: TaskType;
+      /** Overrides the soft TTL (seconds) of the caching decision */
+      softTtl?: number;
     } = {}
-  ): Promise<{
-    cached: boolean;
-    reason: string;
-    estimated_savings: number;
-    cacheKey: string;
-    vectorCached?: boolean;
-  }> {
+  ): Promise<CacheSetResult> {
     
     const decision = options.forceCache 
       ? { shouldCache: true, reason: 'forced', estimatedSavings: options.tokens || 0, ttl: 3600 }
-      : this.shouldCache(prompt, options.context, value);
+      : this.shouldCache(prompt, options.context, value, options.model, options);
 
     const cacheKey = this.generateCacheKey(prompt, options.context, options.model);
+    const redacted = this.redactForStorage(value, [prompt, options.context || '']);
+    if (redacted.blockedBy.length > 0) {
+      return this.blockedBySensitiveData(cacheKey, redacted.blockedBy);
+    }
+    value = redacted.value;
+    this.recordAdmissionCandidate(cacheKey, decision.ttl, { prompt, ...options });
 
     if (decision.shouldCache) {
       // Store in literal cache
       await this.cache.set(cacheKey, value, {
         ttl: decision.ttl,
+        softTtl: this.resolveSoftTtl(decision, options.softTtl),
         tokens: options.tokens || decision.estimatedSavings,
         tags: options.tags,
-        model: options.model
+        model: options.model,
+        taskType: options.taskType
       });
 
       // Store in vector cache if enabled
       let vectorCached = false;
       if (this.vectorCache) {
         try {
-          await this.vectorCache.store(prompt, value, options.model || 'default', 
+          await this.vectorCache.store(redacted.texts[0], value, options.model || 'default', 
             options.tokens || decision.estimatedSavings, {
             task_type: options.taskType,
-            quality_score: 0.8 // Default quality score
+            quality_score: DEFAULT_QUALITY_SCORE,
+            cache_key: cacheKey,
+            tags: options.tags
           });
           vectorCached = true;
         } catch (error) {
@@ -220,6 +517,325 @@ export class CacheEngine {
     };
   }
 
+  /**
+   * Whether the literal cache holds a live entry for the key, without counting a hit
+   */
+  async isCached(cacheKey: string): Promise<boolean> {
+    return this.cache.has(cacheKey);
+  }
+
+  /**
+   * Retrieves a multi-turn conversation from cache.
+   * Single-turn conversations go through the regular literal + vector lookup;
+   * longer ones only match literally, since a similar last message means
+   * nothing under a different history.
+   */
+  async getConversation(messages: ChatMessage[], model?: string, taskType?: TaskType): Promise<CacheResult | null> {
+    const singleTurn = ConversationKey.asSingleTurn(messages);
+    const conversation = await this.inspectConversation(messages, model);
+
+    if (singleTurn) {
+      const result = await this.get(singleTurn.prompt, singleTurn.context, model, taskType);
+      return result ? { ...result, conversation } : null;
+    }
+
+    this.observeLookup(conversation.key);
+    const literalResult = await this.cache.get(conversation.key);
+    if (literalResult) {
+      this.logger.debug('Conversation cache hit', {
+        key: conversation.key.substring(0, 8),
+        turns: conversation.turns
+      });
+      return {
+        value: literalResult.value,
+        tokens: literalResult.tokens,
+        hits: literalResult.hits,
+        cached: true,
+        cacheType: 'literal',
+        cacheKey: conversation.key,
+        conversation,
+        freshness: this.freshnessOf(literalResult)
+      };
+    }
+
+    this.logger.debug('Conversation cache miss', {
+      key: conversation.key.substring(0, 8),
+      cachedPrefixTurns: conversation.cached_prefix_turns
+    });
+    return this.getShared(engine => engine.getConversation(messages, model, taskType));
+  }
+
+  /**
+   * Looks a missed request up in the shared namespaces this one reads from
+   */
+  private async getShared(lookup: (engine: CacheEngine) => Promise<CacheResult | null>): Promise<CacheResult | null> {
+    for (const engine of this.sharedReads) {
+      const result = await lookup(engine);
+      if (result) {
+        this.logger.debug('Shared namespace hit', { namespace: engine.getNamespace() });
+        return { ...result, sharedFrom: result.sharedFrom ?? engine.getNamespace() };
+      }
+    }
+    return null;
+  }
+
+  getNamespace(): string | undefined {
+    return this.namespace;
+  }
+
+  /**
+   * Soft TTL for a new entry: explicit override, then the decision's, then the configured ratio
+   */
+  private resolveSoftTtl(decision: CacheDecision, override?: number): number | undefined {
+    const softTtl = override ?? decision.softTtl ??
+      (this.softTtlRatio !== undefined && this.softTtlRatio < 1 ? Math.round(decision.ttl * this.softTtlRatio) : undefined);
+    return softTtl !== undefined && softTtl > 0 && softTtl < decision.ttl ? softTtl : undefined;
+  }
+
+  private freshnessOf(entry: { stale: boolean; created_at: number; stale_at?: number; expires_at?: number }): CacheFreshness {
+    return {
+      stale: entry.stale,
+      age_ms: Date.now() - entry.created_at,
+      stale_at: entry.stale_at,
+      expires_at: entry.expires_at
+    };
+  }
+
+  /**
+   * Computes the conversation key and the longest earlier turn already cached
+   */
+  async inspectConversation(messages: ChatMessage[], model?: string): Promise<ConversationCacheInfo> {
+    const boundaries = this.conversationKeys.boundaries(messages, model);
+    const current = boundaries[boundaries.length - 1];
+
+    let cachedPrefixTurns = 0;
+    for (let i = boundaries.length - 2; i >= 0; i--) {
+      if (await this.cache.has(boundaries[i].key)) {
+        cachedPrefixTurns = boundaries[i].turns;
+        break;
+      }
+    }
+
+    return {
+      key: current.key,
+      turns: current.turns,
+      cached_prefix_turns: cachedPrefixTurns
+    };
+  }
+
+  /**
+   * Stores the reply to a multi-turn conversation
+   */
+  async setConversation(
+    messages: ChatMessage[],
+    value: any,
+    options: {
+      model?: string;
+      tokens?: number;
+      tags?: string[];
+      forceCache?: boolean;
+      taskType?: TaskType;
+      softTtl?: number;
+    } = {}
+  ): Promise<CacheSetResult> {
+    const singleTurn = ConversationKey.asSingleTurn(messages);
+    if (singleTurn) {
+      return this.set(singleTurn.prompt, value, { ...options, context: singleTurn.context });
+    }
+
+    const prompt = ConversationKey.lastUserContent(messages);
+    const history = messages
+      .slice(0, -1)
+      .map(message => `${message.role}: ${ConversationKey.contentOf(message)}`)
+      .join('\n');
+
+    const decision = options.forceCache
+      ? { shouldCache: true, reason: 'forced', estimatedSavings: options.tokens || 0, ttl: 3600 }
+      : this.shouldCache(prompt, history, value, options.model, options);
+
+    const cacheKey = this.generateConversationKey(messages, options.model);
+    const redacted = this.redactForStorage(value, [history, prompt]);
+    if (redacted.blockedBy.length > 0) {
+      return this.blockedBySensitiveData(cacheKey, redacted.blockedBy);
+    }
+    value = redacted.value;
+    this.recordAdmissionCandidate(cacheKey, decision.ttl, { prompt, context: history, ...options });
+
+    if (!decision.shouldCache) {
+      return {
+        cached: false,
+        reason: decision.reason,
+        estimated_savings: 0,
+        cacheKey
+      };
+    }
+
+    await this.cache.set(cacheKey, value, {
+      ttl: decision.ttl,
+      softTtl: this.resolveSoftTtl(decision, options.softTtl),
+      tokens: options.tokens || decision.estimatedSavings,
+      tags: options.tags,
+      model: options.model,
+      taskType: options.taskType
+    });
+
+    this.logger.debug('Cached conversation', {
+      key: cacheKey.substring(0, 8),
+      messages: messages.length,
+      reason: decision.reason
+    });
+
+    return {
+      cached: true,
+      reason: decision.reason,
+      estimated_savings: decision.estimatedSavings,
+      cacheKey,
+      vectorCached: false
+    };
+  }
+
+  /**
+   * Folds a rating (0 = bad, 1 = good) into the quality score of the entry
+   * stored under cacheKey and of the vector entries mirroring it. The prior
+   * score counts as one rating, so a single thumbs-down demotes a fresh entry
+   * and a second one evicts it.
+   */
+  async rate(cacheKey: string, score: number): Promise<RatingResult | null> {
+    if (!(score >= 0 && score <= 1)) {
+      throw new Error(`Rating score must be between 0 and 1, got ${score}`);
+    }
+
+    const literal = await this.cache.peek(cacheKey);
+    const matchesKey = (entry: VectorCacheEntry) => entry.metadata.cache_key === cacheKey || entry.id === cacheKey;
+    const vectorEntries = this.vectorCache ? await this.vectorCache.removeWhere(matchesKey, true) : [];
+
+    if (!literal && vectorEntries.length === 0) {
+      return null;
+    }
+
+    const previous = literal
+      ? { score: literal.quality_score ?? DEFAULT_QUALITY_SCORE, ratings: literal.ratings || 0 }
+      : { score: vectorEntries[0].metadata.quality_score ?? DEFAULT_QUALITY_SCORE, ratings: vectorEntries[0].metadata.ratings || 0 };
+    const ratings = previous.ratings + 1;
+    const quality = (previous.score * ratings + score) / (ratings + 1);
+    const action = quality < this.evictBelow ? 'evicted' : quality < this.demoteBelow ? 'demoted' : 'kept';
+
+    let vectorUpdated = 0;
+    if (action === 'evicted') {
+      this.admission?.discard(cacheKey);
+      if (literal) await this.cache.delete(cacheKey);
+      if (this.vectorCache) vectorUpdated = (await this.vectorCache.removeWhere(matchesKey)).length;
+    } else {
+      if (literal) {
+        await this.cache.update(cacheKey, {
+          quality_score: quality,
+          ratings,
+          // Demoted entries are still served once, stale, while a better answer is fetched
+          stale_at: action === 'demoted' ? Math.min(literal.stale_at ?? Date.now(), Date.now()) : literal.stale_at
+        });
+      }
+      if (this.vectorCache) {
+        vectorUpdated = (await this.vectorCache.updateWhere(matchesKey, entry => {
+          entry.metadata.quality_score = quality;
+          entry.metadata.ratings = ratings;
+        })).length;
+      }
+    }
+
+    const result: RatingResult = {
+      cache_key: cacheKey,
+      quality_score: Math.round(quality * 1000) / 1000,
+      ratings,
+      action,
+      literal_updated: !!literal,
+      vector_updated: vectorUpdated
+    };
+    this.logger.info('Cache entry rated', { ...result, score });
+    return result;
+  }
+
+  /**
+   * Re-tunes the caching heuristics from observed hit rate and rating feedback
+   */
+  adjustHeuristics(hitRate: number, averageTokensSaved: number, decisionAccuracy?: number): void {
+    this.heuristics.adjustHeuristics(hitRate, averageTokensSaved, decisionAccuracy);
+  }
+
+  /**
+   * Removes entries matching every given criterion from the literal store
+   * (JSON + Redis) and the vector cache. Vector entries that mirror a removed
+   * literal entry are removed with it.
+   */
+  async invalidate(filter: InvalidationFilter, options: { dryRun?: boolean } = {}): Promise<InvalidationResult> {
+    const hasCriteria = (filter.tags && filter.tags.length > 0) ||
+      filter.model !== undefined ||
+      filter.task_type !== undefined ||
+      filter.created_before !== undefined ||
+      filter.key_prefix !== undefined;
+
+    if (!hasCriteria) {
+      throw new Error('Invalidation filter needs at least one criterion');
+    }
+
+    const dryRun = options.dryRun === true;
+
+    const literalRemoved = await this.cache.deleteWhere(entry => this.matchesInvalidation({
+      key: entry.key,
+      tags: entry.tags,
+      model: entry.model,
+      task_type: entry.task_type,
+      created_at: entry.created_at
+    }, filter), dryRun);
+
+    const removedKeys = new Set(literalRemoved.map(entry => entry.key));
+
+    let vectorRemoved: Array<{ tokens: number; metadata: { cache_key?: string } }> = [];
+    if (this.vectorCache) {
+      vectorRemoved = await this.vectorCache.removeWhere(entry =>
+        (entry.metadata.cache_key !== undefined && removedKeys.has(entry.metadata.cache_key)) ||
+        this.matchesInvalidation({
+          key: entry.metadata.cache_key ?? entry.id,
+          tags: entry.metadata.tags,
+          model: entry.metadata.model,
+          task_type: entry.metadata.task_type,
+          created_at: entry.created_at
+        }, filter), dryRun);
+    }
+
+    const keys = new Set(removedKeys);
+    vectorRemoved.forEach(entry => entry.metadata.cache_key && keys.add(entry.metadata.cache_key));
+    if (!dryRun) {
+      keys.forEach(key => this.admission?.discard(key));
+    }
+
+    const result: InvalidationResult = {
+      dry_run: dryRun,
+      literal_removed: literalRemoved.length,
+      vector_removed: vectorRemoved.length,
+      tokens_invalidated: literalRemoved.reduce((sum, entry) => sum + entry.tokens, 0),
+      keys: Array.from(keys)
+    };
+
+    this.logger.info('Cache invalidation', { filter, ...result, keys: result.keys.length });
+    return result;
+  }
+
+  private matchesInvalidation(
+    entry: { key: string; tags?: string[]; model?: string; task_type?: string; created_at?: number },
+    filter: InvalidationFilter
+  ): boolean {
+    if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => entry.tags?.includes(tag))) {
+      return false;
+    }
+    if (filter.model !== undefined && entry.model !== filter.model) return false;
+    if (filter.task_type !== undefined && entry.task_type !== filter.task_type) return false;
+    if (filter.created_before !== undefined && !(entry.created_at !== undefined && entry.created_at < filter.created_before)) {
+      return false;
+    }
+    if (filter.key_prefix !== undefined && !entry.key.startsWith(filter.key_prefix)) return false;
+    return true;
+  }
+
   /**
    * Find similar cached entries by tags
    */
@@ -232,6 +848,7 @@ export class CacheEngine {
    */
   async getStats(): Promise<CacheStats & {
     vector_cache?: any;
+    coalescing: SingleFlightStats;
     multi_layer_stats?: {
       literal_hits: number;
       vector_hits: number;
@@ -239,7 +856,7 @@ export class CacheEngine {
       vector_hit_rate: number;
     };
   }> {
-    const stats = await this.cache.getStats();
+    const stats = { ...await this.cache.getStats(), coalescing: this.inFlight.getStats() };
     
     if (this.vectorCache) {
       const vectorStats = this.vectorCache.getStats();
@@ -340,7 +957,7 @@ export class CacheEngine {
       const key = this.generateCacheKey('system-context', pattern.context, 'moonshot-v1-8k');
       await this.cache.set(key, pattern.context, {
         ttl: pattern.ttl,
-        tokens: this.estimateTokens(pattern.context),
+        tokens: TokenEstimator.estimateFromText(pattern.context, 'moonshot-v1-8k'),
         tags: pattern.tags
       });
 
@@ -351,7 +968,7 @@ export class CacheEngine {
             `System context: ${pattern.context}`,
             pattern.context,
             'moonshot-v1-8k',
-            this.estimateTokens(pattern.context),
+            TokenEstimator.estimateFromText(pattern.context, 'moonshot-v1-8k'),
             { task_type: pattern.taskType, quality_score: 0.9 }
           );
         } catch (error) {
@@ -364,11 +981,10 @@ export class CacheEngine {
   }
 
   /**
-   * Estimate tokens from text
+   * Literal cache usage aggregated per model
    */
-  private estimateTokens(text: string): number {
-    if (!text) return 0;
-    return Math.ceil(text.length / 4.5);
+  async getModelUsage(): Promise<ModelUsage[]> {
+    return this.cache.getModelUsage();
   }
 
   /**
@@ -381,6 +997,37 @@ export class CacheEngine {
     return this.vectorCache.getStats();
   }
 
+  /**
+   * Embedding model state of the vector cache
+   */
+  getVectorEmbeddingStatus() {
+    if (!this.vectorCache) {
+      return null;
+    }
+    return this.vectorCache.getEmbeddingStatus();
+  }
+
+  /**
+   * Re-embeds vector cache entries with the active embedding model in background
+   */
+  async reindexVectorCache(options: { batchSize?: number; force?: boolean } = {}) {
+    if (!this.vectorCache) {
+      return null;
+    }
+    return this.vectorCache.startReindex(options);
+  }
+
+  /**
+   * Rewrites both caches under the current encryption key, so previous keys
+   * can be dropped from the configuration afterwards
+   */
+  async reencrypt(): Promise<{ literal: ReencryptResult; vector: { key_id: string; reencrypted: number } | null }> {
+    const literal = await this.cache.reencrypt();
+    const vector = this.vectorCache ? await this.vectorCache.reencrypt() : null;
+    this.logger.info('Caches re-encrypted', { key_id: literal.key_id, literal: literal.reencrypted, vector: vector?.reencrypted });
+    return { literal, vector };
+  }
+
   /**
    * Export vector cache data for analysis
    */
@@ -391,10 +1038,145 @@ export class CacheEngine {
     return this.vectorCache.exportData();
   }
 
+  /**
+   * Bundles the entries of both caches matching every given criterion, for
+   * import on another machine. Demoted entries are left out.
+   */
+  async exportBundle(filter: CacheExportFilter = {}, options: { includeVector?: boolean } = {}): Promise<CacheBundle> {
+    const literal = await this.cache.exportEntries(entry => this.matchesExport({
+      tags: entry.tags,
+      model: entry.model,
+      hits: entry.hits,
+      quality_score: entry.quality_score
+    }, filter));
+
+    const vector = this.vectorCache && options.includeVector !== false
+      ? await this.vectorCache.exportEntries(entry => this.matchesExport({
+          tags: entry.metadata.tags,
+          model: entry.metadata.model,
+          hits: entry.hits,
+          quality_score: entry.metadata.quality_score
+        }, filter))
+      : [];
+
+    this.logger.info('Cache exported', { filter, literal: literal.length, vector: vector.length });
+    return CacheBundleFile.create({ namespace: this.namespace, filter, literal, vector });
+  }
+
+  /**
+   * Loads a bundle into both caches. Entries go through redaction like any
+   * other write; literal entries keep their expiry unless ttl (seconds)
+   * re-bases it, and already-expired ones are dropped.
+   */
+  async importBundle(
+    bundle: CacheBundle,
+    options: { strategy?: CacheImportStrategy; ttl?: number } = {}
+  ): Promise<CacheImportResult> {
+    const strategy = options.strategy || 'skip';
+    if (!CACHE_IMPORT_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown import strategy: ${strategy} (expected ${CACHE_IMPORT_STRATEGIES.join(', ')})`);
+    }
+    if (options.ttl !== undefined && !(options.ttl > 0)) {
+      throw new Error(`Import ttl must be a positive number of seconds, got ${options.ttl}`);
+    }
+
+    const now = Date.now();
+    const result: CacheImportResult = {
+      strategy,
+      literal: { imported: 0, skipped: 0, expired: 0, blocked: 0 },
+      vector: this.vectorCache ? { imported: 0, skipped: 0, blocked: 0 } : null
+    };
+
+    for (const incoming of bundle.literal) {
+      const entry = options.ttl ? this.rebaseExpiry(incoming, options.ttl, now) : incoming;
+      if (entry.expires_at !== undefined && entry.expires_at <= now) {
+        result.literal.expired++;
+        continue;
+      }
+
+      const redacted = this.redactForStorage(entry.value, []);
+      if (redacted.blockedBy.length > 0) {
+        result.literal.blocked++;
+        continue;
+      }
+
+      const existing = await this.cache.peek(entry.key);
+      if (existing && !this.prefersIncoming(strategy, existing.quality_score, entry.quality_score)) {
+        result.literal.skipped++;
+        continue;
+      }
+
+      await this.cache.importEntry({ ...entry, value: redacted.value });
+      result.literal.imported++;
+    }
+
+    if (this.vectorCache && result.vector) {
+      const accepted = [];
+      for (const entry of bundle.vector) {
+        const redacted = this.redactForStorage(entry.response, [entry.prompt]);
+        if (redacted.blockedBy.length > 0) {
+          result.vector.blocked++;
+        } else {
+          accepted.push({ ...entry, prompt: redacted.texts[0], response: redacted.value });
+        }
+      }
+
+      const stored = await this.vectorCache.importEntries(accepted, (existing, entry) =>
+        this.prefersIncoming(strategy, existing.metadata.quality_score, entry.metadata.quality_score));
+      result.vector.imported = stored.imported;
+      result.vector.skipped = stored.skipped;
+    }
+
+    this.logger.info('Cache bundle imported', { source: bundle.namespace, ...result });
+    return result;
+  }
+
+  private matchesExport(
+    entry: { tags?: string[]; model?: string; hits: number; quality_score?: number },
+    filter: CacheExportFilter
+  ): boolean {
+    if ((entry.quality_score ?? DEFAULT_QUALITY_SCORE) < this.demoteBelow) return false;
+    if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => entry.tags?.includes(tag))) {
+      return false;
+    }
+    if (filter.model !== undefined && entry.model !== filter.model) return false;
+    if (filter.min_hits !== undefined && entry.hits < filter.min_hits) return false;
+    return true;
+  }
+
+  /**
+   * Whether an imported entry replaces the one already cached under its key
+   */
+  private prefersIncoming(strategy: CacheImportStrategy, existing?: number, incoming?: number): boolean {
+    switch (strategy) {
+      case 'overwrite':
+        return true;
+      case 'keep-higher-quality':
+        return (incoming ?? DEFAULT_QUALITY_SCORE) > (existing ?? DEFAULT_QUALITY_SCORE);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Moves an entry's expiry to ttl seconds from now, keeping the fraction of
+   * its lifetime it stays fresh
+   */
+  private rebaseExpiry<T extends { created_at: number; stale_at?: number; expires_at?: number }>(entry: T, ttl: number, now: number): T {
+    const expiresAt = now + ttl * 1000;
+    if (entry.stale_at === undefined || entry.expires_at === undefined || entry.expires_at <= entry.created_at) {
+      return { ...entry, expires_at: expiresAt };
+    }
+
+    const freshRatio = (entry.stale_at - entry.created_at) / (entry.expires_at - entry.created_at);
+    return { ...entry, stale_at: now + Math.round(ttl * 1000 * freshRatio), expires_at: expiresAt };
+  }
+
   /**
    * Close cache connections
    */
   async close(): Promise<void> {
+    await this.admission?.save().catch(error => this.logger.warn('Failed to save admission model', { error }));
     await this.cache.close();
     this.logger.info('Multi-layer cache engine closed');
   }
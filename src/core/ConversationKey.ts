@@ -0,0 +1,194 @@
+import { ChatMessage } from '../types/index.js';
+import crypto from 'crypto';
+
+/**
+ * A point in a conversation where a request was sent upstream
+ * (a user/tool message followed by an assistant reply or the end)
+ */
+export interface ConversationBoundary {
+  length: number;
+  turns: number;
+  key: string;
+}
+
+export type LegacyKeyGenerator = (prompt: string, context?: string, model?: string) => string;
+
+/**
+ * Builds canonical cache keys for multi-turn conversations.
+ * Messages are normalised (role, whitespace, tool-call ids, argument key order)
+ * and folded into a chained hash, so the key of turn N extends the key of
+ * turn N-1 and every earlier request boundary can be looked up cheaply.
+ * Single-turn conversations reuse the prompt/context key so both call styles
+ * share cache entries.
+ */
+export class ConversationKey {
+  constructor(private readonly legacyKey: LegacyKeyGenerator) {}
+
+  /**
+   * Validates a messages array, returning an error message or null
+   */
+  static validate(messages: unknown): string | null {
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return 'messages must be a non-empty array';
+    }
+
+    const roles = new Set(['system', 'user', 'assistant', 'tool']);
+    for (const [index, message] of messages.entries()) {
+      if (!message || typeof message !== 'object' || !roles.has(message.role)) {
+        return `messages[${index}] has an invalid role`;
+      }
+    }
+
+    const last = messages[messages.length - 1] as ChatMessage;
+    if (last.role !== 'user' && last.role !== 'tool') {
+      return 'the last message must have role "user" or "tool"';
+    }
+
+    return null;
+  }
+
+  /**
+   * Extracts text content from a message (string or content-part array)
+   */
+  static contentOf(message: ChatMessage): string {
+    const content = message.content as unknown;
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+      return content.map(part => (typeof part === 'string' ? part : part?.text ?? '')).join('');
+    }
+    return '';
+  }
+
+  /**
+   * Content of the last user message, used for task detection and heuristics
+   */
+  static lastUserContent(messages: ChatMessage[]): string {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') return this.contentOf(messages[i]);
+    }
+    return '';
+  }
+
+  /**
+   * Returns { prompt, context } when the conversation is a plain single turn
+   * (at most one system message followed by one user message)
+   */
+  static asSingleTurn(messages: ChatMessage[]): { prompt: string; context?: string } | null {
+    const plain = (m: ChatMessage) => !m.name && !m.tool_calls?.length && !m.tool_call_id;
+
+    if (messages.length === 1 && messages[0].role === 'user' && plain(messages[0])) {
+      return { prompt: this.contentOf(messages[0]) };
+    }
+
+    if (
+      messages.length === 2 &&
+      messages[0].role === 'system' && plain(messages[0]) &&
+      messages[1].role === 'user' && plain(messages[1])
+    ) {
+      return { prompt: this.contentOf(messages[1]), context: this.contentOf(messages[0]) || undefined };
+    }
+
+    return null;
+  }
+
+  /**
+   * Canonical form of each message; tool-call ids are replaced by their
+   * position so replays with freshly generated ids produce the same key
+   */
+  canonicalize(messages: ChatMessage[]): string[] {
+    const toolCallIds = new Map<string, string>();
+
+    return messages.map(message => {
+      const toolCalls = (message.tool_calls || []).map(call => {
+        const ref = `#${toolCallIds.size}`;
+        if (call.id) toolCallIds.set(call.id, ref);
+        return [call.function?.name ?? '', this.canonicalArguments(call.function?.arguments)];
+      });
+
+      const toolRef = message.tool_call_id
+        ? toolCallIds.get(message.tool_call_id) ?? message.tool_call_id
+        : '';
+
+      return JSON.stringify([
+        message.role,
+        message.name || '',
+        this.normalizeText(ConversationKey.contentOf(message)),
+        toolCalls,
+        toolRef
+      ]);
+    });
+  }
+
+  /**
+   * Computes the cache key of every request boundary in the conversation
+   */
+  boundaries(messages: ChatMessage[], model?: string): ConversationBoundary[] {
+    const canonical = this.canonicalize(messages);
+    const result: ConversationBoundary[] = [];
+    let hash = this.hash(`conversation:${model || 'default'}`);
+    let turns = 0;
+
+    for (let i = 0; i < messages.length; i++) {
+      hash = this.hash(`${hash}\u0000${canonical[i]}`);
+      if (messages[i].role === 'user') turns++;
+
+      const role = messages[i].role;
+      const next = messages[i + 1];
+      const isBoundary = (role === 'user' || role === 'tool') && (!next || next.role === 'assistant');
+      if (!isBoundary) continue;
+
+      const prefix = messages.slice(0, i + 1);
+      const singleTurn = ConversationKey.asSingleTurn(prefix);
+      result.push({
+        length: i + 1,
+        turns,
+        key: singleTurn
+          ? this.legacyKey(singleTurn.prompt, singleTurn.context, model)
+          : hash.substring(0, 16)
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Cache key for the full conversation
+   */
+  keyFor(messages: ChatMessage[], model?: string): string {
+    const boundaries = this.boundaries(messages, model);
+    return boundaries[boundaries.length - 1].key;
+  }
+
+  private normalizeText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+      .trim();
+  }
+
+  private canonicalArguments(args?: string): string {
+    if (!args) return '';
+    try {
+      return JSON.stringify(this.sortKeys(JSON.parse(args)));
+    } catch {
+      return args.trim();
+    }
+  }
+
+  private sortKeys(value: any): any {
+    if (Array.isArray(value)) return value.map(item => this.sortKeys(item));
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((sorted, key) => {
+        sorted[key] = this.sortKeys(value[key]);
+        return sorted;
+      }, {} as Record<string, any>);
+    }
+    return value;
+  }
+
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
@@ -0,0 +1,225 @@
+import path from 'path';
+import { CacheEngine, EnhancedCacheOptions } from './CacheEngine.js';
+import { TokenBudget, BudgetPeriod, TokenBudgetUsage } from './TokenBudget.js';
+import { TemplateEngine } from '../templates/TemplateEngine.js';
+import { MetricsCollector } from '../analytics/MetricsCollector.js';
+import { ConversationMemory, ConversationMemoryOptions } from '../services/ConversationMemory.js';
+import { Logger } from '../utils/Logger.js';
+
+export interface NamespaceConfig {
+  /** Overrides the server-wide maxMemoryMB for this namespace's literal cache */
+  maxMemoryMB?: number;
+  /** Upstream tokens the namespace may spend per budget period; unlimited when unset */
+  tokenBudget?: number;
+  budgetPeriod?: BudgetPeriod;
+  /** MCP client names allowed to use the namespace; requests from these clients default to it */
+  clients?: string[];
+  /** Opt in to answering misses from the shared namespaces */
+  readShared?: boolean;
+}
+
+export interface NamespaceManagerOptions {
+  /** Cache options every namespace starts from */
+  cache: EnhancedCacheOptions;
+  defaultNamespace?: string;
+  namespaces?: Record<string, NamespaceConfig>;
+  /** Namespaces other namespaces may read from when they opt in */
+  shared?: string[];
+  /** Requests without a namespace use one derived from the MCP client name instead of the default */
+  perClient?: boolean;
+  /** Reject namespaces that are not configured */
+  strict?: boolean;
+  /** Rolling summaries of long conversations, one store per namespace; off when unset */
+  memory?: Omit<ConversationMemoryOptions, 'dataDir' | 'cipher'>;
+}
+
+/**
+ * Everything a tenant sees: its own cache, templates, metrics and token budget
+ */
+export interface Namespace {
+  name: string;
+  shared: boolean;
+  config: NamespaceConfig;
+  /** Holds the namespace's cache, budget and bundle files */
+  dataDir: string;
+  cacheEngine: CacheEngine;
+  templateEngine: TemplateEngine;
+  metricsCollector: MetricsCollector;
+  budget: TokenBudget;
+  /** Rolling conversation summaries; absent when memory is off */
+  memory?: ConversationMemory;
+}
+
+export interface NamespaceSummary {
+  namespace: string;
+  shared: boolean;
+  reads_shared: string[];
+  entries: number;
+  size_mb: number;
+  max_memory_mb?: number;
+  requests: number;
+  tokens_saved: number;
+  token_budget: TokenBudgetUsage;
+}
+
+const NAMESPACE_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+/**
+ * Keeps one isolated set of caches, templates and metrics per tenant. Each
+ * namespace gets its own data directory (the default namespace keeps the
+ * base one) and Redis key prefix, so entries never leak between tenants;
+ * shared namespaces are only read by namespaces that opt in.
+ */
+export class NamespaceManager {
+  private namespaces = new Map<string, Namespace>();
+  private logger: Logger;
+  private readonly defaultNamespace: string;
+  private readonly configs: Record<string, NamespaceConfig>;
+  private readonly shared: Set<string>;
+  private readonly baseCache: EnhancedCacheOptions;
+  private readonly perClient: boolean;
+  private readonly strict: boolean;
+  private readonly memory?: NamespaceManagerOptions['memory'];
+
+  constructor(options: NamespaceManagerOptions) {
+    this.logger = new Logger('NamespaceManager');
+    this.baseCache = options.cache;
+    this.defaultNamespace = NamespaceManager.normalize(options.defaultNamespace || 'default');
+    this.configs = {};
+    for (const [name, config] of Object.entries(options.namespaces || {})) {
+      this.configs[NamespaceManager.normalize(name)] = config;
+    }
+    this.shared = new Set((options.shared || []).map(name => NamespaceManager.normalize(name)));
+    this.perClient = options.perClient === true;
+    this.strict = options.strict === true;
+    this.memory = options.memory;
+  }
+
+  /**
+   * Picks the namespace for a request: the explicit argument, then a namespace
+   * listing the client, then (with perClient) the client's own, then the default
+   */
+  resolve(requested?: unknown, clientName?: string): string {
+    if (requested !== undefined && requested !== null && requested !== '') {
+      if (typeof requested !== 'string') {
+        throw new Error('namespace must be a string');
+      }
+      const name = NamespaceManager.normalize(requested);
+      this.assertAccess(name, clientName);
+      return name;
+    }
+
+    if (clientName) {
+      const assigned = Object.entries(this.configs).find(([, config]) => config.clients?.includes(clientName));
+      if (assigned) return assigned[0];
+
+      if (this.perClient) {
+        const name = NamespaceManager.normalize(clientName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[-._]+|-+$/g, ''));
+        this.assertAccess(name, clientName);
+        return name;
+      }
+    }
+
+    this.assertAccess(this.defaultNamespace, clientName);
+    return this.defaultNamespace;
+  }
+
+  /**
+   * Returns the namespace, creating its components on first use
+   */
+  get(name: string = this.defaultNamespace): Namespace {
+    const normalized = NamespaceManager.normalize(name);
+    const existing = this.namespaces.get(normalized);
+    if (existing) return existing;
+
+    const config = this.configs[normalized] || {};
+    const isDefault = normalized === this.defaultNamespace;
+    const baseDir = this.baseCache.dataDir || './data';
+    const dataDir = isDefault ? baseDir : path.join(baseDir, 'namespaces', normalized);
+    const isShared = this.shared.has(normalized);
+    const sharedReads = !isShared && config.readShared
+      ? Array.from(this.shared).filter(shared => shared !== normalized).map(shared => this.get(shared).cacheEngine)
+      : [];
+
+    const cacheEngine = new CacheEngine({
+      ...this.baseCache,
+      dataDir,
+      namespace: normalized,
+      maxMemoryMB: config.maxMemoryMB ?? this.baseCache.maxMemoryMB,
+      keyPrefix: isDefault ? this.baseCache.keyPrefix : `${this.baseCache.keyPrefix || process.env.REDIS_KEY_PREFIX || 'mcp:'}ns:${normalized}:`,
+      sharedReads
+    });
+
+    const namespace: Namespace = {
+      name: normalized,
+      shared: isShared,
+      config,
+      dataDir,
+      cacheEngine,
+      templateEngine: new TemplateEngine(),
+      metricsCollector: new MetricsCollector(),
+      budget: new TokenBudget(normalized, dataDir, config.tokenBudget ?? null, config.budgetPeriod),
+      memory: this.memory ? new ConversationMemory({ ...this.memory, dataDir, cipher: cacheEngine.getCipher() }) : undefined
+    };
+
+    this.namespaces.set(normalized, namespace);
+    this.logger.info('Namespace opened', { namespace: normalized, shared: isShared, reads_shared: sharedReads.length });
+    return namespace;
+  }
+
+  getDefaultName(): string {
+    return this.defaultNamespace;
+  }
+
+  /**
+   * Namespaces opened since startup
+   */
+  list(): Namespace[] {
+    return Array.from(this.namespaces.values());
+  }
+
+  async getSummary(): Promise<NamespaceSummary[]> {
+    return Promise.all(this.list().map(async namespace => {
+      const stats = await namespace.cacheEngine.getStats();
+      const usage = namespace.metricsCollector.getMetricsReport().usage;
+      return {
+        namespace: namespace.name,
+        shared: namespace.shared,
+        reads_shared: namespace.config.readShared && !namespace.shared ? Array.from(this.shared).filter(name => name !== namespace.name) : [],
+        entries: stats.total_entries,
+        size_mb: stats.cache_size_mb,
+        max_memory_mb: namespace.config.maxMemoryMB ?? this.baseCache.maxMemoryMB,
+        requests: usage.requests,
+        tokens_saved: usage.tokens_saved,
+        token_budget: await namespace.budget.getUsage()
+      };
+    }));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.list().map(async namespace => {
+      await namespace.memory?.close();
+      await namespace.cacheEngine.close();
+    }));
+  }
+
+  private assertAccess(name: string, clientName?: string): void {
+    const config = this.configs[name];
+    const known = !!config || name === this.defaultNamespace || this.shared.has(name);
+
+    if (this.strict && !known) {
+      throw new Error(`Unknown namespace "${name}"`);
+    }
+    if (config?.clients && (!clientName || !config.clients.includes(clientName))) {
+      throw new Error(`Namespace "${name}" is not available to client ${clientName ? `"${clientName}"` : '(unidentified)'}`);
+    }
+  }
+
+  private static normalize(name: string): string {
+    const normalized = name.trim().toLowerCase();
+    if (!NAMESPACE_PATTERN.test(normalized)) {
+      throw new Error(`Invalid namespace "${name}": use up to 64 letters, digits, dots, dashes or underscores`);
+    }
+    return normalized;
+  }
+}
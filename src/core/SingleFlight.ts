@@ -0,0 +1,70 @@
+export interface SingleFlightResult<T> {
+  value: T;
+  /** True when the value came from a call started by another caller */
+  coalesced: boolean;
+}
+
+export interface SingleFlightStats {
+  /** Calls that went upstream */
+  leaders: number;
+  /** Calls that waited on a leader instead of going upstream */
+  coalesced: number;
+  failures: number;
+  in_flight: number;
+}
+
+interface Flight<T> {
+  promise: Promise<T>;
+  waiters: number;
+}
+
+/**
+ * Collapses concurrent calls that share a key into a single execution.
+ * The first caller runs the function; callers arriving while it is in flight
+ * wait on the same promise and receive its value or its error. The key is
+ * released once the call settles, so later callers start a new one.
+ */
+export class SingleFlight<T = unknown> {
+  private flights = new Map<string, Flight<T>>();
+  private counters = { leaders: 0, coalesced: 0, failures: 0 };
+
+  async run(key: string, fn: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    const existing = this.flights.get(key);
+    if (existing) {
+      existing.waiters++;
+      this.counters.coalesced++;
+      return { value: await existing.promise, coalesced: true };
+    }
+
+    const flight: Flight<T> = {
+      promise: Promise.resolve().then(fn),
+      waiters: 0
+    };
+    this.flights.set(key, flight);
+    this.counters.leaders++;
+
+    try {
+      return { value: await flight.promise, coalesced: false };
+    } catch (error) {
+      this.counters.failures++;
+      throw error;
+    } finally {
+      this.flights.delete(key);
+    }
+  }
+
+  /**
+   * Number of callers currently waiting on the call for this key
+   */
+  waiting(key: string): number {
+    return this.flights.get(key)?.waiters ?? 0;
+  }
+
+  isInFlight(key: string): boolean {
+    return this.flights.has(key);
+  }
+
+  getStats(): SingleFlightStats {
+    return { ...this.counters, in_flight: this.flights.size };
+  }
+}
@@ -0,0 +1,116 @@
+import path from 'path';
+import { SnapshotFile } from '../storage/SnapshotFile.js';
+import { Logger } from '../utils/Logger.js';
+
+export type BudgetPeriod = 'day' | 'month' | 'total';
+
+export interface TokenBudgetUsage {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  period: BudgetPeriod;
+  /** Period the usage counts towards, e.g. 2025-06 for monthly budgets */
+  period_key: string;
+}
+
+interface PersistedBudget {
+  period_key: string;
+  used: number;
+}
+
+/**
+ * Upstream tokens a namespace may spend per period. Usage is written next to
+ * the namespace's cache so restarts do not reset it; cache hits never count.
+ */
+export class TokenBudget {
+  private used = 0;
+  private periodKey: string;
+  private snapshot: SnapshotFile<PersistedBudget>;
+  private ready: Promise<void>;
+  private lastSave: Promise<void> = Promise.resolve();
+  private logger: Logger;
+  private readonly namespace: string;
+  private readonly limit: number | null;
+  private readonly period: BudgetPeriod;
+
+  constructor(namespace: string, dataDir: string, limit: number | null, period: BudgetPeriod = 'month') {
+    this.namespace = namespace;
+    this.limit = limit;
+    this.period = period;
+    this.periodKey = this.currentPeriodKey();
+    this.snapshot = new SnapshotFile(path.join(dataDir, 'token-budget.json'));
+    this.logger = new Logger('TokenBudget');
+    this.ready = this.load();
+  }
+
+  /**
+   * Throws when the namespace has no tokens left this period
+   */
+  async assertAvailable(): Promise<void> {
+    await this.ready;
+    this.rollPeriod();
+
+    if (this.limit !== null && this.used >= this.limit) {
+      throw new Error(`Token budget exhausted for namespace "${this.namespace}" (${this.used}/${this.limit} tokens this ${this.period === 'total' ? 'lifetime' : this.period})`);
+    }
+  }
+
+  async consume(tokens: number): Promise<void> {
+    if (tokens <= 0) return;
+    await this.ready;
+    this.rollPeriod();
+
+    this.used += tokens;
+    await this.save().catch(error => this.logger.warn('Failed to save token usage', { namespace: this.namespace, error }));
+  }
+
+  async getUsage(): Promise<TokenBudgetUsage> {
+    await this.ready;
+    this.rollPeriod();
+
+    return {
+      limit: this.limit,
+      used: this.used,
+      remaining: this.limit === null ? null : Math.max(0, this.limit - this.used),
+      period: this.period,
+      period_key: this.periodKey
+    };
+  }
+
+  /**
+   * Saves are chained and write the usage current when they run, so a
+   * slower save never overwrites a higher count
+   */
+  private save(): Promise<void> {
+    const write = async () => {
+      await this.snapshot.write({ period_key: this.periodKey, used: this.used });
+    };
+    const saved = this.lastSave.then(write, write);
+    this.lastSave = saved.catch(() => undefined);
+    return saved;
+  }
+
+  private rollPeriod(): void {
+    const key = this.currentPeriodKey();
+    if (key !== this.periodKey) {
+      this.periodKey = key;
+      this.used = 0;
+    }
+  }
+
+  private currentPeriodKey(): string {
+    const now = new Date().toISOString();
+    return this.period === 'day' ? now.slice(0, 10) : this.period === 'month' ? now.slice(0, 7) : 'total';
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const loaded = await this.snapshot.read();
+      if (loaded && loaded.data.period_key === this.periodKey) {
+        this.used = loaded.data.used || 0;
+      }
+    } catch (error) {
+      this.logger.warn('Token usage unreadable, starting from zero', { namespace: this.namespace, error });
+    }
+  }
+}
@@ -1,11 +1,48 @@
-import { MCPResponse } from '../types/index.js';
-import { CacheEngine } from '../core/CacheEngine.js';
+import { ChatMessage, MCPResponse } from '../types/index.js';
+import { CacheEngine, CacheSetResult } from '../core/CacheEngine.js';
+import { ConversationKey } from '../core/ConversationKey.js';
 import { ModelOptimizer } from '../services/ModelOptimizer.js';
 import { TemplateEngine } from '../templates/TemplateEngine.js';
 import { MetricsCollector } from '../analytics/MetricsCollector.js';
 import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+import { QueueIntegration } from '../queue/QueueIntegration.js';
+import { TokenBudget } from '../core/TokenBudget.js';
+import { RedactionFinding } from '../redaction/Redactor.js';
+import { ConversationMemory } from '../services/ConversationMemory.js';
 import OpenAI from 'openai';
+import crypto from 'crypto';
+
+interface ChatRequest {
+  context?: string;
+  conversation: ChatMessage[] | null;
+  userPrompt: string;
+  model: string;
+  forceCache?: boolean;
+  /** Seconds the cached reply stays fresh before it is served stale */
+  softTtl?: number;
+  /** Sensitive data found in the request whose action forbids caching */
+  uncacheable?: RedactionFinding[];
+}
+
+/**
+ * A chat request after sensitive data has been masked
+ */
+interface RedactedRequest {
+  prompt?: string;
+  context?: string;
+  conversation: ChatMessage[] | null;
+  findings: RedactionFinding[];
+}
+
+/**
+ * A recent chat response that can still be rated by request id
+ */
+interface TrackedResponse {
+  cacheKey: string;
+  rated: boolean;
+}
 
 /**
  * Centralized MCP request handlers
@@ -18,6 +55,13 @@ export class MCPHandlers {
   private providerFactory: LLMProviderFactory;
   private logger: Logger;
   private openai: OpenAI;
+  private queueIntegration?: QueueIntegration;
+  private budget?: TokenBudget;
+  private memory?: ConversationMemory;
+  private recentResponses = new Map<string, TrackedResponse>();
+  private static readonly MAX_TRACKED_RESPONSES = 1000;
+  /** Heuristics are re-tuned every this many ratings */
+  private static readonly RATINGS_PER_ADJUSTMENT = 10;
 
   constructor(
     cacheEngine: CacheEngine,
@@ -25,7 +69,10 @@ export class MCPHandlers {
     templateEngine: TemplateEngine,
     metricsCollector: MetricsCollector,
     providerFactory: LLMProviderFactory,
-    openai: OpenAI
+    openai: OpenAI,
+    queueIntegration?: QueueIntegration,
+    budget?: TokenBudget,
+    memory?: ConversationMemory
   ) {
     this.cacheEngine = cacheEngine;
     this.modelOptimizer = modelOptimizer;
@@ -33,33 +80,83 @@ export class MCPHandlers {
     this.metricsCollector = metricsCollector;
     this.providerFactory = providerFactory;
     this.openai = openai;
+    this.queueIntegration = queueIntegration;
+    this.budget = budget;
+    this.memory = memory;
     this.logger = new Logger('MCPHandlers');
   }
 
   /**
-   * Smart chat with intelligent caching and model optimization
+   * Smart chat with intelligent caching and model optimization.
+   * Accepts either prompt/context or a full messages[] conversation.
    */
   async handleSmartMoonshotChat(args: any): Promise<MCPResponse> {
     const startTime = Date.now();
-    const { prompt, context, force_cache, model = 'moonshot-v1-8k' } = args;
+    const requestId = crypto.randomUUID();
+    const { messages, force_cache, soft_ttl, model = 'moonshot-v1-8k' } = args;
     
     try {
-      // Check cache first
-      const cached = await this.cacheEngine.get(prompt, context, model);
+      const rawConversation = messages !== undefined ? this.buildConversation(messages, args.context) : null;
+      if (!rawConversation && typeof args.prompt !== 'string') {
+        throw new Error('Either prompt or messages is required');
+      }
+
+      // Sensitive data is masked before it reaches the cache key, the cache or the provider
+      const { prompt, context, conversation, findings } = this.redactRequest(args.prompt, args.context, rawConversation);
+      this.metricsCollector.recordRedaction(findings);
+      const redaction = findings.length > 0 ? findings : undefined;
+      const rejectedBy = findings.filter(finding => finding.action === 'reject');
+      if (rejectedBy.length > 0) {
+        return this.rejectSensitiveRequest(rejectedBy, startTime);
+      }
+      const uncacheable = findings.filter(finding => finding.action === 'block-cache');
+
+      const userPrompt = conversation ? ConversationKey.lastUserContent(conversation) : prompt!;
+      const request: ChatRequest = {
+        context, conversation, userPrompt, model, forceCache: force_cache, softTtl: soft_ttl,
+        uncacheable: uncacheable.length > 0 ? uncacheable : undefined
+      };
+      const cacheKey = conversation
+        ? this.cacheEngine.generateConversationKey(conversation, model)
+        : this.cacheEngine.generateCacheKey(userPrompt, context, model);
+
+      // Check cache first; requests that may not be cached are not answered from it either
+      const cached = request.uncacheable
+        ? null
+        : conversation
+          ? await this.cacheEngine.getConversation(conversation, model)
+          : await this.cacheEngine.get(userPrompt, context, model);
       
       if (cached && !force_cache) {
         this.metricsCollector.recordRequest(true, cached.tokens);
         this.metricsCollector.recordPerformanceData('cache_get', Date.now() - startTime, true);
+
+        // Stale: answer now, refresh in the background
+        const stale = cached.freshness?.stale === true;
+        if (stale) {
+          this.scheduleRefresh(cacheKey, request);
+        }
+
+        const servedKey = cached.sourceKey ?? cached.cacheKey ?? cacheKey;
+        this.trackResponse(requestId, servedKey);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
+              request_id: requestId,
+              cache_key: servedKey,
               response: cached.value,
               cached: true,
+              stale,
+              age_seconds: cached.freshness ? Math.round(cached.freshness.age_ms / 1000) : undefined,
+              revalidating: stale ? true : undefined,
               tokens_saved: cached.tokens,
               cache_hits: cached.hits,
               source: 'smart_cache',
+              shared_from: cached.sharedFrom,
+              conversation: cached.conversation,
+              redaction,
               performance: {
                 response_time_ms: Date.now() - startTime,
                 cache_efficiency: 'high'
@@ -69,49 +166,40 @@ export class MCPHandlers {
         };
       }
 
-      // Cache miss - optimize model selection
-      const optimization = this.modelOptimizer.optimizeModelSelection(
-        this.detectTaskType(prompt, context),
-        this.estimateTokens(prompt),
-        context ? this.estimateTokens(context) : 0,
-        'balanced'
-      );
-
-      this.metricsCollector.recordModelOptimization(optimization.expectedSavings);
-
-      // Make API request
-      const response = await this.openai.chat.completions.create({
-        model: optimization.model,
-        messages: [
-          ...(context ? [{ role: 'system' as const, content: context }] : []),
-          { role: 'user' as const, content: prompt }
-        ]
-      });
-
-      const tokens = response.usage?.total_tokens || 0;
-      const responseContent = response.choices[0].message.content || '';
-
-      // Cache the response
-      const cacheResult = await this.cacheEngine.set(prompt, responseContent, {
-        context,
-        model: optimization.model,
-        tokens,
-        tags: this.extractTags(prompt, context),
-        forceCache: force_cache
-      });
-
-      this.metricsCollector.recordRequest(false);
-      this.metricsCollector.recordCachingDecision(cacheResult.cached);
-      this.metricsCollector.recordPerformanceData('api_request', Date.now() - startTime, true);
+      const conversationInfo = conversation
+        ? await this.cacheEngine.inspectConversation(conversation, model)
+        : undefined;
+
+      // Concurrent misses for the same key share a single upstream call
+      const { value: upstream, coalesced } = await this.cacheEngine.coalesce(cacheKey, () => this.fetchAndCache(request));
+      const { responseContent, tokens, cacheResult, optimization, memory } = upstream;
+
+      if (coalesced) {
+        this.metricsCollector.recordCoalescedRequest(tokens);
+        this.metricsCollector.recordPerformanceData('coalesced_request', Date.now() - startTime, true);
+      } else {
+        this.metricsCollector.recordRequest(false);
+        this.metricsCollector.recordCachingDecision(cacheResult.cached);
+        this.metricsCollector.recordPerformanceData('api_request', Date.now() - startTime, true);
+      }
+
+      this.trackResponse(requestId, cacheResult.cacheKey);
 
       return {
         content: [{
           type: 'text',
           text: JSON.stringify({
+            request_id: requestId,
+            cache_key: cacheResult.cacheKey,
             response: responseContent,
-            tokens_used: tokens,
+            tokens_used: coalesced ? 0 : tokens,
+            tokens_saved: coalesced ? tokens : undefined,
             cached: false,
+            coalesced,
             cache_decision: cacheResult,
+            conversation: conversationInfo,
+            memory,
+            redaction,
             model_optimization: {
               recommended_model: optimization.model,
               reason: optimization.reason,
@@ -146,6 +234,69 @@ export class MCPHandlers {
     }
   }
 
+  /**
+   * Rates a response by request id or cache key. The rating updates the cached
+   * entry's quality score (demoting or evicting poor answers) and counts as
+   * feedback on the decision to cache it.
+   */
+  async handleRateResponse(args: any): Promise<MCPResponse> {
+    const { request_id, cache_key, rating, score } = args || {};
+
+    try {
+      let cacheKey: string | undefined = cache_key;
+      let tracked: TrackedResponse | undefined;
+      if (request_id !== undefined) {
+        tracked = this.recentResponses.get(request_id);
+        if (!tracked) {
+          throw new Error(`Unknown or expired request_id: ${request_id}`);
+        }
+        if (tracked.rated) {
+          throw new Error(`Request ${request_id} was already rated`);
+        }
+        cacheKey = tracked.cacheKey;
+      }
+      if (!cacheKey) {
+        throw new Error('Either request_id or cache_key is required');
+      }
+
+      const value = rating === 'up' ? 1 : rating === 'down' ? 0 : score;
+      if (typeof value !== 'number') {
+        throw new Error("Provide rating ('up' | 'down') or score (0-1)");
+      }
+
+      const result = await this.cacheEngine.rate(cacheKey, value);
+      if (tracked) {
+        tracked.rated = true;
+      }
+
+      if (result) {
+        this.metricsCollector.recordDecisionFeedback(value >= 0.5);
+        this.adjustHeuristicsFromFeedback();
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            rated: result !== null,
+            ...(result || { cache_key: cacheKey, reason: 'Response is not cached' }),
+            decision_accuracy: `${this.metricsCollector.getEfficiencyMetrics().decision_accuracy.toFixed(1)}%`
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Rating failed',
+            message: error instanceof Error ? error.message : 'Unknown error'
+          }, null, 2)
+        }]
+      };
+    }
+  }
+
   /**
    * Template management handlers
    */
@@ -254,6 +405,9 @@ export class MCPHandlers {
           report,
           dashboard,
           performance: include_performance ? performance : undefined,
+          namespace: this.cacheEngine.getNamespace(),
+          token_budget: this.budget ? await this.budget.getUsage() : undefined,
+          admission_model: this.cacheEngine.getAdmissionModelStats(),
           insights: {
             efficiency_rating: this.calculateEfficiencyRating(report.efficiency),
             cost_optimization_status: this.getCostOptimizationStatus(report),
@@ -297,9 +451,209 @@ export class MCPHandlers {
     };
   }
 
+  /**
+   * Upstream call for a cache miss or refresh: picks the model, calls the API and caches the reply
+   */
+  private async fetchAndCache(request: ChatRequest) {
+    const { context, conversation, userPrompt, model } = request;
+
+    // Cache miss - optimize model selection
+    const promptTokens = TokenEstimator.estimateFromText(userPrompt, model);
+    const contextTokens = conversation
+      ? Math.max(0, TokenEstimator.estimateConversation(
+          conversation.map(m => ({ role: m.role, content: ConversationKey.contentOf(m) })),
+          model
+        ) - promptTokens)
+      : context ? TokenEstimator.estimateFromText(context, model) : 0;
+
+    const optimization = this.modelOptimizer.optimizeModelSelection(
+      this.detectTaskType(userPrompt, context),
+      promptTokens,
+      contextTokens,
+      'balanced'
+    );
+
+    this.metricsCollector.recordModelOptimization(optimization.expectedSavings);
+    await this.budget?.assertAvailable();
+
+    // Long conversations go upstream as a summary plus recent turns; the cache key stays on the full conversation
+    const prepared = conversation && this.memory
+      ? await this.memory.prepare(conversation, optimization.model)
+      : null;
+    const memory = prepared && prepared.summarizedMessages > 0
+      ? {
+          summarized_messages: prepared.summarizedMessages,
+          summarizer: prepared.summarizer,
+          summary_cached: prepared.cached,
+          tokens_before: prepared.originalTokens,
+          tokens_after: prepared.tokens
+        }
+      : undefined;
+
+    // Make API request
+    const response = await this.openai.chat.completions.create({
+      model: optimization.model,
+      messages: conversation
+        ? (prepared?.messages ?? conversation) as OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+        : [
+            ...(context ? [{ role: 'system' as const, content: context }] : []),
+            { role: 'user' as const, content: userPrompt }
+          ]
+    });
+
+    const tokens = response.usage?.total_tokens || 0;
+    const responseContent = response.choices[0].message.content || '';
+    await this.budget?.consume(tokens);
+
+    // Masking of the stored copy happens in the cache; other actions keep the answer out of it
+    const responseFindings = this.cacheEngine.getRedactor()?.scan(responseContent).findings || [];
+    this.metricsCollector.recordRedaction(responseFindings);
+    const uncacheable = [...(request.uncacheable || []), ...responseFindings.filter(finding => finding.action !== 'mask')];
+    if (uncacheable.length > 0) {
+      const detectors = Array.from(new Set(uncacheable.map(finding => finding.detector)));
+      const cacheResult: CacheSetResult = {
+        cached: false,
+        reason: `Sensitive data not cached (${detectors.join(', ')})`,
+        estimated_savings: 0,
+        cacheKey: conversation
+          ? this.cacheEngine.generateConversationKey(conversation, model)
+          : this.cacheEngine.generateCacheKey(userPrompt, context, optimization.model)
+      };
+      return { responseContent, tokens, cacheResult, optimization, memory };
+    }
+
+    // Cache the response
+    const cacheResult = conversation
+      ? await this.cacheEngine.setConversation(conversation, responseContent, {
+          model,
+          tokens,
+          tags: this.extractTags(userPrompt, context),
+          forceCache: request.forceCache,
+          softTtl: request.softTtl
+        })
+      : await this.cacheEngine.set(userPrompt, responseContent, {
+          context,
+          model: optimization.model,
+          tokens,
+          tags: this.extractTags(userPrompt, context),
+          forceCache: request.forceCache,
+          softTtl: request.softTtl
+        });
+
+    return { responseContent, tokens, cacheResult, optimization, memory };
+  }
+
+  /**
+   * Refreshes a stale entry in the background, through the job queue when available.
+   * Shares the in-flight call with concurrent misses for the same key.
+   */
+  private scheduleRefresh(cacheKey: string, request: ChatRequest): void {
+    const refresh = async () => {
+      const startTime = Date.now();
+      await this.cacheEngine.coalesce(cacheKey, () => this.fetchAndCache(request));
+      this.metricsCollector.recordPerformanceData('cache_refresh', Date.now() - startTime, true);
+    };
+
+    if (this.queueIntegration) {
+      this.queueIntegration.scheduleRefresh(cacheKey, refresh, this.cacheEngine.getNamespace());
+      return;
+    }
+
+    if (this.cacheEngine.isInFlight(cacheKey)) return;
+    refresh().catch(error => {
+      this.metricsCollector.recordPerformanceData('cache_refresh', 0, false);
+      this.logger.warn('Cache refresh failed', { key: cacheKey, error: error instanceof Error ? error.message : error });
+    });
+  }
+
+  private trackResponse(requestId: string, cacheKey: string): void {
+    this.recentResponses.set(requestId, { cacheKey, rated: false });
+    if (this.recentResponses.size > MCPHandlers.MAX_TRACKED_RESPONSES) {
+      // Maps iterate in insertion order: drop the oldest
+      this.recentResponses.delete(this.recentResponses.keys().next().value!);
+    }
+  }
+
+  private adjustHeuristicsFromFeedback(): void {
+    const { usage, efficiency } = this.metricsCollector.getMetricsReport();
+    if (usage.rated_decisions % MCPHandlers.RATINGS_PER_ADJUSTMENT !== 0) return;
+
+    this.cacheEngine.adjustHeuristics(
+      efficiency.cache_hit_rate / 100,
+      efficiency.avg_tokens_per_hit,
+      efficiency.decision_accuracy / 100
+    );
+  }
+
   /**
    * Utility methods
    */
+  /**
+   * Masks sensitive data in every part of a chat request and collects what was found
+   */
+  private redactRequest(prompt: string | undefined, context: string | undefined, conversation: ChatMessage[] | null): RedactedRequest {
+    const redactor = this.cacheEngine.getRedactor();
+    if (!redactor) {
+      return { prompt, context, conversation, findings: [] };
+    }
+
+    if (conversation) {
+      const contents = conversation.map(message => ConversationKey.contentOf(message));
+      const result = redactor.scanMany([...contents, context || '']);
+      return {
+        prompt,
+        context: context === undefined ? undefined : result.texts[contents.length],
+        conversation: conversation.map((message, i) =>
+          result.texts[i] === contents[i] ? message : { ...message, content: result.texts[i] }
+        ),
+        findings: result.findings
+      };
+    }
+
+    const result = redactor.scanMany([prompt || '', context || '']);
+    return {
+      prompt: result.texts[0],
+      context: context === undefined ? undefined : result.texts[1],
+      conversation: null,
+      findings: result.findings
+    };
+  }
+
+  private rejectSensitiveRequest(findings: RedactionFinding[], startTime: number): MCPResponse {
+    const detectors = findings.map(finding => finding.detector);
+    this.logger.warn('Request rejected: sensitive data', { detectors });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          error: 'Request rejected',
+          message: `Sensitive data detected (${detectors.join(', ')}); remove it and try again`,
+          redaction: findings,
+          cached: false,
+          performance: {
+            response_time_ms: Date.now() - startTime,
+            success: false
+          }
+        }, null, 2)
+      }]
+    };
+  }
+
+  private buildConversation(messages: unknown, context?: string): ChatMessage[] {
+    const error = ConversationKey.validate(messages);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const conversation = messages as ChatMessage[];
+    // A separate context argument acts as the system prompt unless one is already present
+    if (context && !conversation.some(m => m.role === 'system')) {
+      return [{ role: 'system', content: context }, ...conversation];
+    }
+    return conversation;
+  }
+
   private detectTaskType(prompt: string, context?: string): string {
     const content = `${prompt} ${context || ''}`.toLowerCase();
 
@@ -322,11 +676,6 @@ export class MCPHandlers {
     return 'general';
   }
 
-  private estimateTokens(text: string): number {
-    if (!text) return 0;
-    return Math.ceil(text.length / 4.5);
-  }
-
   private extractTags(prompt: string, context?: string): string[] {
     const content = `${prompt} ${context || ''}`.toLowerCase();
     const tags: string[] = [];
@@ -8,32 +8,55 @@ import {
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import OpenAI from 'openai';
+import cron from 'node-cron';
 import 'dotenv/config';
 
 // Core imports
-import { CacheEngine } from './core/CacheEngine.js';
+import { Namespace, NamespaceConfig, NamespaceManager } from './core/NamespaceManager.js';
+import { CACHE_IMPORT_STRATEGIES, CacheBundleFile } from './core/CacheBundle.js';
 import { ModelOptimizer } from './services/ModelOptimizer.js';
-import { TemplateEngine } from './templates/TemplateEngine.js';
-import { MetricsCollector } from './analytics/MetricsCollector.js';
 import { LLMProviderFactory } from './providers/LLMProviderFactory.js';
 import { MCPHandlers } from './handlers/MCPHandlers.js';
 import { DashboardService } from './analytics/DashboardService.js';
+import { CacheWarmupService } from './services/CacheWarmupService.js';
 import { Logger } from './utils/Logger.js';
 import { MCPServerConfig } from './types/index.js';
 import { QueueIntegration } from './queue/QueueIntegration.js';
+import { LocalModelManager } from './providers/LocalModelManager.js';
+import { AGGRESSIVENESS_LEVELS, Aggressiveness, CompressionBenchmark } from './optimization/evaluation/CompressionBenchmark.js';
+import { ChatProbeAnswerer } from './optimization/evaluation/CompressionEvaluator.js';
+import { EmbeddingProviderFactory } from './cache/embeddings/EmbeddingProviderFactory.js';
+import { TokenEstimator } from './utils/TokenEstimator.js';
+import { ModelCatalog } from './catalog/ModelCatalog.js';
+
+/**
+ * Handlers and dashboards bound to one namespace
+ */
+interface NamespaceScope {
+  namespace: Namespace;
+  handlers: MCPHandlers;
+  dashboard: DashboardService;
+  warmup: CacheWarmupService;
+}
+
+/** Tools that act on the caller's namespace and accept a namespace argument */
+const NAMESPACED_TOOLS = new Set([
+  'smart_moonshot_chat', 'render_template', 'search_templates', 'get_template_stats',
+  'get_advanced_metrics', 'get_dashboard_data', 'get_realtime_dashboard', 'get_historical_trends',
+  'export_analytics', 'get_savings_stats', 'cache_cleanup', 'invalidate_cache', 'rate_response',
+  'reindex_vector_cache', 'reencrypt_cache', 'export_cache', 'import_cache', 'warm_up_cache',
+  'evaluate_compression'
+]);
 
 /**
  * Advanced MCP Token Saver Server with Queue System Integration
  */
 class TokenSaverServer {
   private server!: Server;
-  private cacheEngine!: CacheEngine;
+  private namespaces!: NamespaceManager;
+  private scopes = new Map<string, NamespaceScope>();
   private modelOptimizer!: ModelOptimizer;
-  private templateEngine!: TemplateEngine;
-  private metricsCollector!: MetricsCollector;
   private providerFactory!: LLMProviderFactory;
-  private handlers!: MCPHandlers;
-  private dashboardService!: DashboardService;
   private queueIntegration!: QueueIntegration;
   private logger: Logger;
   private openai!: OpenAI;
@@ -59,6 +82,13 @@ class TokenSaverServer {
         enableHeuristics: process.env.CACHE_ENABLE_HEURISTICS !== 'false',
         enableVectorCache: process.env.ENABLE_VECTOR_CACHE !== 'false'
       },
+      namespaces: {
+        default: process.env.CACHE_DEFAULT_NAMESPACE || 'default',
+        config: this.parseNamespaceConfig(process.env.CACHE_NAMESPACES),
+        shared: (process.env.CACHE_SHARED_NAMESPACES || '').split(',').map(name => name.trim()).filter(Boolean),
+        perClient: process.env.CACHE_NAMESPACE_PER_CLIENT === 'true',
+        strict: process.env.CACHE_NAMESPACE_STRICT === 'true'
+      },
       models: {
         primary: process.env.PRIMARY_MODEL || 'moonshot-v1-8k',
         fallback: process.env.FALLBACK_MODEL || 'moonshot-v1-32k',
@@ -75,10 +105,36 @@ class TokenSaverServer {
         enableLoadBalancing: process.env.QUEUE_LOAD_BALANCING !== 'false',
         enableCircuitBreaker: process.env.QUEUE_CIRCUIT_BREAKER !== 'false',
         enableAutoScaling: process.env.QUEUE_AUTO_SCALING !== 'false'
+      },
+      warmup: process.env.CACHE_WARMUP_CORPUS ? {
+        corpus: process.env.CACHE_WARMUP_CORPUS,
+        namespace: process.env.CACHE_WARMUP_NAMESPACE,
+        schedule: process.env.CACHE_WARMUP_SCHEDULE || '0 3 * * *',
+        maxTokens: process.env.CACHE_WARMUP_MAX_TOKENS ? parseInt(process.env.CACHE_WARMUP_MAX_TOKENS) : undefined,
+        concurrency: process.env.CACHE_WARMUP_CONCURRENCY ? parseInt(process.env.CACHE_WARMUP_CONCURRENCY) : undefined,
+        limit: process.env.CACHE_WARMUP_LIMIT ? parseInt(process.env.CACHE_WARMUP_LIMIT) : undefined
+      } : undefined,
+      memory: {
+        enabled: process.env.CONVERSATION_MEMORY !== 'false',
+        maxTokens: process.env.CONVERSATION_MEMORY_MAX_TOKENS ? parseInt(process.env.CONVERSATION_MEMORY_MAX_TOKENS) : undefined,
+        minRecentMessages: process.env.CONVERSATION_MEMORY_RECENT_MESSAGES ? parseInt(process.env.CONVERSATION_MEMORY_RECENT_MESSAGES) : undefined,
+        localModel: process.env.CONVERSATION_MEMORY_LOCAL_MODEL === 'true'
       }
     };
   }
 
+  /**
+   * CACHE_NAMESPACES: JSON object of namespace name to NamespaceConfig
+   */
+  private parseNamespaceConfig(json?: string): Record<string, NamespaceConfig> {
+    if (!json) return {};
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      throw new Error(`CACHE_NAMESPACES is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   private initializeComponents(): void {
     // Initialize OpenAI client
     this.openai = new OpenAI({
@@ -87,16 +143,28 @@ class TokenSaverServer {
     });
 
     // Initialize core components
-    this.cacheEngine = new CacheEngine(this.config.cache);
     this.modelOptimizer = new ModelOptimizer();
-    this.templateEngine = new TemplateEngine();
-    this.metricsCollector = new MetricsCollector();
     this.providerFactory = new LLMProviderFactory();
+    const memory = this.config.memory?.enabled ? this.config.memory : undefined;
+    this.namespaces = new NamespaceManager({
+      cache: { ...this.config.cache, pricing: this.modelOptimizer },
+      defaultNamespace: this.config.namespaces?.default,
+      namespaces: this.config.namespaces?.config,
+      shared: this.config.namespaces?.shared,
+      perClient: this.config.namespaces?.perClient,
+      strict: this.config.namespaces?.strict,
+      memory: memory && {
+        maxTokens: memory.maxTokens,
+        minRecentMessages: memory.minRecentMessages,
+        localModels: memory.localModel ? new LocalModelManager() : undefined
+      }
+    });
+    const defaultNamespace = this.namespaces.get();
 
     // Initialize queue integration
     this.queueIntegration = new QueueIntegration(
       this.modelOptimizer,
-      this.cacheEngine,
+      defaultNamespace.cacheEngine,
       this.config.queue || {
         enabled: false,
         maxConcurrency: 10,
@@ -107,34 +175,58 @@ class TokenSaverServer {
       }
     );
 
-    // Initialize dashboard service
-    this.dashboardService = new DashboardService(
-      this.metricsCollector,
-      this.cacheEngine,
-      this.modelOptimizer,
-      this.providerFactory
-    );
-
-    // Initialize handlers
-    this.handlers = new MCPHandlers(
-      this.cacheEngine,
-      this.modelOptimizer,
-      this.templateEngine,
-      this.metricsCollector,
-      this.providerFactory,
-      this.openai
-    );
-
     // Preload cache patterns
-    this.cacheEngine.preloadCommonPatterns().catch(this.logger.error);
+    defaultNamespace.cacheEngine.preloadCommonPatterns().catch(this.logger.error);
 
     const queueConfig = this.config.queue || { enabled: false, maxConcurrency: 10 };
     this.logger.info('All components initialized successfully', {
+      defaultNamespace: defaultNamespace.name,
       queueEnabled: queueConfig.enabled,
       maxConcurrency: queueConfig.maxConcurrency
     });
   }
 
+  /**
+   * Handlers for the request's namespace: the namespace argument, else the MCP client's assignment, else the default
+   */
+  private scopeFor(requested?: unknown): NamespaceScope {
+    return this.scopeOf(this.namespaces.resolve(requested, this.server.getClientVersion()?.name));
+  }
+
+  /**
+   * Handlers for a namespace by name, for work that no client request drives
+   */
+  private scopeOf(name: string): NamespaceScope {
+    const existing = this.scopes.get(name);
+    if (existing) return existing;
+
+    const namespace = this.namespaces.get(name);
+    const handlers = new MCPHandlers(
+      namespace.cacheEngine,
+      this.modelOptimizer,
+      namespace.templateEngine,
+      namespace.metricsCollector,
+      this.providerFactory,
+      this.openai,
+      this.queueIntegration,
+      namespace.budget,
+      namespace.memory
+    );
+    const scope: NamespaceScope = {
+      namespace,
+      handlers,
+      dashboard: new DashboardService(
+        namespace.metricsCollector,
+        namespace.cacheEngine,
+        this.modelOptimizer,
+        this.providerFactory
+      ),
+      warmup: new CacheWarmupService(namespace.cacheEngine, handlers)
+    };
+    this.scopes.set(name, scope);
+    return scope;
+  }
+
   private setupServer(): void {
     this.server = new Server(
       {
@@ -155,22 +247,37 @@ class TokenSaverServer {
   private setupToolHandlers(): void {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+      tools: this.withNamespaceArgument([
         // Core functionality
         {
           name: 'smart_moonshot_chat',
-          description: 'Advanced chat with intelligent caching, model optimization, queue system, and analytics',
+          description: 'Advanced chat with intelligent caching, model optimization, queue system, and analytics. Sensitive data (API keys, tokens, emails, card numbers, private keys, CPF) is masked, kept out of the cache or rejected as configured',
           inputSchema: {
             type: 'object',
             properties: {
-              prompt: { type: 'string', description: 'User prompt' },
+              prompt: { type: 'string', description: 'User prompt (single-turn)' },
               context: { type: 'string', description: 'System context' },
+              messages: {
+                type: 'array',
+                description: 'Full conversation (system/user/assistant/tool messages); used instead of prompt for multi-turn chat',
+                items: {
+                  type: 'object',
+                  properties: {
+                    role: { type: 'string', enum: ['system', 'user', 'assistant', 'tool'] },
+                    content: { type: ['string', 'null'] },
+                    name: { type: 'string' },
+                    tool_calls: { type: 'array', items: { type: 'object' } },
+                    tool_call_id: { type: 'string' }
+                  },
+                  required: ['role']
+                }
+              },
               force_cache: { type: 'boolean', description: 'Force cache usage' },
+              soft_ttl: { type: 'number', description: 'Seconds the cached reply stays fresh; after that it is returned stale while refreshed in the background' },
               model: { type: 'string', default: 'moonshot-v1-8k', description: 'Model to use' },
               priority: { type: 'number', default: 5, description: 'Queue priority (1-10)' },
               use_queue: { type: 'boolean', default: true, description: 'Use queue system for processing' }
-            },
-            required: ['prompt']
+            }
           }
         },
 
@@ -329,6 +436,107 @@ class TokenSaverServer {
             properties: {}
           }
         },
+        {
+          name: 'invalidate_cache',
+          description: 'Remove cached responses matching all given criteria from the literal (JSON/Redis) and vector caches',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tags: { type: 'array', items: { type: 'string' }, description: 'Match entries with any of these tags' },
+              model: { type: 'string', description: 'Match entries cached for this model' },
+              task_type: { type: 'string', description: 'Match entries of this task type' },
+              created_before: {
+                type: ['string', 'number'],
+                description: 'Match entries created before this ISO date or epoch milliseconds'
+              },
+              key_prefix: { type: 'string', description: 'Match entries whose cache key starts with this prefix' },
+              dry_run: { type: 'boolean', default: false, description: 'Only report what would be removed' }
+            }
+          }
+        },
+        {
+          name: 'rate_response',
+          description: 'Rate a smart_moonshot_chat answer by request_id or cache_key; poorly rated cached answers are demoted or evicted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              request_id: { type: 'string', description: 'request_id returned by smart_moonshot_chat' },
+              cache_key: { type: 'string', description: 'cache_key returned by smart_moonshot_chat' },
+              rating: { type: 'string', enum: ['up', 'down'], description: 'Thumbs up or down' },
+              score: { type: 'number', minimum: 0, maximum: 1, description: 'Quality score from 0 (bad) to 1 (good), instead of rating' }
+            }
+          }
+        },
+        {
+          name: 'reindex_vector_cache',
+          description: 'Re-embed vector cache entries with the current embedding model in background batches; call with status_only to follow progress',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              batch_size: { type: 'number', default: 32, description: 'Entries embedded per batch' },
+              force: { type: 'boolean', default: false, description: 'Re-embed every entry, not only stale ones' },
+              status_only: { type: 'boolean', default: false, description: 'Only report embedding and reindex status' }
+            }
+          }
+        },
+        {
+          name: 'reencrypt_cache',
+          description: 'Rewrite the namespace\'s literal and vector caches with the current encryption key (CACHE_ENCRYPTION_KEY); run after rotating keys, then drop the previous keys',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'export_cache',
+          description: 'Write the namespace\'s literal and vector cache entries to a versioned bundle file, to pre-seed other machines with import_cache. Values are written decrypted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'Bundle file name, relative to the namespace\'s bundles directory under the data dir' },
+              tags: { type: 'array', items: { type: 'string' }, description: 'Export entries with any of these tags' },
+              model: { type: 'string', description: 'Export entries cached for this model' },
+              min_hits: { type: 'number', description: 'Export entries hit at least this many times' },
+              include_vector: { type: 'boolean', default: true, description: 'Include vector cache entries' },
+              compress: { type: 'boolean', description: 'Gzip the bundle (default: when path ends with .gz)' }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'import_cache',
+          description: 'Load a bundle written by export_cache into the namespace\'s caches',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'Bundle file name (plain or gzipped), relative to the namespace\'s bundles directory under the data dir' },
+              strategy: {
+                type: 'string',
+                enum: CACHE_IMPORT_STRATEGIES,
+                default: 'skip',
+                description: 'When an entry is already cached: keep it (skip), replace it (overwrite), or keep the better rated one (keep-higher-quality)'
+              },
+              ttl: { type: 'number', description: 'Expire imported literal entries this many seconds from now instead of at their exported expiry' }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'warm_up_cache',
+          description: 'Replay a JSONL prompt corpus or request log through smart_moonshot_chat, most frequent prompts first, to pre-populate the cache; reports which prompts were admitted and the estimated future savings',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'JSONL file name, relative to the namespace\'s warmup directory under the data dir: smart_moonshot_chat arguments or {title, body} per line; repeated lines count as frequency' },
+              max_tokens: { type: 'number', description: 'Upstream tokens the run may spend' },
+              concurrency: { type: 'number', default: 4, description: 'Requests sent upstream at the same time' },
+              limit: { type: 'number', description: 'Only the N most frequent prompts' },
+              model: { type: 'string', description: 'Model for lines that name none' },
+              dry_run: { type: 'boolean', default: false, description: 'Only plan: report what would be replayed' }
+            },
+            required: ['path']
+          }
+        },
         {
           name: 'optimize_model_selection',
           description: 'Optimize model selection for cache miss scenarios',
@@ -342,42 +550,74 @@ class TokenSaverServer {
             },
             required: ['prompt']
           }
+        },
+        {
+          name: 'evaluate_compression',
+          description: 'Run a fixture corpus through every compression technique and aggressiveness level and report what each keeps: keyword and entity retention, embedding similarity and question-answer probes against the original',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              corpus: { type: 'string', description: 'JSON fixture corpus in the config directory (default: compression-corpus.json)' },
+              ratios: { type: 'array', items: { type: 'number' }, default: [0.5], description: 'Token budgets as shares of each fixture' },
+              levels: { type: 'array', items: { type: 'string', enum: AGGRESSIVENESS_LEVELS }, description: 'Aggressiveness levels to run (default: all)' },
+              embedding_model: { type: 'string', description: 'Embedding model for similarity and embedding-ranked runs, as in EMBEDDING_MODEL (e.g. hash)' },
+              probe_model: { type: 'string', description: 'Catalog model of the configured provider that answers the probes, charged to the namespace\'s token budget; without one a probe passes when its answer is still in the text' },
+              min_score: { type: 'number', default: 0.8, description: 'Runs scoring below this are flagged' },
+              format: { type: 'string', enum: ['json', 'markdown'], default: 'json' },
+              include_runs: { type: 'boolean', default: false, description: 'Include every run in the JSON report, not only the summaries' }
+            }
+          }
+        },
+        {
+          name: 'list_namespaces',
+          description: 'List open namespaces with their cache size, quota and token budget usage',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
         }
-      ]
+      ])
     }));
 
     // Handle tool calls
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
+      let scope: NamespaceScope;
+      try {
+        scope = this.scopeFor(NAMESPACED_TOOLS.has(name) ? args?.namespace : undefined);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+
       try {
         switch (name) {
           case 'smart_moonshot_chat':
-            return await this.handlers.handleSmartMoonshotChat(args);
+            return await scope.handlers.handleSmartMoonshotChat(args);
 
           case 'render_template':
-            return await this.handlers.handleRenderTemplate(args);
+            return await scope.handlers.handleRenderTemplate(args);
 
           case 'search_templates':
-            return await this.handlers.handleSearchTemplates(args);
+            return await scope.handlers.handleSearchTemplates(args);
 
           case 'get_template_stats':
-            return await this.handlers.handleGetTemplateStats(args);
+            return await scope.handlers.handleGetTemplateStats(args);
 
           case 'get_advanced_metrics':
-            return await this.handlers.handleGetAdvancedMetrics(args);
+            return await scope.handlers.handleGetAdvancedMetrics(args);
 
           case 'get_dashboard_data':
-            return this.handleGetDashboardData();
+            return this.handleGetDashboardData(scope);
 
           case 'get_realtime_dashboard':
-            return await this.handleGetRealtimeDashboard();
+            return await this.handleGetRealtimeDashboard(scope);
 
           case 'get_historical_trends':
-            return await this.handleGetHistoricalTrends(args);
+            return await this.handleGetHistoricalTrends(scope, args);
 
           case 'export_analytics':
-            return await this.handleExportAnalytics(args);
+            return await this.handleExportAnalytics(scope, args);
 
           case 'get_queue_status':
             return this.handleGetQueueStatus();
@@ -389,21 +629,48 @@ class TokenSaverServer {
             return this.handleResetQueueLimits(args);
 
           case 'compare_providers':
-            return await this.handlers.handleProviderComparison(args);
+            return await scope.handlers.handleProviderComparison(args);
 
           case 'get_cost_analysis':
             return this.handleGetCostAnalysis(args);
 
           // Legacy handlers for backward compatibility
           case 'get_savings_stats':
-            return await this.handlers.handleGetAdvancedMetrics({ include_performance: args?.detailed });
+            return await scope.handlers.handleGetAdvancedMetrics({ include_performance: args?.detailed });
 
           case 'cache_cleanup':
-            return this.handleCacheCleanup();
+            return this.handleCacheCleanup(scope);
+
+          case 'invalidate_cache':
+            return await this.handleInvalidateCache(scope, args);
+
+          case 'rate_response':
+            return await scope.handlers.handleRateResponse(args);
+
+          case 'reindex_vector_cache':
+            return await this.handleReindexVectorCache(scope, args);
+
+          case 'reencrypt_cache':
+            return await this.handleReencryptCache(scope);
+
+          case 'export_cache':
+            return await this.handleExportCache(scope, args);
+
+          case 'import_cache':
+            return await this.handleImportCache(scope, args);
+
+          case 'warm_up_cache':
+            return await this.handleWarmUpCache(scope, args);
 
           case 'optimize_model_selection':
             return this.handleOptimizeModelSelection(args);
 
+          case 'evaluate_compression':
+            return await this.handleEvaluateCompression(scope, args);
+
+          case 'list_namespaces':
+            return await this.handleListNamespaces();
+
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} not found`);
         }
@@ -414,6 +681,37 @@ class TokenSaverServer {
     });
   }
 
+  /**
+   * Adds the optional namespace argument to the tools that act on a namespace
+   */
+  private withNamespaceArgument<T extends { name: string; inputSchema: { type: string; properties?: Record<string, unknown> } }>(tools: T[]): T[] {
+    return tools.map(tool => NAMESPACED_TOOLS.has(tool.name)
+      ? {
+          ...tool,
+          inputSchema: {
+            ...tool.inputSchema,
+            properties: {
+              ...tool.inputSchema.properties,
+              namespace: { type: 'string', description: 'Tenant/project namespace; defaults to the one assigned to this client' }
+            }
+          }
+        }
+      : tool);
+  }
+
+  private async handleListNamespaces() {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          default_namespace: this.namespaces.getDefaultName(),
+          namespaces: await this.namespaces.getSummary(),
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
   // New queue management handlers
   private handleGetQueueStatus() {
     const status = this.queueIntegration.getQueueStatus();
@@ -462,8 +760,8 @@ class TokenSaverServer {
   }
 
   // Legacy compatibility handlers
-  private handleGetDashboardData() {
-    const dashboard = this.metricsCollector.getDashboardData();
+  private handleGetDashboardData(scope: NamespaceScope) {
+    const dashboard = scope.namespace.metricsCollector.getDashboardData();
     const queueStatus = this.queueIntegration.getQueueStatus();
     const queueConfig = this.config.queue || { enabled: false, maxConcurrency: 10 };
     
@@ -471,6 +769,7 @@ class TokenSaverServer {
       content: [{
         type: 'text',
         text: JSON.stringify({
+          namespace: scope.namespace.name,
           dashboard_data: dashboard,
           queue_status: queueStatus,
           server_info: {
@@ -512,8 +811,8 @@ class TokenSaverServer {
     };
   }
 
-  private async handleCacheCleanup() {
-    const result = await this.cacheEngine.cleanup();
+  private async handleCacheCleanup(scope: NamespaceScope) {
+    const result = await scope.namespace.cacheEngine.cleanup();
     
     return {
       content: [{
@@ -528,11 +827,216 @@ class TokenSaverServer {
     };
   }
 
+  private async handleInvalidateCache(scope: NamespaceScope, args: any) {
+    const { tags, model, task_type, created_before, key_prefix, dry_run = false } = args || {};
+
+    let createdBefore: number | undefined;
+    if (created_before !== undefined) {
+      createdBefore = typeof created_before === 'number' ? created_before : Date.parse(created_before);
+      if (Number.isNaN(createdBefore)) {
+        throw new Error(`Invalid created_before: ${created_before}`);
+      }
+    }
+
+    const result = await scope.namespace.cacheEngine.invalidate({
+      tags,
+      model,
+      task_type,
+      created_before: createdBefore,
+      key_prefix
+    }, { dryRun: dry_run });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          invalidation_completed: !dry_run,
+          ...result,
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private async handleReencryptCache(scope: NamespaceScope) {
+    const result = await scope.namespace.cacheEngine.reencrypt();
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          namespace: scope.namespace.name,
+          key_id: result.literal.key_id,
+          literal_cache: result.literal,
+          vector_cache: result.vector,
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private async handleExportCache(scope: NamespaceScope, args: any) {
+    const { path, tags, model, min_hits, include_vector = true, compress } = args || {};
+    if (typeof path !== 'string' || !path) {
+      throw new Error('path is required');
+    }
+
+    const file = CacheBundleFile.resolve(this.bundleDir(scope), path);
+    const bundle = await scope.namespace.cacheEngine.exportBundle({ tags, model, min_hits }, { includeVector: include_vector });
+    const bytes = await CacheBundleFile.write(file, bundle, { compress: compress ?? path.endsWith('.gz') });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          namespace: scope.namespace.name,
+          path,
+          version: bundle.version,
+          literal_entries: bundle.literal.length,
+          vector_entries: bundle.vector.length,
+          size_bytes: bytes,
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private bundleDir(scope: NamespaceScope): string {
+    return `${scope.namespace.dataDir}/bundles`;
+  }
+
+  private async handleImportCache(scope: NamespaceScope, args: any) {
+    const { path, strategy, ttl } = args || {};
+    if (typeof path !== 'string' || !path) {
+      throw new Error('path is required');
+    }
+
+    const bundle = await CacheBundleFile.read(CacheBundleFile.resolve(this.bundleDir(scope), path));
+    const result = await scope.namespace.cacheEngine.importBundle(bundle, { strategy, ttl });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          namespace: scope.namespace.name,
+          path,
+          source_namespace: bundle.namespace,
+          exported_at: new Date(bundle.created_at).toISOString(),
+          ...result,
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private async handleWarmUpCache(scope: NamespaceScope, args: any) {
+    const { path, max_tokens, concurrency, limit, model, dry_run = false } = args || {};
+    if (typeof path !== 'string' || !path) {
+      throw new Error('path is required');
+    }
+
+    const file = CacheWarmupService.resolveCorpus(`${scope.namespace.dataDir}/warmup`, path);
+    const report = await scope.warmup.warmFromFile(file, {
+      maxTokens: max_tokens,
+      concurrency,
+      limit,
+      defaultModel: model,
+      dryRun: dry_run
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          namespace: scope.namespace.name,
+          path,
+          ...report,
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private async handleReindexVectorCache(scope: NamespaceScope, args: any) {
+    const { batch_size, force = false, status_only = false } = args || {};
+    const cacheEngine = scope.namespace.cacheEngine;
+
+    if (!cacheEngine.getVectorEmbeddingStatus()) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ error: 'Vector cache is disabled' }, null, 2)
+        }]
+      };
+    }
+
+    const reindex = status_only
+      ? undefined
+      : await cacheEngine.reindexVectorCache({ batchSize: batch_size, force });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          reindex_started: !status_only,
+          reindex,
+          embedding: cacheEngine.getVectorEmbeddingStatus(),
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private async handleEvaluateCompression(scope: NamespaceScope, args: any) {
+    const { corpus = 'compression-corpus.json', ratios, levels, embedding_model, probe_model, min_score, format = 'json', include_runs = false } = args || {};
+    const unknown = (levels || []).filter((level: string) => !AGGRESSIVENESS_LEVELS.includes(level as Aggressiveness));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown aggressiveness: ${unknown.join(', ')}`);
+    }
+
+    // Probes are paid calls on the chat client, so only its provider's catalog models are accepted
+    const provider = this.chatProvider();
+    if (probe_model !== undefined && (!provider || ModelCatalog.shared().get(probe_model)?.provider !== provider)) {
+      throw new Error(`Unknown probe model ${probe_model}: use a ${provider || 'chat provider'} model from the model catalog`);
+    }
+
+    const benchmark = new CompressionBenchmark({
+      ratios,
+      levels,
+      embeddings: embedding_model ? EmbeddingProviderFactory.create(embedding_model) : undefined,
+      answerer: probe_model
+        ? new ChatProbeAnswerer(this.openai, probe_model, {
+            budget: scope.namespace.budget,
+            redactor: scope.namespace.cacheEngine.getRedactor()
+          })
+        : undefined,
+      minScore: min_score
+    });
+    const report = await benchmark.run(await CompressionBenchmark.loadCorpus(CompressionBenchmark.resolveCorpus(corpus)), corpus);
+
+    return {
+      content: [{
+        type: 'text',
+        text: format === 'markdown'
+          ? CompressionBenchmark.toMarkdown(report)
+          : JSON.stringify(include_runs ? report : { ...report, runs: undefined, below_threshold: report.runs.filter(run => run.below_threshold).length }, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Catalog provider the chat client talks to, matched by base URL
+   */
+  private chatProvider(): string | undefined {
+    const baseURL = this.openai.baseURL.replace(/\/+$/, '');
+    return ModelCatalog.shared().providers().find(([, provider]) => provider.base_url.replace(/\/+$/, '') === baseURL)?.[0];
+  }
+
   private handleOptimizeModelSelection(args: any) {
     const { prompt, context, task_type, current_model } = args;
     
-    const promptTokens = Math.ceil(prompt.length / 4.5);
-    const contextTokens = context ? Math.ceil(context.length / 4.5) : 0;
+    const promptTokens = TokenEstimator.estimateFromText(prompt, current_model);
+    const contextTokens = context ? TokenEstimator.estimateFromText(context, current_model) : 0;
     const detectedTaskType = task_type || this.detectTaskType(prompt, context);
     
     const optimization = this.modelOptimizer.optimizeModelSelection(
@@ -581,8 +1085,8 @@ class TokenSaverServer {
   }
 
   // New dashboard handlers
-  private async handleGetRealtimeDashboard() {
-    const dashboard = await this.dashboardService.getRealTimeDashboard();
+  private async handleGetRealtimeDashboard(scope: NamespaceScope) {
+    const dashboard = await scope.dashboard.getRealTimeDashboard();
     const queueStatus = this.queueIntegration.getQueueStatus();
     const queueConfig = this.config.queue || { enabled: false, maxConcurrency: 10 };
     
@@ -590,6 +1094,7 @@ class TokenSaverServer {
       content: [{
         type: 'text',
         text: JSON.stringify({
+          namespace: scope.namespace.name,
           realtime_dashboard: dashboard,
           queue_status: queueStatus,
           generated_at: new Date().toISOString(),
@@ -604,9 +1109,9 @@ class TokenSaverServer {
     };
   }
 
-  private async handleGetHistoricalTrends(args: any) {
+  private async handleGetHistoricalTrends(scope: NamespaceScope, args: any) {
     const { timeframe = '24h' } = args;
-    const trends = await this.dashboardService.getHistoricalTrends(timeframe);
+    const trends = await scope.dashboard.getHistoricalTrends(timeframe);
     
     return {
       content: [{
@@ -621,9 +1126,9 @@ class TokenSaverServer {
     };
   }
 
-  private async handleExportAnalytics(args: any) {
+  private async handleExportAnalytics(scope: NamespaceScope, args: any) {
     const { format = 'json' } = args;
-    const exportData = await this.dashboardService.exportDashboardData(format);
+    const exportData = await scope.dashboard.exportDashboardData(format);
     
     return {
       content: [{
@@ -644,13 +1149,34 @@ class TokenSaverServer {
     // Auto-optimization every 30 minutes
     setInterval(async () => {
       try {
-        await this.cacheEngine.cleanup();
+        for (const namespace of this.namespaces.list()) {
+          await namespace.cacheEngine.cleanup();
+        }
         this.logger.info('Scheduled optimization completed');
       } catch (error) {
         this.logger.error('Scheduled optimization failed', error);
       }
     }, 30 * 60 * 1000);
 
+    // Nightly warm-up of the configured namespace (the default one unless set); the operator's corpus path is read as given
+    const warmup = this.config.warmup;
+    if (warmup) {
+      cron.schedule(warmup.schedule, async () => {
+        try {
+          const scope = this.scopeOf(this.namespaces.get(warmup.namespace).name);
+          const report = await scope.warmup.warmFromFile(warmup.corpus, warmup);
+          this.logger.info('Scheduled cache warm-up completed', {
+            namespace: scope.namespace.name,
+            admitted: report.admitted,
+            tokens_used: report.tokens_used,
+            estimated_future_savings: report.estimated_future_savings
+          });
+        } catch (error) {
+          this.logger.error('Scheduled cache warm-up failed', error);
+        }
+      });
+    }
+
     // Queue health monitoring
     if (queueConfig.enabled) {
       setInterval(async () => {
@@ -666,12 +1192,14 @@ class TokenSaverServer {
     // Metrics collection
     if (this.config.analytics.enabled) {
       setInterval(() => {
-        const dashboard = this.metricsCollector.getDashboardData();
         const queueStats = this.queueIntegration.getQueueStats();
-        this.logger.info('Metrics collected', {
-          ...dashboard.overview,
-          queue: queueStats
-        });
+        for (const namespace of this.namespaces.list()) {
+          this.logger.info('Metrics collected', {
+            namespace: namespace.name,
+            ...namespace.metricsCollector.getDashboardData().overview
+          });
+        }
+        this.logger.info('Queue metrics collected', queueStats);
       }, this.config.analytics.metricsInterval);
     }
   }
@@ -691,7 +1219,7 @@ class TokenSaverServer {
   }
 
   async stop(): Promise<void> {
-    await this.cacheEngine.close();
+    await this.namespaces.close();
     await this.queueIntegration.shutdown();
     this.logger.info('Server stopped gracefully');
   }
@@ -1,3 +1,9 @@
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+import { CodeCompressor } from './code/CodeCompressor.js';
+import { CodeLanguage } from './code/SourceLanguage.js';
+import { DroppedChunk, QueryFocusedCompressor, QueryFocusResult } from './relevance/QueryFocusedCompressor.js';
+import { EmbeddingProvider } from '../cache/embeddings/EmbeddingProvider.js';
+
 /**
  * Context Compression - Implementa técnicas de compressão baseadas no Azure LLM Latency Guidebook
  * Reduz tokens mantendo informação essencial
@@ -11,6 +17,9 @@ export interface CompressionResult {
   compressionRatio: number;
   technique: string;
   qualityScore: number; // 0-1, onde 1 é qualidade perfeita
+  language?: CodeLanguage; // Linguagem do código comprimido, quando uma só
+  elidedSymbols?: string[]; // Funções cujo corpo foi substituído pela assinatura
+  droppedChunks?: DroppedChunk[]; // Trechos descartados pela compressão focada no prompt
 }
 
 export interface CompressionOptions {
@@ -18,16 +27,17 @@ export interface CompressionOptions {
   preserveStructure?: boolean;
   aggressiveness?: 'conservative' | 'moderate' | 'aggressive';
   contextType?: 'conversation' | 'documentation' | 'code' | 'general';
+  model?: string; // Modelo de destino, define o tokenizer usado na contagem
+  query?: string; // Prompt enviado junto; guia quais trechos ficam e quais símbolos não são omitidos
+  language?: CodeLanguage; // Linguagem do código, quando já conhecida
 }
 
 export class ContextCompression {
-  private static readonly TOKEN_RATIO = 4.5; // Aproximação: 1 token ≈ 4.5 chars em inglês
-
   /**
-   * Estimate token count from text
+   * Token count with the target model's tokenizer
    */
-  private static estimateTokens(text: string): number {
-    return Math.ceil(text.length / this.TOKEN_RATIO);
+  private static estimateTokens(text: string, model?: string): number {
+    return TokenEstimator.estimateFromText(text, model);
   }
 
   /**
@@ -37,12 +47,15 @@ export class ContextCompression {
     text: string, 
     options: CompressionOptions = {}
   ): CompressionResult {
-    const originalTokens = this.estimateTokens(text);
     const {
-      maxTokens = Math.floor(originalTokens * 0.5),
       aggressiveness = 'moderate',
-      contextType = 'general'
+      contextType = 'general',
+      model,
+      query,
+      language
     } = options;
+    const originalTokens = this.estimateTokens(text, model);
+    const maxTokens = options.maxTokens ?? Math.floor(originalTokens * 0.5);
 
     // Se já está dentro do limite, não comprime
     if (originalTokens <= maxTokens) {
@@ -60,18 +73,28 @@ export class ContextCompression {
     // Escolhe técnica baseada no tipo de contexto e agressividade
     let result: CompressionResult;
 
+    // Com o prompt em mãos, texto e documentação mantêm os trechos relevantes a ele
+    if (query && (contextType === 'general' || contextType === 'documentation')) {
+      const focused = QueryFocusedCompressor.compress(text, query, {
+        maxTokens,
+        maxChunkTokens: this.chunkSize(aggressiveness),
+        model
+      });
+      return this.queryFocusedResult(text, focused, originalTokens, model);
+    }
+
     switch (contextType) {
       case 'conversation':
-        result = this.compressConversation(text, maxTokens, aggressiveness);
+        result = this.compressConversation(text, maxTokens, aggressiveness, model);
         break;
       case 'documentation':
-        result = this.compressDocumentation(text, maxTokens, aggressiveness);
+        result = this.compressDocumentation(text, maxTokens, aggressiveness, model);
         break;
       case 'code':
-        result = this.compressCode(text, maxTokens, aggressiveness);
+        result = this.compressCode(text, maxTokens, aggressiveness, model, query, language);
         break;
       default:
-        result = this.compressGeneral(text, maxTokens, aggressiveness);
+        result = this.compressGeneral(text, maxTokens, aggressiveness, model);
     }
 
     return result;
@@ -83,10 +106,11 @@ export class ContextCompression {
   private static compressConversation(
     text: string, 
     maxTokens: number, 
-    aggressiveness: string
+    aggressiveness: string,
+    model?: string
   ): CompressionResult {
     const lines = text.split('\n').filter(line => line.trim());
-    const originalTokens = this.estimateTokens(text);
+    const originalTokens = this.estimateTokens(text, model);
     
     // Identifica mensagens por padrões comuns (User:, Assistant:, etc.)
     const messages: Array<{content: string, role: string, tokens: number}> = [];
@@ -100,7 +124,7 @@ export class ContextCompression {
           messages.push({
             content: currentMessage.trim(),
             role: currentRole,
-            tokens: this.estimateTokens(currentMessage)
+            tokens: this.estimateTokens(currentMessage, model)
           });
         }
         currentRole = roleMatch[1].toLowerCase();
@@ -115,7 +139,7 @@ export class ContextCompression {
       messages.push({
         content: currentMessage.trim(),
         role: currentRole,
-        tokens: this.estimateTokens(currentMessage)
+        tokens: this.estimateTokens(currentMessage, model)
       });
     }
 
@@ -139,7 +163,7 @@ export class ContextCompression {
       compressed += `${msg.role}: ${msg.content}\n`;
     }
 
-    const compressedTokens = this.estimateTokens(compressed);
+    const compressedTokens = this.estimateTokens(compressed, model);
     
     return {
       originalText: text,
@@ -158,9 +182,10 @@ export class ContextCompression {
   private static compressDocumentation(
     text: string, 
     maxTokens: number, 
-    aggressiveness: string
+    aggressiveness: string,
+    model?: string
   ): CompressionResult {
-    const originalTokens = this.estimateTokens(text);
+    const originalTokens = this.estimateTokens(text, model);
     
     // Remove redundâncias e exemplos excessivos
     let compressed = text
@@ -182,7 +207,7 @@ export class ContextCompression {
         .replace(/\b(possibilita a|permite que|torna possível)\b/gi, 'permite');
     }
 
-    const compressedTokens = this.estimateTokens(compressed);
+    const compressedTokens = this.estimateTokens(compressed, model);
 
     return {
       originalText: text,
@@ -196,48 +221,37 @@ export class ContextCompression {
   }
 
   /**
-   * Compressão para código - mantém lógica essencial
+   * Compressão para código - usa o parser de cada linguagem, então remove
+   * comentários sem tocar em strings e só omite corpos de funções quando o
+   * resultado ainda compila
    */
   private static compressCode(
     text: string, 
     maxTokens: number, 
-    aggressiveness: string
+    aggressiveness: 'conservative' | 'moderate' | 'aggressive',
+    model?: string,
+    query?: string,
+    language?: CodeLanguage
   ): CompressionResult {
-    const originalTokens = this.estimateTokens(text);
-    
-    let compressed = text
-      // Remove comentários de linha
-      .replace(/\/\/.*$/gm, '')
-      // Remove comentários de bloco
-      .replace(/\/\*[\s\S]*?\*\//g, '')
-      // Remove linhas vazias excessivas
-      .replace(/\n\s*\n\s*\n/g, '\n\n')
-      // Remove espaços desnecessários
-      .replace(/\s+/g, ' ')
-      .replace(/\s*{\s*/g, '{')
-      .replace(/\s*}\s*/g, '}')
-      .replace(/\s*;\s*/g, ';');
+    const originalTokens = this.estimateTokens(text, model);
+    const result = CodeCompressor.compress(text, { maxTokens, aggressiveness, model, query, language });
+    const compressedTokens = this.estimateTokens(result.text, model);
 
-    if (aggressiveness === 'aggressive') {
-      compressed = compressed
-        // Remove imports não essenciais (heurística)
-        .replace(/^import\s+[^;]+;$/gm, '')
-        // Simplifica console.log e debug
-        .replace(/console\.(log|debug|info)\([^)]*\);?/g, '')
-        // Remove código de exemplo/teste inline
-        .replace(/\/\/ TEST:[\s\S]*?$/gm, '');
-    }
-
-    const compressedTokens = this.estimateTokens(compressed);
+    // Sem corpos omitidos só se perdem comentários e espaços
+    const qualityScore = result.elidedSymbols.length === 0
+      ? (aggressiveness === 'aggressive' ? 0.9 : 0.95)
+      : Math.max(0.6, 1 - (originalTokens - compressedTokens) / originalTokens * 0.5);
 
     return {
       originalText: text,
-      compressedText: compressed.trim(),
+      compressedText: result.text,
       originalTokens,
       compressedTokens,
       compressionRatio: compressedTokens / originalTokens,
-      technique: 'code-minification',
-      qualityScore: Math.max(0.8, 1 - Math.abs(compressedTokens - originalTokens) / originalTokens * 0.2)
+      technique: result.technique,
+      qualityScore,
+      language: result.languages.length === 1 ? result.languages[0] : undefined,
+      elidedSymbols: result.elidedSymbols
     };
   }
 
@@ -247,16 +261,17 @@ export class ContextCompression {
   private static compressGeneral(
     text: string, 
     maxTokens: number, 
-    aggressiveness: string
+    aggressiveness: string,
+    model?: string
   ): CompressionResult {
-    const originalTokens = this.estimateTokens(text);
+    const originalTokens = this.estimateTokens(text, model);
     
     // Técnica de sumarização baseada em sentenças importantes
     const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
     const sentenceScores = sentences.map(sentence => ({
       sentence: sentence.trim(),
       score: this.scoreSentence(sentence),
-      tokens: this.estimateTokens(sentence)
+      tokens: this.estimateTokens(sentence, model)
     }));
 
     // Ordena por importância
@@ -281,7 +296,7 @@ export class ContextCompression {
       }
     }
 
-    const compressedTokens = this.estimateTokens(compressed);
+    const compressedTokens = this.estimateTokens(compressed, model);
 
     return {
       originalText: text,
@@ -354,6 +369,58 @@ export class ContextCompression {
     return topWords.join(', ');
   }
 
+  /**
+   * Compressão focada no prompt com embeddings (ex.: o provider do VectorCache);
+   * sem provider, usa BM25 como compress()
+   */
+  static async compressForQuery(
+    text: string,
+    query: string,
+    options: CompressionOptions = {},
+    embeddings?: EmbeddingProvider
+  ): Promise<CompressionResult> {
+    const { aggressiveness = 'moderate', model } = options;
+    const originalTokens = this.estimateTokens(text, model);
+    const maxTokens = options.maxTokens ?? Math.floor(originalTokens * 0.5);
+    if (!embeddings || originalTokens <= maxTokens) {
+      return this.compress(text, { ...options, query, contextType: 'general' });
+    }
+
+    const focused = await QueryFocusedCompressor.compressWithEmbeddings(text, query, embeddings, {
+      maxTokens,
+      maxChunkTokens: this.chunkSize(aggressiveness),
+      model
+    });
+    return this.queryFocusedResult(text, focused, originalTokens, model);
+  }
+
+  /**
+   * Tamanho máximo dos trechos: parágrafos inteiros, grupos de frases ou frases
+   */
+  private static chunkSize(aggressiveness: 'conservative' | 'moderate' | 'aggressive'): number {
+    return aggressiveness === 'conservative' ? Infinity : aggressiveness === 'moderate' ? 150 : 50;
+  }
+
+  private static queryFocusedResult(
+    text: string,
+    focused: QueryFocusResult,
+    originalTokens: number,
+    model?: string
+  ): CompressionResult {
+    const compressedTokens = this.estimateTokens(focused.text, model);
+    return {
+      originalText: text,
+      compressedText: focused.text,
+      originalTokens,
+      compressedTokens,
+      compressionRatio: compressedTokens / originalTokens,
+      technique: `query-focus:${focused.ranker}`,
+      // Qualidade = fração da relevância ao prompt que foi mantida
+      qualityScore: focused.retainedRelevance,
+      droppedChunks: focused.droppedChunks
+    };
+  }
+
   /**
    * Compressão automática com múltiplas tentativas
    */
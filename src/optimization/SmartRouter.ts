@@ -5,6 +5,8 @@
 
 import { TokenCostIntegration, TokenCostEstimate } from './TokenCostIntegration.js';
 import { ContextCompression, CompressionResult } from './ContextCompression.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+import { ModelCatalog } from '../catalog/ModelCatalog.js';
 
 export interface RoutingDecision {
   route: 'cache' | 'local' | 'remote';
@@ -113,18 +115,22 @@ export class SmartRouter {
     
     // Verifica se compressão pode ajudar
     let compression: CompressionResult | undefined;
-    if (allowCompression && selectedRoute.route === 'remote' && inputTokens > 1000) {
-      const targetTokens = Math.floor(inputTokens * 0.7); // Comprime 30%
-      compression = ContextCompression.smartCompress(fullText, targetTokens, {
+    // Só o contexto é comprimido; o prompt segue inteiro e orienta o que fica
+    const promptTokens = inputTokens - this.estimateTokens(context);
+    const targetTokens = Math.floor(inputTokens * 0.7) - promptTokens; // Comprime 30%
+    if (allowCompression && selectedRoute.route === 'remote' && inputTokens > 1000 && targetTokens > 0) {
+      compression = ContextCompression.smartCompress(context, targetTokens, {
         contextType: this.mapTaskTypeToContext(taskType),
-        aggressiveness: qualityLevel === 'fast' ? 'aggressive' : 'moderate'
+        aggressiveness: qualityLevel === 'fast' ? 'aggressive' : 'moderate',
+        model: selectedRoute.model,
+        query: prompt
       });
 
       // Recalcula custo com texto comprimido
       if (compression.compressionRatio < 0.9) {
         const newEstimate = TokenCostIntegration.estimateCost(
           selectedRoute.model,
-          compression.compressedTokens,
+          compression.compressedTokens + promptTokens,
           estimatedOutputTokens
         );
         selectedRoute.cost = newEstimate.totalCost;
@@ -206,7 +212,9 @@ export class SmartRouter {
     // Rotas: Modelos remotos
     const remoteModels = this.getRemoteModelsByTask(options.taskType || 'general');
     for (const model of remoteModels) {
-      const estimate = TokenCostIntegration.estimateCost(model, inputTokens, estimatedOutputTokens);
+      // Each remote model is priced with its own tokenizer's count
+      const modelInputTokens = this.estimateTokens(fullText, model);
+      const estimate = TokenCostIntegration.estimateCost(model, modelInputTokens, estimatedOutputTokens);
       routes.push({
         route: 'remote',
         model,
@@ -298,10 +306,10 @@ export class SmartRouter {
   }
 
   /**
-   * Estimativa simples de tokens
+   * Contagem de tokens com o tokenizer do modelo
    */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4.5);
+  private estimateTokens(text: string, model?: string): number {
+    return TokenEstimator.estimateFromText(text, model);
   }
 
   /**
@@ -329,7 +337,7 @@ export class SmartRouter {
       'coding': 'code',
       'analysis': 'documentation',
       'documentation': 'documentation',
-      'long-context': 'conversation',
+      'long-context': 'general',
       'general': 'general'
     };
     return mapping[taskType] || 'general';
@@ -347,7 +355,8 @@ export class SmartRouter {
       'general': ['moonshot-v1-8k', 'moonshot-v1-32k']
     };
 
-    return taskModels[taskType] || taskModels['general'];
+    // Modelos retirados do catálogo deixam de ser roteados
+    return (taskModels[taskType] || taskModels['general']).filter(model => ModelCatalog.shared().has(model));
   }
 
   /**
@@ -358,29 +367,17 @@ export class SmartRouter {
   }
 
   /**
-   * Latência típica para modelos remotos
+   * Latência típica para modelos remotos, do catálogo de modelos
    */
   private getRemoteLatency(model?: string): number {
-    const latencies: Record<string, number> = {
-      'moonshot-v1-8k': 800,
-      'moonshot-v1-32k': 1200,
-      'moonshot-v1-128k': 2000
-    };
-    return latencies[model || 'moonshot-v1-8k'] || 1000;
+    return ModelCatalog.shared().get(model || 'moonshot-v1-8k')?.latency_ms ?? 1000;
   }
 
   /**
-   * Score de qualidade por modelo
+   * Score de qualidade por modelo, do catálogo de modelos
    */
   private getModelQuality(model: string): number {
-    const qualities: Record<string, number> = {
-      'moonshot-v1-8k': 0.85,
-      'moonshot-v1-32k': 0.9,
-      'moonshot-v1-128k': 0.95,
-      'gpt-4o': 1.0,
-      'local-llama-3.2-3b': 0.7
-    };
-    return qualities[model] || 0.8;
+    return ModelCatalog.shared().get(model)?.quality ?? 0.8;
   }
 
   /**
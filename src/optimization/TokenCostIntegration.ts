@@ -1,126 +1,64 @@
 /**
  * TokenCost Integration - Estimativa de custos baseada no projeto AgentOps-AI/tokencost
- * Implementa estimativas de preço em USD para 400+ modelos
+ * Estimativas de preço em USD com os preços do catálogo de modelos (config/model-catalog.json)
  */
 
+import { ModelCatalog } from '../catalog/ModelCatalog.js';
+
 export interface TokenCostEstimate {
   model: string;
   inputTokens: number;
   outputTokens: number;
   inputCost: number;
   outputCost: number;
+  /** Part of the input cost billed at the prompt cache rate */
+  cachedInputCost: number;
   totalCost: number;
   currency: 'USD';
+  /** Start date of the catalog price used */
+  effectiveFrom: string;
 }
 
 export interface ModelCostData {
   name: string;
   inputCostPer1M: number;
   outputCostPer1M: number;
+  cachedInputCostPer1M?: number;
   contextWindow: number;
   maxOutputTokens?: number;
 }
 
 export class TokenCostIntegration {
-  private static readonly MODELS: Record<string, ModelCostData> = {
-    // Moonshot Models
-    'moonshot-v1-8k': {
-      name: 'moonshot-v1-8k',
-      inputCostPer1M: 12.0,
-      outputCostPer1M: 12.0,
-      contextWindow: 8192,
-      maxOutputTokens: 8192
-    },
-    'moonshot-v1-32k': {
-      name: 'moonshot-v1-32k',
-      inputCostPer1M: 24.0,
-      outputCostPer1M: 24.0,
-      contextWindow: 32768,
-      maxOutputTokens: 32768
-    },
-    'moonshot-v1-128k': {
-      name: 'moonshot-v1-128k',
-      inputCostPer1M: 60.0,
-      outputCostPer1M: 60.0,
-      contextWindow: 131072,
-      maxOutputTokens: 131072
-    },
-
-    // OpenAI Models (for comparison)
-    'gpt-4o': {
-      name: 'gpt-4o',
-      inputCostPer1M: 2500.0,
-      outputCostPer1M: 10000.0,
-      contextWindow: 128000,
-      maxOutputTokens: 4096
-    },
-    'gpt-4o-mini': {
-      name: 'gpt-4o-mini',
-      inputCostPer1M: 150.0,
-      outputCostPer1M: 600.0,
-      contextWindow: 128000,
-      maxOutputTokens: 16384
-    },
-    'gpt-3.5-turbo': {
-      name: 'gpt-3.5-turbo',
-      inputCostPer1M: 500.0,
-      outputCostPer1M: 1500.0,
-      contextWindow: 16385,
-      maxOutputTokens: 4096
-    },
-
-    // Claude Models (for comparison)
-    'claude-3-5-sonnet-20241022': {
-      name: 'claude-3-5-sonnet-20241022',
-      inputCostPer1M: 3000.0,
-      outputCostPer1M: 15000.0,
-      contextWindow: 200000,
-      maxOutputTokens: 8192
-    },
-    'claude-3-haiku-20240307': {
-      name: 'claude-3-haiku-20240307',
-      inputCostPer1M: 250.0,
-      outputCostPer1M: 1250.0,
-      contextWindow: 200000,
-      maxOutputTokens: 4096
-    },
-
-    // Local models (zero cost for tokens, only compute)
-    'local-llama-3.2-3b': {
-      name: 'local-llama-3.2-3b',
-      inputCostPer1M: 0.0,
-      outputCostPer1M: 0.0,
-      contextWindow: 8192,
-      maxOutputTokens: 8192
-    }
-  };
+  /**
+   * Prices come from the shared model catalog (config/model-catalog.json)
+   */
+  private static get catalog(): ModelCatalog {
+    return ModelCatalog.shared();
+  }
 
   /**
-   * Estimate cost for a given model and token counts
+   * Estimate cost for a given model and token counts.
+   * cachedInputTokens is the part of inputTokens read from the provider's prompt cache.
    */
   static estimateCost(
     model: string, 
     inputTokens: number, 
-    outputTokens: number
+    outputTokens: number,
+    cachedInputTokens: number = 0
   ): TokenCostEstimate {
-    const modelData = this.MODELS[model];
-    
-    if (!modelData) {
-      throw new Error(`Model ${model} not found in cost database`);
-    }
-
-    const inputCost = (inputTokens / 1_000_000) * modelData.inputCostPer1M;
-    const outputCost = (outputTokens / 1_000_000) * modelData.outputCostPer1M;
-    const totalCost = inputCost + outputCost;
+    const cost = this.catalog.cost(model, inputTokens, outputTokens, cachedInputTokens);
+    const round = (value: number) => Math.round(value * 10000) / 10000; // 4 decimal places
 
     return {
       model,
       inputTokens,
       outputTokens,
-      inputCost: Math.round(inputCost * 10000) / 10000, // 4 decimal places
-      outputCost: Math.round(outputCost * 10000) / 10000,
-      totalCost: Math.round(totalCost * 10000) / 10000,
-      currency: 'USD'
+      inputCost: round(cost.inputCost + cost.cachedInputCost),
+      outputCost: round(cost.outputCost),
+      cachedInputCost: round(cost.cachedInputCost),
+      totalCost: round(cost.totalCost),
+      currency: 'USD',
+      effectiveFrom: cost.effectiveFrom
     };
   }
 
@@ -133,7 +71,7 @@ export class TokenCostIntegration {
     estimatedOutputTokens: number
   ): TokenCostEstimate[] {
     return models
-      .filter(model => this.MODELS[model])
+      .filter(model => this.catalog.has(model))
       .map(model => this.estimateCost(model, inputTokens, estimatedOutputTokens))
       .sort((a, b) => a.totalCost - b.totalCost);
   }
@@ -147,8 +85,9 @@ export class TokenCostIntegration {
     maxBudget?: number,
     excludeLocal: boolean = false
   ): { model: string; estimate: TokenCostEstimate; savings: number } {
-    const availableModels = Object.keys(this.MODELS)
-      .filter(model => !excludeLocal || !model.startsWith('local-'));
+    const availableModels = this.catalog.list()
+      .filter(model => !excludeLocal || !model.capabilities.includes('local'))
+      .map(model => model.id);
 
     const estimates = this.compareModels(availableModels, inputTokens, estimatedOutputTokens);
     
@@ -233,13 +172,20 @@ export class TokenCostIntegration {
    * Get all available models with their cost information
    */
   static getAllModels(): ModelCostData[] {
-    return Object.values(this.MODELS);
+    return this.catalog.list().map(model => ({
+      name: model.id,
+      inputCostPer1M: model.price.input_per_1m,
+      outputCostPer1M: model.price.output_per_1m,
+      cachedInputCostPer1M: model.price.cached_input_per_1m,
+      contextWindow: model.context_window,
+      maxOutputTokens: model.max_output_tokens
+    }));
   }
 
   /**
    * Check if a model exists in the database
    */
   static hasModel(model: string): boolean {
-    return model in this.MODELS;
+    return this.catalog.has(model);
   }
 }
\ No newline at end of file
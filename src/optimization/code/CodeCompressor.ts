@@ -0,0 +1,359 @@
+import { TokenEstimator } from '../../utils/TokenEstimator.js';
+import { Logger } from '../../utils/Logger.js';
+import { CodeLanguage, CommentRange, ElidableRange, SourceLanguage, SourceRange, SourceScan } from './SourceLanguage.js';
+import { TypeScriptLanguage } from './TypeScriptLanguage.js';
+import { PythonLanguage } from './PythonLanguage.js';
+import { GoLanguage } from './GoLanguage.js';
+import { JsonLanguage } from './JsonLanguage.js';
+
+export type CodeAggressiveness = 'conservative' | 'moderate' | 'aggressive';
+
+export interface CodeCompressionOptions {
+  maxTokens: number;
+  aggressiveness: CodeAggressiveness;
+  /** Prompt the code is sent with; symbols it names are never elided */
+  query?: string;
+  /** Skips detection for unfenced code */
+  language?: CodeLanguage;
+  model?: string;
+}
+
+export interface CodeCompressionResult {
+  text: string;
+  technique: string;
+  /** Languages compressed syntax-aware, in order of appearance */
+  languages: CodeLanguage[];
+  /** Symbols whose bodies were replaced by a placeholder */
+  elidedSymbols: string[];
+}
+
+interface Edit extends SourceRange {
+  replacement: string;
+  comment: boolean;
+}
+
+interface BlockResult {
+  text: string;
+  language?: CodeLanguage;
+  elided: string[];
+}
+
+/** Markdown code fences; the body excludes the newline before the closing fence */
+const FENCE = /^```([\w+#.-]*)[^\n]*\n([\s\S]*?)\n```[ \t]*$/gm;
+
+const FENCE_LANGUAGES: Record<string, CodeLanguage> = {
+  ts: 'typescript', tsx: 'typescript', typescript: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', javascript: 'javascript',
+  py: 'python', python: 'python', python3: 'python',
+  go: 'go', golang: 'go',
+  json: 'json'
+};
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+
+/**
+ * Syntax-aware compression of source code. Each block is scanned with its
+ * language's tokenizer or parser, then, depending on aggressiveness:
+ *  - conservative strips non-doc comments
+ *  - moderate also replaces function bodies by placeholders, largest first,
+ *    until the block fits its budget
+ *  - aggressive strips doc comments too and elides every body it may
+ * Bodies of symbols named in the query, and of what those bodies use, are kept.
+ * Output that no longer parses is discarded for a less compressed version.
+ */
+export class CodeCompressor {
+  private static logger = new Logger('CodeCompressor');
+  private static languages = new Map<CodeLanguage, SourceLanguage>();
+
+  static compress(text: string, options: CodeCompressionOptions): CodeCompressionResult {
+    const fences = [...text.matchAll(FENCE)];
+    const blocks: BlockResult[] = [];
+    let output: string;
+
+    if (fences.length === 0) {
+      const block = this.compressBlock(text, options.language ?? this.detectLanguage(text), options.maxTokens, options);
+      blocks.push(block);
+      output = block.text;
+    } else {
+      // Prose around the fences is kept; the code shares what remains of the budget
+      const bodies = fences.map(fence => fence[2]);
+      const codeTokens = bodies.map(body => this.estimateTokens(body, options.model));
+      const totalCode = codeTokens.reduce((sum, tokens) => sum + tokens, 0);
+      const prose = Math.max(0, this.estimateTokens(text, options.model) - totalCode);
+      const codeBudget = Math.max(0, options.maxTokens - prose);
+
+      output = '';
+      let cursor = 0;
+      fences.forEach((fence, index) => {
+        const tag = fence[1].toLowerCase();
+        const language = FENCE_LANGUAGES[tag] ?? (tag ? null : options.language ?? this.detectLanguage(bodies[index]));
+        const budget = totalCode > 0 ? Math.floor(codeTokens[index] / totalCode * codeBudget) : 0;
+        const block = this.compressBlock(bodies[index], language, budget, options);
+        blocks.push(block);
+
+        const bodyStart = fence.index! + fence[0].indexOf('\n') + 1;
+        output += text.slice(cursor, bodyStart) + block.text;
+        cursor = bodyStart + bodies[index].length;
+      });
+      output += text.slice(cursor);
+    }
+
+    const languages = [...new Set(blocks.flatMap(block => block.language ? [block.language] : []))];
+    return {
+      text: output,
+      technique: languages.length > 0 ? `code-syntax:${languages.join('+')}` : 'code-whitespace',
+      languages,
+      elidedSymbols: blocks.flatMap(block => block.elided)
+    };
+  }
+
+  /**
+   * Best guess at the language of unfenced code, or null
+   */
+  static detectLanguage(text: string): CodeLanguage | null {
+    const trimmed = text.trim();
+    if (/^[[{]/.test(trimmed)) {
+      try {
+        JSON.parse(trimmed);
+        return 'json';
+      } catch {
+        // Not JSON: an object literal or array in some other language
+      }
+    }
+    if (/^package\s+\w+\s*$/m.test(text) || (/^func\s/m.test(text) && /:=/.test(text))) return 'go';
+    if (/^[ \t]*(async\s+)?def\s+\w+\s*\(.*$/m.test(text) || /^[ \t]*(from\s+[\w.]+\s+import\s|import\s+[\w.]+\s*$)/m.test(text)) {
+      return 'python';
+    }
+    if (/^[ \t]*(export\s+)?(interface|type|enum)\s+\w+/m.test(text) || /\)\s*:\s*[\w<[{]/.test(text) || /\b(private|public|protected|readonly)\s+\w/.test(text)) {
+      return 'typescript';
+    }
+    if (/\b(function|const|let|var|require|module\.exports|export|import)\b|=>/.test(text)) return 'javascript';
+    return null;
+  }
+
+  private static language(name: CodeLanguage): SourceLanguage {
+    let language = this.languages.get(name);
+    if (!language) {
+      switch (name) {
+        case 'typescript':
+        case 'javascript':
+          language = new TypeScriptLanguage(name);
+          break;
+        case 'python':
+          language = new PythonLanguage();
+          break;
+        case 'go':
+          language = new GoLanguage();
+          break;
+        case 'json':
+          language = new JsonLanguage();
+          break;
+      }
+      this.languages.set(name, language);
+    }
+    return language;
+  }
+
+  private static compressBlock(
+    source: string,
+    name: CodeLanguage | null,
+    budget: number,
+    options: CodeCompressionOptions
+  ): BlockResult {
+    // Without a tokenizer blank lines may be content (YAML block scalars), so runs only collapse
+    const whitespaceOnly = { text: this.render(source, [], [], false), elided: [] };
+    if (!name) return whitespaceOnly;
+
+    const language = this.language(name);
+    const text = language.normalize ? language.normalize(source) : source;
+    const aggressive = options.aggressiveness === 'aggressive';
+    let scan: SourceScan;
+    try {
+      scan = language.scan(text, { keepDocs: !aggressive });
+    } catch (error) {
+      this.logger.debug(`Could not tokenize ${name} code, compressing whitespace only`, error);
+      return whitespaceOnly;
+    }
+
+    const comments = scan.comments.filter(comment => aggressive || !comment.doc);
+    const stripped = this.render(text, this.commentEdits(text, comments), scan.literals, aggressive);
+    const elisions = this.chooseElisions(text, scan, this.estimateTokens(stripped, options.model), budget, options);
+
+    // The original's own errors are tolerated, new ones are not
+    const originalErrors = language.syntaxErrors(source).length;
+    const parses = (candidate: string) => {
+      const errors = language.syntaxErrors(candidate).length;
+      return originalErrors === 0 ? errors === 0 : errors <= originalErrors;
+    };
+
+    if (elisions.length > 0) {
+      const edits = this.commentEdits(text, comments.filter(comment => !elisions.some(range => this.contains(range, comment))));
+      edits.push(...elisions.map(range => ({ start: range.start, end: range.end, replacement: range.placeholder, comment: false })));
+      edits.sort((a, b) => a.start - b.start);
+
+      const elided = this.render(text, edits, scan.literals, aggressive);
+      if (parses(elided)) return { text: elided, language: name, elided: elisions.map(range => range.name) };
+      this.logger.debug(`Elided ${name} code no longer parses, keeping bodies`);
+    }
+
+    if (parses(stripped)) return { text: stripped, language: name, elided: [] };
+    this.logger.debug(`Stripped ${name} code no longer parses, keeping it unchanged`);
+    return { text: source, elided: [] };
+  }
+
+  /**
+   * Bodies to replace: none when conservative, all eligible when aggressive,
+   * otherwise the ones saving most until the estimate fits the budget
+   */
+  private static chooseElisions(
+    text: string,
+    scan: SourceScan,
+    tokens: number,
+    budget: number,
+    options: CodeCompressionOptions
+  ): ElidableRange[] {
+    if (options.aggressiveness === 'conservative' || (options.aggressiveness === 'moderate' && tokens <= budget)) return [];
+
+    const kept = this.referencedRanges(text, scan.elidable, options.query ?? '');
+    // A kept body keeps what is nested in it and what it is nested in
+    const candidates = scan.elidable.filter(range =>
+      !kept.includes(range) && !kept.some(other => this.contains(range, other) || this.contains(other, range))
+    );
+    const chosen: ElidableRange[] = [];
+
+    if (options.aggressiveness === 'aggressive') {
+      // Outermost first, so nested bodies go with the one around them
+      candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+      for (const range of candidates) {
+        if (!chosen.some(other => this.contains(other, range))) chosen.push(range);
+      }
+      return chosen;
+    }
+
+    candidates.sort((a, b) => (b.end - b.start - b.placeholder.length) - (a.end - a.start - a.placeholder.length));
+    let remaining = tokens;
+    for (const range of candidates) {
+      if (remaining <= budget) break;
+      if (chosen.some(other => this.contains(other, range) || this.contains(range, other))) continue;
+      chosen.push(range);
+      remaining -= this.estimateTokens(text.slice(range.start, range.end), options.model) - this.estimateTokens(range.placeholder, options.model);
+    }
+    return chosen;
+  }
+
+  /**
+   * Ranges of symbols the query names, closed over the symbols their bodies use
+   */
+  private static referencedRanges(text: string, elidable: ElidableRange[], query: string): ElidableRange[] {
+    const referenced = new Set(query.match(IDENTIFIER) || []);
+    const kept: ElidableRange[] = [];
+    let grown = true;
+
+    while (grown) {
+      grown = false;
+      for (const range of elidable) {
+        if (kept.includes(range) || !range.name.split('.').some(part => referenced.has(part))) continue;
+        kept.push(range);
+        for (const identifier of text.slice(range.start, range.end).match(IDENTIFIER) || []) referenced.add(identifier);
+        grown = true;
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Removals for comments; a space or newline stays where dropping the comment
+   * would join two tokens or two statements
+   */
+  private static commentEdits(text: string, comments: CommentRange[]): Edit[] {
+    return comments.map(comment => {
+      const before = text[comment.start - 1];
+      const after = text[comment.end];
+      const codeBefore = text.slice(text.lastIndexOf('\n', comment.start - 1) + 1, comment.start).trim() !== '';
+      const nextNewline = text.indexOf('\n', comment.end);
+      const codeAfter = text.slice(comment.end, nextNewline < 0 ? text.length : nextNewline).trim() !== '';
+
+      let replacement = '';
+      if (codeBefore && codeAfter && text.slice(comment.start, comment.end).includes('\n')) {
+        replacement = '\n';
+      } else if (before && after && !/\s/.test(before) && !/\s/.test(after)) {
+        replacement = ' ';
+      }
+      return { start: comment.start, end: comment.end, replacement, comment: true };
+    });
+  }
+
+  /**
+   * Applies edits, then tidies lines outside literals: trailing whitespace is
+   * trimmed, lines left empty by a removed comment are dropped and runs of
+   * blank lines collapse to one (to none with dropBlankLines)
+   */
+  private static render(text: string, edits: Edit[], literals: SourceRange[], dropBlankLines: boolean): string {
+    const sortedLiterals = [...literals].sort((a, b) => a.start - b.start);
+    const outputLiterals: SourceRange[] = [];
+    const removals: number[] = [];
+    let output = '';
+    let cursor = 0;
+    let literal = 0;
+
+    const copy = (end: number) => {
+      const shift = output.length - cursor;
+      for (; literal < sortedLiterals.length && sortedLiterals[literal].start < end; literal++) {
+        const range = sortedLiterals[literal];
+        if (range.start >= cursor && range.end <= end) outputLiterals.push({ start: range.start + shift, end: range.end + shift });
+      }
+      output += text.slice(cursor, end);
+    };
+
+    for (const edit of edits) {
+      copy(edit.start);
+      if (edit.comment) removals.push(output.length);
+      output += edit.replacement;
+      cursor = edit.end;
+    }
+    copy(text.length);
+
+    const insideLiteral = (offset: number) => outputLiterals.some(range => range.start < offset && offset < range.end);
+    const lines: string[] = [];
+    let lineStart = 0;
+    let startsInLiteral = false;
+    let previousBlank = true;
+
+    while (lineStart <= output.length) {
+      const newline = output.indexOf('\n', lineStart);
+      const lineEnd = newline < 0 ? output.length : newline;
+      const line = output.slice(lineStart, lineEnd);
+      const endsInLiteral = newline >= 0 && insideLiteral(newline);
+
+      if (startsInLiteral || endsInLiteral) {
+        lines.push(line);
+        previousBlank = false;
+      } else {
+        const trimmed = line.trimEnd();
+        const commentRemoved = removals.some(offset => offset >= lineStart && offset <= lineEnd);
+        if (trimmed) {
+          lines.push(trimmed);
+          previousBlank = false;
+        } else if (!commentRemoved && !dropBlankLines && !previousBlank) {
+          lines.push('');
+          previousBlank = true;
+        }
+      }
+
+      if (newline < 0) break;
+      startsInLiteral = endsInLiteral;
+      lineStart = newline + 1;
+    }
+
+    // A trailing blank line stands for the final newline
+    return lines.join('\n') + (output.endsWith('\n') && lines[lines.length - 1] !== '' ? '\n' : '');
+  }
+
+  private static contains(outer: SourceRange, inner: SourceRange): boolean {
+    return outer !== inner && outer.start <= inner.start && inner.end <= outer.end;
+  }
+
+  private static estimateTokens(text: string, model?: string): number {
+    return TokenEstimator.estimateFromText(text, model);
+  }
+}
@@ -0,0 +1,335 @@
+import { CommentRange, ElidableRange, SourceLanguage, SourceRange, SourceScan, elidedNote, lineSpan } from './SourceLanguage.js';
+
+interface GoToken {
+  kind: 'ident' | 'string' | 'rune' | 'number' | 'comment' | 'op' | 'newline';
+  start: number;
+  end: number;
+  value: string;
+}
+
+const BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+const KEYWORDS = new Set([
+  'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go', 'goto',
+  'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'
+]);
+
+/** Keywords a semicolon is inserted after at the end of a line */
+const LINE_ENDING_KEYWORDS = new Set(['break', 'continue', 'fallthrough', 'return']);
+
+const DECLARATIONS = new Set(['package', 'import', 'func', 'type', 'var', 'const']);
+
+const LITERALS = new Set<GoToken['kind']>(['string', 'rune', 'number']);
+
+/**
+ * Go through a tokenizer following the language spec's lexical rules
+ * (interpreted, raw and rune literals, line and general comments). Top-level
+ * function and method bodies are found by bracket matching over the tokens.
+ *
+ * syntaxErrors is a structural check, not a full parse: after the spec's
+ * semicolon insertion it checks brackets, that every top-level declaration
+ * starts with package, import, func, type, var or const (package first,
+ * imports before the rest), func signatures and that nothing follows a body,
+ * and that no two operands or statements run together. Expressions inside a
+ * statement are not checked. The package clause is optional, so fragments of
+ * declarations pass.
+ */
+export class GoLanguage implements SourceLanguage {
+  readonly name = 'go' as const;
+
+  /**
+   * Docs of Go declarations are comments outside bodies, so ScanOptions.keepDocs needs nothing here
+   */
+  scan(text: string): SourceScan {
+    const tokens = this.tokenize(text);
+    const comments: CommentRange[] = [];
+    const literals: SourceRange[] = [];
+
+    for (const token of tokens) {
+      if (token.kind === 'comment') {
+        comments.push({ start: token.start, end: token.end, doc: this.isDocComment(text, token) });
+      } else if (token.kind === 'string' || token.kind === 'rune') {
+        literals.push({ start: token.start, end: token.end });
+      }
+    }
+
+    return { comments, literals, elidable: this.functionBodies(text, tokens.filter(token => token.kind !== 'comment')) };
+  }
+
+  syntaxErrors(text: string): string[] {
+    let tokens: GoToken[];
+    try {
+      tokens = this.withSemicolons(this.tokenize(text));
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+
+    const open: GoToken[] = [];
+    for (const token of tokens) {
+      if (token.kind !== 'op') continue;
+      if (token.value === '(' || token.value === '[' || token.value === '{') {
+        open.push(token);
+      } else if (BRACKETS[token.value]) {
+        const last = open.pop();
+        if (!last || last.value !== BRACKETS[token.value]) {
+          return [`Unexpected ${token.value} at offset ${token.start}`];
+        }
+      }
+    }
+    if (open.length > 0) {
+      return [`Unclosed ${open[open.length - 1].value} at offset ${open[open.length - 1].start}`];
+    }
+
+    return [...this.declarationErrors(tokens), ...this.sequenceErrors(tokens)];
+  }
+
+  /**
+   * Comments dropped and newlines replaced by the semicolons the spec
+   * inserts: after an identifier, a literal, one of the keywords break,
+   * continue, fallthrough and return, ++, --, ) ] or } ending a line. A
+   * general comment spanning lines counts as a newline.
+   */
+  private withSemicolons(tokens: GoToken[]): GoToken[] {
+    const code: GoToken[] = [];
+    for (const token of tokens) {
+      const lineBreak = token.kind === 'newline' || (token.kind === 'comment' && token.value.includes('\n'));
+      if (!lineBreak) {
+        if (token.kind !== 'comment') code.push(token);
+        continue;
+      }
+
+      const last = code[code.length - 1];
+      const before = code[code.length - 2];
+      if (!last) continue;
+      const ends = last.kind === 'ident'
+        ? !KEYWORDS.has(last.value) || LINE_ENDING_KEYWORDS.has(last.value)
+        : LITERALS.has(last.kind)
+          || [')', ']', '}'].includes(last.value)
+          || (['+', '-'].includes(last.value) && before?.value === last.value && before.end === last.start);
+      if (ends) code.push({ kind: 'op', start: token.start, end: token.start, value: ';' });
+    }
+    return code;
+  }
+
+  /**
+   * Top-level declarations: what each starts with, their order, func
+   * signatures, and nothing after a func body
+   */
+  private declarationErrors(tokens: GoToken[]): string[] {
+    const errors: string[] = [];
+    const declarations: GoToken[][] = [[]];
+    let depth = 0;
+    for (const token of tokens) {
+      if (token.kind === 'op' && (token.value === '(' || token.value === '[' || token.value === '{')) depth++;
+      if (token.kind === 'op' && BRACKETS[token.value]) depth--;
+      if (depth === 0 && token.value === ';') {
+        declarations.push([]);
+      } else {
+        declarations[declarations.length - 1].push(token);
+      }
+    }
+
+    let seenOther = false;
+    declarations.filter(declaration => declaration.length > 0).forEach((declaration, index) => {
+      const [first] = declaration;
+      if (first.kind !== 'ident' || !DECLARATIONS.has(first.value)) {
+        errors.push(`Expected a declaration at offset ${first.start}, found ${first.value}`);
+      } else if (first.value === 'package') {
+        if (index > 0 || declaration.length !== 2 || declaration[1].kind !== 'ident') {
+          errors.push(`Misplaced package clause at offset ${first.start}`);
+        }
+      } else if (first.value === 'import') {
+        if (seenOther) errors.push(`Import after other declarations at offset ${first.start}`);
+      } else {
+        seenOther = true;
+        if (first.value === 'func') errors.push(...this.funcErrors(declaration));
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * func [(receiver)] name [[type params]] (params) [result] [body], with the
+   * body, when there is one, ending the declaration
+   */
+  private funcErrors(declaration: GoToken[]): string[] {
+    let i = 1;
+    if (declaration[i]?.value === '(') i = this.matching(declaration, i) + 1;
+    const name = declaration[i];
+    if (!name || name.kind !== 'ident' || KEYWORDS.has(name.value)) {
+      return [`Missing func name at offset ${(name ?? declaration[0]).start}`];
+    }
+    i++;
+    if (declaration[i]?.value === '[') i = this.matching(declaration, i) + 1;
+    if (declaration[i]?.value !== '(') {
+      return [`Missing parameters of func ${name.value} at offset ${(declaration[i] ?? name).start}`];
+    }
+    i = this.matching(declaration, i) + 1;
+
+    for (; i < declaration.length; i++) {
+      const token = declaration[i];
+      if (token.value === '{' && !['struct', 'interface'].includes(declaration[i - 1].value)) {
+        const close = this.matching(declaration, i);
+        const after = declaration[close + 1];
+        return after ? [`Unexpected ${after.value} after the body of func ${name.value} at offset ${after.start}`] : [];
+      }
+      if (token.value === '(' || token.value === '[' || token.value === '{') i = this.matching(declaration, i);
+    }
+    return [];
+  }
+
+  /**
+   * Operands and statements that run together: a literal followed by another
+   * operand, a block followed by anything but else, a separator or a struct
+   * tag, and else, case or default where no statement may start
+   */
+  private sequenceErrors(tokens: GoToken[]): string[] {
+    const errors: string[] = [];
+    for (let i = 1; i < tokens.length; i++) {
+      const previous = tokens[i - 1];
+      const token = tokens[i];
+      const operand = LITERALS.has(token.kind) || (token.kind === 'ident' && !KEYWORDS.has(token.value));
+
+      const runsOn = (LITERALS.has(previous.kind) && operand)
+        || (previous.value === '}' && ((token.kind === 'ident' && token.value !== 'else') || token.kind === 'number' || token.kind === 'rune'))
+        || (token.value === 'else' && previous.value !== '}')
+        || ((token.value === 'case' || token.value === 'default') && ![';', '{', ':'].includes(previous.value));
+      if (runsOn) errors.push(`Unexpected ${token.value} at offset ${token.start}`);
+    }
+    return errors;
+  }
+
+  /**
+   * A doc comment starts a line and runs, through other comment lines only,
+   * into a top-level declaration
+   */
+  private isDocComment(text: string, token: GoToken): boolean {
+    const lineStart = text.lastIndexOf('\n', token.start - 1) + 1;
+    if (text.slice(lineStart, token.start).trim()) return false;
+
+    const rest = text.slice(token.end).replace(/^[ \t]*\n/, '');
+    return /^(\s*(\/\/[^\n]*|\/\*[\s\S]*?\*\/)[ \t]*\n)*(func|type|var|const|package)\b/.test(rest);
+  }
+
+  /**
+   * Bodies of top-level func declarations: the first { after the signature
+   * that is not a struct or interface type
+   */
+  private functionBodies(text: string, tokens: GoToken[]): ElidableRange[] {
+    const bodies: ElidableRange[] = [];
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.kind === 'op' && (token.value === '{' || token.value === '(' || token.value === '[')) depth++;
+      if (token.kind === 'op' && BRACKETS[token.value]) depth--;
+      if (depth !== 0 || token.kind !== 'ident' || token.value !== 'func') continue;
+
+      let receiver = '';
+      let name = '';
+      let nesting = 0;
+      let j = i + 1;
+      for (; j < tokens.length; j++) {
+        const next = tokens[j];
+        if (nesting === 0 && next.kind === 'newline') break;
+        if (nesting === 0 && next.kind === 'op' && next.value === '{' && !['struct', 'interface'].includes(tokens[j - 1].value)) break;
+        if (next.kind === 'op' && (next.value === '(' || next.value === '[' || next.value === '{')) {
+          if (j === i + 1 && next.value === '(') receiver = this.receiverType(tokens, j);
+          nesting++;
+        } else if (next.kind === 'op' && BRACKETS[next.value]) {
+          nesting--;
+        } else if (!name && nesting === 0 && next.kind === 'ident') {
+          name = next.value;
+        }
+      }
+
+      const open = tokens[j];
+      if (!open || open.value !== '{') continue;
+      const close = this.matching(tokens, j);
+      if (close < 0) continue;
+
+      const range = { start: open.start, end: tokens[close].end };
+      bodies.push({
+        ...range,
+        name: receiver && name ? `${receiver}.${name}` : name || '<anonymous>',
+        placeholder: `{ /* ${elidedNote(lineSpan(text, range))} */ }`
+      });
+      i = close;
+    }
+
+    return bodies;
+  }
+
+  /**
+   * Type name of a method receiver such as (s *Server) or (l List[T])
+   */
+  private receiverType(tokens: GoToken[], open: number): string {
+    const close = this.matching(tokens, open);
+    const idents = tokens.slice(open + 1, close < 0 ? open + 1 : close).filter(token => token.kind === 'ident');
+    return idents.length > 0 ? (idents.length > 1 ? idents[1] : idents[0]).value : '';
+  }
+
+  private matching(tokens: GoToken[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+      if (tokens[i].kind !== 'op') continue;
+      if (tokens[i].value === '(' || tokens[i].value === '[' || tokens[i].value === '{') depth++;
+      if (BRACKETS[tokens[i].value] && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private tokenize(text: string): GoToken[] {
+    const tokens: GoToken[] = [];
+    let i = 0;
+    const push = (kind: GoToken['kind'], start: number) => tokens.push({ kind, start, end: i, value: text.slice(start, i) });
+
+    while (i < text.length) {
+      const start = i;
+      const char = text[i];
+
+      if (char === '\n') {
+        i++;
+        push('newline', start);
+      } else if (char === ' ' || char === '\t' || char === '\r') {
+        i++;
+      } else if (char === '/' && text[i + 1] === '/') {
+        while (i < text.length && text[i] !== '\n') i++;
+        push('comment', start);
+      } else if (char === '/' && text[i + 1] === '*') {
+        const end = text.indexOf('*/', i + 2);
+        if (end < 0) throw new Error(`Unterminated comment at offset ${start}`);
+        i = end + 2;
+        push('comment', start);
+      } else if (char === '`') {
+        const end = text.indexOf('`', i + 1);
+        if (end < 0) throw new Error(`Unterminated raw string at offset ${start}`);
+        i = end + 1;
+        push('string', start);
+      } else if (char === '"' || char === '\'') {
+        i++;
+        while (i < text.length && text[i] !== char) {
+          if (text[i] === '\n') throw new Error(`Newline in literal at offset ${start}`);
+          i += text[i] === '\\' ? 2 : 1;
+        }
+        if (i >= text.length) throw new Error(`Unterminated literal at offset ${start}`);
+        i++;
+        push(char === '"' ? 'string' : 'rune', start);
+      } else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+        while (i < text.length && /[A-Za-z0-9_\u0080-\uffff]/.test(text[i])) i++;
+        push('ident', start);
+      } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+        const exponent = /^0[xX]/.test(text.slice(start, start + 2)) ? /[pP]/ : /[eE]/;
+        while (i < text.length && /[0-9A-Za-z_.]/.test(text[i])) {
+          // Exponent signs belong to the number: 1e-9, 0x1p+3
+          i += exponent.test(text[i]) && /[+-]/.test(text[i + 1] || '') ? 2 : 1;
+        }
+        push('number', start);
+      } else {
+        i++;
+        push('op', start);
+      }
+    }
+    return tokens;
+  }
+}
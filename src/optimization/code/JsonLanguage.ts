@@ -0,0 +1,88 @@
+import { ElidableRange, SourceLanguage, SourceRange, SourceScan } from './SourceLanguage.js';
+
+/** Items a shortened array keeps before its placeholder */
+const KEPT_ITEMS = 3;
+
+/**
+ * JSON, validated with JSON.parse. Whitespace outside strings is removed
+ * token by token, so numbers and key order stay exactly as written; long
+ * arrays can be cut after their first items, ending in a string that says
+ * how many were left out.
+ */
+export class JsonLanguage implements SourceLanguage {
+  readonly name = 'json' as const;
+
+  normalize(text: string): string {
+    let output = '';
+    let i = 0;
+    while (i < text.length) {
+      if (text[i] === '"') {
+        const end = this.stringEnd(text, i);
+        output += text.slice(i, end);
+        i = end;
+      } else {
+        if (!/\s/.test(text[i])) output += text[i];
+        i++;
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Comments never occur in JSON, so ScanOptions.keepDocs needs nothing here
+   */
+  scan(text: string): SourceScan {
+    const literals: SourceRange[] = [];
+    const elidable: ElidableRange[] = [];
+    const stack: Array<{ kind: '[' | '{'; key: string; items: number[] }> = [];
+    let lastString = '';
+    let key = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        const end = this.stringEnd(text, i);
+        literals.push({ start: i, end });
+        lastString = text.slice(i + 1, end - 1);
+        i = end - 1;
+      } else if (char === ':') {
+        key = lastString;
+      } else if (char === '[' || char === '{') {
+        stack.push({ kind: char, key: stack[stack.length - 1]?.kind === '{' ? key : stack[stack.length - 1]?.key ?? '', items: [] });
+      } else if (char === ',' && stack[stack.length - 1]?.kind === '[') {
+        stack[stack.length - 1].items.push(i);
+      } else if (char === ']' || char === '}') {
+        const closed = stack.pop();
+        if (closed && char === ']' && closed.items.length >= KEPT_ITEMS + 1) {
+          // Cut from the comma after the kept items up to the closing bracket
+          const omitted = closed.items.length + 1 - KEPT_ITEMS;
+          elidable.push({
+            start: closed.items[KEPT_ITEMS - 1],
+            end: i,
+            name: closed.key || '<array>',
+            placeholder: `,"… ${omitted} more items"`
+          });
+        }
+      }
+    }
+
+    return { comments: [], literals, elidable };
+  }
+
+  syntaxErrors(text: string): string[] {
+    try {
+      JSON.parse(text);
+      return [];
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  private stringEnd(text: string, start: number): number {
+    let i = start + 1;
+    while (i < text.length && text[i] !== '"') {
+      i += text[i] === '\\' ? 2 : 1;
+    }
+    return i + 1;
+  }
+}
@@ -0,0 +1,289 @@
+import { CommentRange, ElidableRange, ScanOptions, SourceLanguage, SourceRange, SourceScan, elidedNote } from './SourceLanguage.js';
+
+interface PythonToken {
+  kind: 'name' | 'string' | 'number' | 'comment' | 'op' | 'newline';
+  start: number;
+  end: number;
+  value: string;
+}
+
+/** Tokens of one logical line, with the column of its first token */
+interface LogicalLine {
+  tokens: PythonToken[];
+  indent: number;
+  /** Offset of the physical line start */
+  lineStart: number;
+  /** Offset of the newline ending the line (or end of text) */
+  end: number;
+}
+
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Python through a tokenizer following the language reference (string
+ * prefixes, triple quotes, f-string replacement fields, implicit and explicit
+ * line joining). Blocks come from the indentation of logical lines, which is
+ * also what syntaxErrors checks along with brackets and literals.
+ */
+export class PythonLanguage implements SourceLanguage {
+  readonly name = 'python' as const;
+
+  scan(text: string, options: ScanOptions): SourceScan {
+    const tokens = this.tokenize(text);
+    const comments: CommentRange[] = tokens
+      .filter(token => token.kind === 'comment')
+      .map(token => ({ start: token.start, end: token.end, doc: false }));
+    const literals: SourceRange[] = tokens
+      .filter(token => token.kind === 'string')
+      .map(token => ({ start: token.start, end: token.end }));
+
+    const lines = this.logicalLines(text, tokens);
+    const elidable: ElidableRange[] = [];
+    const classes: Array<{ indent: number; name: string }> = [];
+
+    lines.forEach((line, index) => {
+      while (classes.length > 0 && classes[classes.length - 1].indent >= line.indent) classes.pop();
+
+      const header = this.blockHeader(line);
+      if (!header) return;
+      if (header.keyword === 'class') {
+        classes.push({ indent: line.indent, name: header.name });
+        return;
+      }
+
+      const body = this.blockBody(lines, index);
+      if (body.length === 0) return;
+
+      // Docstrings stay as the summary of the elided body
+      const docstring = options.keepDocs && this.isDocstring(body[0]) ? 1 : 0;
+      const elided = body.slice(docstring);
+      if (elided.length === 0) return;
+
+      const first = elided[0];
+      const indentText = text.slice(first.lineStart, first.tokens[0].start);
+      const lineCount = text.slice(first.lineStart, elided[elided.length - 1].end).split('\n').length;
+      const owner = classes.length > 0 ? classes[classes.length - 1].name : '';
+      elidable.push({
+        start: first.lineStart,
+        end: elided[elided.length - 1].end,
+        name: owner ? `${owner}.${header.name}` : header.name,
+        placeholder: `${indentText}...  # ${elidedNote(lineCount)}`
+      });
+    });
+
+    return { comments, literals, elidable };
+  }
+
+  syntaxErrors(text: string): string[] {
+    let tokens: PythonToken[];
+    try {
+      tokens = this.tokenize(text);
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+
+    const open: PythonToken[] = [];
+    for (const token of tokens) {
+      if (token.kind !== 'op') continue;
+      if (token.value === '(' || token.value === '[' || token.value === '{') {
+        open.push(token);
+      } else if (CLOSERS[token.value] && open.pop()?.value !== CLOSERS[token.value]) {
+        return [`Unmatched ${token.value} at offset ${token.start}`];
+      }
+    }
+    if (open.length > 0) {
+      return [`Unclosed ${open[open.length - 1].value} at offset ${open[open.length - 1].start}`];
+    }
+
+    // Indentation: a block header needs a deeper line after it, dedents return to an open level
+    const indents = [0];
+    let expectIndent = false;
+    for (const line of this.logicalLines(text, tokens)) {
+      const current = indents[indents.length - 1];
+      if (expectIndent) {
+        if (line.indent <= current) return [`Expected an indented block at offset ${line.lineStart}`];
+        indents.push(line.indent);
+      } else if (line.indent > current) {
+        return [`Unexpected indent at offset ${line.lineStart}`];
+      } else {
+        while (indents[indents.length - 1] > line.indent) indents.pop();
+        if (indents[indents.length - 1] !== line.indent) return [`Unindent does not match any outer level at offset ${line.lineStart}`];
+      }
+      const last = line.tokens[line.tokens.length - 1];
+      expectIndent = last.kind === 'op' && last.value === ':';
+    }
+    return expectIndent ? ['Expected an indented block at end of input'] : [];
+  }
+
+  private blockHeader(line: LogicalLine): { keyword: 'def' | 'class'; name: string } | null {
+    const tokens = line.tokens;
+    const offset = tokens[0].value === 'async' ? 1 : 0;
+    const keyword = tokens[offset]?.value;
+    const name = tokens[offset + 1];
+    if ((keyword !== 'def' && keyword !== 'class') || name?.kind !== 'name') return null;
+
+    // Only blocks whose body starts on the next line: def f(): return 1 has nothing to elide
+    const last = tokens[tokens.length - 1];
+    if (last.kind !== 'op' || last.value !== ':') return null;
+    return { keyword, name: name.value };
+  }
+
+  private blockBody(lines: LogicalLine[], header: number): LogicalLine[] {
+    const body: LogicalLine[] = [];
+    for (let i = header + 1; i < lines.length && lines[i].indent > lines[header].indent; i++) {
+      body.push(lines[i]);
+    }
+    return body;
+  }
+
+  private isDocstring(line: LogicalLine): boolean {
+    return line.tokens.length > 0 && line.tokens.every(token => token.kind === 'string');
+  }
+
+  /**
+   * Groups tokens into logical lines; comments and blank lines belong to none
+   */
+  private logicalLines(text: string, tokens: PythonToken[]): LogicalLine[] {
+    const lines: LogicalLine[] = [];
+    let current: PythonToken[] = [];
+
+    const flush = (end: number) => {
+      if (current.length === 0) return;
+      const lineStart = text.lastIndexOf('\n', current[0].start - 1) + 1;
+      lines.push({ tokens: current, indent: this.column(text, lineStart, current[0].start), lineStart, end });
+      current = [];
+    };
+
+    for (const token of tokens) {
+      if (token.kind === 'newline') {
+        flush(token.start);
+      } else if (token.kind !== 'comment') {
+        current.push(token);
+      }
+    }
+    flush(text.length);
+    return lines;
+  }
+
+  /**
+   * Indentation width, with tabs to the next multiple of 8 as the tokenizer does
+   */
+  private column(text: string, lineStart: number, offset: number): number {
+    let column = 0;
+    for (let i = lineStart; i < offset; i++) {
+      column = text[i] === '\t' ? (Math.floor(column / 8) + 1) * 8 : column + 1;
+    }
+    return column;
+  }
+
+  private tokenize(text: string): PythonToken[] {
+    const tokens: PythonToken[] = [];
+    let depth = 0;
+    let i = 0;
+    const push = (kind: PythonToken['kind'], start: number) => tokens.push({ kind, start, end: i, value: text.slice(start, i) });
+
+    while (i < text.length) {
+      const start = i;
+      const char = text[i];
+
+      if (char === '\n') {
+        i++;
+        // Newlines inside brackets join lines; only the first of several blank lines ends one
+        if (depth === 0 && tokens.length > 0 && tokens[tokens.length - 1].kind !== 'newline') push('newline', start);
+      } else if (char === ' ' || char === '\t' || char === '\r' || char === '\f') {
+        i++;
+      } else if (char === '\\' && (text[i + 1] === '\n' || (text[i + 1] === '\r' && text[i + 2] === '\n'))) {
+        i += text[i + 1] === '\r' ? 3 : 2;
+      } else if (char === '#') {
+        while (i < text.length && text[i] !== '\n') i++;
+        push('comment', start);
+      } else if (this.stringStart(text, i)) {
+        i = this.skipString(text, i);
+        push('string', start);
+      } else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+        while (i < text.length && /[A-Za-z0-9_\u0080-\uffff]/.test(text[i])) i++;
+        push('name', start);
+      } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+        while (i < text.length && /[0-9A-Za-z_.]/.test(text[i])) {
+          i += /[eE]/.test(text[i]) && /[+-]/.test(text[i + 1] || '') && !/^0[xXbBoO]/.test(text.slice(start, start + 2)) ? 2 : 1;
+        }
+        push('number', start);
+      } else {
+        i++;
+        if (char === '(' || char === '[' || char === '{') depth++;
+        if (char === ')' || char === ']' || char === '}') depth = Math.max(0, depth - 1);
+        push('op', start);
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Length of the string prefix (r, b, f, u and their combinations) when a
+   * string literal starts at i, or -1
+   */
+  private prefixLength(text: string, i: number): number {
+    const match = /^(?:[rR][bBfF]?|[bBfF][rR]?|[uU])?(?=['"])/.exec(text.slice(i, i + 3));
+    if (!match) return -1;
+    // A prefix must not continue an identifier: in `bar"` the b belongs to the name
+    if (match[0] && i > 0 && /[A-Za-z0-9_]/.test(text[i - 1])) return -1;
+    return match[0].length;
+  }
+
+  private stringStart(text: string, i: number): boolean {
+    return this.prefixLength(text, i) >= 0;
+  }
+
+  /**
+   * Offset just past the string literal starting at i
+   */
+  private skipString(text: string, i: number): number {
+    const start = i;
+    const prefix = text.slice(i, i + this.prefixLength(text, i)).toLowerCase();
+    const raw = prefix.includes('r');
+    const formatted = prefix.includes('f');
+    i += prefix.length;
+
+    const quote = text[i];
+    const triple = text.startsWith(quote.repeat(3), i);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    i += delimiter.length;
+
+    while (i < text.length) {
+      if (text.startsWith(delimiter, i)) return i + delimiter.length;
+      const char = text[i];
+      if (char === '\\' && !raw) {
+        i += 2;
+      } else if (char === '\\' && raw) {
+        // Raw strings keep the backslash but it still escapes the quote
+        i += text[i + 1] === quote || text[i + 1] === '\\' ? 2 : 1;
+      } else if (char === '\n' && !triple) {
+        throw new Error(`Unterminated string at offset ${start}`);
+      } else if (formatted && char === '{') {
+        i = text[i + 1] === '{' ? i + 2 : this.skipReplacementField(text, i);
+      } else {
+        i++;
+      }
+    }
+    throw new Error(`Unterminated string at offset ${start}`);
+  }
+
+  /**
+   * Skips an f-string {expression}, which may hold strings of its own
+   */
+  private skipReplacementField(text: string, i: number): number {
+    let depth = 0;
+    while (i < text.length) {
+      const char = text[i];
+      if (this.stringStart(text, i) && depth > 0) {
+        i = this.skipString(text, i);
+        continue;
+      }
+      if (char === '{' || char === '(' || char === '[') depth++;
+      if (char === '}' || char === ')' || char === ']') depth--;
+      i++;
+      if (depth === 0) return i;
+    }
+    throw new Error('Unterminated f-string replacement field');
+  }
+}
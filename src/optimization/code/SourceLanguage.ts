@@ -0,0 +1,74 @@
+/**
+ * Language support for syntax-aware code compression: each language scans
+ * source with a real tokenizer or parser, so comments, literals and function
+ * bodies are found without guessing, and reports syntax errors so compressed
+ * output can be checked before it is used.
+ */
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'json';
+
+export const CODE_LANGUAGES: CodeLanguage[] = ['typescript', 'javascript', 'python', 'go', 'json'];
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface CommentRange extends SourceRange {
+  /** JSDoc, Go doc comments; kept unless compression is aggressive */
+  doc: boolean;
+}
+
+/**
+ * A region that can be replaced by a placeholder while keeping the code valid:
+ * a function body, or the tail of a long JSON array
+ */
+export interface ElidableRange extends SourceRange {
+  /** Symbol the region belongs to; class members as Class.method */
+  name: string;
+  /** Valid replacement for the region */
+  placeholder: string;
+}
+
+export interface SourceScan {
+  comments: CommentRange[];
+  /** String, template and regex literals, whose content is never touched */
+  literals: SourceRange[];
+  elidable: ElidableRange[];
+}
+
+export interface ScanOptions {
+  /** Keep documentation (docstrings, JSDoc) inside elided bodies */
+  keepDocs: boolean;
+}
+
+export interface SourceLanguage {
+  readonly name: CodeLanguage;
+  /** Throws when the text cannot be tokenized */
+  scan(text: string, options: ScanOptions): SourceScan;
+  /**
+   * Syntax errors in the text; empty when it parses. Go has no parser here,
+   * so its check covers declaration and statement structure, not expressions
+   */
+  syntaxErrors(text: string): string[];
+  /** Lossless rewrite applied before scanning (JSON whitespace) */
+  normalize?(text: string): string;
+}
+
+/**
+ * Number of lines a range spans
+ */
+export function lineSpan(text: string, range: SourceRange): number {
+  let lines = 1;
+  for (let i = range.start; i < range.end; i++) {
+    if (text.charCodeAt(i) === 10) lines++;
+  }
+  return lines;
+}
+
+/**
+ * Placeholder text saying how many lines were left out
+ */
+export function elidedNote(lines: number): string {
+  return `${lines} ${lines === 1 ? 'line' : 'lines'} elided`;
+}
@@ -0,0 +1,127 @@
+import { createRequire } from 'module';
+import type ts from 'typescript';
+import { CodeLanguage, CommentRange, ElidableRange, SourceLanguage, SourceRange, SourceScan, elidedNote, lineSpan } from './SourceLanguage.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * TypeScript and JavaScript through the TypeScript compiler's parser. The
+ * compiler is loaded on first use, as it is large and most contexts are not code.
+ */
+export class TypeScriptLanguage implements SourceLanguage {
+  private static compiler?: typeof ts;
+
+  constructor(readonly name: Extract<CodeLanguage, 'typescript' | 'javascript'>) {}
+
+  private static get ts(): typeof ts {
+    return this.compiler ??= require('typescript') as typeof ts;
+  }
+
+  /**
+   * JSDoc sits above signatures, so ScanOptions.keepDocs needs nothing here
+   */
+  scan(text: string): SourceScan {
+    const typescript = TypeScriptLanguage.ts;
+    const { SyntaxKind } = typescript;
+    const source = this.parse(text);
+    const comments: CommentRange[] = [];
+    const literals: SourceRange[] = [];
+    const elidable: ElidableRange[] = [];
+    const seen = new Set<number>();
+
+    const literalKinds = new Set([
+      SyntaxKind.StringLiteral, SyntaxKind.NoSubstitutionTemplateLiteral, SyntaxKind.TemplateHead,
+      SyntaxKind.TemplateMiddle, SyntaxKind.TemplateTail, SyntaxKind.RegularExpressionLiteral,
+      SyntaxKind.JsxText, SyntaxKind.JsxTextAllWhiteSpaces
+    ]);
+
+    const visit = (node: ts.Node) => {
+      // JSDoc nodes re-expose comment text as children; the comment is taken from trivia instead
+      if (node.kind >= SyntaxKind.FirstJSDocNode && node.kind <= SyntaxKind.LastJSDocNode) return;
+
+      const body = this.elidableBody(node, source);
+      if (body) {
+        const span = lineSpan(text, body);
+        elidable.push({ ...body, placeholder: `{ /* ${elidedNote(span)} */ }` });
+      }
+
+      const children = node.getChildren(source);
+      if (children.length > 0) {
+        children.forEach(visit);
+        return;
+      }
+
+      // A token: comments sit in the trivia around it, except in JSX text where // is content
+      if (node.kind !== SyntaxKind.JsxText && node.kind !== SyntaxKind.JsxTextAllWhiteSpaces) {
+        const trivia = [
+          ...typescript.getLeadingCommentRanges(text, node.pos) || [],
+          ...typescript.getTrailingCommentRanges(text, node.end) || []
+        ];
+        for (const comment of trivia) {
+          if (seen.has(comment.pos)) continue;
+          seen.add(comment.pos);
+          const value = text.slice(comment.pos, comment.end);
+          comments.push({ start: comment.pos, end: comment.end, doc: value.startsWith('/**') && value !== '/**/' });
+        }
+      }
+      if (literalKinds.has(node.kind)) {
+        literals.push({ start: node.kind === SyntaxKind.JsxText ? node.pos : node.getStart(source), end: node.end });
+      }
+    };
+    visit(source);
+    comments.sort((a, b) => a.start - b.start);
+    return { comments, literals, elidable };
+  }
+
+  syntaxErrors(text: string): string[] {
+    const typescript = TypeScriptLanguage.ts;
+    const output = typescript.transpileModule(text, {
+      fileName: this.fileName(text),
+      reportDiagnostics: true,
+      compilerOptions: { jsx: typescript.JsxEmit.Preserve, allowJs: true, noEmitHelpers: true }
+    });
+    return (output.diagnostics || []).map(diagnostic => typescript.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+  }
+
+  private parse(text: string): ts.SourceFile {
+    const typescript = TypeScriptLanguage.ts;
+    return typescript.createSourceFile(this.fileName(text), text, typescript.ScriptTarget.Latest, true);
+  }
+
+  /**
+   * JavaScript is parsed as JSX; TypeScript as TSX only when it contains JSX,
+   * since TSX rejects <T> type assertions
+   */
+  private fileName(text: string): string {
+    if (this.name === 'javascript') return 'context.jsx';
+    return /<\/[A-Za-z]|\/>/.test(text) ? 'context.tsx' : 'context.ts';
+  }
+
+  private elidableBody(node: ts.Node, source: ts.SourceFile): (SourceRange & { name: string }) | null {
+    const typescript = TypeScriptLanguage.ts;
+    if (!typescript.isFunctionLike(node)) return null;
+
+    const body = (node as ts.FunctionLikeDeclarationBase).body;
+    if (!body || !typescript.isBlock(body)) return null;
+
+    return { start: body.getStart(source), end: body.end, name: this.nameOf(node) };
+  }
+
+  private nameOf(node: ts.Node): string {
+    const typescript = TypeScriptLanguage.ts;
+    const own = (node as ts.NamedDeclaration).name;
+    let name = own && (typescript.isIdentifier(own) || typescript.isPrivateIdentifier(own) || typescript.isStringLiteral(own))
+      ? own.text
+      : typescript.isConstructorDeclaration(node) ? 'constructor' : '';
+
+    // Function expressions and arrows take the name they are assigned to
+    const parent = node.parent;
+    if (!name && parent && (typescript.isVariableDeclaration(parent) || typescript.isPropertyAssignment(parent) || typescript.isPropertyDeclaration(parent))) {
+      name = typescript.isIdentifier(parent.name) ? parent.name.text : '';
+    }
+
+    const owner = typescript.findAncestor(node.parent, ancestor => typescript.isClassLike(ancestor));
+    const ownerName = owner && (owner as ts.ClassLikeDeclaration).name?.text;
+    return ownerName && name ? `${ownerName}.${name}` : name || '<anonymous>';
+  }
+}
@@ -0,0 +1,311 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ContextCompression, CompressionOptions, CompressionResult } from '../ContextCompression.js';
+import { CodeLanguage } from '../code/SourceLanguage.js';
+import { EmbeddingProvider } from '../../cache/embeddings/EmbeddingProvider.js';
+import { CompressionEvaluation, CompressionEvaluator, ProbeAnswerer, QaProbe } from './CompressionEvaluator.js';
+import { TokenEstimator } from '../../utils/TokenEstimator.js';
+import { Logger } from '../../utils/Logger.js';
+
+export type Aggressiveness = NonNullable<CompressionOptions['aggressiveness']>;
+
+export const AGGRESSIVENESS_LEVELS: Aggressiveness[] = ['conservative', 'moderate', 'aggressive'];
+
+export interface CompressionFixture {
+  id: string;
+  contextType: NonNullable<CompressionOptions['contextType']>;
+  text: string;
+  /** Prompt sent with the context; adds the query-focused runs */
+  query?: string;
+  language?: CodeLanguage;
+  probes?: QaProbe[];
+}
+
+export interface CompressionCorpus {
+  version: number;
+  fixtures: CompressionFixture[];
+}
+
+export interface BenchmarkOptions {
+  /** Token budgets as shares of each fixture's size (default [0.5]) */
+  ratios?: number[];
+  levels?: Aggressiveness[];
+  /** Measures embedding similarity and adds embedding-ranked query-focused runs */
+  embeddings?: EmbeddingProvider;
+  answerer?: ProbeAnswerer;
+  /** Tokenizer used to count tokens */
+  model?: string;
+  /** Runs scoring below this are flagged (default 0.8) */
+  minScore?: number;
+}
+
+export interface BenchmarkRun {
+  fixture: string;
+  context_type: string;
+  technique: string;
+  aggressiveness: Aggressiveness;
+  target_ratio: number;
+  original_tokens: number;
+  compressed_tokens: number;
+  compression_ratio: number;
+  within_budget: boolean;
+  /** qualityScore as ContextCompression reports it */
+  reported_quality: number;
+  evaluation: CompressionEvaluation;
+  below_threshold: boolean;
+}
+
+export interface BenchmarkGroup {
+  technique?: string;
+  aggressiveness: Aggressiveness;
+  runs: number;
+  mean_compression_ratio: number;
+  mean_score: number;
+  min_score: number;
+  mean_keyword_retention: number;
+  mean_entity_retention: number;
+  mean_embedding_similarity?: number;
+  probe_pass_rate?: number;
+  /** Reported quality minus measured score; positive means the estimate is optimistic */
+  quality_gap: number;
+  over_budget: number;
+  below_threshold: number;
+}
+
+export interface BenchmarkReport {
+  generated_at: string;
+  corpus?: string;
+  fixtures: number;
+  ratios: number[];
+  min_score: number;
+  embeddings?: string;
+  answerer: string;
+  /** One row per aggressiveness level, over every technique */
+  levels: BenchmarkGroup[];
+  techniques: BenchmarkGroup[];
+  runs: BenchmarkRun[];
+}
+
+/**
+ * Runs a fixture corpus through every compression technique that applies to
+ * each fixture, at every aggressiveness level and budget, and scores each
+ * output with CompressionEvaluator. The report is the evidence for choosing
+ * a compression level: how much each setting saves and what it loses.
+ */
+export class CompressionBenchmark {
+  static readonly FORMAT = 1;
+  static readonly CORPUS_DIR = fileURLToPath(new URL('../../../config/', import.meta.url));
+  static readonly DEFAULT_CORPUS = path.join(CompressionBenchmark.CORPUS_DIR, 'compression-corpus.json');
+
+  private logger: Logger;
+
+  constructor(private readonly options: BenchmarkOptions = {}) {
+    this.logger = new Logger('CompressionBenchmark');
+  }
+
+  /**
+   * Corpora requested over MCP are JSON files in the config directory; absolute
+   * paths and .. segments are refused, so callers cannot read other files
+   */
+  static resolveCorpus(name: string, corpusDir: string = CompressionBenchmark.CORPUS_DIR): string {
+    const root = path.resolve(corpusDir);
+    const resolved = path.resolve(root, name);
+    if (!name.endsWith('.json') || path.isAbsolute(name) || name.split(/[\\/]/).includes('..') || !resolved.startsWith(root + path.sep)) {
+      throw new Error('Invalid corpus: use the name of a .json file in the config directory');
+    }
+    return resolved;
+  }
+
+  static async loadCorpus(file: string = CompressionBenchmark.DEFAULT_CORPUS): Promise<CompressionFixture[]> {
+    // Parser messages quote the file contents, so they are never passed on
+    let corpus: CompressionCorpus;
+    try {
+      corpus = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      throw new Error(`Compression corpus ${file} is unreadable or not JSON`);
+    }
+    if (corpus.version !== CompressionBenchmark.FORMAT || !Array.isArray(corpus.fixtures)) {
+      throw new Error(`Compression corpus ${file} must be {"version": ${CompressionBenchmark.FORMAT}, "fixtures": [...]}`);
+    }
+
+    const ids = new Set<string>();
+    for (const [index, fixture] of corpus.fixtures.entries()) {
+      if (!fixture.id || typeof fixture.text !== 'string' || !fixture.contextType) {
+        throw new Error(`Fixture ${index} in ${file} needs id, contextType and text`);
+      }
+      if (ids.has(fixture.id)) {
+        throw new Error(`Duplicate fixture id "${fixture.id}" in ${file}`);
+      }
+      ids.add(fixture.id);
+    }
+    return corpus.fixtures;
+  }
+
+  async run(fixtures: CompressionFixture[], corpus?: string): Promise<BenchmarkReport> {
+    const ratios = this.options.ratios?.length ? this.options.ratios : [0.5];
+    const levels = this.options.levels?.length ? this.options.levels : AGGRESSIVENESS_LEVELS;
+    const minScore = this.options.minScore ?? 0.8;
+    if (this.options.embeddings) await this.options.embeddings.initialize();
+
+    const runs: BenchmarkRun[] = [];
+    for (const fixture of fixtures) {
+      for (const ratio of ratios) {
+        for (const aggressiveness of levels) {
+          for (const result of await this.compressions(fixture, ratio, aggressiveness)) {
+            const evaluation = await CompressionEvaluator.evaluate(fixture.text, result.compressedText, {
+              embeddings: this.options.embeddings,
+              probes: fixture.probes,
+              answerer: this.options.answerer
+            });
+            runs.push({
+              fixture: fixture.id,
+              context_type: fixture.contextType,
+              technique: result.technique,
+              aggressiveness,
+              target_ratio: ratio,
+              original_tokens: result.originalTokens,
+              compressed_tokens: result.compressedTokens,
+              compression_ratio: result.compressionRatio,
+              within_budget: result.compressedTokens <= Math.floor(result.originalTokens * ratio),
+              reported_quality: result.qualityScore,
+              evaluation,
+              below_threshold: evaluation.score < minScore
+            });
+          }
+        }
+      }
+    }
+
+    this.logger.info('Compression benchmark finished', { fixtures: fixtures.length, runs: runs.length });
+    return {
+      generated_at: new Date().toISOString(),
+      corpus,
+      fixtures: fixtures.length,
+      ratios,
+      min_score: minScore,
+      embeddings: this.options.embeddings?.name,
+      answerer: this.options.answerer?.name || 'substring',
+      levels: levels.map(level => this.group(runs.filter(run => run.aggressiveness === level), level)),
+      techniques: this.groupByTechnique(runs),
+      runs
+    };
+  }
+
+  /**
+   * The fixture's own technique, then for prose with a query the
+   * query-focused ones. Code takes the query as is, to keep referenced symbols.
+   */
+  private async compressions(fixture: CompressionFixture, ratio: number, aggressiveness: Aggressiveness): Promise<CompressionResult[]> {
+    const base: CompressionOptions = {
+      contextType: fixture.contextType,
+      aggressiveness,
+      language: fixture.language,
+      query: fixture.contextType === 'code' ? fixture.query : undefined,
+      model: this.options.model,
+      maxTokens: Math.floor(TokenEstimator.estimateFromText(fixture.text, this.options.model) * ratio)
+    };
+
+    const results = [ContextCompression.compress(fixture.text, base)];
+    if (fixture.query && (fixture.contextType === 'general' || fixture.contextType === 'documentation')) {
+      results.push(ContextCompression.compress(fixture.text, { ...base, query: fixture.query }));
+      if (this.options.embeddings) {
+        results.push(await ContextCompression.compressForQuery(fixture.text, fixture.query, base, this.options.embeddings));
+      }
+    }
+    return results;
+  }
+
+  private groupByTechnique(runs: BenchmarkRun[]): BenchmarkGroup[] {
+    const groups = new Map<string, BenchmarkRun[]>();
+    for (const run of runs) {
+      const key = `${run.technique}\u0000${run.aggressiveness}`;
+      groups.set(key, [...(groups.get(key) || []), run]);
+    }
+    return Array.from(groups.values())
+      .map(group => this.group(group, group[0].aggressiveness, group[0].technique))
+      .sort((a, b) => a.technique!.localeCompare(b.technique!) ||
+        AGGRESSIVENESS_LEVELS.indexOf(a.aggressiveness) - AGGRESSIVENESS_LEVELS.indexOf(b.aggressiveness));
+  }
+
+  private group(runs: BenchmarkRun[], aggressiveness: Aggressiveness, technique?: string): BenchmarkGroup {
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const similarities = runs.map(run => run.evaluation.embedding_similarity).filter((value): value is number => value !== undefined);
+    const probes = runs.map(run => run.evaluation.probes).filter(probe => probe && probe.answerable > 0);
+    const answerable = probes.reduce((sum, probe) => sum + probe!.answerable, 0);
+
+    return {
+      technique,
+      aggressiveness,
+      runs: runs.length,
+      mean_compression_ratio: mean(runs.map(run => run.compression_ratio)),
+      mean_score: mean(runs.map(run => run.evaluation.score)),
+      min_score: runs.length > 0 ? Math.min(...runs.map(run => run.evaluation.score)) : 0,
+      mean_keyword_retention: mean(runs.map(run => run.evaluation.keywords.score)),
+      mean_entity_retention: mean(runs.map(run => run.evaluation.entities.score)),
+      mean_embedding_similarity: similarities.length > 0 ? mean(similarities) : undefined,
+      probe_pass_rate: answerable > 0 ? probes.reduce((sum, probe) => sum + probe!.passed, 0) / answerable : undefined,
+      quality_gap: mean(runs.map(run => run.reported_quality - run.evaluation.score)),
+      over_budget: runs.filter(run => !run.within_budget).length,
+      below_threshold: runs.filter(run => run.below_threshold).length
+    };
+  }
+
+  /**
+   * Markdown tables for reading the report
+   */
+  static toMarkdown(report: BenchmarkReport): string {
+    const percent = (value?: number) => value === undefined ? '-' : `${(value * 100).toFixed(0)}%`;
+    const score = (value: number) => value.toFixed(2);
+    const gap = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+    const row = (group: BenchmarkGroup) => [
+      ...(group.technique !== undefined ? [group.technique] : []),
+      group.aggressiveness,
+      group.runs,
+      percent(group.mean_compression_ratio),
+      score(group.mean_score),
+      score(group.min_score),
+      percent(group.mean_keyword_retention),
+      percent(group.mean_entity_retention),
+      percent(group.mean_embedding_similarity),
+      percent(group.probe_pass_rate),
+      gap(group.quality_gap),
+      group.over_budget,
+      group.below_threshold
+    ].join(' | ');
+    const header = 'aggressiveness | runs | size | score | min | keywords | entities | embedding | probes | reported gap | over budget | below threshold';
+    const divider = (columns: number) => Array(columns).fill('---').join(' | ');
+    const columns = header.split(' | ').length;
+
+    const lines = [
+      '# Compression quality report',
+      '',
+      `Generated ${report.generated_at}${report.corpus ? ` from ${report.corpus}` : ''}: ${report.fixtures} fixtures, ` +
+        `budgets ${report.ratios.map(ratio => percent(ratio)).join(', ')}, probes answered by ${report.answerer}` +
+        `${report.embeddings ? `, embeddings ${report.embeddings}` : ''}. Runs scoring below ${report.min_score} are flagged.`,
+      '',
+      '## By aggressiveness',
+      '',
+      `| ${header} |`,
+      `| ${divider(columns)} |`,
+      ...report.levels.map(group => `| ${row(group)} |`),
+      '',
+      '## By technique',
+      '',
+      `| technique | ${header} |`,
+      `| ${divider(columns + 1)} |`,
+      ...report.techniques.map(group => `| ${row(group)} |`)
+    ];
+
+    const flagged = report.runs.filter(run => run.below_threshold);
+    if (flagged.length > 0) {
+      lines.push('', '## Below threshold', '');
+      for (const run of flagged) {
+        const missing = [...run.evaluation.entities.missing, ...run.evaluation.keywords.missing].slice(0, 6);
+        lines.push(`- ${run.fixture} (${run.technique}, ${run.aggressiveness}, ${percent(run.target_ratio)}): ` +
+          `score ${score(run.evaluation.score)}${missing.length ? `, lost ${missing.join(', ')}` : ''}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+}
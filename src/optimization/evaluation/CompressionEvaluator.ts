@@ -0,0 +1,289 @@
+import OpenAI from 'openai';
+import { EmbeddingProvider, normalizeVector } from '../../cache/embeddings/EmbeddingProvider.js';
+import { relevanceTerms } from '../relevance/Bm25.js';
+import { ContextChunker } from '../relevance/ContextChunker.js';
+import { TokenBudget } from '../../core/TokenBudget.js';
+import { Redactor } from '../../redaction/Redactor.js';
+
+/**
+ * A question the original context answers; any of the answers counts
+ */
+export interface QaProbe {
+  question: string;
+  answer: string | string[];
+}
+
+/**
+ * Answers a probe from a context, usually with an LLM
+ */
+export interface ProbeAnswerer {
+  readonly name: string;
+  answer(question: string, context: string): Promise<string>;
+}
+
+export interface EvaluationOptions {
+  /** Enables embedding similarity */
+  embeddings?: EmbeddingProvider;
+  probes?: QaProbe[];
+  /** Without one, a probe passes when its answer still appears in the text */
+  answerer?: ProbeAnswerer;
+  /** Key terms tracked from the original (default 40) */
+  maxKeywords?: number;
+}
+
+export interface TermRetention {
+  total: number;
+  retained: number;
+  /** Share retained, 0-1; keywords are weighted by frequency in the original */
+  score: number;
+  /** Up to 10, most important first */
+  missing: string[];
+}
+
+export interface ProbeOutcome {
+  question: string;
+  expected: string[];
+  /** The original answers it, so the probe counts */
+  answerable: boolean;
+  passed: boolean;
+  /** What the answerer replied from the compressed text */
+  answer?: string;
+}
+
+export interface ProbeEvaluation {
+  answerer: string;
+  answerable: number;
+  passed: number;
+  /** Passed share of the answerable probes, 0-1 */
+  score: number;
+  outcomes: ProbeOutcome[];
+}
+
+export interface CompressionEvaluation {
+  keywords: TermRetention;
+  entities: TermRetention;
+  /** How well the compressed text still covers each part of the original, 0-1 */
+  embedding_similarity?: number;
+  probes?: ProbeEvaluation;
+  /** Weighted mean of the measures available, 0-1 */
+  score: number;
+}
+
+/**
+ * Entities are exact strings a reader would miss: URLs, quoted literals,
+ * paths, identifiers, numbers with their units, acronyms and capitalised
+ * names inside a sentence
+ */
+const ENTITY_PATTERNS: RegExp[] = [
+  /\bhttps?:\/\/[^\s'"`<>)\]]+[^\s'"`<>)\].,;:!?]/g,
+  /`[^`\n]{2,40}`/g,
+  /"[^"\n]{2,40}"/g,
+  /(?:\.{0,2}\/)?\b[\w.-]+\/[\w./-]*\w/g,
+  /\b[a-z]+(?:[A-Z][a-z0-9]*)+\b/g,
+  /\b[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+\b/g,
+  /\b[A-Za-z][A-Za-z0-9]*(?:_[A-Za-z0-9]+)+\b/g,
+  /\b\d+(?:[.,:]\d+)*(?:%|\s?(?:ms|s|kb|mb|gb|tb|k|m|x)\b)?/gi,
+  /\b[A-Z]{2,}[0-9]*\b/g,
+  /(?<=[a-z,;]\s)[A-Z][a-z]{2,}\b/g
+];
+
+/**
+ * Measures a compressed context against its original, so compression
+ * settings are judged by what survives rather than by how much was cut:
+ * retention of key terms and entities, embedding coverage and, optionally,
+ * question-answer probes asked of both texts.
+ */
+export class CompressionEvaluator {
+  private static readonly WEIGHTS = { keywords: 0.3, entities: 0.3, embedding: 0.2, probes: 0.2 };
+  private static readonly MISSING_SHOWN = 10;
+  private static readonly CHUNK_TOKENS = 150;
+
+  static async evaluate(original: string, compressed: string, options: EvaluationOptions = {}): Promise<CompressionEvaluation> {
+    const keywords = this.keywordRetention(original, compressed, options.maxKeywords);
+    const entities = this.entityRetention(original, compressed);
+    const embeddingSimilarity = options.embeddings
+      ? await this.embeddingSimilarity(original, compressed, options.embeddings)
+      : undefined;
+    const probes = options.probes?.length
+      ? await this.runProbes(original, compressed, options.probes, options.answerer)
+      : undefined;
+
+    const measures: Array<[number, number]> = [
+      [this.WEIGHTS.keywords, keywords.score],
+      [this.WEIGHTS.entities, entities.score],
+      ...(embeddingSimilarity !== undefined ? [[this.WEIGHTS.embedding, embeddingSimilarity] as [number, number]] : []),
+      ...(probes && probes.answerable > 0 ? [[this.WEIGHTS.probes, probes.score] as [number, number]] : [])
+    ];
+    const weight = measures.reduce((sum, [w]) => sum + w, 0);
+
+    return {
+      keywords,
+      entities,
+      embedding_similarity: embeddingSimilarity,
+      probes,
+      score: measures.reduce((sum, [w, value]) => sum + w * value, 0) / weight
+    };
+  }
+
+  /**
+   * The original's most frequent content terms, weighted by frequency
+   */
+  static keywordRetention(original: string, compressed: string, maxKeywords: number = 40): TermRetention {
+    const frequencies = new Map<string, number>();
+    for (const term of relevanceTerms(original)) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    const keywords = Array.from(frequencies.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, maxKeywords);
+
+    const present = new Set(relevanceTerms(compressed));
+    const total = keywords.reduce((sum, [, count]) => sum + count, 0);
+    const kept = keywords.filter(([term]) => present.has(term));
+    return {
+      total: keywords.length,
+      retained: kept.length,
+      score: total > 0 ? kept.reduce((sum, [, count]) => sum + count, 0) / total : 1,
+      missing: keywords.filter(([term]) => !present.has(term)).slice(0, this.MISSING_SHOWN).map(([term]) => term)
+    };
+  }
+
+  static entityRetention(original: string, compressed: string): TermRetention {
+    const entities = this.extractEntities(original);
+    const missing = entities.filter(entity => !this.containsExactly(compressed, entity));
+    return {
+      total: entities.length,
+      retained: entities.length - missing.length,
+      score: entities.length > 0 ? (entities.length - missing.length) / entities.length : 1,
+      missing: missing.slice(0, this.MISSING_SHOWN)
+    };
+  }
+
+  /**
+   * Distinct entities in order of first appearance. Patterns go from most to
+   * least specific, and text claimed by one (a URL) is not matched again by
+   * the next (a path inside it).
+   */
+  static extractEntities(text: string): string[] {
+    const found = new Map<string, number>();
+    const claimed: Array<[number, number]> = [];
+    for (const pattern of ENTITY_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const entity = match[0].trim();
+        const start = match.index!;
+        const end = start + match[0].length;
+        if ((entity.length < 2 && !/\d/.test(entity)) || claimed.some(([from, to]) => start < to && end > from)) continue;
+        claimed.push([start, end]);
+        if (!found.has(entity)) found.set(entity, start);
+      }
+    }
+    return Array.from(found.entries()).sort((a, b) => a[1] - b[1]).map(([entity]) => entity);
+  }
+
+  /**
+   * Each chunk of the original is matched to its closest chunk of the
+   * compressed text; the similarities are averaged by chunk size. A whole-text
+   * cosine would barely move when a section disappears.
+   */
+  static async embeddingSimilarity(original: string, compressed: string, embeddings: EmbeddingProvider): Promise<number> {
+    const originalChunks = ContextChunker.split(original, this.CHUNK_TOKENS);
+    const compressedChunks = ContextChunker.split(compressed, this.CHUNK_TOKENS);
+    if (originalChunks.length === 0) return 1;
+    if (compressedChunks.length === 0) return 0;
+
+    const vectors = (await embeddings.embed([...originalChunks, ...compressedChunks].map(chunk => chunk.text))).map(normalizeVector);
+    const originalVectors = vectors.slice(0, originalChunks.length);
+    const compressedVectors = vectors.slice(originalChunks.length);
+    const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * (b[i] || 0), 0);
+
+    let weighted = 0;
+    let total = 0;
+    originalChunks.forEach((chunk, index) => {
+      const best = Math.max(0, ...compressedVectors.map(vector => cosine(originalVectors[index], vector)));
+      weighted += Math.min(1, best) * chunk.tokens;
+      total += chunk.tokens;
+    });
+    return total > 0 ? weighted / total : 1;
+  }
+
+  /**
+   * Round trip: each probe is asked of the original first, and only probes
+   * the original answers count against the compressed text
+   */
+  static async runProbes(original: string, compressed: string, probes: QaProbe[], answerer?: ProbeAnswerer): Promise<ProbeEvaluation> {
+    const outcomes: ProbeOutcome[] = [];
+    for (const probe of probes) {
+      const expected = Array.isArray(probe.answer) ? probe.answer : [probe.answer];
+      const matches = (text: string) => expected.some(answer => this.normalize(text).includes(this.normalize(answer)));
+
+      if (!answerer) {
+        const answerable = matches(original);
+        outcomes.push({ question: probe.question, expected, answerable, passed: answerable && matches(compressed) });
+        continue;
+      }
+
+      const answerable = matches(await answerer.answer(probe.question, original));
+      const answer = answerable ? await answerer.answer(probe.question, compressed) : undefined;
+      outcomes.push({ question: probe.question, expected, answerable, passed: answer !== undefined && matches(answer), answer });
+    }
+
+    const answerable = outcomes.filter(outcome => outcome.answerable).length;
+    const passed = outcomes.filter(outcome => outcome.passed).length;
+    return {
+      answerer: answerer?.name || 'substring',
+      answerable,
+      passed,
+      score: answerable > 0 ? passed / answerable : 1,
+      outcomes
+    };
+  }
+
+  private static containsExactly(text: string, entity: string): boolean {
+    const escaped = entity.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\w.])${escaped}(?![\\w])`).test(text);
+  }
+
+  private static normalize(text: string): string {
+    return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}%./:-]+/gu, ' ').trim();
+  }
+}
+
+export interface ChatProbeOptions {
+  /** Checked before every call and charged with its tokens */
+  budget?: TokenBudget;
+  /** Masks the question and context before they are sent; a reject finding refuses the probe */
+  redactor?: Redactor | null;
+}
+
+/**
+ * Probe answerer backed by an OpenAI-compatible chat model. Every probe is a
+ * paid upstream call, so it goes through the same budget and redaction as a
+ * chat request when they are given.
+ */
+export class ChatProbeAnswerer implements ProbeAnswerer {
+  readonly name: string;
+
+  constructor(private readonly client: OpenAI, private readonly model: string, private readonly options: ChatProbeOptions = {}) {
+    this.name = `chat:${model}`;
+  }
+
+  async answer(question: string, context: string): Promise<string> {
+    const scanned = this.options.redactor?.scanMany([question, context]);
+    if (scanned?.rejected) {
+      const detectors = scanned.findings.filter(finding => finding.action === 'reject').map(finding => finding.detector);
+      throw new Error(`Probe rejected: sensitive data detected (${detectors.join(', ')})`);
+    }
+    const [maskedQuestion, maskedContext] = scanned?.texts ?? [question, context];
+
+    await this.options.budget?.assertAvailable();
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      max_tokens: 64,
+      messages: [
+        { role: 'system', content: 'Answer the question using only the context. Reply with the shortest exact answer, or "unknown".' },
+        { role: 'user', content: `Context:\n${maskedContext}\n\nQuestion: ${maskedQuestion}` }
+      ]
+    });
+    await this.options.budget?.consume(response.usage?.total_tokens || 0);
+    return response.choices[0]?.message?.content || '';
+  }
+}
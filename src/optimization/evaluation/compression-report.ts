@@ -0,0 +1,70 @@
+/**
+ * Compression quality report from the command line:
+ *
+ *   npm run report:compression -- [--corpus file.json] [--ratios 0.5,0.3]
+ *     [--levels conservative,moderate,aggressive] [--embeddings hash]
+ *     [--probe-model moonshot-v1-8k] [--min-score 0.8] [--json] [--out report.md]
+ *
+ * Exits with 1 when a run scores below --min-score, so it can gate CI.
+ */
+
+import fs from 'fs/promises';
+import OpenAI from 'openai';
+import 'dotenv/config';
+import { EmbeddingProviderFactory } from '../../cache/embeddings/EmbeddingProviderFactory.js';
+import { Aggressiveness, AGGRESSIVENESS_LEVELS, CompressionBenchmark } from './CompressionBenchmark.js';
+import { ChatProbeAnswerer } from './CompressionEvaluator.js';
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const next = argv[i + 1];
+    args[argv[i].slice(2)] = next !== undefined && !next.startsWith('--') ? argv[++i] : true;
+  }
+  return args;
+}
+
+function list(value: string | true | undefined): string[] | undefined {
+  return typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const corpus = typeof args.corpus === 'string' ? args.corpus : CompressionBenchmark.DEFAULT_CORPUS;
+
+  const levels = list(args.levels);
+  const unknown = levels?.filter(level => !AGGRESSIVENESS_LEVELS.includes(level as Aggressiveness));
+  if (unknown?.length) {
+    throw new Error(`Unknown aggressiveness: ${unknown.join(', ')}`);
+  }
+
+  const benchmark = new CompressionBenchmark({
+    ratios: list(args.ratios)?.map(Number),
+    levels: levels as Aggressiveness[] | undefined,
+    embeddings: typeof args.embeddings === 'string' ? EmbeddingProviderFactory.create(args.embeddings) : undefined,
+    answerer: typeof args['probe-model'] === 'string'
+      ? new ChatProbeAnswerer(new OpenAI({ apiKey: process.env.MOONSHOT_API_KEY, baseURL: 'https://api.moonshot.ai/v1' }), args['probe-model'])
+      : undefined,
+    minScore: typeof args['min-score'] === 'string' ? Number(args['min-score']) : undefined
+  });
+  const report = await benchmark.run(await CompressionBenchmark.loadCorpus(corpus), corpus);
+
+  const output = args.json ? JSON.stringify(report, null, 2) + '\n' : CompressionBenchmark.toMarkdown(report);
+  if (typeof args.out === 'string') {
+    await fs.writeFile(args.out, output);
+    console.log(`Report written to ${args.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+  return report.runs.some(run => run.below_threshold) ? 1 : 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+    .then(code => process.exit(code))
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(2);
+    });
+}
@@ -0,0 +1,75 @@
+/** Words too common to say anything about relevance, in English and Portuguese */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'i', 'if', 'in', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+  'o', 'os', 'as', 'um', 'uma', 'de', 'do', 'da', 'dos', 'das', 'e', 'em', 'no', 'na', 'nos', 'nas', 'para', 'por',
+  'com', 'sem', 'que', 'se', 'ao', 'aos', 'como', 'mais', 'mas', 'ou', 'eu', 'ele', 'ela', 'isso', 'este', 'esta'
+]);
+
+/**
+ * Terms of a text for matching: lowercased words without accents, with
+ * identifiers also split into their parts (fetchInvoice, max_tokens) and a
+ * plural s dropped so "tokens" meets "token"
+ */
+export function relevanceTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    const words = parts.length > 1 ? [word, ...parts] : [word];
+    for (const candidate of words) {
+      const term = candidate.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+      if (term.length < 2 || STOPWORDS.has(term)) continue;
+      terms.push(term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Okapi BM25 over a fixed set of documents (the chunks of one context)
+ */
+export class Bm25 {
+  private readonly termFrequencies: Array<Map<string, number>>;
+  private readonly lengths: number[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: string[], private readonly k1: number = 1.2, private readonly b: number = 0.75) {
+    this.termFrequencies = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      for (const term of relevanceTerms(document)) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map(frequencies => [...frequencies.values()].reduce((sum, count) => sum + count, 0));
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(documents.length, 1) || 1;
+
+    for (const frequencies of this.termFrequencies) {
+      for (const term of frequencies.keys()) this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  /**
+   * Score of every document for the query, in document order
+   */
+  score(query: string): number[] {
+    const terms = [...new Set(relevanceTerms(query))];
+    const documents = this.termFrequencies.length;
+
+    return this.termFrequencies.map((frequencies, index) => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const containing = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents - containing + 0.5) / (containing + 0.5));
+        const saturation = frequency + this.k1 * (1 - this.b + this.b * this.lengths[index] / this.averageLength);
+        score += idf * frequency * (this.k1 + 1) / saturation;
+      }
+      return score;
+    });
+  }
+}
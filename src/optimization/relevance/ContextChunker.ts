@@ -0,0 +1,117 @@
+import { TokenEstimator } from '../../utils/TokenEstimator.js';
+
+export interface ContextChunk {
+  /** Position among the chunks of the context */
+  index: number;
+  /** Offsets in the original text */
+  start: number;
+  end: number;
+  text: string;
+  tokens: number;
+  /** Markdown heading; takes the relevance of the section it opens */
+  heading: boolean;
+}
+
+/**
+ * Splits a context into the units query-focused compression keeps or drops:
+ * paragraphs, then groups of sentences (or list lines) no larger than
+ * maxChunkTokens. Code fences are never split.
+ */
+export class ContextChunker {
+  static split(text: string, maxChunkTokens: number = Infinity, model?: string): ContextChunk[] {
+    const chunks: ContextChunk[] = [];
+    const add = (start: number, end: number) => {
+      // Offsets exclude surrounding whitespace, so the gaps hold the original separators
+      while (start < end && /\s/.test(text[start])) start++;
+      while (end > start && /\s/.test(text[end - 1])) end--;
+      if (start === end) return;
+      const chunkText = text.slice(start, end);
+      chunks.push({
+        index: chunks.length,
+        start,
+        end,
+        text: chunkText,
+        tokens: TokenEstimator.estimateFromText(chunkText, model),
+        heading: /^#{1,6}\s/.test(chunkText) && !chunkText.includes('\n')
+      });
+    };
+
+    for (const block of this.blocks(text)) {
+      const tokens = TokenEstimator.estimateFromText(text.slice(block.start, block.end), model);
+      if (block.fence || tokens <= maxChunkTokens) {
+        add(block.start, block.end);
+        continue;
+      }
+
+      // Sentences, or lines when the block is a list or has no sentence punctuation
+      let groupStart = block.start;
+      let groupTokens = 0;
+      for (const unit of this.units(text, block.start, block.end)) {
+        const unitTokens = TokenEstimator.estimateFromText(text.slice(unit.start, unit.end), model);
+        if (groupTokens > 0 && groupTokens + unitTokens > maxChunkTokens) {
+          add(groupStart, unit.start);
+          groupStart = unit.start;
+          groupTokens = 0;
+        }
+        groupTokens += unitTokens;
+      }
+      add(groupStart, block.end);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Paragraphs separated by blank lines; fenced code and headings are blocks of their own
+   */
+  private static blocks(text: string): Array<{ start: number; end: number; fence: boolean }> {
+    const blocks: Array<{ start: number; end: number; fence: boolean }> = [];
+    const lines = text.split('\n');
+    let offset = 0;
+    let start = -1;
+    let fence = false;
+
+    const close = (end: number, isFence = false) => {
+      if (start >= 0) blocks.push({ start, end, fence: isFence });
+      start = -1;
+    };
+
+    for (const line of lines) {
+      const lineEnd = offset + line.length;
+      if (fence) {
+        if (/^\s*```/.test(line)) {
+          close(lineEnd, true);
+          fence = false;
+        }
+      } else if (/^\s*```/.test(line)) {
+        close(offset);
+        start = offset;
+        fence = true;
+      } else if (!line.trim()) {
+        close(offset);
+      } else if (/^#{1,6}\s/.test(line)) {
+        close(offset);
+        start = offset;
+        close(lineEnd);
+      } else if (start < 0) {
+        start = offset;
+      }
+      offset = lineEnd + 1;
+    }
+    // An unclosed fence runs to the end
+    close(text.length, fence);
+    return blocks;
+  }
+
+  private static units(text: string, start: number, end: number): Array<{ start: number; end: number }> {
+    const block = text.slice(start, end);
+    const listLike = /^\s*([-*+]|\d+[.)])\s/m.test(block) || !/[.!?](\s|$)/.test(block);
+    const pattern = listLike ? /[^\n]+\n*/g : /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)\s*/g;
+    const units: Array<{ start: number; end: number }> = [];
+    for (const match of block.matchAll(pattern)) {
+      if (match[0].length === 0) continue;
+      units.push({ start: start + match.index!, end: start + match.index! + match[0].length });
+    }
+    return units;
+  }
+}
@@ -0,0 +1,167 @@
+import { TokenEstimator } from '../../utils/TokenEstimator.js';
+import { EmbeddingProvider, normalizeVector } from '../../cache/embeddings/EmbeddingProvider.js';
+import { Bm25 } from './Bm25.js';
+import { ContextChunk, ContextChunker } from './ContextChunker.js';
+
+export type QueryRanker = 'bm25' | 'embedding';
+
+export interface QueryFocusOptions {
+  maxTokens: number;
+  /** Chunks larger than this are split into sentence groups */
+  maxChunkTokens?: number;
+  model?: string;
+}
+
+export interface DroppedChunk {
+  index: number;
+  start: number;
+  end: number;
+  tokens: number;
+  /** Relevance to the query, 0-1 */
+  score: number;
+  /** First characters, to tell what was dropped */
+  preview: string;
+}
+
+export interface QueryFocusResult {
+  text: string;
+  ranker: QueryRanker;
+  keptChunks: number;
+  droppedChunks: DroppedChunk[];
+  /** Share of the context's total relevance that was kept, 0-1 */
+  retainedRelevance: number;
+}
+
+/**
+ * Extractive compression driven by the prompt: the context is cut into
+ * chunks, each chunk is scored against the query, and the best-scoring
+ * chunks that fit maxTokens are kept in their original order. Ties go to
+ * the earlier chunk.
+ */
+export class QueryFocusedCompressor {
+  private static readonly PREVIEW_LENGTH = 80;
+
+  /**
+   * Ranks chunks with BM25; synchronous, so it serves ContextCompression.compress
+   */
+  static compress(text: string, query: string, options: QueryFocusOptions): QueryFocusResult {
+    const chunks = ContextChunker.split(text, options.maxChunkTokens, options.model);
+    const scores = new Bm25(chunks.map(chunk => chunk.text)).score(query);
+    return this.select(text, chunks, this.normalize(scores), 'bm25', options);
+  }
+
+  /**
+   * Ranks chunks by cosine similarity of their embeddings to the query's,
+   * blended with BM25 so exact identifiers still count when the embedding
+   * model is weak (as the hash fallback is)
+   */
+  static async compressWithEmbeddings(
+    text: string,
+    query: string,
+    embeddings: EmbeddingProvider,
+    options: QueryFocusOptions
+  ): Promise<QueryFocusResult> {
+    const chunks = ContextChunker.split(text, options.maxChunkTokens, options.model);
+    const lexical = this.normalize(new Bm25(chunks.map(chunk => chunk.text)).score(query));
+    const [queryVector, ...chunkVectors] = (await embeddings.embed([query, ...chunks.map(chunk => chunk.text)])).map(normalizeVector);
+
+    const scores = chunkVectors.map((vector, index) => {
+      const cosine = vector.reduce((sum, value, i) => sum + value * (queryVector[i] || 0), 0);
+      return 0.5 * Math.max(0, cosine) + 0.5 * lexical[index];
+    });
+    return this.select(text, chunks, scores, 'embedding', options);
+  }
+
+  private static select(
+    text: string,
+    chunks: ContextChunk[],
+    chunkScores: number[],
+    ranker: QueryRanker,
+    options: QueryFocusOptions
+  ): QueryFocusResult {
+    const scores = this.inheritSectionScores(chunks, chunkScores);
+    const order = chunks
+      .map(chunk => chunk.index)
+      .sort((a, b) => scores[b] - scores[a] || a - b);
+
+    const kept = new Set<number>();
+    let used = 0;
+    for (const index of order) {
+      if (used + chunks[index].tokens > options.maxTokens) continue;
+      kept.add(index);
+      used += chunks[index].tokens;
+    }
+
+    // Separators are not in the chunk counts; drop the weakest kept chunks until the whole fits
+    let output = this.assemble(text, chunks, kept);
+    const byWeakness = order.filter(index => kept.has(index)).reverse();
+    while (kept.size > 0 && TokenEstimator.estimateFromText(output, options.model) > options.maxTokens) {
+      kept.delete(byWeakness.shift()!);
+      output = this.assemble(text, chunks, kept);
+    }
+
+    const total = scores.reduce((sum, score) => sum + score, 0);
+    const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+    const retained = total > 0
+      ? [...kept].reduce((sum, index) => sum + scores[index], 0) / total
+      : [...kept].reduce((sum, index) => sum + chunks[index].tokens, 0) / Math.max(totalTokens, 1);
+
+    return {
+      text: output,
+      ranker,
+      keptChunks: kept.size,
+      droppedChunks: chunks
+        .filter(chunk => !kept.has(chunk.index))
+        .map(chunk => ({
+          index: chunk.index,
+          start: chunk.start,
+          end: chunk.end,
+          tokens: chunk.tokens,
+          score: scores[chunk.index],
+          preview: chunk.text.slice(0, this.PREVIEW_LENGTH)
+        })),
+      retainedRelevance: retained
+    };
+  }
+
+  /**
+   * Kept chunks in original order. Neighbours keep the whitespace between
+   * them; across a gap the separator says whether a paragraph was crossed.
+   */
+  private static assemble(text: string, chunks: ContextChunk[], kept: Set<number>): string {
+    let output = '';
+    let previous: ContextChunk | null = null;
+    for (const chunk of chunks) {
+      if (!kept.has(chunk.index)) continue;
+      if (previous) {
+        const gap = text.slice(previous.end, chunk.start);
+        output += chunk.index === previous.index + 1 ? gap : /\n\s*\n/.test(gap) ? '\n\n' : gap.includes('\n') ? '\n' : ' ';
+      }
+      output += chunk.text;
+      previous = chunk;
+    }
+    return output;
+  }
+
+  /**
+   * A heading scores as well as the best chunk of its section, so kept
+   * text does not lose its title
+   */
+  private static inheritSectionScores(chunks: ContextChunk[], scores: number[]): number[] {
+    const result = [...scores];
+    for (let i = chunks.length - 1, best = 0; i >= 0; i--) {
+      if (chunks[i].heading) {
+        result[i] = Math.max(scores[i], best);
+        best = 0;
+      } else {
+        best = Math.max(best, scores[i]);
+      }
+    }
+    return result;
+  }
+
+  private static normalize(scores: number[]): number[] {
+    const max = Math.max(0, ...scores);
+    return max > 0 ? scores.map(score => score / max) : scores.map(() => 0);
+  }
+}
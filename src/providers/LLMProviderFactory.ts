@@ -1,11 +1,21 @@
 import { ModelPricing, LLMProvider } from '../types/index.js';
 import { Logger } from '../utils/Logger.js';
+import { Tokenizer } from '../tokenizers/Tokenizer.js';
+import { TokenizerRegistry } from '../tokenizers/TokenizerRegistry.js';
+import { ModelCatalog } from '../catalog/ModelCatalog.js';
 
 /**
- * Factory for creating and managing LLM providers
+ * Factory for creating and managing LLM providers.
+ * Providers and model prices come from the shared model catalog.
  */
 export class LLMProviderFactory {
-  private providers: Map<string, LLMProvider> = new Map();
+  private providerMap: Map<string, LLMProvider> = new Map();
+  /** Providers added at runtime, kept across catalog reloads */
+  private customProviders: Map<string, LLMProvider> = new Map();
+  private providerUpdates: Map<string, Partial<LLMProvider>> = new Map();
+  private catalog?: ModelCatalog;
+  private catalogGeneration = 0;
+  private builtAt = 0;
   private logger: Logger;
 
   constructor() {
@@ -13,165 +23,85 @@ export class LLMProviderFactory {
     this.initializeProviders();
   }
 
+  /**
+   * Providers as of the current catalog, rebuilt after a reload or a scheduled price change
+   */
+  private get providers(): Map<string, LLMProvider> {
+    const catalog = ModelCatalog.shared();
+    if (catalog !== this.catalog || catalog.changedSince(this.catalogGeneration, this.builtAt)) {
+      this.initializeProviders();
+    }
+    return this.providerMap;
+  }
+
   private initializeProviders(): void {
-    // Moonshot AI Provider
-    this.providers.set('moonshot', {
-      name: 'Moonshot AI',
-      baseURL: 'https://api.moonshot.ai/v1',
-      supportsStreaming: true,
-      supportsCaching: true,
-      models: [
-        {
-          name: 'moonshot-v1-8k',
-          inputCostPer1M: 0.15,
-          outputCostPer1M: 2.50,
-          contextWindow: 8192,
-          performance: 8.5,
-          cachingSupport: true,
-          recommended: ['coding', 'general', 'analysis']
-        },
-        {
-          name: 'moonshot-v1-32k',
-          inputCostPer1M: 0.30,
-          outputCostPer1M: 3.00,
-          contextWindow: 32768,
-          performance: 8.7,
-          cachingSupport: true,
-          recommended: ['long-context', 'documents', 'code-review']
-        },
-        {
-          name: 'moonshot-v1-128k',
-          inputCostPer1M: 0.50,
-          outputCostPer1M: 3.50,
-          contextWindow: 128000,
-          performance: 9.0,
-          cachingSupport: true,
-          recommended: ['complex-analysis', 'large-documents', 'agentic']
-        }
-      ]
-    });
+    const catalog = ModelCatalog.shared();
+    const builtAt = Date.now();
+    const models = catalog.list(builtAt);
+    const providers = new Map<string, LLMProvider>();
 
-    // OpenAI Provider
-    this.providers.set('openai', {
-      name: 'OpenAI',
-      baseURL: 'https://api.openai.com/v1',
-      supportsStreaming: true,
-      supportsCaching: false,
-      models: [
-        {
-          name: 'gpt-4o',
-          inputCostPer1M: 2.00,
-          outputCostPer1M: 8.00,
-          contextWindow: 128000,
-          performance: 9.2,
-          cachingSupport: false,
-          recommended: ['premium-quality', 'complex-reasoning']
-        },
-        {
-          name: 'gpt-4o-mini',
-          inputCostPer1M: 0.15,
-          outputCostPer1M: 0.60,
-          contextWindow: 128000,
-          performance: 8.0,
-          cachingSupport: false,
-          recommended: ['fast', 'cost-effective']
-        },
-        {
-          name: 'gpt-3.5-turbo',
-          inputCostPer1M: 0.50,
-          outputCostPer1M: 1.50,
-          contextWindow: 16385,
-          performance: 7.5,
-          cachingSupport: false,
-          recommended: ['basic-tasks', 'high-volume']
-        }
-      ]
-    });
+    for (const [key, provider] of catalog.providers()) {
+      providers.set(key, {
+        name: provider.name,
+        baseURL: provider.base_url,
+        supportsStreaming: provider.supports_streaming,
+        supportsCaching: provider.supports_caching,
+        tokenizer: provider.tokenizer,
+        models: models
+          .filter(model => model.provider === key)
+          .map(model => ({
+            name: model.id,
+            inputCostPer1M: model.price.input_per_1m,
+            outputCostPer1M: model.price.output_per_1m,
+            cachedInputCostPer1M: model.price.cached_input_per_1m,
+            contextWindow: model.context_window,
+            maxOutputTokens: model.max_output_tokens,
+            performance: model.performance,
+            cachingSupport: model.capabilities.includes('prompt-caching'),
+            recommended: model.recommended
+          }))
+      });
+    }
 
-    // Anthropic Provider
-    this.providers.set('anthropic', {
-      name: 'Anthropic',
-      baseURL: 'https://api.anthropic.com/v1',
-      supportsStreaming: true,
-      supportsCaching: true,
-      models: [
-        {
-          name: 'claude-3-opus',
-          inputCostPer1M: 15.00,
-          outputCostPer1M: 75.00,
-          contextWindow: 200000,
-          performance: 9.5,
-          cachingSupport: true,
-          recommended: ['complex-reasoning', 'creative-writing']
-        },
-        {
-          name: 'claude-3-sonnet',
-          inputCostPer1M: 3.00,
-          outputCostPer1M: 15.00,
-          contextWindow: 200000,
-          performance: 9.0,
-          cachingSupport: true,
-          recommended: ['balanced-performance', 'analysis']
-        },
-        {
-          name: 'claude-3-haiku',
-          inputCostPer1M: 0.25,
-          outputCostPer1M: 1.25,
-          contextWindow: 200000,
-          performance: 8.0,
-          cachingSupport: true,
-          recommended: ['fast-responses', 'simple-tasks']
-        }
-      ]
-    });
+    for (const [name, provider] of this.customProviders) {
+      providers.set(name, provider);
+    }
+    for (const [name, updates] of this.providerUpdates) {
+      const existing = providers.get(name);
+      if (existing) providers.set(name, { ...existing, ...updates });
+    }
+
+    this.providerMap = providers;
+    this.catalog = catalog;
+    this.catalogGeneration = catalog.generation;
+    this.builtAt = builtAt;
 
     this.logger.info('LLM providers initialized', {
-      count: this.providers.size,
-      providers: Array.from(this.providers.keys())
+      count: providers.size,
+      providers: Array.from(providers.keys()),
+      catalog: catalog.revision
     });
 
-    // Initialize local model providers
-    this.initializeLocalProviders();
+    this.registerTokenizers();
   }
 
-  private initializeLocalProviders(): void {
-    // Local Phi-3-mini provider
-    this.providers.set('local-phi3', {
-      name: 'Local Phi-3-mini',
-      baseURL: 'http://localhost:8080/v1',
-      supportsStreaming: true,
-      supportsCaching: true,
-      models: [
-        {
-          name: 'phi-3-mini-4k-instruct',
-          inputCostPer1M: 0,
-          outputCostPer1M: 0,
-          contextWindow: 4096,
-          performance: 8.5,
-          cachingSupport: true,
-          recommended: ['coding', 'general', 'analysis', 'local']
-        }
-      ]
-    });
+  /**
+   * Registers each provider's tokenizer for its model names.
+   * Providers without an explicit tokenizer rely on the registry's family rules
+   * (which is how OpenAI models get cl100k_base or o200k_base per model).
+   */
+  private registerTokenizers(): void {
+    for (const provider of this.providerMap.values()) {
+      this.registerProviderTokenizer(provider);
+    }
+  }
 
-    // Local Gemma-2 provider
-    this.providers.set('local-gemma2', {
-      name: 'Local Gemma-2-2B',
-      baseURL: 'http://localhost:8081/v1',
-      supportsStreaming: true,
-      supportsCaching: true,
-      models: [
-        {
-          name: 'gemma-2-2b-it',
-          inputCostPer1M: 0,
-          outputCostPer1M: 0,
-          contextWindow: 4096,
-          performance: 7.8,
-          cachingSupport: true,
-          recommended: ['fast', 'cost-effective', 'local', 'summarization']
-        }
-      ]
-    });
+  private registerProviderTokenizer(provider: LLMProvider): void {
+    if (!provider.tokenizer) return;
+
+    for (const model of provider.models) {
+      TokenizerRegistry.registerModel(model.name, provider.tokenizer);
+    }
   }
 
   /**
@@ -356,11 +286,20 @@ export class LLMProviderFactory {
     return headers;
   }
 
+  /**
+   * Gets the tokenizer used to count tokens for a model
+   */
+  getTokenizer(modelName: string): Tokenizer {
+    return TokenizerRegistry.forModel(modelName);
+  }
+
   /**
    * Adds a custom provider
    */
   addProvider(name: string, provider: LLMProvider): void {
+    this.customProviders.set(name, provider);
     this.providers.set(name, provider);
+    this.registerProviderTokenizer(provider);
     this.logger.info('Custom provider added', { name, models: provider.models.length });
   }
 
@@ -370,7 +309,13 @@ export class LLMProviderFactory {
   updateProvider(name: string, updates: Partial<LLMProvider>): void {
     const existing = this.providers.get(name);
     if (existing) {
+      if (this.customProviders.has(name)) {
+        this.customProviders.set(name, { ...existing, ...updates });
+      } else {
+        this.providerUpdates.set(name, { ...this.providerUpdates.get(name), ...updates });
+      }
       this.providers.set(name, { ...existing, ...updates });
+      this.registerProviderTokenizer(this.providers.get(name)!);
       this.logger.info('Provider updated', { name });
     }
   }
@@ -6,6 +6,7 @@
 import { HighConcurrencyQueue, QueueJob, QueueWorker } from './HighConcurrencyQueue.js';
 import { ModelOptimizer } from '../services/ModelOptimizer.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
 
 export interface JobQueueConfig {
   maxConcurrency?: number;
@@ -31,6 +32,8 @@ export interface LLMJobData {
 export interface OptimizationJobData {
   prompt: string;
   context?: string;
+  /** Model whose tokenizer counts the prompt and context */
+  model?: string;
   taskType?: string;
   budget?: number;
   quality?: 'fast' | 'balanced' | 'premium';
@@ -38,9 +41,11 @@ export interface OptimizationJobData {
 
 export interface CacheJobData {
   key: string;
-  operation: 'get' | 'set' | 'delete' | 'cleanup';
+  operation: 'get' | 'set' | 'delete' | 'cleanup' | 'refresh';
   value?: any;
   ttl?: number;
+  /** Recomputes and stores the entry, for 'refresh' */
+  refresh?: () => Promise<unknown>;
 }
 
 export class JobQueueManager {
@@ -192,8 +197,8 @@ export class JobQueueManager {
     
     try {
       // Estimate tokens
-      const promptTokens = Math.ceil(data.prompt.length / 4.5);
-      const contextTokens = data.context ? Math.ceil(data.context.length / 4.5) : 0;
+      const promptTokens = TokenEstimator.estimateFromText(data.prompt, data.model);
+      const contextTokens = data.context ? TokenEstimator.estimateFromText(data.context, data.model) : 0;
       
       // Get optimization strategy
       const optimization = this.modelOptimizer.optimizeModelSelection(
@@ -228,8 +233,8 @@ export class JobQueueManager {
     const startTime = Date.now();
     
     try {
-      const promptTokens = Math.ceil(data.prompt.length / 4.5);
-      const contextTokens = data.context ? Math.ceil(data.context.length / 4.5) : 0;
+      const promptTokens = TokenEstimator.estimateFromText(data.prompt, data.model);
+      const contextTokens = data.context ? TokenEstimator.estimateFromText(data.context, data.model) : 0;
       
       const optimization = this.modelOptimizer.optimizeModelSelection(
         data.taskType || 'general',
@@ -258,6 +263,18 @@ export class JobQueueManager {
    * Process cache operations
    */
   private async processCacheOperation(data: CacheJobData): Promise<any> {
+    if (data.operation === 'refresh' && data.refresh) {
+      const startTime = Date.now();
+      await data.refresh();
+      return {
+        operation: data.operation,
+        key: data.key,
+        success: true,
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString()
+      };
+    }
+
     // This would integrate with the actual cache system
     // For now, return mock data
     return {
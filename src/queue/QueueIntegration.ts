@@ -7,6 +7,7 @@ import { JobQueueManager, LLMJobData, OptimizationJobData } from './JobQueueMana
 import { ModelOptimizer } from '../services/ModelOptimizer.js';
 import { CacheEngine } from '../core/CacheEngine.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
 
 export interface QueueIntegrationConfig {
   enabled: boolean;
@@ -23,6 +24,7 @@ export class QueueIntegration {
   private cacheEngine: CacheEngine;
   private logger: Logger;
   private config: QueueIntegrationConfig;
+  private pendingRefreshes = new Set<string>();
 
   constructor(
     modelOptimizer: ModelOptimizer,
@@ -101,6 +103,7 @@ export class QueueIntegration {
     context?: string,
     options: {
       taskType?: string;
+      model?: string;
       quality?: 'fast' | 'balanced' | 'premium';
       budget?: number;
       priority?: number;
@@ -114,6 +117,7 @@ export class QueueIntegration {
     const jobData: OptimizationJobData = {
       prompt,
       context,
+      model: options.model,
       taskType: options.taskType,
       quality: options.quality,
       budget: options.budget
@@ -139,8 +143,8 @@ export class QueueIntegration {
     context?: string,
     options: any = {}
   ): Promise<any> {
-    const promptTokens = Math.ceil(prompt.length / 4.5);
-    const contextTokens = context ? Math.ceil(context.length / 4.5) : 0;
+    const promptTokens = TokenEstimator.estimateFromText(prompt, options.model);
+    const contextTokens = context ? TokenEstimator.estimateFromText(context, options.model) : 0;
     
     const optimization = this.modelOptimizer.optimizeModelSelection(
       options.taskType || 'general',
@@ -163,8 +167,8 @@ export class QueueIntegration {
     context?: string,
     options: any = {}
   ): Promise<any> {
-    const promptTokens = Math.ceil(prompt.length / 4.5);
-    const contextTokens = context ? Math.ceil(context.length / 4.5) : 0;
+    const promptTokens = TokenEstimator.estimateFromText(prompt, options.model);
+    const contextTokens = context ? TokenEstimator.estimateFromText(context, options.model) : 0;
     
     const optimization = this.modelOptimizer.optimizeModelSelection(
       options.taskType || 'general',
@@ -218,6 +222,47 @@ export class QueueIntegration {
     return await this.jobQueueManager.waitForJob(jobId);
   }
 
+  /**
+   * Queues a background refresh of a stale cache entry at low priority.
+   * Returns false when a refresh for the key is already pending in the same
+   * namespace; cache keys do not include the namespace, so tenants with the
+   * same prompt share a key.
+   */
+  scheduleRefresh(key: string, refresh: () => Promise<unknown>, namespace?: string): boolean {
+    const pendingKey = this.pendingKey(key, namespace);
+    if (this.pendingRefreshes.has(pendingKey)) {
+      return false;
+    }
+    this.pendingRefreshes.add(pendingKey);
+
+    const done = (error?: unknown) => {
+      this.pendingRefreshes.delete(pendingKey);
+      if (error) {
+        this.logger.warn('Cache refresh failed', { key, namespace, error: error instanceof Error ? error.message : error });
+      }
+    };
+
+    if (!this.jobQueueManager || !this.config.enabled) {
+      // No queue: refresh in the background directly
+      refresh().then(() => done(), done);
+      return true;
+    }
+
+    this.jobQueueManager.submitCacheOperation({ key, operation: 'refresh', refresh }, 2)
+      .then(jobId => this.jobQueueManager!.waitForJob(jobId, 120000))
+      .then(() => done(), done);
+    this.logger.debug('Cache refresh queued', { key, namespace });
+    return true;
+  }
+
+  isRefreshPending(key: string, namespace?: string): boolean {
+    return this.pendingRefreshes.has(this.pendingKey(key, namespace));
+  }
+
+  private pendingKey(key: string, namespace?: string): string {
+    return `${namespace ?? ''}:${key}`;
+  }
+
   /**
    * Batch processing methods
    */
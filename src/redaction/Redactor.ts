@@ -0,0 +1,292 @@
+import { Logger } from '../utils/Logger.js';
+
+/**
+ * mask: replace the match before it is sent upstream or cached
+ * block-cache: send as-is, but never cache the request or its response
+ * reject: refuse the request
+ */
+export type RedactionAction = 'mask' | 'block-cache' | 'reject';
+
+export const REDACTION_ACTIONS: readonly RedactionAction[] = ['mask', 'block-cache', 'reject'];
+
+export interface RedactionDetector {
+  name: string;
+  pattern: RegExp;
+  /** Rejects pattern matches that fail a checksum (card numbers, CPF) or look like code */
+  validate?: (match: string, offset: number, text: string) => boolean;
+}
+
+export interface CustomPattern {
+  name: string;
+  pattern: string;
+  flags?: string;
+  action?: RedactionAction;
+}
+
+export interface RedactionOptions {
+  /** Built-in detectors to run (default: all) */
+  detectors?: string[];
+  /** Action per detector name; detectors not listed use defaultAction */
+  actions?: Record<string, RedactionAction>;
+  defaultAction?: RedactionAction;
+  customPatterns?: CustomPattern[];
+}
+
+export interface RedactionFinding {
+  detector: string;
+  action: RedactionAction;
+  count: number;
+}
+
+export interface RedactionResult {
+  texts: string[];
+  findings: RedactionFinding[];
+  /** False when a finding blocks caching or rejects the request */
+  cacheable: boolean;
+  rejected: boolean;
+}
+
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  // Epoch timestamps in ms, µs or ns (2001 onwards) are unseparated runs starting with 1
+  if (digits === match && /^1(?:\d{12}|\d{15}|\d{18})$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const KNOWN_KEY_PREFIX = /^(?:sk-|AKIA|gh[pousr]_|xox[abprs]-|AIza)/;
+const CODE_REFERENCE = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/;
+
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Keys with a known prefix always count. A value assigned to a key-like name
+ * counts when it is a quoted literal, or when it holds a digit and is not a
+ * call, an index or member expression or a readable identifier, so code such
+ * as defaultSecret or localStorage.getItem("auth") is left alone.
+ */
+function plausibleSecret(match: string, offset: number, text: string): boolean {
+  if (KNOWN_KEY_PREFIX.test(match)) return true;
+
+  const before = text[offset - 1];
+  const after = text[offset + match.length];
+  if ((before === '"' || before === "'") && after === before) return true;
+  if (after === '(' || after === '[' || !/\d/.test(match)) return false;
+  if (!CODE_REFERENCE.test(match)) return true;
+  // Member expressions are code; a bare identifier counts only when random-looking
+  return !match.includes('.') && (match.match(/\d/g) || []).length >= 3 && entropy(match) >= 3.5;
+}
+
+function validCpf(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  for (const length of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i);
+    }
+    const check = (sum * 10) % 11 % 10;
+    if (check !== Number(digits[length])) return false;
+  }
+  return true;
+}
+
+/**
+ * Built-in detectors, in the order they run: earlier ones mask text that
+ * later, broader patterns would otherwise match in part
+ */
+export const BUILTIN_DETECTORS: readonly RedactionDetector[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g
+  },
+  {
+    name: 'api-key',
+    pattern: new RegExp([
+      /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/.source,
+      /\bAKIA[0-9A-Z]{16}\b/.source,
+      /\bgh[pousr]_[A-Za-z0-9]{36,}\b/.source,
+      /\bxox[abprs]-[A-Za-z0-9-]{10,}/.source,
+      /\bAIza[0-9A-Za-z_-]{35}\b/.source,
+      // Values assigned to key-like names: API_KEY=..., "password": "..."
+      /(?<=\b(?:api[_-]?key|secret|token|password|passwd|access[_-]?key)["']?\s*[:=]\s*["']?)[A-Za-z0-9_\-./+=]{12,}/.source
+    ].join('|'), 'gi'),
+    validate: plausibleSecret
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g
+  },
+  {
+    name: 'credit-card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhn
+  },
+  {
+    name: 'cpf',
+    pattern: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g,
+    validate: validCpf
+  }
+];
+
+/**
+ * Finds sensitive data in prompts and responses and applies the configured
+ * action per detector. Masked matches become [REDACTED:<detector>], so the
+ * masked text is what gets sent upstream, hashed into cache keys and stored.
+ */
+export class Redactor {
+  private detectors: RedactionDetector[];
+  private actions: Record<string, RedactionAction>;
+  private defaultAction: RedactionAction;
+  private logger: Logger;
+
+  constructor(options: RedactionOptions = {}) {
+    this.logger = new Logger('Redactor');
+    this.defaultAction = options.defaultAction || 'mask';
+    this.actions = { ...options.actions };
+
+    const enabled = options.detectors ? new Set(options.detectors) : null;
+    for (const name of enabled || []) {
+      if (!BUILTIN_DETECTORS.some(detector => detector.name === name)) {
+        throw new Error(`Unknown redaction detector: ${name}`);
+      }
+    }
+    this.detectors = BUILTIN_DETECTORS.filter(detector => !enabled || enabled.has(detector.name));
+
+    for (const custom of options.customPatterns || []) {
+      const flags = custom.flags?.includes('g') ? custom.flags : `${custom.flags || ''}g`;
+      this.detectors.push({ name: custom.name, pattern: new RegExp(custom.pattern, flags) });
+      if (custom.action) this.actions[custom.name] = custom.action;
+    }
+
+    for (const [name, action] of Object.entries({ ...this.actions, default: this.defaultAction })) {
+      if (!REDACTION_ACTIONS.includes(action)) {
+        throw new Error(`Invalid redaction action for ${name}: ${action}`);
+      }
+    }
+  }
+
+  /**
+   * Options from REDACTION_DETECTORS (comma list), REDACTION_ACTIONS (JSON object of
+   * detector to action), REDACTION_DEFAULT_ACTION and REDACTION_PATTERNS (JSON array);
+   * null when REDACTION_ENABLED=false
+   */
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): RedactionOptions | null {
+    if (env.REDACTION_ENABLED === 'false') return null;
+
+    const parse = <T>(name: string, fallback: T): T => {
+      const raw = env[name];
+      if (!raw) return fallback;
+      try {
+        return JSON.parse(raw);
+      } catch (error) {
+        throw new Error(`${name} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+
+    return {
+      detectors: env.REDACTION_DETECTORS ? env.REDACTION_DETECTORS.split(',').map(name => name.trim()).filter(Boolean) : undefined,
+      actions: parse<Record<string, RedactionAction>>('REDACTION_ACTIONS', {}),
+      defaultAction: env.REDACTION_DEFAULT_ACTION as RedactionAction | undefined,
+      customPatterns: parse<CustomPattern[]>('REDACTION_PATTERNS', [])
+    };
+  }
+
+  actionFor(detector: string): RedactionAction {
+    return this.actions[detector] || this.defaultAction;
+  }
+
+  scan(text: string): RedactionResult {
+    return this.scanMany([text]);
+  }
+
+  /**
+   * Masks every match whatever its action, for text echoed back to callers
+   * (report previews) rather than sent upstream or cached
+   */
+  mask(text: string): string {
+    return this.scanMany([text], true).texts[0];
+  }
+
+  /**
+   * Scans several texts that belong to one request; findings are combined
+   */
+  scanMany(texts: string[], maskAll: boolean = false): RedactionResult {
+    const counts = new Map<string, number>();
+
+    const redacted = texts.map(text => {
+      let current = text;
+      for (const detector of this.detectors) {
+        const masking = maskAll || this.actionFor(detector.name) === 'mask';
+        detector.pattern.lastIndex = 0;
+        current = current.replace(detector.pattern, (match: string, ...rest: unknown[]) => {
+          // The offset is the first numeric argument after any capture groups
+          const offset = rest.find(arg => typeof arg === 'number') as number;
+          if (detector.validate && !detector.validate(match, offset, current)) return match;
+          counts.set(detector.name, (counts.get(detector.name) || 0) + 1);
+          return masking ? `[REDACTED:${detector.name}]` : match;
+        });
+      }
+      return current;
+    });
+
+    const findings = Array.from(counts, ([detector, count]) => ({ detector, action: this.actionFor(detector), count }));
+    const rejected = findings.some(finding => finding.action === 'reject');
+    if (findings.length > 0) {
+      this.logger.debug('Sensitive data detected', { findings });
+    }
+
+    return {
+      texts: redacted,
+      findings,
+      cacheable: !findings.some(finding => finding.action !== 'mask'),
+      rejected
+    };
+  }
+
+  /**
+   * Applies masking to a cached value of any shape; strings inside objects are masked too
+   */
+  scanValue<T>(value: T): { value: T; result: RedactionResult } {
+    if (typeof value === 'string') {
+      const result = this.scan(value);
+      return { value: result.texts[0] as T, result };
+    }
+
+    const serialized = JSON.stringify(value);
+    if (serialized === undefined) {
+      return { value, result: { texts: [], findings: [], cacheable: true, rejected: false } };
+    }
+    const result = this.scan(serialized);
+    try {
+      return { value: JSON.parse(result.texts[0]), result };
+    } catch {
+      // Masking broke the JSON structure: keep the value out of the cache instead
+      return { value, result: { ...result, cacheable: false } };
+    }
+  }
+}
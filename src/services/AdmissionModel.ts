@@ -0,0 +1,310 @@
+import path from 'path';
+import { SnapshotFile } from '../storage/SnapshotFile.js';
+import { Logger } from '../utils/Logger.js';
+
+export type FeatureVector = Record<string, number>;
+
+export interface AdmissionInput {
+  prompt: string;
+  context?: string;
+  model?: string;
+  taskType?: string;
+  tags?: string[];
+  tokens: number;
+}
+
+export interface AdmissionModelOptions {
+  dataDir: string;
+  /** Minimum predicted re-hit probability to admit an entry */
+  threshold?: number;
+  /** Labelled samples needed before predictions replace the static heuristics */
+  minSamples?: number;
+  learningRate?: number;
+  l2?: number;
+  /** Candidates waiting for an outcome; the oldest are dropped beyond this */
+  maxPending?: number;
+}
+
+export interface AdmissionModelStats {
+  trained: boolean;
+  samples: number;
+  positives: number;
+  pending: number;
+  threshold: number;
+  /** Share of recent outcomes the model predicted correctly (exponential average) */
+  recent_accuracy: number | null;
+  bias: number;
+  top_positive: Array<{ feature: string; weight: number }>;
+  top_negative: Array<{ feature: string; weight: number }>;
+}
+
+interface PendingCandidate {
+  features: FeatureVector;
+  /** Past this time without a new request the candidate counts as a one-off */
+  deadline: number;
+}
+
+interface PersistedModel {
+  version: number;
+  weights: FeatureVector;
+  samples: number;
+  positives: number;
+  recent_accuracy: number | null;
+  pending: Array<[string, PendingCandidate]>;
+}
+
+const PROMPT_FEATURES: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'pattern:reusable', pattern: /analys|review|explain|debug|document|generate/i },
+  { name: 'pattern:code', pattern: /function|class|component|api|endpoint/i },
+  { name: 'pattern:debug', pattern: /error|bug|fix|issue|problem/i },
+  { name: 'pattern:educational', pattern: /how to|what is|explain|tutorial/i },
+  { name: 'pattern:improvement', pattern: /refactor|optimize|improve|enhance/i },
+  { name: 'question', pattern: /^(how|what|why|when|where|explain|describe|analyze)/i },
+  { name: 'code-content', pattern: /```|function|class|import|export|const|let|var/ },
+  { name: 'multi-step', pattern: /first.*then|step.*step|1\.|2\.|next/i },
+  { name: 'comparison', pattern: /compare|contrast|versus|vs|difference|similar/i },
+  // One-off prompts tend to embed identifiers, timestamps or pasted output
+  { name: 'contains-id', pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-|\b[0-9a-f]{12,}\b|\b\d{6,}\b/i },
+  { name: 'contains-date', pattern: /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}:\d{2}(:\d{2})?\b/ },
+  { name: 'stack-trace', pattern: /\n\s+at .+\(.+:\d+:\d+\)/ }
+];
+
+const LANGUAGES = ['javascript', 'typescript', 'python', 'java', 'react', 'node.js', 'sql'];
+
+/**
+ * Online logistic regression predicting whether a response will be requested
+ * again while cached. Every caching decision is recorded as a candidate with
+ * its features; a later request for the same key labels it positive, and
+ * reaching the end of its TTL without one labels it negative. Rejected
+ * candidates are tracked too, so the model also learns what it turned away.
+ */
+export class AdmissionModel {
+  private static readonly FORMAT = 1;
+  private static readonly SAVE_EVERY = 25;
+  private static readonly SWEEP_INTERVAL_MS = 60_000;
+
+  private weights: FeatureVector = {};
+  private samples = 0;
+  private positives = 0;
+  private recentAccuracy: number | null = null;
+  private pending = new Map<string, PendingCandidate>();
+  private unsaved = 0;
+  private lastSweep = Date.now();
+  private snapshot: SnapshotFile<PersistedModel>;
+  private ready: Promise<void>;
+  private lastSave: Promise<void> = Promise.resolve();
+  private logger: Logger;
+  private readonly threshold: number;
+  private readonly minSamples: number;
+  private readonly learningRate: number;
+  private readonly l2: number;
+  private readonly maxPending: number;
+
+  constructor(options: AdmissionModelOptions) {
+    this.threshold = options.threshold ?? 0.25;
+    this.minSamples = options.minSamples ?? 50;
+    this.learningRate = options.learningRate ?? 0.05;
+    this.l2 = options.l2 ?? 0.0001;
+    this.maxPending = options.maxPending ?? 10000;
+    this.snapshot = new SnapshotFile(path.join(options.dataDir, 'admission-model.json'));
+    this.logger = new Logger('AdmissionModel');
+    this.ready = this.load();
+  }
+
+  static extractFeatures(input: AdmissionInput): FeatureVector {
+    const features: FeatureVector = { bias: 1 };
+    const text = `${input.prompt} ${input.context || ''}`;
+
+    // Log-scaled size plus coarse buckets, so both trends and thresholds can be learned
+    features.log_tokens = Math.log2(1 + input.tokens) / 10;
+    const bucket = input.tokens < 50 ? 'xs' : input.tokens < 200 ? 's' : input.tokens < 1000 ? 'm' : 'l';
+    features[`tokens:${bucket}`] = 1;
+
+    for (const { name, pattern } of PROMPT_FEATURES) {
+      if (pattern.test(name === 'question' ? input.prompt.trim() : text)) {
+        features[name] = 1;
+      }
+    }
+
+    if (input.context) {
+      features['has-context'] = 1;
+      if (input.context.length > 500) features['complex-context'] = 1;
+    }
+
+    const lower = text.toLowerCase();
+    for (const language of LANGUAGES) {
+      if (lower.includes(language)) features[`lang:${language}`] = 1;
+    }
+
+    if (input.model) features[`model:${input.model}`] = 1;
+    if (input.taskType) features[`task:${input.taskType}`] = 1;
+    for (const tag of input.tags || []) {
+      features[`tag:${tag}`] = 1;
+    }
+
+    return features;
+  }
+
+  /**
+   * Whether enough outcomes have been seen for predictions to be trusted
+   */
+  isTrained(): boolean {
+    return this.samples >= this.minSamples;
+  }
+
+  predict(features: FeatureVector): number {
+    let z = 0;
+    for (const [name, value] of Object.entries(features)) {
+      z += (this.weights[name] || 0) * value;
+    }
+    return 1 / (1 + Math.exp(-z));
+  }
+
+  /**
+   * Admission decision for a trained model; null while it is still warming up
+   */
+  decide(features: FeatureVector): { admit: boolean; probability: number } | null {
+    if (!this.isTrained()) return null;
+    const probability = this.predict(features);
+    return { admit: probability >= this.threshold, probability };
+  }
+
+  /**
+   * Records a caching decision awaiting its outcome within windowSeconds
+   */
+  async recordCandidate(key: string, features: FeatureVector, windowSeconds: number): Promise<void> {
+    await this.ready;
+    this.sweepIfDue();
+
+    this.pending.delete(key);
+    this.pending.set(key, { features, deadline: Date.now() + windowSeconds * 1000 });
+    if (this.pending.size > this.maxPending) {
+      // Maps iterate in insertion order: drop the oldest without a label
+      this.pending.delete(this.pending.keys().next().value!);
+    }
+  }
+
+  /**
+   * Call on every lookup of a key, hit or miss: a pending candidate was requested again
+   */
+  async observeRequest(key: string): Promise<void> {
+    await this.ready;
+
+    const candidate = this.pending.get(key);
+    if (!candidate) return;
+
+    this.pending.delete(key);
+    if (candidate.deadline >= Date.now()) {
+      this.train(candidate.features, 1);
+    } else {
+      this.train(candidate.features, 0);
+    }
+    this.sweepIfDue();
+  }
+
+  /**
+   * Forgets a candidate whose entry was removed on purpose (invalidation, bad rating)
+   */
+  discard(key: string): void {
+    this.pending.delete(key);
+  }
+
+  /**
+   * Labels every candidate past its deadline as not requested again
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    await this.ready;
+    this.lastSweep = now;
+
+    let labelled = 0;
+    for (const [key, candidate] of this.pending) {
+      if (candidate.deadline < now) {
+        this.pending.delete(key);
+        this.train(candidate.features, 0);
+        labelled++;
+      }
+    }
+    return labelled;
+  }
+
+  getStats(limit: number = 10): AdmissionModelStats {
+    const ranked = Object.entries(this.weights)
+      .filter(([name]) => name !== 'bias')
+      .map(([feature, weight]) => ({ feature, weight: Math.round(weight * 1000) / 1000 }))
+      .sort((a, b) => b.weight - a.weight);
+
+    return {
+      trained: this.isTrained(),
+      samples: this.samples,
+      positives: this.positives,
+      pending: this.pending.size,
+      threshold: this.threshold,
+      recent_accuracy: this.recentAccuracy === null ? null : Math.round(this.recentAccuracy * 1000) / 1000,
+      bias: Math.round((this.weights.bias || 0) * 1000) / 1000,
+      top_positive: ranked.filter(w => w.weight > 0).slice(0, limit),
+      top_negative: ranked.filter(w => w.weight < 0).reverse().slice(0, limit)
+    };
+  }
+
+  /**
+   * Saves are chained so a slower periodic save never overwrites a newer one
+   */
+  async save(): Promise<void> {
+    const write = async () => {
+      await this.ready;
+      this.unsaved = 0;
+      await this.snapshot.write({
+        version: AdmissionModel.FORMAT,
+        weights: this.weights,
+        samples: this.samples,
+        positives: this.positives,
+        recent_accuracy: this.recentAccuracy,
+        pending: Array.from(this.pending.entries())
+      });
+    };
+    const saved = this.lastSave.then(write, write);
+    this.lastSave = saved.catch(() => undefined);
+    return saved;
+  }
+
+  private train(features: FeatureVector, label: 0 | 1): void {
+    const probability = this.predict(features);
+    const error = label - probability;
+
+    for (const [name, value] of Object.entries(features)) {
+      const weight = this.weights[name] || 0;
+      this.weights[name] = weight + this.learningRate * (error * value - this.l2 * weight);
+    }
+
+    const correct = (probability >= this.threshold ? 1 : 0) === label ? 1 : 0;
+    this.recentAccuracy = this.recentAccuracy === null ? correct : this.recentAccuracy * 0.98 + correct * 0.02;
+    this.samples++;
+    if (label === 1) this.positives++;
+
+    if (++this.unsaved >= AdmissionModel.SAVE_EVERY) {
+      this.save().catch(error => this.logger.warn('Failed to save admission model', error));
+    }
+  }
+
+  private sweepIfDue(): void {
+    if (Date.now() - this.lastSweep >= AdmissionModel.SWEEP_INTERVAL_MS) {
+      this.sweep().catch(error => this.logger.warn('Admission sweep failed', error));
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const loaded = await this.snapshot.read();
+      if (!loaded || loaded.data.version !== AdmissionModel.FORMAT) return;
+
+      this.weights = loaded.data.weights || {};
+      this.samples = loaded.data.samples || 0;
+      this.positives = loaded.data.positives || 0;
+      this.recentAccuracy = loaded.data.recent_accuracy ?? null;
+      this.pending = new Map(loaded.data.pending || []);
+      this.logger.info('Admission model loaded', { samples: this.samples, pending: this.pending.size });
+    } catch (error) {
+      this.logger.warn('Admission model unreadable, starting fresh', error);
+    }
+  }
+}
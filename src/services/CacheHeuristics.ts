@@ -1,5 +1,6 @@
 import { CacheDecision, TaskType } from '../types/index.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
 
 /**
  * Advanced heuristics for intelligent caching decisions
@@ -28,10 +29,10 @@ export class CacheHeuristics {
   /**
    * Evaluates whether content should be cached based on intelligent heuristics
    */
-  evaluateCachingDecision(prompt: string, context?: string, response?: any): CacheDecision {
-    const promptTokens = this.estimateTokens(prompt);
-    const contextTokens = context ? this.estimateTokens(context) : 0;
-    const responseTokens = response ? this.estimateTokens(response.choices?.[0]?.message?.content || '') : 0;
+  evaluateCachingDecision(prompt: string, context?: string, response?: any, model?: string): CacheDecision {
+    const promptTokens = TokenEstimator.estimateFromText(prompt, model);
+    const contextTokens = context ? TokenEstimator.estimateFromText(context, model) : 0;
+    const responseTokens = response ? TokenEstimator.estimateFromText(response.choices?.[0]?.message?.content || '', model) : 0;
     const totalTokens = promptTokens + contextTokens + responseTokens;
 
     let score = 0;
@@ -160,9 +161,19 @@ export class CacheHeuristics {
   }
 
   /**
-   * Adjusts heuristics based on cache performance
+   * Adjusts heuristics based on cache performance.
+   * decisionAccuracy is the share of rated cached answers that were rated good.
    */
-  adjustHeuristics(hitRate: number, averageTokensSaved: number): void {
+  adjustHeuristics(hitRate: number, averageTokensSaved: number, decisionAccuracy?: number): void {
+    if (decisionAccuracy !== undefined && decisionAccuracy < 0.5) {
+      // Cached answers are often wrong: lower the weights so fewer prompts reach the caching threshold
+      this.patterns.forEach((value, key) => {
+        this.patterns.set(key, Math.max(value - 3, 5));
+      });
+      this.logger.info('Tightened heuristics due to poorly rated cached answers', { decisionAccuracy });
+      return;
+    }
+
     // Auto-tune based on performance
     if (hitRate < 0.2) {
       // Low hit rate - relax criteria
@@ -220,11 +231,6 @@ export class CacheHeuristics {
     return tags;
   }
 
-  private estimateTokens(text: string): number {
-    if (!text) return 0;
-    return Math.ceil(text.length / 4.5);
-  }
-
   /**
    * Get current heuristic weights for debugging
    */
@@ -0,0 +1,336 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { ChatMessage } from '../types/index.js';
+import { CacheEngine } from '../core/CacheEngine.js';
+import { ConversationKey } from '../core/ConversationKey.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+
+/**
+ * One distinct request of a corpus. Repeated lines (request logs) are folded
+ * into a single prompt whose count is how often it was seen.
+ */
+export interface WarmupPrompt {
+  prompt?: string;
+  context?: string;
+  messages?: ChatMessage[];
+  model: string;
+  /** Times the request appears in the corpus */
+  count: number;
+  /** 1-based line of its first occurrence */
+  line: number;
+  cache_key: string;
+  /** Tokens reserved against the cap: estimated prompt plus completion */
+  estimated_tokens: number;
+}
+
+/** planned: selected but not sent, as in dry runs */
+export type WarmupStatus = 'planned' | 'admitted' | 'not-admitted' | 'already-cached' | 'skipped-budget' | 'failed';
+
+export interface WarmupItemResult {
+  line: number;
+  cache_key: string;
+  model: string;
+  count: number;
+  /** First characters of the prompt with sensitive data masked, for reading the report */
+  preview: string;
+  status: WarmupStatus;
+  tokens_used: number;
+  /** Tokens the entry saves if the request recurs as often as in the corpus */
+  estimated_future_savings: number;
+  reason?: string;
+}
+
+export interface WarmupReport {
+  corpus_lines: number;
+  invalid_lines: number;
+  unique_prompts: number;
+  planned: number;
+  admitted: number;
+  not_admitted: number;
+  already_cached: number;
+  skipped_budget: number;
+  failed: number;
+  tokens_used: number;
+  token_cap: number | null;
+  /** Savings of the newly admitted entries */
+  estimated_future_savings: number;
+  dry_run: boolean;
+  duration_ms: number;
+  items: WarmupItemResult[];
+}
+
+export interface WarmupOptions {
+  /** Requests sent upstream at the same time (default 4) */
+  concurrency?: number;
+  /** Upstream tokens the run may spend; prompts past it are skipped */
+  maxTokens?: number;
+  /** Only the most frequent prompts (default: all) */
+  limit?: number;
+  /** Completion tokens assumed per request when planning against maxTokens (default 256) */
+  estimatedCompletionTokens?: number;
+  /** Model for corpus lines that name none */
+  defaultModel?: string;
+  /** Plan only: report what would be replayed without calling upstream */
+  dryRun?: boolean;
+}
+
+/**
+ * Warms the cache by replaying a JSONL corpus through the regular chat path,
+ * so admission, redaction and token budgets apply exactly as for live traffic.
+ *
+ * Runs are deterministic: prompts are ordered by frequency then first line,
+ * the token cap is applied to that order with estimated costs before anything
+ * is sent, and the report lists prompts in that order whatever the completion
+ * order. Actual spend can still stop a run early when estimates were low.
+ *
+ * Accepted lines: smart_moonshot_chat arguments ({prompt, context, model} or
+ * {messages, model}), or backlog entries ({title, body}).
+ */
+export class CacheWarmupService {
+  private logger: Logger;
+
+  constructor(
+    private readonly cacheEngine: CacheEngine,
+    private readonly handlers: MCPHandlers
+  ) {
+    this.logger = new Logger('CacheWarmupService');
+  }
+
+  /**
+   * Corpora requested over MCP live in one directory per namespace. Names are
+   * relative to it; absolute paths and .. segments are refused, so callers
+   * cannot replay or probe files elsewhere.
+   */
+  static resolveCorpus(warmupDir: string, name: string): string {
+    const root = path.resolve(warmupDir);
+    const resolved = path.resolve(root, name);
+    if (!name || path.isAbsolute(name) || name.split(/[\\/]/).includes('..') || !resolved.startsWith(root + path.sep)) {
+      throw new Error('Invalid corpus path: use a file name inside the warm-up directory');
+    }
+    return resolved;
+  }
+
+  async warmFromFile(filePath: string, options: WarmupOptions = {}): Promise<WarmupReport> {
+    // File system messages tell whether a path exists, so they are not passed on
+    let corpus: string;
+    try {
+      corpus = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      throw new Error('Warm-up corpus is unreadable');
+    }
+    return this.warm(corpus, options);
+  }
+
+  async warm(corpus: string, options: WarmupOptions = {}): Promise<WarmupReport> {
+    const startTime = Date.now();
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+    const cap = options.maxTokens ?? null;
+    if (cap !== null && !(cap > 0)) {
+      throw new Error(`maxTokens must be positive, got ${cap}`);
+    }
+
+    const parsed = this.parse(corpus, options);
+    const prompts = options.limit !== undefined ? parsed.prompts.slice(0, options.limit) : parsed.prompts;
+    const items: WarmupItemResult[] = prompts.map(prompt => ({
+      line: prompt.line,
+      cache_key: prompt.cache_key,
+      model: prompt.model,
+      count: prompt.count,
+      preview: this.preview(prompt.prompt ?? ConversationKey.lastUserContent(prompt.messages!)),
+      status: 'skipped-budget',
+      tokens_used: 0,
+      estimated_future_savings: 0
+    }));
+
+    // Plan: cached prompts cost nothing; the rest reserve their estimate against the cap
+    const planned: number[] = [];
+    let reserved = 0;
+    for (const [i, prompt] of prompts.entries()) {
+      if (await this.cacheEngine.isCached(prompt.cache_key)) {
+        items[i].status = 'already-cached';
+        continue;
+      }
+      if (cap !== null && reserved + prompt.estimated_tokens > cap) {
+        items[i].reason = `Estimated ${prompt.estimated_tokens} tokens exceed the remaining cap`;
+        continue;
+      }
+      reserved += prompt.estimated_tokens;
+      items[i].status = 'planned';
+      planned.push(i);
+    }
+
+    let spent = 0;
+    if (!options.dryRun) {
+      let next = 0;
+      const worker = async () => {
+        while (next < planned.length) {
+          const i = planned[next++];
+          if (cap !== null && spent >= cap) {
+            items[i].status = 'skipped-budget';
+            items[i].reason = 'Token cap reached';
+            continue;
+          }
+          // Read spent only after the await, or concurrent workers lose each other's updates
+          const used = await this.replay(prompts[i], items[i]);
+          spent += used;
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, planned.length) }, worker));
+    }
+
+    const count = (status: WarmupStatus) => items.filter(item => item.status === status).length;
+    const report: WarmupReport = {
+      corpus_lines: parsed.lines,
+      invalid_lines: parsed.invalid,
+      unique_prompts: parsed.prompts.length,
+      planned: planned.length,
+      admitted: count('admitted'),
+      not_admitted: count('not-admitted'),
+      already_cached: count('already-cached'),
+      skipped_budget: count('skipped-budget'),
+      failed: count('failed'),
+      tokens_used: spent,
+      token_cap: cap,
+      estimated_future_savings: items.reduce((sum, item) => sum + item.estimated_future_savings, 0),
+      dry_run: options.dryRun === true,
+      duration_ms: Date.now() - startTime,
+      items
+    };
+
+    this.logger.info('Cache warm-up finished', { ...report, items: undefined });
+    return report;
+  }
+
+  /**
+   * The report goes back to the caller, so the preview is masked like a
+   * cached prompt, whatever action the detectors have
+   */
+  private preview(text: string): string {
+    const redactor = this.cacheEngine.getRedactor();
+    return (redactor ? redactor.mask(text) : text).substring(0, 80);
+  }
+
+  /**
+   * Sends one prompt through the chat handler and records the outcome; returns the tokens spent
+   */
+  private async replay(prompt: WarmupPrompt, item: WarmupItemResult): Promise<number> {
+    try {
+      const response = await this.handlers.handleSmartMoonshotChat({
+        prompt: prompt.prompt,
+        context: prompt.context,
+        messages: prompt.messages,
+        model: prompt.model
+      });
+      const result = JSON.parse(response.content[0].text);
+
+      if (result.error) {
+        item.status = 'failed';
+        item.reason = result.message || result.error;
+        return 0;
+      }
+      if (result.cached) {
+        // Cached under its redacted form, or by a concurrent request
+        item.status = 'already-cached';
+        return 0;
+      }
+
+      item.tokens_used = result.tokens_used || 0;
+      item.cache_key = result.cache_key || item.cache_key;
+      item.reason = result.cache_decision?.reason;
+      if (result.cache_decision?.cached) {
+        item.status = 'admitted';
+        item.estimated_future_savings = item.tokens_used * prompt.count;
+      } else {
+        item.status = 'not-admitted';
+      }
+      return item.tokens_used;
+    } catch (error) {
+      item.status = 'failed';
+      item.reason = error instanceof Error ? error.message : String(error);
+      return 0;
+    }
+  }
+
+  /**
+   * Distinct prompts of a corpus, most frequent first
+   */
+  private parse(corpus: string, options: WarmupOptions): { prompts: WarmupPrompt[]; lines: number; invalid: number } {
+    const byKey = new Map<string, WarmupPrompt>();
+    const lines = corpus.split('\n');
+    let total = 0;
+    let invalid = 0;
+
+    lines.forEach((text, index) => {
+      if (!text.trim()) return;
+      total++;
+
+      const prompt = this.toPrompt(text, index + 1, options);
+      if (!prompt) {
+        invalid++;
+        return;
+      }
+
+      const existing = byKey.get(prompt.cache_key);
+      if (existing) {
+        existing.count += prompt.count;
+      } else {
+        byKey.set(prompt.cache_key, prompt);
+      }
+    });
+
+    const prompts = Array.from(byKey.values()).sort((a, b) => b.count - a.count || a.line - b.line);
+    return { prompts, lines: total, invalid };
+  }
+
+  private toPrompt(text: string, line: number, options: WarmupOptions): WarmupPrompt | null {
+    let record: any;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      return null;
+    }
+    if (!record || typeof record !== 'object') return null;
+
+    const model = typeof record.model === 'string' ? record.model : options.defaultModel || 'moonshot-v1-8k';
+    const context = typeof record.context === 'string' ? record.context : undefined;
+    const count = Number.isInteger(record.count) && record.count > 0 ? record.count : 1;
+    const completion = options.estimatedCompletionTokens ?? 256;
+
+    if (record.messages !== undefined) {
+      if (ConversationKey.validate(record.messages)) return null;
+      const messages: ChatMessage[] = context && !record.messages.some((m: ChatMessage) => m.role === 'system')
+        ? [{ role: 'system', content: context }, ...record.messages]
+        : record.messages;
+      return {
+        messages,
+        model,
+        count,
+        line,
+        cache_key: this.cacheEngine.generateConversationKey(messages, model),
+        estimated_tokens: TokenEstimator.estimateConversation(
+          messages.map(m => ({ role: m.role, content: ConversationKey.contentOf(m) })),
+          model
+        ) + completion
+      };
+    }
+
+    const prompt = typeof record.prompt === 'string'
+      ? record.prompt
+      : typeof record.body === 'string'
+        ? [record.title, record.body].filter(part => typeof part === 'string' && part).join('\n\n')
+        : undefined;
+    if (!prompt || !prompt.trim()) return null;
+
+    return {
+      prompt,
+      context,
+      model,
+      count,
+      line,
+      cache_key: this.cacheEngine.generateCacheKey(prompt, context, model),
+      estimated_tokens: TokenEstimator.estimateFromText(`${context || ''}${prompt}`, model) + completion
+    };
+  }
+}
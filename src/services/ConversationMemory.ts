@@ -0,0 +1,268 @@
+import path from 'path';
+import crypto from 'crypto';
+import { ChatMessage } from '../types/index.js';
+import { ConversationKey } from '../core/ConversationKey.js';
+import { ModelCatalog } from '../catalog/ModelCatalog.js';
+import { LocalModelManager } from '../providers/LocalModelManager.js';
+import { SnapshotFile } from '../storage/SnapshotFile.js';
+import { ValueCipher } from '../storage/encryption/ValueCipher.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+import { Logger } from '../utils/Logger.js';
+import { ExtractiveSummarizer, LocalModelSummarizer, TurnSummarizer } from './ConversationSummarizers.js';
+
+export interface ConversationMemoryOptions {
+  dataDir: string;
+  /** Tokens a conversation may take upstream; defaults to 75% of the model's context window */
+  maxTokens?: number;
+  /** Share of the budget a conversation is brought down to, so one summary serves several turns */
+  targetRatio?: number;
+  /** Share of the budget the summary may take */
+  summaryRatio?: number;
+  /** Messages at the end that are never summarised */
+  minRecentMessages?: number;
+  /** Summaries kept; the least recently used go first */
+  maxSummaries?: number;
+  /** Tried before the extractive fallback when given */
+  localModels?: LocalModelManager;
+  /** Summaries are encrypted at rest with the cache's cipher */
+  cipher?: ValueCipher | null;
+}
+
+export interface PreparedConversation {
+  /** What to send upstream: the conversation, or its summary plus the recent turns */
+  messages: ChatMessage[];
+  /** Messages replaced by the summary; 0 when the conversation fit */
+  summarizedMessages: number;
+  summary?: string;
+  summarizer?: string;
+  /** The summary was reused, no summariser ran for this request */
+  cached: boolean;
+  originalTokens: number;
+  tokens: number;
+}
+
+interface StoredSummary {
+  summary: string;
+  /** Length of the conversation prefix the summary covers */
+  messages: number;
+  summarizer: string;
+  created_at: number;
+  last_used: number;
+}
+
+interface PersistedMemory {
+  version: number;
+  summaries: Array<[string, StoredSummary]>;
+}
+
+/**
+ * Rolling memory for long conversations. When a conversation no longer fits
+ * the model's budget, its older turns are replaced by a summary and only the
+ * recent turns are sent verbatim. Summaries are stored under a hash of the
+ * prefix they cover, so the next request of the same conversation reuses
+ * them; when the conversation outgrows one, the next summary folds the turns
+ * since into it instead of starting over.
+ */
+export class ConversationMemory {
+  private static readonly FORMAT = 1;
+  private static readonly DEFAULT_BUDGET = 6144;
+
+  private summaries = new Map<string, StoredSummary>();
+  private summarizers: TurnSummarizer[];
+  private keys = new ConversationKey(() => '');
+  private snapshot: SnapshotFile<PersistedMemory>;
+  private ready: Promise<void>;
+  private lastSave: Promise<void> = Promise.resolve();
+  private logger: Logger;
+  private readonly cipher: ValueCipher | null;
+  private readonly targetRatio: number;
+  private readonly summaryRatio: number;
+  private readonly minRecentMessages: number;
+  private readonly maxSummaries: number;
+
+  constructor(private readonly options: ConversationMemoryOptions) {
+    this.targetRatio = options.targetRatio ?? 0.6;
+    this.summaryRatio = options.summaryRatio ?? 0.2;
+    this.minRecentMessages = options.minRecentMessages ?? 2;
+    this.maxSummaries = options.maxSummaries ?? 1000;
+    this.cipher = options.cipher ?? null;
+    this.summarizers = [
+      ...(options.localModels ? [new LocalModelSummarizer(options.localModels)] : []),
+      new ExtractiveSummarizer()
+    ];
+    this.snapshot = new SnapshotFile(path.join(options.dataDir, 'conversation-memory.json'));
+    this.logger = new Logger('ConversationMemory');
+    this.ready = this.load();
+  }
+
+  /**
+   * Messages to send upstream for the conversation, within the model's budget
+   */
+  async prepare(messages: ChatMessage[], model: string): Promise<PreparedConversation> {
+    await this.ready;
+    const budget = this.budgetFor(model);
+    // A lone message also carries the conversation overhead, which the sum must not repeat
+    const perMessage = messages.map(message => this.countTokens([message], model) - 2);
+    const originalTokens = this.countTokens(messages, model);
+    const unchanged = { messages, summarizedMessages: 0, cached: false, originalTokens, tokens: originalTokens };
+    if (originalTokens <= budget) return unchanged;
+
+    // Older turns are cut where a user message starts, so tool calls stay with their results
+    const lead = messages.findIndex(message => message.role !== 'system');
+    const splits = messages
+      .map((message, index) => index)
+      .filter(index => index > lead && index <= messages.length - this.minRecentMessages && messages[index].role === 'user');
+    if (lead < 0 || splits.length === 0) return unchanged;
+
+    const keys = this.prefixKeys(messages);
+    const tail = (from: number) => perMessage.slice(from).reduce((sum, tokens) => sum + tokens, 0);
+    const leadTokens = perMessage.slice(0, lead).reduce((sum, tokens) => sum + tokens, 0);
+
+    // The latest summary of this conversation, reused as is while the rest still fits
+    const baseSplit = [...splits].reverse().find(split => this.summaries.has(keys[split]));
+    const base = baseSplit !== undefined ? this.summaries.get(keys[baseSplit])! : null;
+    if (base && baseSplit !== undefined) {
+      base.last_used = Date.now();
+      const reused = this.assemble(messages, lead, baseSplit, base.summary, model, originalTokens);
+      if (reused.tokens <= budget || baseSplit === splits[splits.length - 1]) {
+        return { ...reused, summarizer: base.summarizer, cached: true };
+      }
+    }
+
+    // Summarise past the target, not just the budget, so the next turns fit without another summary
+    const summaryTokens = Math.floor(budget * this.summaryRatio);
+    const target = budget * this.targetRatio;
+    const later = splits.filter(split => baseSplit === undefined || split > baseSplit);
+    const split = later.find(candidate => leadTokens + summaryTokens + tail(candidate) <= target) ?? later[later.length - 1];
+
+    const from = baseSplit ?? lead;
+    const { summary, summarizer } = await this.summarize(base?.summary ?? null, messages.slice(from, split), summaryTokens, model);
+    this.store(keys[split], { summary, messages: split, summarizer, created_at: Date.now(), last_used: Date.now() });
+
+    this.logger.debug('Conversation summarised', { summarizer, messages: split - lead, incremental: base !== null });
+    return { ...this.assemble(messages, lead, split, summary, model, originalTokens), summarizer, cached: false };
+  }
+
+  /**
+   * Saves are chained so a slower save never overwrites a newer one
+   */
+  async save(): Promise<void> {
+    const write = async () => {
+      await this.ready;
+      await this.snapshot.write({
+        version: ConversationMemory.FORMAT,
+        summaries: Array.from(this.summaries.entries()).map(([key, stored]) => [
+          key,
+          { ...stored, summary: this.cipher ? this.cipher.encrypt(stored.summary) : stored.summary }
+        ])
+      });
+    };
+    const saved = this.lastSave.then(write, write);
+    this.lastSave = saved.catch(() => undefined);
+    return saved;
+  }
+
+  async close(): Promise<void> {
+    await this.save();
+  }
+
+  get size(): number {
+    return this.summaries.size;
+  }
+
+  private budgetFor(model: string): number {
+    if (this.options.maxTokens) return this.options.maxTokens;
+    const window = ModelCatalog.shared().get(model)?.context_window;
+    return window ? Math.floor(window * 0.75) : ConversationMemory.DEFAULT_BUDGET;
+  }
+
+  /**
+   * Leading system messages, the summary (appended to the last of them, or as
+   * a system message of its own), then the turns from split on
+   */
+  private assemble(
+    messages: ChatMessage[],
+    lead: number,
+    split: number,
+    summary: string,
+    model: string,
+    originalTokens: number
+  ): Omit<PreparedConversation, 'cached' | 'summarizer'> {
+    const note = `Summary of the earlier conversation (${split - lead} messages):\n${summary}`;
+    const system = messages.slice(0, lead);
+    const last = system[system.length - 1];
+    const head = last && typeof last.content === 'string'
+      ? [...system.slice(0, -1), { ...last, content: `${last.content}\n\n${note}` }]
+      : [...system, { role: 'system' as const, content: note }];
+
+    const prepared = [...head, ...messages.slice(split)];
+    return {
+      messages: prepared,
+      summarizedMessages: split - lead,
+      summary,
+      originalTokens,
+      tokens: this.countTokens(prepared, model)
+    };
+  }
+
+  private async summarize(previous: string | null, messages: ChatMessage[], maxTokens: number, model: string) {
+    for (const summarizer of this.summarizers) {
+      const summary = await summarizer.summarize({ previous, messages, maxTokens, model });
+      if (summary !== null) return { summary, summarizer: summarizer.name };
+    }
+    // The extractive summarizer always answers
+    throw new Error('No summarizer available');
+  }
+
+  private store(key: string, stored: StoredSummary): void {
+    this.summaries.set(key, stored);
+    if (this.summaries.size > this.maxSummaries) {
+      const oldest = Array.from(this.summaries.entries()).sort((a, b) => a[1].last_used - b[1].last_used)[0];
+      this.summaries.delete(oldest[0]);
+    }
+    this.save().catch(error => this.logger.warn('Failed to save conversation memory', error));
+  }
+
+  /**
+   * keys[i] identifies messages[0..i), chained so every prefix costs one hash
+   */
+  private prefixKeys(messages: ChatMessage[]): string[] {
+    const canonical = this.keys.canonicalize(messages);
+    const keys = [''];
+    let hash = 'memory';
+    for (const message of canonical) {
+      hash = crypto.createHash('sha256').update(`${hash}\u0000${message}`).digest('hex');
+      keys.push(hash.substring(0, 24));
+    }
+    return keys;
+  }
+
+  private countTokens(messages: ChatMessage[], model: string): number {
+    return TokenEstimator.estimateConversation(
+      messages.map(message => ({ role: message.role, content: ConversationKey.contentOf(message) })),
+      model
+    );
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const loaded = await this.snapshot.read();
+      if (!loaded || loaded.data.version !== ConversationMemory.FORMAT) return;
+
+      for (const [key, stored] of loaded.data.summaries || []) {
+        if (!ValueCipher.isEncrypted(stored.summary)) {
+          this.summaries.set(key, stored);
+        } else if (this.cipher) {
+          try {
+            this.summaries.set(key, { ...stored, summary: this.cipher.decrypt(stored.summary) });
+          } catch {
+            // Written with a key that is no longer configured
+          }
+        }
+      }
+      this.logger.info('Conversation memory loaded', { summaries: this.summaries.size });
+    } catch (error) {
+      this.logger.warn('Conversation memory unreadable, starting fresh', error);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { ChatMessage } from '../types/index.js';
+import { ConversationKey } from '../core/ConversationKey.js';
+import { LocalModelConfig, LocalModelManager } from '../providers/LocalModelManager.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+import { Logger } from '../utils/Logger.js';
+
+export interface SummaryRequest {
+  /** Summary of the turns before these, folded into the new one */
+  previous: string | null;
+  messages: ChatMessage[];
+  maxTokens: number;
+  /** Model whose tokenizer measures the summary */
+  model?: string;
+}
+
+export interface TurnSummarizer {
+  readonly name: string;
+  /** Null when the summarizer cannot run right now, so the next one is tried */
+  summarize(request: SummaryRequest): Promise<string | null>;
+}
+
+/**
+ * One line per message ("role: first sentences"), appended to the previous
+ * summary's lines. Over budget, assistant and tool lines go first, oldest
+ * first, then user lines, so what was asked outlives how it was answered.
+ */
+export class ExtractiveSummarizer implements TurnSummarizer {
+  readonly name = 'extractive';
+  private static readonly LEAD_CHARS = 240;
+
+  async summarize(request: SummaryRequest): Promise<string> {
+    const lines = [
+      ...(request.previous ? request.previous.split('\n').filter(line => line.trim()) : []),
+      ...request.messages.map(message => this.lineFor(message)).filter(Boolean)
+    ];
+    const tokens = (text: string) => TokenEstimator.estimateFromText(text, request.model);
+
+    const dropOrder = [
+      ...lines.map((line, index) => index).filter(index => !lines[index].startsWith('user:')),
+      ...lines.map((line, index) => index).filter(index => lines[index].startsWith('user:'))
+    ].filter(index => index !== lines.length - 1);
+    const dropped = new Set<number>();
+    const kept = () => lines.filter((line, index) => !dropped.has(index)).join('\n');
+
+    while (tokens(kept()) > request.maxTokens && dropOrder.length > 0) {
+      dropped.add(dropOrder.shift()!);
+    }
+
+    // The newest line alone may still be too long
+    let summary = kept();
+    while (summary.length > 0 && tokens(summary) > request.maxTokens) {
+      summary = summary.slice(0, Math.floor(summary.length * 0.8)).trimEnd();
+    }
+    return summary;
+  }
+
+  private lineFor(message: ChatMessage): string {
+    const content = ConversationKey.contentOf(message).replace(/```[\s\S]*?(```|$)/g, ' [code] ').replace(/\s+/g, ' ').trim();
+    if (message.tool_calls?.length) {
+      const names = message.tool_calls.map(call => call.function?.name || 'tool').join(', ');
+      return `assistant: called ${names}${content ? ` - ${this.lead(content)}` : ''}`;
+    }
+    return content ? `${message.role}: ${this.lead(content)}` : '';
+  }
+
+  /**
+   * Leading sentences up to LEAD_CHARS
+   */
+  private lead(text: string): string {
+    if (text.length <= ExtractiveSummarizer.LEAD_CHARS) return text;
+    const sentences = text.match(/[^.!?]+[.!?]+(\s|$)/g) || [];
+    let lead = '';
+    for (const sentence of sentences) {
+      if (lead && lead.length + sentence.length > ExtractiveSummarizer.LEAD_CHARS) break;
+      lead += sentence;
+    }
+    lead = lead.trim() || text.slice(0, ExtractiveSummarizer.LEAD_CHARS);
+    return lead.length > ExtractiveSummarizer.LEAD_CHARS ? `${lead.slice(0, ExtractiveSummarizer.LEAD_CHARS)}…` : lead;
+  }
+}
+
+/**
+ * Abstractive summaries from a local model served by LocalModelManager
+ * (llama.cpp's OpenAI-compatible endpoint). Turns that do not fit the local
+ * model's window are summarised piece by piece, each folded into the last.
+ */
+export class LocalModelSummarizer implements TurnSummarizer {
+  readonly name = 'local-model';
+  private static readonly HEALTH_TTL_MS = 30_000;
+  private static readonly INSTRUCTIONS =
+    'You maintain the memory of a long conversation between a user and an assistant. ' +
+    'Merge the summary so far with the new messages into one concise summary. Keep decisions, ' +
+    'requirements, names, numbers, file paths and open questions; drop greetings and repetition. ' +
+    'Answer with the summary only.';
+
+  private logger: Logger;
+  private available: { config: LocalModelConfig | null; checkedAt: number } | null = null;
+
+  constructor(private readonly manager: LocalModelManager, private readonly timeoutMs: number = 30_000) {
+    this.logger = new Logger('LocalModelSummarizer');
+  }
+
+  async summarize(request: SummaryRequest): Promise<string | null> {
+    const config = await this.availableModel();
+    if (!config) return null;
+
+    const lines = request.messages
+      .map(message => `${message.role}: ${ConversationKey.contentOf(message)}`)
+      .filter(line => line.length > 0);
+    // Half the window for input, leaving room for instructions and the answer
+    const pieceTokens = Math.max(256, Math.floor(config.contextLength / 2) - request.maxTokens);
+
+    let summary = request.previous;
+    for (const piece of this.pieces(lines, pieceTokens)) {
+      const next = await this.complete(config, summary, piece, request.maxTokens);
+      if (next === null) return null;
+      summary = next;
+    }
+    return summary;
+  }
+
+  private pieces(lines: string[], maxTokens: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+    for (const line of lines) {
+      const candidate = current ? `${current}\n${line}` : line;
+      if (current && TokenEstimator.estimateFromText(candidate) > maxTokens) {
+        pieces.push(current);
+        current = line;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+  }
+
+  private async complete(config: LocalModelConfig, previous: string | null, messages: string, maxTokens: number): Promise<string | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${config.baseUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: config.modelId,
+          temperature: 0.2,
+          max_tokens: maxTokens,
+          messages: [
+            { role: 'system', content: LocalModelSummarizer.INSTRUCTIONS },
+            { role: 'user', content: `${previous ? `Summary so far:\n${previous}\n\n` : ''}New messages:\n${messages}` }
+          ]
+        })
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const content = body.choices?.[0]?.message?.content?.trim();
+      return content || null;
+    } catch (error) {
+      this.logger.warn('Local model summary failed', { model: config.modelId, error: error instanceof Error ? error.message : error });
+      this.available = null;
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * First healthy local model; the answer is remembered for HEALTH_TTL_MS
+   */
+  private async availableModel(): Promise<LocalModelConfig | null> {
+    if (this.available && Date.now() - this.available.checkedAt < LocalModelSummarizer.HEALTH_TTL_MS) {
+      return this.available.config;
+    }
+
+    let config: LocalModelConfig | null = null;
+    for (const candidate of this.manager.getAvailableModels()) {
+      if (await this.manager.checkModelHealth(candidate.modelId)) {
+        config = candidate;
+        break;
+      }
+    }
+    this.available = { config, checkedAt: Date.now() };
+    return config;
+  }
+}
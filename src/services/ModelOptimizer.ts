@@ -2,18 +2,23 @@
  * Otimizador inteligente de modelos baseado em custo/performance
  * Baseado na análise da documentação Moonshot AI 2025
  * Integrado com TokenCost e SmartRouter para máxima economia
+ * Preços e janelas de contexto vêm do catálogo de modelos (config/model-catalog.json)
  */
 
 import { TokenCostIntegration, TokenCostEstimate } from '../optimization/TokenCostIntegration.js';
 import { SmartRouter, RoutingDecision, RoutingOptions } from '../optimization/SmartRouter.js';
 import { ContextCompression, CompressionResult } from '../optimization/ContextCompression.js';
 import { LocalModelRouter } from './LocalModelRouter.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+import { ModelCatalog } from '../catalog/ModelCatalog.js';
 
 export interface ModelPricing {
   name: string;
   inputCostPer1M: number;  // USD per 1M tokens
   outputCostPer1M: number; // USD per 1M tokens
+  cachedInputCostPer1M?: number; // USD per 1M tokens lidos do cache do provedor
   contextWindow: number;   // Max tokens
+  maxOutputTokens?: number;
   performance: number;     // Score 1-10 (benchmarks)
   cachingSupport: boolean;
   recommended: string[];   // Use cases
@@ -28,7 +33,10 @@ export interface OptimizationStrategy {
 }
 
 export class ModelOptimizer {
-private models: Map<string, ModelPricing> = new Map();
+private modelMap: Map<string, ModelPricing> = new Map();
+private catalog?: ModelCatalog;
+private catalogGeneration = 0;
+private builtAt = 0;
 private smartRouter: SmartRouter;
 private localModelRouter: LocalModelRouter;
 
@@ -71,79 +79,41 @@ private async initializeLocalModels(): Promise<void> {
   }
 }
 
-  private initializeModels() {
-    // Moonshot AI Models (2025 pricing)
-    this.models.set('moonshot-v1-8k', {
-      name: 'Moonshot v1 8K',
-      inputCostPer1M: 0.15,
-      outputCostPer1M: 2.50,
-      contextWindow: 8192,
-      performance: 8.5,
-      cachingSupport: true,
-      recommended: ['coding', 'general', 'analysis']
-    });
-
-    this.models.set('moonshot-v1-32k', {
-      name: 'Moonshot v1 32K',
-      inputCostPer1M: 0.30,
-      outputCostPer1M: 3.00,
-      contextWindow: 32768,
-      performance: 8.7,
-      cachingSupport: true,
-      recommended: ['long-context', 'documents', 'code-review']
-    });
-
-    this.models.set('moonshot-v1-128k', {
-      name: 'Moonshot v1 128K',
-      inputCostPer1M: 0.50,
-      outputCostPer1M: 3.50,
-      contextWindow: 128000,
-      performance: 9.0,
-      cachingSupport: true,
-      recommended: ['complex-analysis', 'large-documents', 'agentic']
-    });
-
-    // Competitors for comparison
-    this.models.set('gpt-4o', {
-      name: 'GPT-4o',
-      inputCostPer1M: 2.00,
-      outputCostPer1M: 8.00,
-      contextWindow: 128000,
-      performance: 9.2,
-      cachingSupport: false,
-      recommended: ['premium-quality']
-    });
-
-    this.models.set('claude-3-opus', {
-      name: 'Claude 3 Opus',
-      inputCostPer1M: 15.00,
-      outputCostPer1M: 75.00,
-      contextWindow: 200000,
-      performance: 9.5,
-      cachingSupport: false,
-      recommended: ['complex-reasoning']
-    });
+  /**
+   * Modelos do catálogo compartilhado, reconstruídos quando o arquivo é recarregado
+   * ou um preço agendado entra em vigor
+   */
+  private get models(): Map<string, ModelPricing> {
+    const catalog = ModelCatalog.shared();
+    if (catalog !== this.catalog || catalog.changedSince(this.catalogGeneration, this.builtAt)) {
+      this.initializeModels();
+    }
+    return this.modelMap;
+  }
 
-    // Local models (zero cost)
-    this.models.set('phi-3-mini-4k-instruct', {
-      name: 'Phi-3-mini-4k-instruct (Local)',
-      inputCostPer1M: 0.00,
-      outputCostPer1M: 0.00,
-      contextWindow: 4096,
-      performance: 8.5,
-      cachingSupport: true,
-      recommended: ['local', 'coding', 'analysis', 'cost-effective']
-    });
+  private initializeModels() {
+    const catalog = ModelCatalog.shared();
+    const builtAt = Date.now();
+    const models = new Map<string, ModelPricing>();
+
+    for (const model of catalog.list(builtAt)) {
+      models.set(model.id, {
+        name: model.display_name,
+        inputCostPer1M: model.price.input_per_1m,
+        outputCostPer1M: model.price.output_per_1m,
+        cachedInputCostPer1M: model.price.cached_input_per_1m,
+        contextWindow: model.context_window,
+        maxOutputTokens: model.max_output_tokens,
+        performance: model.performance,
+        cachingSupport: model.capabilities.includes('prompt-caching'),
+        recommended: model.recommended
+      });
+    }
 
-    this.models.set('gemma-2-2b-it', {
-      name: 'Gemma-2-2B-IT (Local)',
-      inputCostPer1M: 0.00,
-      outputCostPer1M: 0.00,
-      contextWindow: 4096,
-      performance: 7.8,
-      cachingSupport: true,
-      recommended: ['local', 'fast', 'summarization', 'cost-effective']
-    });
+    this.modelMap = models;
+    this.catalog = catalog;
+    this.catalogGeneration = catalog.generation;
+    this.builtAt = builtAt;
   }
 
   /**
@@ -362,11 +332,9 @@ private async initializeLocalModels(): Promise<void> {
   }
 
   private getModelKey(modelName: string): string {
-    if (modelName.includes('8K')) return 'moonshot-v1-8k';
-    if (modelName.includes('32K')) return 'moonshot-v1-32k';
-    if (modelName.includes('128K')) return 'moonshot-v1-128k';
-    if (modelName.includes('GPT-4')) return 'gpt-4o';
-    if (modelName.includes('Claude')) return 'claude-3-opus';
+    for (const [key, model] of this.models) {
+      if (model.name === modelName) return key;
+    }
     return 'moonshot-v1-8k';
   }
 
@@ -442,6 +410,14 @@ private async initializeLocalModels(): Promise<void> {
     };
   }
 
+  /**
+   * Custo em USD de gerar os tokens com o modelo; modelos desconhecidos usam o preço do moonshot-v1-8k
+   */
+  estimateCost(model: string | undefined, totalTokens: number): number {
+    const pricing = (model && this.models.get(model)) || this.models.get('moonshot-v1-8k')!;
+    return this.calculateCost(pricing, totalTokens);
+  }
+
   getModelComparison(): ModelPricing[] {
     return Array.from(this.models.values());
   }
@@ -463,8 +439,8 @@ private async initializeLocalModels(): Promise<void> {
     const routing = this.smartRouter.route(prompt, context, options);
     
     // Get cost estimate using TokenCost integration
-    const inputTokens = Math.ceil((prompt + context).length / 4.5);
-    const outputTokens = this.estimateOutputTokens(prompt, options.taskType || 'general');
+    const inputTokens = TokenEstimator.estimateFromText(prompt + context, routing.model);
+    const outputTokens = this.estimateOutputTokens(prompt, options.taskType || 'general', routing.model);
     const costEstimate = TokenCostIntegration.estimateCost(
       routing.model,
       inputTokens,
@@ -502,12 +478,11 @@ private async initializeLocalModels(): Promise<void> {
       vsMidRange: number;
     };
   } {
-    const inputTokens = Math.ceil((prompt + context).length / 4.5);
-    const outputTokens = this.estimateOutputTokens(prompt, 'general');
-
     const analysis = candidateModels
       .filter(model => TokenCostIntegration.hasModel(model))
       .map(model => {
+        const inputTokens = TokenEstimator.estimateFromText(prompt + context, model);
+        const outputTokens = this.estimateOutputTokens(prompt, 'general', model);
         const estimate = TokenCostIntegration.estimateCost(model, inputTokens, outputTokens);
         const qualityScore = this.getQualityScore(model);
         const valueScore = qualityScore / estimate.totalCost;
@@ -547,7 +522,7 @@ private async initializeLocalModels(): Promise<void> {
     targetTokenReduction: number = 30, // 30% reduction by default
     contextType: 'conversation' | 'documentation' | 'code' | 'general' = 'general'
   ): Promise<CompressionResult> {
-    const originalTokens = Math.ceil(text.length / 4.5);
+    const originalTokens = TokenEstimator.estimateFromText(text);
     const targetTokens = Math.floor(originalTokens * (1 - targetTokenReduction / 100));
 
     return ContextCompression.smartCompress(text, targetTokens, {
@@ -579,7 +554,7 @@ private async initializeLocalModels(): Promise<void> {
       };
     };
   }> {
-    const inputTokens = Math.ceil(averagePromptLength / 4.5);
+    const inputTokens = TokenEstimator.estimateFromLength(averagePromptLength, 'moonshot-v1-8k');
     const outputTokens = this.estimateOutputTokens('', 'general');
 
     // Baseline: GPT-4o (expensive option)
@@ -645,8 +620,8 @@ private async initializeLocalModels(): Promise<void> {
     }
   }
 
-  private estimateOutputTokens(prompt: string, taskType: string): number {
-    const promptTokens = Math.ceil(prompt.length / 4.5);
+  private estimateOutputTokens(prompt: string, taskType: string, model?: string): number {
+    const promptTokens = TokenEstimator.estimateFromText(prompt, model);
     const ratios: Record<string, number> = {
       'coding': 2.0,
       'analysis': 1.5,
@@ -658,15 +633,7 @@ private async initializeLocalModels(): Promise<void> {
   }
 
   private getQualityScore(model: string): number {
-    const scores: Record<string, number> = {
-      'moonshot-v1-8k': 0.85,
-      'moonshot-v1-32k': 0.9,
-      'moonshot-v1-128k': 0.95,
-      'gpt-4o': 1.0,
-      'claude-3-opus': 0.95,
-      'local-llama-3.2-3b': 0.7
-    };
-    return scores[model] || 0.8;
+    return ModelCatalog.shared().get(model)?.quality ?? 0.8;
   }
 
   private getModelRecommendation(model: string, valueScore: number): string {
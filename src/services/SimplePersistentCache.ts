@@ -1,9 +1,16 @@
 import Redis from 'ioredis';
-import LZString from 'lz-string';
 import cron from 'node-cron';
 import crypto from 'crypto';
 import path from 'path';
-import fs from 'fs';
+import { ModelUsage, StorageBackend } from '../storage/StorageBackend.js';
+import { JsonStorageBackend } from '../storage/JsonStorageBackend.js';
+import { RedisStorageBackend } from '../storage/RedisStorageBackend.js';
+import { SqliteStorageBackend } from '../storage/SqliteStorageBackend.js';
+import { CodecRegistry } from '../storage/codecs/CodecRegistry.js';
+import { storedBytes } from '../storage/codecs/Codec.js';
+import { ValueCipher } from '../storage/encryption/ValueCipher.js';
+import { EvictionCandidate, EvictionPolicy, EvictionStats, selectVictims } from '../cache/eviction/EvictionPolicy.js';
+import { LRUPolicy } from '../cache/eviction/LRUPolicy.js';
 
 export interface CacheEntry {
   id: string;
@@ -13,11 +20,23 @@ export interface CacheEntry {
   hits: number;
   created_at: number;
   last_accessed: number;
+  /** Soft expiry: past it the entry is still served, marked stale, until expires_at */
+  stale_at?: number;
   expires_at?: number;
   tags?: string[];
   model?: string;
+  task_type?: string;
+  /** Codec of value; entries without one were written with lz-string */
+  codec?: string;
+  /** Bytes of the stored value as written to disk */
   compressed_size: number;
   original_size: number;
+  /** 0-1, from rate_response feedback; unrated entries count as DEFAULT_QUALITY_SCORE */
+  quality_score?: number;
+  /** Number of ratings folded into quality_score */
+  ratings?: number;
+  /** Original cache key, encrypted, when key holds its HMAC instead */
+  sealed_key?: string;
 }
 
 export interface CacheStats {
@@ -27,112 +46,150 @@ export interface CacheStats {
   cache_size_mb: number;
   hit_rate: number;
   compression_ratio: number;
+  /** Entry count per codec */
+  codecs?: Record<string, number>;
+  eviction?: EvictionStats;
   top_keys: Array<{key: string, hits: number, tokens_saved: number}>;
 }
 
+export type StorageBackendOption = 'json' | 'redis' | 'sqlite' | StorageBackend;
+
+export interface ReencryptResult {
+  key_id: string;
+  reencrypted: number;
+  unchanged: number;
+  /** Entries no key in the ring could decrypt; left as they were */
+  failed: number;
+}
+
+/**
+ * Entrada em forma portátil (exportação/importação): valor decodificado e em
+ * claro, chave original
+ */
+export interface PortableCacheEntry {
+  key: string;
+  value: any;
+  tokens: number;
+  hits: number;
+  created_at: number;
+  stale_at?: number;
+  expires_at?: number;
+  tags?: string[];
+  model?: string;
+  task_type?: string;
+  quality_score?: number;
+  ratings?: number;
+}
+
 export class SimplePersistentCache {
-  private redis: Redis | null = null;
-  private jsonCache: Map<string, CacheEntry> = new Map();
-  private useRedis: boolean = false;
+  private backend: StorageBackend;
+  private ready: Promise<void>;
   private maxMemoryMB: number = 100;
   private defaultTTL: number = 3600;
+  private codec: string;
+  private codecThreshold: number;
   private dataDir: string;
-  private jsonFilePath: string;
+  private cronTasks: cron.ScheduledTask[] = [];
+  private evictionPolicy: EvictionPolicy;
+  private evictionStats: EvictionStats;
+  private cipher: ValueCipher | null;
 
   constructor(options: {
     redisUrl?: string;
     dataDir?: string;
     maxMemoryMB?: number;
     defaultTTL?: number;
+    backend?: StorageBackendOption;
+    /** none | lz-string | gzip | brotli */
+    codec?: string;
+    /** Values shorter than this (in characters) are stored uncompressed */
+    codecThreshold?: number;
+    /** Quais entradas saem primeiro quando o cache passa de maxMemoryMB (padrão: LRU) */
+    evictionPolicy?: EvictionPolicy;
+    /** Prefixo das chaves no Redis (padrão: REDIS_KEY_PREFIX ou mcp:) */
+    keyPrefix?: string;
+    /** Criptografia AES-GCM dos valores (padrão: CACHE_ENCRYPTION_KEY; null desativa) */
+    cipher?: ValueCipher | null;
   } = {}) {
     this.maxMemoryMB = options.maxMemoryMB || 100;
     this.defaultTTL = options.defaultTTL || 3600;
+    this.codec = CodecRegistry.get(options.codec || process.env.CACHE_CODEC || 'gzip').name;
+    this.codecThreshold = options.codecThreshold ?? Number(process.env.CACHE_CODEC_THRESHOLD || 256);
     this.dataDir = options.dataDir || path.join(process.cwd(), 'data');
-    this.jsonFilePath = path.join(this.dataDir, 'cache.json');
-
-    // Cria diretório se não existir
-    this.ensureDir(this.dataDir);
-    
-    // Carrega cache do JSON
-    this.loadFromJSON();
+    this.evictionPolicy = options.evictionPolicy || new LRUPolicy();
+    this.evictionStats = { policy: this.evictionPolicy.name, evicted: 0, freed_mb: 0 };
+    this.cipher = options.cipher === undefined ? ValueCipher.fromEnv() : options.cipher;
 
-    // Tenta conectar Redis (opcional)
-    if (options.redisUrl || process.env.REDIS_URL) {
-      try {
-        this.redis = new Redis(options.redisUrl || process.env.REDIS_URL!, {
-          maxRetriesPerRequest: 3,
-          lazyConnect: true
-        });
-        
-        this.redis.on('connect', () => {
-          this.useRedis = true;
-          console.log('🔴 Redis conectado - Cache quente ativado');
-        });
-        
-        this.redis.on('error', (err) => {
-          console.warn('⚠️ Redis indisponível, usando cache JSON:', err.message);
-          this.useRedis = false;
-        });
-      } catch (error) {
-        console.warn('⚠️ Redis não configurado, usando cache JSON');
-      }
-    } else {
-      console.log('💾 Usando cache JSON persistente');
-    }
+    this.backend = this.createBackend(options);
+    this.ready = this.initializeBackend();
 
     // Agenda tarefas de manutenção
     this.scheduleCleanup();
   }
 
-  private ensureDir(dir: string) {
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+  /**
+   * Escolhe o backend: instância explícita, CACHE_BACKEND (json | redis | sqlite), ou Redis quando há URL configurada
+   */
+  private createBackend(options: { redisUrl?: string; backend?: StorageBackendOption; keyPrefix?: string }): StorageBackend {
+    if (options.backend && typeof options.backend === 'object') {
+      return options.backend;
     }
-  }
 
-  private loadFromJSON() {
-    try {
-      if (fs.existsSync(this.jsonFilePath)) {
-        const data = fs.readFileSync(this.jsonFilePath, 'utf8');
-        const entries = JSON.parse(data) as CacheEntry[];
-        
-        // Filtra entradas expiradas durante o carregamento
-        const now = Date.now();
-        const validEntries = entries.filter(entry => 
-          !entry.expires_at || entry.expires_at > now
-        );
-
-        for (const entry of validEntries) {
-          this.jsonCache.set(entry.key, entry);
-        }
-        
-        console.log(`📂 Cache carregado: ${validEntries.length} entradas válidas`);
-      }
-    } catch (error) {
-      console.warn('⚠️ Erro carregando cache JSON:', error);
-      this.jsonCache.clear();
+    const choice = options.backend || process.env.CACHE_BACKEND;
+    const redisUrl = options.redisUrl || process.env.REDIS_URL;
+
+    if (choice === 'sqlite') {
+      return new SqliteStorageBackend(path.join(this.dataDir, 'cache.db'));
     }
+
+    if (choice === 'redis' || (choice !== 'json' && redisUrl)) {
+      const redis = new Redis(redisUrl || 'redis://localhost:6379', {
+        maxRetriesPerRequest: 3,
+        lazyConnect: true
+      });
+      redis.on('error', (err) => {
+        console.warn('⚠️ Redis error:', err.message);
+      });
+      return new RedisStorageBackend(redis, options.keyPrefix || process.env.REDIS_KEY_PREFIX || 'mcp:');
+    }
+
+    return new JsonStorageBackend(this.dataDir);
   }
 
-  private saveToJSON() {
+  private async initializeBackend(): Promise<void> {
     try {
-      const entries = Array.from(this.jsonCache.values());
-      fs.writeFileSync(this.jsonFilePath, JSON.stringify(entries, null, 2));
+      await this.backend.initialize();
+      console.log(
+        this.backend.name === 'redis' ? '🔴 Redis conectado - Cache compartilhado ativado' :
+        this.backend.name === 'sqlite' ? '🗄️ Usando cache SQLite persistente' :
+        '💾 Usando cache JSON persistente'
+      );
     } catch (error) {
-      console.error('❌ Erro salvando cache JSON:', error);
+      if (this.backend.name === 'json') throw error;
+
+      // Backend fora do ar: segue com o cache JSON local
+      console.warn(`⚠️ Backend ${this.backend.name} indisponível, usando cache JSON:`, error instanceof Error ? error.message : error);
+      await this.backend.close().catch(() => undefined);
+      this.backend = new JsonStorageBackend(this.dataDir);
+      await this.backend.initialize();
     }
   }
 
   private scheduleCleanup() {
     // Salva a cada 5 minutos
-    cron.schedule('*/5 * * * *', () => {
-      this.saveToJSON();
-    });
+    this.cronTasks.push(cron.schedule('*/5 * * * *', () => {
+      this.ready.then(() => this.backend.flush()).catch(() => undefined);
+    }));
 
     // Limpeza a cada 30 minutos
-    cron.schedule('*/30 * * * *', () => {
-      this.cleanup();
-    });
+    this.cronTasks.push(cron.schedule('*/30 * * * *', () => {
+      this.cleanup().catch((error) => console.warn('Cleanup failed:', error));
+    }));
+  }
+
+  async getBackendName(): Promise<string> {
+    await this.ready;
+    return this.backend.name;
   }
 
   async set(
@@ -140,211 +197,260 @@ export class SimplePersistentCache {
     value: any, 
     options: {
       ttl?: number;
+      /** Segundos até a entrada ficar stale (servida, mas a ser renovada) */
+      softTtl?: number;
       tokens?: number;
       tags?: string[];
       model?: string;
+      taskType?: string;
     } = {}
   ): Promise<void> {
+    await this.ready;
+
     const now = Date.now();
-    const id = crypto.randomUUID();
-    const serialized = JSON.stringify(value);
-    const compressed = LZString.compress(serialized);
-    
-    const entry: CacheEntry = {
-      id,
-      key,
-      value: compressed,
-      tokens: options.tokens || 0,
-      hits: 1,
-      created_at: now,
-      last_accessed: now,
-      expires_at: options.ttl ? now + (options.ttl * 1000) : now + (this.defaultTTL * 1000),
-      tags: options.tags,
-      model: options.model,
-      compressed_size: compressed.length,
-      original_size: serialized.length
-    };
+    const expiresAt = options.ttl ? now + (options.ttl * 1000) : now + (this.defaultTTL * 1000);
 
-    // Salva no Redis (cache quente)
-    if (this.useRedis && this.redis) {
-      try {
-        await this.redis.setex(
-          `mcp:${key}`, 
-          options.ttl || this.defaultTTL, 
-          JSON.stringify({
-            value: compressed,
-            tokens: entry.tokens,
-            hits: entry.hits,
-            model: entry.model
-          })
-        );
-      } catch (error) {
-        console.warn('Redis write failed:', error);
-      }
+    try {
+      await this.write({
+        key,
+        value,
+        tokens: options.tokens || 0,
+        hits: 1,
+        created_at: now,
+        stale_at: options.softTtl ? Math.min(now + (options.softTtl * 1000), expiresAt) : undefined,
+        expires_at: expiresAt,
+        tags: options.tags,
+        model: options.model,
+        task_type: options.taskType
+      }, now);
+    } catch (error) {
+      console.warn('Cache write failed:', error);
     }
+  }
 
-    // Salva no cache JSON
-    this.jsonCache.set(key, entry);
+  /**
+   * Grava uma entrada exportada de outro cache, mantendo hits, datas e qualidade
+   * (valor recodificado e criptografado com a configuração local)
+   */
+  async importEntry(entry: PortableCacheEntry): Promise<void> {
+    await this.ready;
+    await this.write(entry, Date.now());
   }
 
-  async get(key: string): Promise<{value: any, tokens: number, hits: number} | null> {
-    // Tenta Redis primeiro (mais rápido)
-    if (this.useRedis && this.redis) {
-      try {
-        const cached = await this.redis.get(`mcp:${key}`);
-        if (cached) {
-          const parsed = JSON.parse(cached);
-          const decompressed = LZString.decompress(parsed.value);
-          if (decompressed) {
-            // Incrementa hits no cache JSON
-            this.incrementHits(key);
-            
-            return {
-              value: JSON.parse(decompressed),
-              tokens: parsed.tokens,
-              hits: parsed.hits + 1
-            };
-          }
-        }
-      } catch (error) {
-        console.warn('Redis read failed:', error);
-      }
-    }
+  /**
+   * Entradas válidas em forma portátil, filtradas pelo predicado (que recebe a
+   * chave original). Entradas que não decodificam são ignoradas com aviso.
+   */
+  async exportEntries(predicate: (entry: CacheEntry) => boolean = () => true): Promise<PortableCacheEntry[]> {
+    await this.ready;
 
-    // Busca no cache JSON
-    const entry = this.jsonCache.get(key);
-    
-    if (entry && (!entry.expires_at || entry.expires_at > Date.now())) {
-      const decompressed = LZString.decompress(entry.value);
-      if (decompressed) {
-        // Incrementa hits e atualiza last_accessed
-        this.incrementHits(key);
-        
-        // Recoloca no Redis se disponível
-        if (this.useRedis && this.redis) {
-          try {
-            const ttlSeconds = Math.floor((entry.expires_at! - Date.now()) / 1000);
-            if (ttlSeconds > 0) {
-              await this.redis.setex(
-                `mcp:${key}`, 
-                ttlSeconds, 
-                JSON.stringify({
-                  value: entry.value,
-                  tokens: entry.tokens,
-                  hits: entry.hits + 1,
-                  model: entry.model
-                })
-              );
-            }
-          } catch (error) {
-            console.warn('Redis replication failed:', error);
-          }
-        }
+    const now = Date.now();
+    const exported: PortableCacheEntry[] = [];
+    let unreadable = 0;
+
+    for await (const stored of this.backend.entries({ withValue: true })) {
+      if (stored.expires_at && stored.expires_at <= now) continue;
 
-        return {
-          value: JSON.parse(decompressed),
+      const entry = this.present(stored);
+      if (!predicate(entry)) continue;
+
+      try {
+        exported.push({
+          key: entry.key,
+          value: JSON.parse(CodecRegistry.decode(entry.codec || 'lz-string', this.decryptValue(entry.value))),
           tokens: entry.tokens,
-          hits: entry.hits + 1
-        };
+          hits: entry.hits,
+          created_at: entry.created_at,
+          stale_at: entry.stale_at,
+          expires_at: entry.expires_at,
+          tags: entry.tags,
+          model: entry.model,
+          task_type: entry.task_type,
+          quality_score: entry.quality_score,
+          ratings: entry.ratings
+        });
+      } catch {
+        unreadable++;
       }
     }
 
-    return null;
+    if (unreadable > 0) {
+      console.warn(`⚠️ Exportação: ${unreadable} entradas ilegíveis ignoradas (chave de criptografia ausente?)`);
+    }
+    return exported;
   }
 
-  private incrementHits(key: string) {
-    const entry = this.jsonCache.get(key);
-    if (entry) {
-      entry.hits++;
-      entry.last_accessed = Date.now();
-      this.jsonCache.set(key, entry);
+  async get(key: string): Promise<{value: any, tokens: number, hits: number, stale: boolean, created_at: number, stale_at?: number, expires_at?: number} | null> {
+    await this.ready;
+
+    try {
+      const entry = await this.find(key);
+      if (!entry) return null;
+
+      const decompressed = CodecRegistry.decode(entry.codec || 'lz-string', this.decryptValue(entry.value));
+
+      // Incrementa hits e atualiza last_accessed
+      const now = Date.now();
+      const hits = await this.backend.touch(entry.key, now);
+      this.evictionPolicy.recordAccess(key);
+
+      return {
+        value: JSON.parse(decompressed),
+        tokens: entry.tokens,
+        hits: hits ?? entry.hits + 1,
+        stale: entry.stale_at !== undefined && entry.stale_at <= now,
+        created_at: entry.created_at,
+        stale_at: entry.stale_at,
+        expires_at: entry.expires_at
+      };
+    } catch (error) {
+      console.warn('Cache read failed:', error);
+      return null;
     }
   }
 
+  /**
+   * Verifica se a chave existe e não expirou, sem contar hit
+   */
+  async has(key: string): Promise<boolean> {
+    await this.ready;
+    return (await this.find(key)) !== null;
+  }
+
   async delete(key: string): Promise<boolean> {
-    // Remove do Redis
-    if (this.useRedis && this.redis) {
-      try {
-        await this.redis.del(`mcp:${key}`);
-      } catch (error) {
-        console.warn('Redis delete failed:', error);
-      }
+    await this.ready;
+
+    let deleted = false;
+    for (const storageKey of this.lookupKeys(key)) {
+      deleted = (await this.backend.delete(storageKey)) || deleted;
     }
+    return deleted;
+  }
 
-    // Remove do cache JSON
-    return this.jsonCache.delete(key);
+  /**
+   * Lê a entrada sem contar hit (valor ainda codificado)
+   */
+  async peek(key: string): Promise<CacheEntry | null> {
+    await this.ready;
+    const entry = await this.find(key);
+    return entry ? this.present(entry) : null;
+  }
+
+  /**
+   * Altera metadados de uma entrada (qualidade, expiração) sem contar hit.
+   * Retorna a entrada atualizada, ou null se não existe ou expirou.
+   */
+  async update(
+    key: string,
+    patch: Partial<Pick<CacheEntry, 'quality_score' | 'ratings' | 'stale_at'>>
+  ): Promise<CacheEntry | null> {
+    await this.ready;
+
+    const entry = await this.find(key);
+    if (!entry) return null;
+
+    const updated = { ...entry, ...patch };
+    await this.backend.set(updated);
+    return this.present(updated);
   }
 
   async getStats(): Promise<CacheStats> {
-    const entries = Array.from(this.jsonCache.values());
-    const validEntries = entries.filter(entry => 
-      !entry.expires_at || entry.expires_at > Date.now()
-    );
-
-    const totalHits = validEntries.reduce((sum, entry) => sum + entry.hits, 0);
-    const totalTokensSaved = validEntries.reduce((sum, entry) => sum + (entry.tokens * entry.hits), 0);
-    const totalSize = validEntries.reduce((sum, entry) => sum + entry.compressed_size, 0);
-    const originalTotalSize = validEntries.reduce((sum, entry) => sum + entry.original_size, 0);
-
-    const topKeys = validEntries
-      .map(entry => ({
-        key: entry.key,
-        hits: entry.hits,
-        tokens_saved: entry.tokens * entry.hits
-      }))
-      .sort((a, b) => b.hits - a.hits)
-      .slice(0, 10);
+    await this.ready;
+
+    const now = Date.now();
+    let totalEntries = 0;
+    let totalHits = 0;
+    let totalTokensSaved = 0;
+    let totalSize = 0;
+    let originalTotalSize = 0;
+    const codecs: Record<string, number> = {};
+
+    for await (const entry of this.backend.entries({ withValue: false })) {
+      if (entry.expires_at && entry.expires_at <= now) continue;
+
+      const codec = entry.codec || 'lz-string';
+      codecs[codec] = (codecs[codec] || 0) + 1;
+      totalEntries++;
+      totalHits += entry.hits;
+      totalTokensSaved += entry.tokens * entry.hits;
+      totalSize += entry.compressed_size;
+      originalTotalSize += entry.original_size;
+    }
+
+    const topKeys = (await this.backend.rank('hits', 'desc', 10)).map(entry => ({
+      key: this.present(entry).key,
+      hits: entry.hits,
+      tokens_saved: entry.tokens * entry.hits
+    }));
 
     return {
-      total_entries: validEntries.length,
+      total_entries: totalEntries,
       total_hits: totalHits,
       total_tokens_saved: totalTokensSaved,
       cache_size_mb: totalSize / 1024 / 1024,
-      hit_rate: totalHits > 0 ? (totalHits / (totalHits + validEntries.length)) * 100 : 0,
+      hit_rate: totalHits > 0 ? (totalHits / (totalHits + totalEntries)) * 100 : 0,
       compression_ratio: originalTotalSize > 0 ? totalSize / originalTotalSize : 1,
+      codecs,
+      eviction: { ...this.evictionStats },
       top_keys: topKeys
     };
   }
 
   async cleanup(): Promise<{removed: number, freed_mb: number}> {
+    await this.ready;
+
     const now = Date.now();
     let removedCount = 0;
     let freedBytes = 0;
 
-    // Remove expirados
-    for (const [key, entry] of this.jsonCache.entries()) {
+    // Remove expirados (no Redis as chaves já expiram sozinhas)
+    for await (const entry of this.backend.entries({ withValue: false })) {
       if (entry.expires_at && entry.expires_at <= now) {
         freedBytes += entry.compressed_size;
-        this.jsonCache.delete(key);
+        await this.backend.delete(entry.key);
         removedCount++;
       }
     }
 
-    // Remove LRU se exceder limite de memória
-    const stats = await this.getStats();
-    if (stats.cache_size_mb > this.maxMemoryMB) {
-      const entries = Array.from(this.jsonCache.entries());
-      const sortedByLRU = entries
-        .sort(([, a], [, b]) => a.last_accessed - b.last_accessed)
-        .sort(([, a], [, b]) => a.hits - b.hits); // Prioriza menos usados
-
-      const excessMB = stats.cache_size_mb - this.maxMemoryMB;
-      const targetBytes = excessMB * 1024 * 1024;
-      let lruFreedBytes = 0;
-
-      for (const [key, entry] of sortedByLRU) {
-        if (lruFreedBytes >= targetBytes) break;
-        
-        lruFreedBytes += entry.compressed_size;
-        this.jsonCache.delete(key);
-        removedCount++;
+    // Se exceder o limite de memória, a política de remoção escolhe quem sai
+    const candidates: EvictionCandidate[] = [];
+    const storageKeys = new Map<string, string>();
+    let totalBytes = 0;
+    for await (const entry of this.backend.entries({ withValue: false })) {
+      if (entry.expires_at && entry.expires_at <= now) continue;
+      totalBytes += entry.compressed_size;
+      const key = this.present(entry).key;
+      storageKeys.set(key, entry.key);
+      candidates.push({
+        key,
+        size: entry.compressed_size,
+        tokens: entry.tokens,
+        hits: entry.hits,
+        created_at: entry.created_at,
+        last_accessed: entry.last_accessed,
+        model: entry.model
+      });
+    }
+
+    const limitBytes = this.maxMemoryMB * 1024 * 1024;
+    if (totalBytes > limitBytes) {
+      const victims = selectVictims(this.evictionPolicy, candidates, { bytes: totalBytes - limitBytes }, now);
+      let evictedBytes = 0;
+
+      for (const victim of victims) {
+        evictedBytes += victim.size;
+        await this.backend.delete(storageKeys.get(victim.key) ?? victim.key);
       }
-      
-      freedBytes += lruFreedBytes;
+
+      removedCount += victims.length;
+      freedBytes += evictedBytes;
+      this.evictionStats.evicted += victims.length;
+      this.evictionStats.freed_mb += evictedBytes / 1024 / 1024;
+      this.evictionStats.last_run = now;
     }
 
     // Salva alterações
-    this.saveToJSON();
+    await this.backend.flush();
 
     console.log(`🧹 Limpeza: ${removedCount} entradas removidas, ${(freedBytes / 1024 / 1024).toFixed(2)}MB liberados`);
 
@@ -355,59 +461,203 @@ export class SimplePersistentCache {
   }
 
   async close(): Promise<void> {
-    this.saveToJSON();
-    if (this.redis) {
-      await this.redis.quit();
+    this.cronTasks.forEach(task => task.stop());
+    await this.ready.catch(() => undefined);
+    await this.backend.close();
+  }
+
+  // Remove todas as entradas que satisfazem o predicado e persiste
+  async deleteWhere(predicate: (entry: CacheEntry) => boolean, dryRun: boolean = false): Promise<CacheEntry[]> {
+    await this.ready;
+
+    const matched: Array<{ entry: CacheEntry; storageKey: string }> = [];
+    for await (const stored of this.backend.entries({ withValue: false })) {
+      const entry = this.present(stored);
+      if (predicate(entry)) matched.push({ entry, storageKey: stored.key });
+    }
+
+    if (!dryRun && matched.length > 0) {
+      for (const { storageKey } of matched) {
+        await this.backend.delete(storageKey);
+      }
+      await this.backend.flush();
     }
+
+    return matched.map(({ entry }) => entry);
   }
 
   // Busca por tags
   async getByTags(tags: string[]): Promise<CacheEntry[]> {
+    await this.ready;
+
+    if (this.backend.findByTags) {
+      return (await this.backend.findByTags(tags)).map(entry => this.present(entry));
+    }
+
     const results: CacheEntry[] = [];
     const now = Date.now();
 
-    for (const entry of this.jsonCache.values()) {
+    for await (const entry of this.backend.entries()) {
       if (entry.expires_at && entry.expires_at <= now) continue;
       if (!entry.tags) continue;
       
       const hasMatchingTag = tags.some(tag => entry.tags!.includes(tag));
       if (hasMatchingTag) {
-        results.push(entry);
+        results.push(this.present(entry));
       }
     }
 
     return results.sort((a, b) => b.hits - a.hits);
   }
 
-  // Cache warming - pré-carrega no Redis
+  // Uso do cache por modelo (consulta agregada quando o backend suporta)
+  async getModelUsage(): Promise<ModelUsage[]> {
+    await this.ready;
+
+    if (this.backend.summarizeByModel) {
+      return this.backend.summarizeByModel();
+    }
+
+    const usage = new Map<string, ModelUsage>();
+    const now = Date.now();
+
+    for await (const entry of this.backend.entries({ withValue: false })) {
+      if (entry.expires_at && entry.expires_at <= now) continue;
+
+      const model = entry.model || 'unknown';
+      const current = usage.get(model) || {
+        model, entries: 0, hits: 0, tokens_saved: 0, first_cached: entry.created_at, last_accessed: entry.last_accessed
+      };
+      current.entries++;
+      current.hits += entry.hits;
+      current.tokens_saved += entry.tokens * entry.hits;
+      current.first_cached = Math.min(current.first_cached, entry.created_at);
+      current.last_accessed = Math.max(current.last_accessed, entry.last_accessed);
+      usage.set(model, current);
+    }
+
+    return Array.from(usage.values()).sort((a, b) => b.hits - a.hits);
+  }
+
+  // Cache warming - com backend compartilhado não há o que pré-carregar; percorrer o ranking poda membros expirados
   async warmCache(topN: number = 50): Promise<void> {
-    if (!this.useRedis || !this.redis) return;
+    await this.ready;
+    await this.backend.rank('hits', 'desc', topN);
+  }
+
+  /**
+   * Regrava todas as entradas com a chave atual: valores em claro ou de chaves
+   * anteriores passam a usar a chave atual, e as chaves seguem CACHE_ENCRYPT_KEYS.
+   * Depois disso as chaves anteriores podem sair da configuração.
+   */
+  async reencrypt(): Promise<ReencryptResult> {
+    await this.ready;
+    if (!this.cipher) {
+      throw new Error('Nenhuma chave de criptografia configurada (CACHE_ENCRYPTION_KEY)');
+    }
+
+    const cipher = this.cipher;
+    const result: ReencryptResult = { key_id: cipher.currentKeyId, reencrypted: 0, unchanged: 0, failed: 0 };
+    const now = Date.now();
+
+    // Lista antes de regravar: os backends não garantem iteração estável durante escritas
+    const entries: CacheEntry[] = [];
+    for await (const entry of this.backend.entries({ withValue: true })) {
+      if (!entry.expires_at || entry.expires_at > now) entries.push(entry);
+    }
 
-    const entries = Array.from(this.jsonCache.values())
-      .filter(entry => !entry.expires_at || entry.expires_at > Date.now())
-      .sort((a, b) => b.hits - a.hits)
-      .slice(0, topN);
-    
     for (const entry of entries) {
       try {
-        const ttlSeconds = entry.expires_at ? Math.floor((entry.expires_at - Date.now()) / 1000) : this.defaultTTL;
-        if (ttlSeconds > 0) {
-          await this.redis.setex(
-            `mcp:${entry.key}`,
-            ttlSeconds,
-            JSON.stringify({
-              value: entry.value,
-              tokens: entry.tokens,
-              hits: entry.hits,
-              model: entry.model
-            })
-          );
+        const key = entry.sealed_key ? cipher.decrypt(entry.sealed_key) : entry.key;
+        const storageKey = cipher.storageKey(key);
+        const sealedCurrent = cipher.encryptKeys ? !cipher.needsReencryption(entry.sealed_key) : !entry.sealed_key;
+        if (!cipher.needsReencryption(entry.value) && storageKey === entry.key && sealedCurrent) {
+          result.unchanged++;
+          continue;
+        }
+
+        const value = cipher.encrypt(cipher.decrypt(entry.value));
+        await this.backend.set({
+          ...entry,
+          key: storageKey,
+          value,
+          compressed_size: storedBytes(value),
+          sealed_key: cipher.encryptKeys ? cipher.encrypt(key) : undefined
+        });
+        if (storageKey !== entry.key) {
+          await this.backend.delete(entry.key);
         }
+        result.reencrypted++;
       } catch (error) {
-        console.warn(`Warm cache failed for ${entry.key}:`, error);
+        console.warn('Falha ao recriptografar entrada:', error instanceof Error ? error.message : error);
+        result.failed++;
       }
     }
-    
-    console.log(`🔥 Cache warming: ${entries.length} entradas carregadas no Redis`);
+
+    // Duas gravações: a primeira vira o .bak e substitui o snapshot que ainda guardava os valores antigos
+    await this.backend.flush();
+    await this.backend.flush();
+
+    console.log(`🔐 Recriptografia: ${result.reencrypted} entradas regravadas com a chave ${result.key_id}`);
+    return result;
   }
-}
\ No newline at end of file
+
+  // Codifica, criptografa e grava a entrada sob a chave de armazenamento atual
+  private async write(portable: PortableCacheEntry, now: number): Promise<void> {
+    const { key, value, ...fields } = portable;
+    const serialized = JSON.stringify(value);
+    const encoded = CodecRegistry.encode(this.codec, serialized, this.codecThreshold);
+    const stored = this.cipher ? this.cipher.encrypt(encoded.data) : encoded.data;
+
+    const entry: CacheEntry = {
+      ...fields,
+      id: crypto.randomUUID(),
+      key: this.cipher ? this.cipher.storageKey(key) : key,
+      value: stored,
+      last_accessed: now,
+      codec: encoded.codec,
+      compressed_size: storedBytes(stored),
+      original_size: storedBytes(serialized),
+      sealed_key: this.cipher?.encryptKeys ? this.cipher.encrypt(key) : undefined
+    };
+
+    await this.backend.set(entry);
+    // Cópias gravadas sob a chave anterior deixam de valer
+    for (const staleKey of this.lookupKeys(key).filter(candidate => candidate !== entry.key)) {
+      await this.backend.delete(staleKey);
+    }
+    this.evictionPolicy.recordAccess(key);
+  }
+
+  // Chaves em que a entrada pode estar gravada (HMAC atual, chaves anteriores, chave em claro)
+  private lookupKeys(key: string): string[] {
+    return this.cipher ? this.cipher.lookupKeys(key) : [key];
+  }
+
+  private async find(key: string): Promise<CacheEntry | null> {
+    for (const storageKey of this.lookupKeys(key)) {
+      const entry = await this.backend.get(storageKey);
+      if (entry) return entry;
+    }
+    return null;
+  }
+
+  private decryptValue(value: any): any {
+    if (!ValueCipher.isEncrypted(value)) return value;
+    if (!this.cipher) {
+      throw new Error('Entrada criptografada, mas nenhuma chave configurada (CACHE_ENCRYPTION_KEY)');
+    }
+    return this.cipher.decrypt(value);
+  }
+
+  // Entrada com a chave original no lugar do HMAC, para quem está fora do cache
+  private present(entry: CacheEntry): CacheEntry {
+    if (!entry.sealed_key || !this.cipher) return entry;
+
+    try {
+      return { ...entry, key: this.cipher.decrypt(entry.sealed_key) };
+    } catch {
+      return entry;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { CacheEngine } from '../core/CacheEngine.js';
 import { StreamingResponseHandler } from '../handlers/StreamingResponseHandler.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
 import { CacheDecision } from '../types/index.js';
 
 export interface StreamingCacheOptions {
@@ -104,7 +105,7 @@ export class StreamingCacheManager {
       return;
     }
 
-    const actualTokens = usage?.completion_tokens || Math.ceil(response.length / 4);
+    const actualTokens = usage?.completion_tokens || TokenEstimator.estimateFromText(response, cacheOptions.model);
     
     await this.cacheCompleteResponse(cacheOptions.cacheKey, response, {
       model: cacheOptions.model,
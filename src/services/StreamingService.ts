@@ -5,6 +5,7 @@ import { StreamingResponseHandler } from '../handlers/StreamingResponseHandler.j
 import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
 import { CacheEngine } from '../core/CacheEngine.js';
 import { Logger } from '../utils/Logger.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
 import { TaskType } from '../types/index.js';
 
 export interface StreamingRequest {
@@ -29,6 +30,8 @@ export interface StreamingResponse {
     total_tokens: number;
   };
   cached?: boolean;
+  /** Served by an identical request already in flight */
+  coalesced?: boolean;
   model: string;
   metrics?: {
     duration: number;
@@ -36,7 +39,10 @@ export interface StreamingResponse {
   };
 }
 
+type UpstreamResult = Pick<StreamingResponse, 'content' | 'usage'>;
+
 export class StreamingService {
+  private cacheEngine: CacheEngine;
   private streamingProvider: StreamingLLMProvider;
   private cacheManager: StreamingCacheManager;
   private sseHandler: SSEHandler;
@@ -44,6 +50,7 @@ export class StreamingService {
   private logger: Logger;
 
   constructor(cacheEngine: CacheEngine) {
+    this.cacheEngine = cacheEngine;
     this.streamingProvider = new StreamingLLMProvider();
     this.cacheManager = new StreamingCacheManager(cacheEngine);
     this.sseHandler = new SSEHandler();
@@ -90,54 +97,59 @@ export class StreamingService {
         }
       }
 
-      // Create streaming handler
-      const handler = new StreamingResponseHandler(requestId);
-      
-      // Check if we should cache this response
-      const cacheDecision = await this.cacheManager.shouldCache({
-        enableCache: request.useCache !== false,
-        cacheKey,
-        model: modelName,
-        estimatedTokens: this.estimateTokens(request.messages)
-      });
-
-      // Start streaming
-      const streamingRequest = {
-        model: modelName,
-        messages: request.messages,
-        temperature: request.temperature,
-        max_tokens: request.max_tokens,
-        stream: true,
-        requestId
-      };
+      const { value: response, coalesced } = await this.coalesceUpstream(cacheKey, request.useCache !== false, async () => {
+        // Create streaming handler
+        const handler = new StreamingResponseHandler(requestId);
+        
+        // Check if we should cache this response
+        const cacheDecision = await this.cacheManager.shouldCache({
+          enableCache: request.useCache !== false,
+          cacheKey,
+          model: modelName,
+          estimatedTokens: TokenEstimator.estimateConversation(request.messages, modelName)
+        });
 
-      const response = await this.streamingProvider.streamResponse(
-        providerConfig.provider,
-        providerConfig.model,
-        streamingRequest,
-        handler
-      );
+        // Start streaming
+        const streamingRequest = {
+          model: modelName,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.max_tokens,
+          stream: true,
+          requestId
+        };
 
-      // Cache complete response if enabled
-      if (cacheDecision.shouldCache) {
-        await this.cacheManager.handleStreamingCompletion(
-          handler,
-          {
-            enableCache: true,
-            cacheKey,
-            model: modelName,
-            estimatedTokens: response.usage?.completion_tokens || 0
-          },
-          response.content,
-          response.usage
+        const response = await this.streamingProvider.streamResponse(
+          providerConfig.provider,
+          providerConfig.model,
+          streamingRequest,
+          handler
         );
-      }
+
+        // Cache complete response if enabled
+        if (cacheDecision.shouldCache) {
+          await this.cacheManager.handleStreamingCompletion(
+            handler,
+            {
+              enableCache: true,
+              cacheKey,
+              model: modelName,
+              estimatedTokens: response.usage?.completion_tokens || 0
+            },
+            response.content,
+            response.usage
+          );
+        }
+
+        return { content: response.content, usage: response.usage };
+      });
 
       return {
         content: response.content,
         usage: response.usage,
         model: modelName,
         cached: false,
+        coalesced,
         metrics: {
           duration: Date.now() - startTime,
           tokens_per_second: response.usage 
@@ -208,36 +220,41 @@ export class StreamingService {
         }
       }
 
-      // Generate response
-      const response = await this.streamingProvider.generateResponse(
-        providerConfig.provider,
-        providerConfig.model,
-        {
-          model: modelName,
-          messages: request.messages,
-          temperature: request.temperature,
-          max_tokens: request.max_tokens
-        }
-      );
-
-      // Cache response
-      if (request.useCache !== false) {
-        await this.cacheManager.cacheCompleteResponse(
-          cacheKey,
-          response.content,
+      const { value: response, coalesced } = await this.coalesceUpstream(cacheKey, request.useCache !== false, async () => {
+        // Generate response
+        const response = await this.streamingProvider.generateResponse(
+          providerConfig.provider,
+          providerConfig.model,
           {
             model: modelName,
-            tokens: response.usage?.completion_tokens || 0,
-            tags: request.tags
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.max_tokens
           }
         );
-      }
+
+        // Cache response
+        if (request.useCache !== false) {
+          await this.cacheManager.cacheCompleteResponse(
+            cacheKey,
+            response.content,
+            {
+              model: modelName,
+              tokens: response.usage?.completion_tokens || 0,
+              tags: request.tags
+            }
+          );
+        }
+
+        return { content: response.content, usage: response.usage };
+      });
 
       return {
         content: response.content,
         usage: response.usage,
         model: modelName,
         cached: false,
+        coalesced,
         metrics: {
           duration: Date.now() - startTime,
           tokens_per_second: response.usage 
@@ -252,12 +269,33 @@ export class StreamingService {
     }
   }
 
+  /**
+   * Shares one upstream call between concurrent requests for the same cache key.
+   * Requests that bypass the cache always get their own call.
+   */
+  private async coalesceUpstream(
+    cacheKey: string,
+    enabled: boolean,
+    fn: () => Promise<UpstreamResult>
+  ): Promise<{ value: UpstreamResult; coalesced: boolean }> {
+    if (!enabled) {
+      return { value: await fn(), coalesced: false };
+    }
+
+    const result = await this.cacheEngine.coalesce(cacheKey, fn);
+    if (result.coalesced) {
+      this.logger.debug('Coalesced with in-flight request', { cacheKey });
+    }
+    return result;
+  }
+
   /**
    * Get streaming metrics
    */
   getMetrics() {
     return {
       sse: this.sseHandler.getMetrics(),
+      coalescing: this.cacheEngine.getCoalescingStats(),
       cache: this.cacheManager // Add cache metrics when available
     };
   }
@@ -269,13 +307,6 @@ export class StreamingService {
     return this.sseHandler;
   }
 
-  /**
-   * Estimate tokens for request
-   */
-  private estimateTokens(messages: Array<{ content: string }>): number {
-    return messages.reduce((total, msg) => total + Math.ceil(msg.content.length / 4), 0);
-  }
-
   /**
    * Health check
    */
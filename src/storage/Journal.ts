@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface JournalReplay<T> {
+  records: T[];
+  /** Lines dropped because they were torn or failed their checksum */
+  discarded: number;
+}
+
+/**
+ * Append-only journal of operations made since the last snapshot, one
+ * checksummed JSON record per line. Appends are synchronous so records land
+ * in the order the operations happened.
+ *
+ * Snapshots use a two-step checkpoint: beginCheckpoint() moves the current
+ * journal aside when the snapshot data is captured, and commitCheckpoint()
+ * retires it once the snapshot is safely on disk. Replay reads both files, so
+ * a snapshot that never finished loses nothing. The last retired journal is
+ * kept to bring the backup snapshot up to date when the primary is unusable.
+ */
+export class Journal<T> {
+  readonly filePath: string;
+  private readonly pendingPath: string;
+  private readonly previousPath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.pendingPath = `${filePath}.pending`;
+    this.previousPath = `${filePath}.prev`;
+  }
+
+  append(record: T): void {
+    const body = JSON.stringify(record);
+    const line = JSON.stringify({ c: Journal.checksum(body), r: body });
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Leading newline isolates this record from a torn line left by a crash
+    fs.appendFileSync(this.filePath, `\n${line}\n`);
+  }
+
+  /**
+   * Records in write order; torn or corrupt lines are skipped.
+   * Pass fromBackup when the state was loaded from the backup snapshot.
+   */
+  replay(options: { fromBackup?: boolean } = {}): JournalReplay<T> {
+    const result: JournalReplay<T> = { records: [], discarded: 0 };
+    const files = options.fromBackup
+      ? [this.previousPath, this.pendingPath, this.filePath]
+      : [this.pendingPath, this.filePath];
+
+    for (const file of files) {
+      if (!fs.existsSync(file)) continue;
+
+      for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+        if (line.length === 0) continue;
+
+        const record = Journal.parse<T>(line);
+        if (record === undefined) {
+          result.discarded++;
+        } else {
+          result.records.push(record);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Call in the same tick as capturing the snapshot data
+   */
+  beginCheckpoint(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    if (fs.existsSync(this.pendingPath)) {
+      // A previous snapshot failed: its records are still needed
+      fs.appendFileSync(this.pendingPath, fs.readFileSync(this.filePath));
+      fs.unlinkSync(this.filePath);
+    } else {
+      fs.renameSync(this.filePath, this.pendingPath);
+    }
+  }
+
+  /**
+   * Call once the snapshot replaced the previous one, which became the backup
+   */
+  commitCheckpoint(): void {
+    if (fs.existsSync(this.pendingPath)) {
+      fs.renameSync(this.pendingPath, this.previousPath);
+    } else {
+      fs.rmSync(this.previousPath, { force: true });
+    }
+  }
+
+  remove(): void {
+    for (const file of [this.filePath, this.pendingPath, this.previousPath]) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  private static parse<T>(line: string): T | undefined {
+    try {
+      const { c, r } = JSON.parse(line);
+      if (typeof r !== 'string' || Journal.checksum(r) !== c) return undefined;
+      return JSON.parse(r) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static checksum(body: string): string {
+    return createHash('sha256').update(body).digest('hex').substring(0, 16);
+  }
+}
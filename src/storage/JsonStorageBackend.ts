@@ -0,0 +1,142 @@
+import { CacheEntry } from '../types/index.js';
+import { RankField, StorageBackend } from './StorageBackend.js';
+import { SnapshotFile } from './SnapshotFile.js';
+import { Journal } from './Journal.js';
+import path from 'path';
+
+export type JsonJournalRecord =
+  | { op: 'set'; entry: CacheEntry }
+  | { op: 'delete'; key: string };
+
+/**
+ * Single-process backend: entries live in memory and are written to
+ * data/cache.json on flush. Sets and deletes in between are journaled to
+ * data/cache.journal, so a crash loses neither the snapshot nor recent writes.
+ */
+export class JsonStorageBackend implements StorageBackend {
+  readonly name = 'json';
+
+  private entriesByKey: Map<string, CacheEntry> = new Map();
+  private snapshot: SnapshotFile<CacheEntry[]>;
+  private journal: Journal<JsonJournalRecord>;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.snapshot = new SnapshotFile(path.join(dataDir, 'cache.json'));
+    this.journal = new Journal(path.join(dataDir, 'cache.journal'));
+  }
+
+  async initialize(): Promise<void> {
+    let fromBackup = false;
+
+    try {
+      const loaded = await this.snapshot.read();
+      fromBackup = loaded?.source === 'backup';
+      if (loaded?.source === 'backup') {
+        console.warn(`⚠️ cache.json inválido (${loaded.primaryError}), recuperado do último snapshot bom`);
+      }
+
+      for (const entry of loaded?.data || []) {
+        this.entriesByKey.set(entry.key, entry);
+      }
+    } catch (error) {
+      console.warn('⚠️ Erro carregando cache JSON:', error);
+      this.entriesByKey.clear();
+    }
+
+    // Reaplica operações feitas depois do último snapshot
+    const { records, discarded } = this.journal.replay({ fromBackup });
+    for (const record of records) {
+      if (record.op === 'set') {
+        this.entriesByKey.set(record.entry.key, record.entry);
+      } else {
+        this.entriesByKey.delete(record.key);
+      }
+    }
+    if (records.length > 0 || discarded > 0) {
+      console.log(`📝 Journal reaplicado: ${records.length} operações${discarded > 0 ? `, ${discarded} registros corrompidos ignorados` : ''}`);
+    }
+
+    // Filtra entradas expiradas durante o carregamento
+    const now = Date.now();
+    for (const [key, entry] of this.entriesByKey) {
+      if (entry.expires_at && entry.expires_at <= now) {
+        this.entriesByKey.delete(key);
+      }
+    }
+
+    console.log(`📂 Cache carregado: ${this.entriesByKey.size} entradas válidas`);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entriesByKey.get(key);
+    return entry && this.isLive(entry) ? entry : null;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.journal.append({ op: 'set', entry });
+    this.entriesByKey.set(entry.key, entry);
+  }
+
+  async touch(key: string, now: number): Promise<number | null> {
+    const entry = this.entriesByKey.get(key);
+    if (!entry || !this.isLive(entry)) return null;
+
+    entry.hits++;
+    entry.last_accessed = now;
+    return entry.hits;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const entry = this.entriesByKey.get(key);
+    return !!entry && this.isLive(entry);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!this.entriesByKey.has(key)) return false;
+
+    this.journal.append({ op: 'delete', key });
+    return this.entriesByKey.delete(key);
+  }
+
+  async *entries(): AsyncIterable<CacheEntry> {
+    for (const entry of Array.from(this.entriesByKey.values())) {
+      yield entry;
+    }
+  }
+
+  async rank(field: RankField, order: 'asc' | 'desc', limit: number): Promise<CacheEntry[]> {
+    const direction = order === 'asc' ? 1 : -1;
+    return Array.from(this.entriesByKey.values())
+      .filter(entry => this.isLive(entry))
+      .sort((a, b) => (a[field] - b[field]) * direction)
+      .slice(0, limit);
+  }
+
+  async flush(): Promise<void> {
+    // Um snapshot por vez, na ordem em que foram pedidos
+    this.flushing = this.flushing.then(() => this.writeSnapshot());
+    return this.flushing;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    try {
+      // Snapshot e checkpoint capturados juntos: o que vier depois fica no journal novo
+      const entries = Array.from(this.entriesByKey.values());
+      this.journal.beginCheckpoint();
+
+      await this.snapshot.write(entries, { pretty: true });
+      this.journal.commitCheckpoint();
+    } catch (error) {
+      console.error('❌ Erro salvando cache JSON:', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  private isLive(entry: CacheEntry): boolean {
+    return !entry.expires_at || entry.expires_at > Date.now();
+  }
+}
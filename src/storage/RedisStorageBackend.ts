@@ -0,0 +1,240 @@
+import Redis from 'ioredis';
+import { CacheEntry } from '../types/index.js';
+import { RankField, StorageBackend } from './StorageBackend.js';
+
+/**
+ * Shared backend for several MCP server instances.
+ * Layout (default prefix "mcp:"):
+ *   mcp:entry:<key>  hash with the entry fields, expiring natively at expires_at
+ *   mcp:lru          sorted set key -> last_accessed
+ *   mcp:hits         sorted set key -> hits
+ * Sorted-set members outlive expired hashes; they are pruned lazily when ranked.
+ */
+export class RedisStorageBackend implements StorageBackend {
+  readonly name = 'redis';
+
+  private static readonly METADATA_FIELDS = [
+    'id', 'key', 'tokens', 'hits', 'created_at', 'last_accessed', 'stale_at', 'expires_at',
+    'tags', 'model', 'task_type', 'codec', 'compressed_size', 'original_size', 'quality_score', 'ratings', 'sealed_key'
+  ];
+
+  // Increments hits only if the hash still exists, so an expired entry is never recreated without TTL
+  private static readonly TOUCH_SCRIPT = `
+    if redis.call('EXISTS', KEYS[1]) == 0 then return -1 end
+    local hits = redis.call('HINCRBY', KEYS[1], 'hits', 1)
+    redis.call('HSET', KEYS[1], 'last_accessed', ARGV[1])
+    redis.call('ZADD', KEYS[2], ARGV[1], ARGV[2])
+    redis.call('ZADD', KEYS[3], hits, ARGV[2])
+    return hits
+  `;
+
+  constructor(private readonly redis: Redis, private readonly prefix: string = 'mcp:') {}
+
+  async initialize(): Promise<void> {
+    if (this.redis.status === 'wait') {
+      await this.redis.connect();
+    }
+    await this.redis.ping();
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const data = await this.redis.hgetall(this.entryKey(key));
+    const entry = this.decode(data);
+    return entry && this.isLive(entry) ? entry : null;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    const redisKey = this.entryKey(entry.key);
+    const multi = this.redis.multi()
+      .del(redisKey)
+      .hset(redisKey, this.encode(entry))
+      .zadd(this.lruKey, entry.last_accessed, entry.key)
+      .zadd(this.hitsKey, entry.hits, entry.key);
+
+    if (entry.expires_at) {
+      multi.pexpireat(redisKey, entry.expires_at);
+    }
+
+    await multi.exec();
+  }
+
+  async touch(key: string, now: number): Promise<number | null> {
+    const hits = await this.redis.eval(
+      RedisStorageBackend.TOUCH_SCRIPT,
+      3,
+      this.entryKey(key),
+      this.lruKey,
+      this.hitsKey,
+      now,
+      key
+    ) as number;
+
+    return hits < 0 ? null : Number(hits);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.redis.exists(this.entryKey(key))) === 1;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const results = await this.redis.multi()
+      .del(this.entryKey(key))
+      .zrem(this.lruKey, key)
+      .zrem(this.hitsKey, key)
+      .exec();
+
+    return Number(results?.[0]?.[1] ?? 0) > 0;
+  }
+
+  async *entries(options: { withValue?: boolean } = {}): AsyncIterable<CacheEntry> {
+    let cursor = '0';
+
+    do {
+      const [next, redisKeys] = await this.redis.scan(cursor, 'MATCH', `${this.prefix}entry:*`, 'COUNT', 500);
+      cursor = next;
+
+      for (const entry of await this.load(redisKeys, options.withValue !== false)) {
+        yield entry;
+      }
+    } while (cursor !== '0');
+  }
+
+  async rank(field: RankField, order: 'asc' | 'desc', limit: number): Promise<CacheEntry[]> {
+    const setKey = field === 'hits' ? this.hitsKey : this.lruKey;
+    const results: CacheEntry[] = [];
+    let offset = 0;
+
+    while (results.length < limit) {
+      const batchSize = limit - results.length;
+      const keys = order === 'asc'
+        ? await this.redis.zrange(setKey, offset, offset + batchSize - 1)
+        : await this.redis.zrevrange(setKey, offset, offset + batchSize - 1);
+      if (keys.length === 0) break;
+
+      const entries = await this.load(keys.map(key => this.entryKey(key)), false);
+      const live = new Set(entries.map(entry => entry.key));
+      const expired = keys.filter(key => !live.has(key));
+
+      if (expired.length > 0) {
+        // Prune members whose hash has expired; the range shifts accordingly
+        await this.redis.multi().zrem(this.lruKey, ...expired).zrem(this.hitsKey, ...expired).exec();
+        offset += keys.length - expired.length;
+      } else {
+        offset += keys.length;
+      }
+
+      results.push(...entries);
+    }
+
+    return results;
+  }
+
+  async flush(): Promise<void> {
+    // Writes go straight to Redis
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private get lruKey(): string {
+    return `${this.prefix}lru`;
+  }
+
+  private get hitsKey(): string {
+    return `${this.prefix}hits`;
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}entry:${key}`;
+  }
+
+  private async load(redisKeys: string[], withValue: boolean): Promise<CacheEntry[]> {
+    if (redisKeys.length === 0) return [];
+
+    const pipeline = this.redis.pipeline();
+    for (const redisKey of redisKeys) {
+      if (withValue) {
+        pipeline.hgetall(redisKey);
+      } else {
+        pipeline.hmget(redisKey, ...RedisStorageBackend.METADATA_FIELDS);
+      }
+    }
+
+    const results = (await pipeline.exec()) || [];
+    const entries: CacheEntry[] = [];
+
+    for (const [error, data] of results) {
+      if (error || !data) continue;
+
+      const fields = withValue
+        ? data as Record<string, string>
+        : Object.fromEntries(
+            RedisStorageBackend.METADATA_FIELDS
+              .map((field, i) => [field, (data as Array<string | null>)[i]])
+              .filter(([, value]) => value !== null)
+          );
+
+      const entry = this.decode(fields);
+      if (entry && this.isLive(entry)) entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  private encode(entry: CacheEntry): Record<string, string> {
+    const fields: Record<string, string> = {
+      id: entry.id,
+      key: entry.key,
+      // JSON keeps lz-string output (arbitrary UTF-16, lone surrogates included) intact over UTF-8
+      value: JSON.stringify(entry.value),
+      tokens: String(entry.tokens),
+      hits: String(entry.hits),
+      created_at: String(entry.created_at),
+      last_accessed: String(entry.last_accessed),
+      compressed_size: String(entry.compressed_size),
+      original_size: String(entry.original_size)
+    };
+
+    if (entry.stale_at) fields.stale_at = String(entry.stale_at);
+    if (entry.expires_at) fields.expires_at = String(entry.expires_at);
+    if (entry.tags) fields.tags = JSON.stringify(entry.tags);
+    if (entry.model) fields.model = entry.model;
+    if (entry.task_type) fields.task_type = entry.task_type;
+    if (entry.codec) fields.codec = entry.codec;
+    if (entry.quality_score !== undefined) fields.quality_score = String(entry.quality_score);
+    if (entry.ratings) fields.ratings = String(entry.ratings);
+    if (entry.sealed_key) fields.sealed_key = entry.sealed_key;
+
+    return fields;
+  }
+
+  private decode(fields: Record<string, string>): CacheEntry | null {
+    if (!fields || !fields.key) return null;
+
+    return {
+      id: fields.id,
+      key: fields.key,
+      value: fields.value !== undefined ? JSON.parse(fields.value) : undefined,
+      tokens: Number(fields.tokens) || 0,
+      hits: Number(fields.hits) || 0,
+      created_at: Number(fields.created_at) || 0,
+      last_accessed: Number(fields.last_accessed) || 0,
+      stale_at: fields.stale_at ? Number(fields.stale_at) : undefined,
+      expires_at: fields.expires_at ? Number(fields.expires_at) : undefined,
+      tags: fields.tags ? JSON.parse(fields.tags) : undefined,
+      model: fields.model,
+      task_type: fields.task_type,
+      codec: fields.codec,
+      compressed_size: Number(fields.compressed_size) || 0,
+      original_size: Number(fields.original_size) || 0,
+      quality_score: fields.quality_score !== undefined ? Number(fields.quality_score) : undefined,
+      ratings: fields.ratings ? Number(fields.ratings) : undefined,
+      sealed_key: fields.sealed_key
+    };
+  }
+
+  private isLive(entry: CacheEntry): boolean {
+    return !entry.expires_at || entry.expires_at > Date.now();
+  }
+}
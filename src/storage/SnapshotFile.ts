@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+interface SnapshotEnvelope<T> {
+  snapshot: number;
+  checksum: string;
+  written_at: number;
+  data: T;
+}
+
+export interface SnapshotReadResult<T> {
+  data: T;
+  /** 'backup' when the primary file was missing or corrupt */
+  source: 'primary' | 'backup';
+  /** Why the primary file was rejected, when it was */
+  primaryError?: string;
+  /** Size of the file the data came from */
+  bytes: number;
+}
+
+/**
+ * JSON snapshot written atomically: the data goes to a temporary file that is
+ * fsynced and renamed over the target, and the previous good snapshot is kept
+ * as <file>.bak. A checksum guards against files corrupted after the rename.
+ * Files written before this format (plain JSON) are still accepted.
+ */
+export class SnapshotFile<T = unknown> {
+  private static readonly FORMAT = 1;
+  private static tempCounter = 0;
+
+  readonly filePath: string;
+  readonly backupPath: string;
+  /** Whether the current primary file may become the backup (null: not checked yet) */
+  private primaryValid: boolean | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.backupPath = `${filePath}.bak`;
+  }
+
+  /**
+   * Returns the number of bytes written
+   */
+  async write(data: T, options: { pretty?: boolean } = {}): Promise<number> {
+    const payload = JSON.stringify(data);
+    const envelope: SnapshotEnvelope<T> = {
+      snapshot: SnapshotFile.FORMAT,
+      checksum: SnapshotFile.checksum(payload),
+      written_at: Date.now(),
+      data
+    };
+    const contents = options.pretty ? JSON.stringify(envelope, null, 2) : JSON.stringify(envelope);
+
+    const dir = path.dirname(this.filePath);
+    await fs.mkdir(dir, { recursive: true });
+
+    const tempPath = `${this.filePath}.${process.pid}.${++SnapshotFile.tempCounter}.tmp`;
+    try {
+      const handle = await fs.open(tempPath, 'w');
+      try {
+        await handle.writeFile(contents);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      if (this.primaryValid === null) {
+        this.primaryValid = await this.readFile(this.filePath).then(() => true, error => error.code === 'ENOENT');
+      }
+
+      if (this.primaryValid) {
+        // Keep the current snapshot as the fallback before replacing it
+        await fs.rename(this.filePath, this.backupPath).catch(error => {
+          if (error.code !== 'ENOENT') throw error;
+        });
+      } else {
+        // A corrupt primary must not replace the good backup; the new snapshot becomes both
+        const backupTemp = `${tempPath}.bak`;
+        await fs.copyFile(tempPath, backupTemp);
+        await fs.rename(backupTemp, this.backupPath);
+      }
+      await fs.rename(tempPath, this.filePath);
+      this.primaryValid = true;
+      await SnapshotFile.syncDirectory(dir);
+      return Buffer.byteLength(contents);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      await fs.unlink(`${tempPath}.bak`).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the snapshot, falling back to the backup when the primary file is
+   * missing, truncated or fails its checksum. Returns null when neither exists.
+   */
+  async read(): Promise<SnapshotReadResult<T> | null> {
+    let primaryError: string | undefined;
+
+    try {
+      const { data, bytes } = await this.readFile(this.filePath);
+      this.primaryValid = true;
+      return { data, source: 'primary', bytes };
+    } catch (error: any) {
+      primaryError = error.code === 'ENOENT' ? 'missing' : error.message;
+      this.primaryValid = error.code === 'ENOENT';
+    }
+
+    try {
+      const { data, bytes } = await this.readFile(this.backupPath);
+      return { data, source: 'backup', primaryError, bytes };
+    } catch (error: any) {
+      if (error.code === 'ENOENT' && primaryError === 'missing') {
+        return null;
+      }
+      throw new Error(`No usable snapshot at ${this.filePath}: ${primaryError}; backup: ${error.code === 'ENOENT' ? 'missing' : error.message}`);
+    }
+  }
+
+  async remove(): Promise<void> {
+    for (const file of [this.filePath, this.backupPath]) {
+      await fs.unlink(file).catch(() => undefined);
+    }
+  }
+
+  private async readFile(file: string): Promise<{ data: T; bytes: number }> {
+    const contents = await fs.readFile(file);
+    const parsed = JSON.parse(contents.toString('utf-8'));
+
+    if (!SnapshotFile.isEnvelope(parsed)) {
+      // Plain JSON written before snapshots were checksummed
+      return { data: parsed as T, bytes: contents.length };
+    }
+
+    if (SnapshotFile.checksum(JSON.stringify(parsed.data)) !== parsed.checksum) {
+      throw new Error('checksum mismatch');
+    }
+    return { data: parsed.data as T, bytes: contents.length };
+  }
+
+  private static isEnvelope(value: any): value is SnapshotEnvelope<unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+      typeof value.snapshot === 'number' && typeof value.checksum === 'string' && 'data' in value;
+  }
+
+  private static checksum(payload: string): string {
+    return `sha256:${createHash('sha256').update(payload).digest('hex')}`;
+  }
+
+  private static async syncDirectory(dir: string): Promise<void> {
+    // Makes the rename itself durable; not supported on every platform
+    try {
+      const handle = await fs.open(dir, 'r');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // Best effort
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import Database from 'better-sqlite3';
+import { CacheEntry } from '../types/index.js';
+import { ModelUsage, RankField, StorageBackend } from './StorageBackend.js';
+import { SnapshotFile } from './SnapshotFile.js';
+import { Journal } from './Journal.js';
+import { JsonJournalRecord } from './JsonStorageBackend.js';
+import path from 'path';
+import fs from 'fs';
+
+interface EntryRow {
+  key: string;
+  id: string;
+  value: string | null;
+  tokens: number;
+  hits: number;
+  created_at: number;
+  last_accessed: number;
+  stale_at: number | null;
+  expires_at: number | null;
+  tags: string | null;
+  model: string | null;
+  task_type: string | null;
+  codec: string | null;
+  compressed_size: number;
+  original_size: number;
+  quality_score: number | null;
+  ratings: number;
+  sealed_key: string | null;
+}
+
+/**
+ * Single-file backend on SQLite (WAL mode). Writes are durable as they happen,
+ * and tags live in their own indexed table so tag lookups avoid full scans.
+ * An existing cache.json next to the database is imported once.
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+
+  private static readonly SCHEMA_VERSION = 5;
+  private static readonly PAGE_SIZE = 500;
+  private static readonly METADATA_COLUMNS =
+    'key, id, NULL AS value, tokens, hits, created_at, last_accessed, stale_at, expires_at, tags, model, task_type, codec, compressed_size, original_size, quality_score, ratings, sealed_key';
+
+  private db: Database.Database | null = null;
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const db = new Database(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    db.pragma('foreign_keys = ON');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS meta (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS entries (
+        key TEXT PRIMARY KEY,
+        id TEXT NOT NULL,
+        value TEXT NOT NULL,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        hits INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        last_accessed INTEGER NOT NULL,
+        stale_at INTEGER,
+        expires_at INTEGER,
+        tags TEXT,
+        model TEXT,
+        task_type TEXT,
+        codec TEXT,
+        compressed_size INTEGER NOT NULL DEFAULT 0,
+        original_size INTEGER NOT NULL DEFAULT 0,
+        quality_score REAL,
+        ratings INTEGER NOT NULL DEFAULT 0,
+        sealed_key TEXT
+      );
+      CREATE TABLE IF NOT EXISTS entry_tags (
+        tag TEXT NOT NULL,
+        key TEXT NOT NULL REFERENCES entries(key) ON DELETE CASCADE,
+        PRIMARY KEY (tag, key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_entry_tags_key ON entry_tags(key);
+      CREATE INDEX IF NOT EXISTS idx_entries_model ON entries(model);
+      CREATE INDEX IF NOT EXISTS idx_entries_expires_at ON entries(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_entries_hits ON entries(hits);
+      CREATE INDEX IF NOT EXISTS idx_entries_last_accessed ON entries(last_accessed);
+    `);
+    this.migrate(db);
+
+    this.db = db;
+    await this.importJson();
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const row = this.database
+      .prepare('SELECT * FROM entries WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)')
+      .get(key, Date.now()) as EntryRow | undefined;
+    return row ? this.decode(row) : null;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.insert([entry]);
+  }
+
+  async touch(key: string, now: number): Promise<number | null> {
+    const row = this.database
+      .prepare(`
+        UPDATE entries SET hits = hits + 1, last_accessed = ?
+        WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)
+        RETURNING hits
+      `)
+      .get(now, key, now) as { hits: number } | undefined;
+    return row ? row.hits : null;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return !!this.database
+      .prepare('SELECT 1 FROM entries WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)')
+      .get(key, Date.now());
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.database.prepare('DELETE FROM entries WHERE key = ?').run(key).changes > 0;
+  }
+
+  async *entries(options: { withValue?: boolean } = {}): AsyncIterable<CacheEntry> {
+    // Pages instead of iterate(): callers may write (e.g. delete) between yields
+    const columns = options.withValue === false ? SqliteStorageBackend.METADATA_COLUMNS : '*';
+    const page = this.database.prepare(
+      `SELECT ${columns} FROM entries WHERE key > ? ORDER BY key LIMIT ${SqliteStorageBackend.PAGE_SIZE}`
+    );
+    let after = '';
+
+    for (;;) {
+      const rows = page.all(after) as EntryRow[];
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        yield this.decode(row);
+      }
+      after = rows[rows.length - 1].key;
+    }
+  }
+
+  async rank(field: RankField, order: 'asc' | 'desc', limit: number): Promise<CacheEntry[]> {
+    const column = field === 'hits' ? 'hits' : 'last_accessed';
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.database
+      .prepare(`
+        SELECT ${SqliteStorageBackend.METADATA_COLUMNS} FROM entries
+        WHERE expires_at IS NULL OR expires_at > ?
+        ORDER BY ${column} ${direction} LIMIT ?
+      `)
+      .all(Date.now(), limit) as EntryRow[];
+    return rows.map(row => this.decode(row));
+  }
+
+  async findByTags(tags: string[]): Promise<CacheEntry[]> {
+    if (tags.length === 0) return [];
+
+    const rows = this.database
+      .prepare(`
+        SELECT * FROM entries
+        WHERE key IN (SELECT key FROM entry_tags WHERE tag IN (${tags.map(() => '?').join(', ')}))
+          AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY hits DESC
+      `)
+      .all(...tags, Date.now()) as EntryRow[];
+    return rows.map(row => this.decode(row));
+  }
+
+  async summarizeByModel(): Promise<ModelUsage[]> {
+    return this.database
+      .prepare(`
+        SELECT COALESCE(model, 'unknown') AS model,
+               COUNT(*) AS entries,
+               SUM(hits) AS hits,
+               SUM(tokens * hits) AS tokens_saved,
+               MIN(created_at) AS first_cached,
+               MAX(last_accessed) AS last_accessed
+        FROM entries
+        WHERE expires_at IS NULL OR expires_at > ?
+        GROUP BY COALESCE(model, 'unknown')
+        ORDER BY hits DESC
+      `)
+      .all(Date.now()) as ModelUsage[];
+  }
+
+  async flush(): Promise<void> {
+    // Writes are already durable; only fold the WAL back into the main file
+    this.db?.pragma('wal_checkpoint(PASSIVE)');
+  }
+
+  async close(): Promise<void> {
+    if (!this.db) return;
+    this.db.close();
+    this.db = null;
+  }
+
+  private get database(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite backend is not initialized');
+    }
+    return this.db;
+  }
+
+  private migrate(db: Database.Database): void {
+    const row = db.prepare("SELECT value FROM meta WHERE name = 'schema_version'").get() as { value: string } | undefined;
+    const version = row ? Number(row.value) : SqliteStorageBackend.SCHEMA_VERSION;
+
+    const columns = db.prepare('PRAGMA table_info(entries)').all() as Array<{ name: string }>;
+    const hasColumn = (name: string) => columns.some(column => column.name === name);
+
+    if (version < 2 && !hasColumn('codec')) {
+      // v2: codec per entry (older rows are lz-string)
+      db.exec('ALTER TABLE entries ADD COLUMN codec TEXT');
+    }
+    if (version < 3 && !hasColumn('stale_at')) {
+      // v3: soft expiry for stale-while-revalidate
+      db.exec('ALTER TABLE entries ADD COLUMN stale_at INTEGER');
+    }
+    if (version < 4 && !hasColumn('quality_score')) {
+      // v4: quality feedback
+      db.exec('ALTER TABLE entries ADD COLUMN quality_score REAL');
+      db.exec('ALTER TABLE entries ADD COLUMN ratings INTEGER NOT NULL DEFAULT 0');
+    }
+    if (version < 5 && !hasColumn('sealed_key')) {
+      // v5: encrypted original keys when keys are stored as HMACs
+      db.exec('ALTER TABLE entries ADD COLUMN sealed_key TEXT');
+    }
+
+    db.prepare('INSERT OR REPLACE INTO meta (name, value) VALUES (?, ?)')
+      .run('schema_version', String(SqliteStorageBackend.SCHEMA_VERSION));
+  }
+
+  private insert(entries: CacheEntry[]): void {
+    const db = this.database;
+    const upsert = db.prepare(`
+      INSERT OR REPLACE INTO entries
+        (key, id, value, tokens, hits, created_at, last_accessed, stale_at, expires_at, tags, model, task_type, codec, compressed_size, original_size, quality_score, ratings, sealed_key)
+      VALUES
+        (@key, @id, @value, @tokens, @hits, @created_at, @last_accessed, @stale_at, @expires_at, @tags, @model, @task_type, @codec, @compressed_size, @original_size, @quality_score, @ratings, @sealed_key)
+    `);
+    const addTag = db.prepare('INSERT OR IGNORE INTO entry_tags (tag, key) VALUES (?, ?)');
+
+    db.transaction((batch: CacheEntry[]) => {
+      for (const entry of batch) {
+        // REPLACE deletes the old row, which cascades to its tags
+        upsert.run(this.encode(entry));
+        for (const tag of entry.tags || []) {
+          addTag.run(tag, entry.key);
+        }
+      }
+    })(entries);
+  }
+
+  /**
+   * Imports data/cache.json (and its journal) left by the JSON backend, once per database
+   */
+  private async importJson(): Promise<void> {
+    const db = this.database;
+    if (db.prepare("SELECT 1 FROM meta WHERE name = 'json_imported_at'").get()) return;
+
+    const dataDir = path.dirname(this.filePath);
+    const snapshot = new SnapshotFile<CacheEntry[]>(path.join(dataDir, 'cache.json'));
+    const journal = new Journal<JsonJournalRecord>(path.join(dataDir, 'cache.journal'));
+
+    try {
+      const loaded = await snapshot.read();
+      const byKey = new Map<string, CacheEntry>();
+      for (const entry of loaded?.data || []) {
+        if (entry && entry.key) byKey.set(entry.key, entry);
+      }
+      for (const record of journal.replay({ fromBackup: loaded?.source === 'backup' }).records) {
+        if (record.op === 'set') {
+          byKey.set(record.entry.key, record.entry);
+        } else {
+          byKey.delete(record.key);
+        }
+      }
+
+      const now = Date.now();
+      const entries = Array.from(byKey.values()).filter(entry => !entry.expires_at || entry.expires_at > now);
+      this.insert(entries);
+      if (entries.length > 0) {
+        console.log(`📂 Cache JSON importado para SQLite: ${entries.length} entradas`);
+      }
+    } catch (error) {
+      // Leaves the marker unset so the next start retries
+      console.warn('⚠️ Erro importando cache JSON para SQLite:', error);
+      return;
+    }
+
+    db.prepare("INSERT INTO meta (name, value) VALUES ('json_imported_at', ?)").run(String(Date.now()));
+  }
+
+  private encode(entry: CacheEntry): Record<string, string | number | null> {
+    return {
+      key: entry.key,
+      id: entry.id,
+      // JSON keeps lz-string output (arbitrary UTF-16, lone surrogates included) intact over UTF-8
+      value: JSON.stringify(entry.value),
+      tokens: entry.tokens || 0,
+      hits: entry.hits || 0,
+      created_at: entry.created_at,
+      last_accessed: entry.last_accessed,
+      stale_at: entry.stale_at ?? null,
+      expires_at: entry.expires_at ?? null,
+      tags: entry.tags ? JSON.stringify(entry.tags) : null,
+      model: entry.model ?? null,
+      task_type: entry.task_type ?? null,
+      codec: entry.codec ?? null,
+      compressed_size: entry.compressed_size || 0,
+      original_size: entry.original_size || 0,
+      quality_score: entry.quality_score ?? null,
+      ratings: entry.ratings || 0,
+      sealed_key: entry.sealed_key ?? null
+    };
+  }
+
+  private decode(row: EntryRow): CacheEntry {
+    return {
+      id: row.id,
+      key: row.key,
+      value: row.value !== null ? JSON.parse(row.value) : undefined,
+      tokens: row.tokens,
+      hits: row.hits,
+      created_at: row.created_at,
+      last_accessed: row.last_accessed,
+      stale_at: row.stale_at ?? undefined,
+      expires_at: row.expires_at ?? undefined,
+      tags: row.tags ? JSON.parse(row.tags) : undefined,
+      model: row.model ?? undefined,
+      task_type: row.task_type ?? undefined,
+      codec: row.codec ?? undefined,
+      compressed_size: row.compressed_size,
+      original_size: row.original_size,
+      quality_score: row.quality_score ?? undefined,
+      ratings: row.ratings || undefined,
+      sealed_key: row.sealed_key ?? undefined
+    };
+  }
+}
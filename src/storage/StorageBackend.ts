@@ -0,0 +1,43 @@
+import { CacheEntry } from '../types/index.js';
+
+export type RankField = 'hits' | 'last_accessed';
+
+export interface ModelUsage {
+  model: string;
+  entries: number;
+  hits: number;
+  tokens_saved: number;
+  first_cached: number;
+  last_accessed: number;
+}
+
+/**
+ * Storage backend for literal cache entries.
+ * Backends store entries as-is (values already compressed by the cache) and
+ * expire them at entry.expires_at.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  initialize(): Promise<void>;
+  /** Returns the live entry, or null when missing or expired */
+  get(key: string): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+  /** Records a hit; returns the new hit count, or null when the entry is gone */
+  touch(key: string, now: number): Promise<number | null>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+  /**
+   * Iterates over all stored entries. Without withValue, backends may skip
+   * loading the (large) value field.
+   */
+  entries(options?: { withValue?: boolean }): AsyncIterable<CacheEntry>;
+  /** Entries ranked by hits or recency, e.g. ('last_accessed', 'asc') for LRU */
+  rank(field: RankField, order: 'asc' | 'desc', limit: number): Promise<CacheEntry[]>;
+  /** Optional indexed lookup; callers fall back to scanning entries() */
+  findByTags?(tags: string[]): Promise<CacheEntry[]>;
+  /** Optional aggregate per model; callers fall back to scanning entries() */
+  summarizeByModel?(): Promise<ModelUsage[]>;
+  /** Persists pending writes (no-op for backends that write through) */
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
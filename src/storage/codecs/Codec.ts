@@ -0,0 +1,16 @@
+/**
+ * Text codec for stored values. Encoded output is a string so every storage
+ * backend (JSON files, Redis hashes, SQLite TEXT) can hold it unchanged.
+ */
+export interface Codec {
+  readonly name: string;
+  encode(text: string): string;
+  decode(data: string): string;
+}
+
+/**
+ * Bytes a stored string actually occupies once JSON-escaped and UTF-8 encoded
+ */
+export function storedBytes(value: string): number {
+  return Buffer.byteLength(JSON.stringify(value), 'utf8');
+}
@@ -0,0 +1,48 @@
+import { Codec, storedBytes } from './Codec.js';
+import { BrotliCodec, GzipCodec, LZStringCodec, NoneCodec } from './TextCodecs.js';
+
+/**
+ * Looks up codecs by name and applies the size threshold below which values
+ * are stored uncompressed
+ */
+export class CodecRegistry {
+  private static codecs: Map<string, Codec> = new Map(
+    [new NoneCodec(), new LZStringCodec(), new GzipCodec(), new BrotliCodec()].map(codec => [codec.name, codec])
+  );
+
+  static register(codec: Codec): void {
+    this.codecs.set(codec.name, codec);
+  }
+
+  static names(): string[] {
+    return Array.from(this.codecs.keys());
+  }
+
+  static get(name: string): Codec {
+    const codec = this.codecs.get(name);
+    if (!codec) {
+      throw new Error(`Unknown codec: ${name} (available: ${this.names().join(', ')})`);
+    }
+    return codec;
+  }
+
+  /**
+   * Encodes with the configured codec, or stores the text as-is when it is
+   * shorter than the threshold or compression would not shrink it
+   */
+  static encode(name: string, text: string, threshold: number = 0): { codec: string; data: string } {
+    const codec = this.get(name);
+    if (codec.name === 'none' || text.length < threshold) {
+      return { codec: 'none', data: text };
+    }
+
+    const data = codec.encode(text);
+    return storedBytes(data) < storedBytes(text)
+      ? { codec: codec.name, data }
+      : { codec: 'none', data: text };
+  }
+
+  static decode(name: string, data: string): string {
+    return this.get(name).decode(data);
+  }
+}
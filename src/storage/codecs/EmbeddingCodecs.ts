@@ -0,0 +1,95 @@
+/**
+ * Binary encodings for embedding vectors, stored as base64 strings.
+ * float16 and int8 are lossy; both keep cosine similarity within ~1e-3 for
+ * normalised vectors.
+ */
+export type EmbeddingEncoding = 'json' | 'float32' | 'float16' | 'int8';
+
+export const EMBEDDING_ENCODINGS: EmbeddingEncoding[] = ['json', 'float32', 'float16', 'int8'];
+
+export function encodeEmbedding(vector: number[], encoding: EmbeddingEncoding): number[] | string {
+  switch (encoding) {
+    case 'json':
+      return vector;
+    case 'float32':
+      return Buffer.from(Float32Array.from(vector).buffer).toString('base64');
+    case 'float16': {
+      const halves = new Uint16Array(vector.length);
+      for (let i = 0; i < vector.length; i++) halves[i] = toFloat16(vector[i]);
+      return Buffer.from(halves.buffer).toString('base64');
+    }
+    case 'int8': {
+      // Per-vector scale in a float32 header, then one signed byte per dimension
+      const scale = vector.reduce((max, v) => Math.max(max, Math.abs(v)), 0) || 1;
+      const bytes = Buffer.alloc(4 + vector.length);
+      bytes.writeFloatLE(scale, 0);
+      for (let i = 0; i < vector.length; i++) {
+        bytes.writeInt8(Math.max(-127, Math.min(127, Math.round((vector[i] / scale) * 127))), 4 + i);
+      }
+      return bytes.toString('base64');
+    }
+    default:
+      throw new Error(`Unknown embedding encoding: ${encoding}`);
+  }
+}
+
+export function decodeEmbedding(data: number[] | string, encoding: EmbeddingEncoding): number[] {
+  if (Array.isArray(data)) return data;
+
+  const bytes = Buffer.from(data, 'base64');
+  switch (encoding) {
+    case 'float32': {
+      const floats = new Float32Array(bytes.length / 4);
+      for (let i = 0; i < floats.length; i++) floats[i] = bytes.readFloatLE(i * 4);
+      return Array.from(floats);
+    }
+    case 'float16': {
+      const result = new Array<number>(bytes.length / 2);
+      for (let i = 0; i < result.length; i++) result[i] = fromFloat16(bytes.readUInt16LE(i * 2));
+      return result;
+    }
+    case 'int8': {
+      const scale = bytes.readFloatLE(0);
+      const result = new Array<number>(bytes.length - 4);
+      for (let i = 0; i < result.length; i++) result[i] = (bytes.readInt8(4 + i) / 127) * scale;
+      return result;
+    }
+    default:
+      throw new Error(`Cannot decode embedding stored as ${encoding}`);
+  }
+}
+
+const float32View = new Float32Array(1);
+const uint32View = new Uint32Array(float32View.buffer);
+
+function toFloat16(value: number): number {
+  float32View[0] = value;
+  const bits = uint32View[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  let mantissa = bits & 0x7fffff;
+
+  if (exponent >= 0x1f) {
+    // Overflow, infinity or NaN
+    return sign | 0x7c00 | (((bits >>> 23) & 0xff) === 0xff && mantissa ? 0x200 : 0);
+  }
+  if (exponent <= 0) {
+    if (exponent < -10) return sign;
+    // Subnormal half
+    mantissa = (mantissa | 0x800000) >> (1 - exponent);
+    return sign | ((mantissa + 0x1000) >> 13);
+  }
+
+  // Round to nearest; a carry into the exponent is still a valid encoding
+  return (sign | (exponent << 10) | (mantissa >> 13)) + ((mantissa >> 12) & 1);
+}
+
+function fromFloat16(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+
+  if (exponent === 0) return sign * Math.pow(2, -14) * (mantissa / 1024);
+  if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+}
@@ -0,0 +1,64 @@
+import LZString from 'lz-string';
+import zlib from 'zlib';
+import { Codec } from './Codec.js';
+
+export class NoneCodec implements Codec {
+  readonly name = 'none';
+
+  encode(text: string): string {
+    return text;
+  }
+
+  decode(data: string): string {
+    return data;
+  }
+}
+
+/**
+ * UTF-16 output: compact in memory but heavily escaped once written as JSON.
+ * Kept as the codec of entries written before codecs were recorded.
+ */
+export class LZStringCodec implements Codec {
+  readonly name = 'lz-string';
+
+  encode(text: string): string {
+    return LZString.compress(text);
+  }
+
+  decode(data: string): string {
+    const text = LZString.decompress(data);
+    if (text === null) {
+      throw new Error('Invalid lz-string data');
+    }
+    return text;
+  }
+}
+
+export class GzipCodec implements Codec {
+  readonly name = 'gzip';
+
+  encode(text: string): string {
+    return zlib.gzipSync(text).toString('base64');
+  }
+
+  decode(data: string): string {
+    return zlib.gunzipSync(Buffer.from(data, 'base64')).toString('utf8');
+  }
+}
+
+export class BrotliCodec implements Codec {
+  readonly name = 'brotli';
+
+  encode(text: string): string {
+    return zlib.brotliCompressSync(text, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        [zlib.constants.BROTLI_PARAM_QUALITY]: 5
+      }
+    }).toString('base64');
+  }
+
+  decode(data: string): string {
+    return zlib.brotliDecompressSync(Buffer.from(data, 'base64')).toString('utf8');
+  }
+}
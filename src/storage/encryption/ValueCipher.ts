@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+
+export interface EncryptionKey {
+  /** First 8 hex characters of the key's SHA-256, recorded in every value it encrypts */
+  id: string;
+  key: Buffer;
+  /** HMAC key for cache keys, derived from key */
+  keyHashKey: Buffer;
+}
+
+export interface ValueCipherOptions {
+  /** 32-byte AES keys, hex or base64; the first encrypts, the others only decrypt */
+  keys: Array<string | Buffer>;
+  /** Also replace cache keys with an HMAC, so prompts cannot be confirmed by hashing guesses */
+  encryptKeys?: boolean;
+}
+
+/**
+ * AES-256-GCM for stored values. Encrypted values are self-describing
+ * (enc:v1:<key id>:<base64 iv|tag|ciphertext>), so values written before
+ * encryption was enabled, or under a previous key, still read: plaintext
+ * passes through and any key still in the ring decrypts.
+ */
+export class ValueCipher {
+  static readonly PREFIX = 'enc:v1:';
+  private static readonly IV_BYTES = 12;
+  private static readonly TAG_BYTES = 16;
+
+  private readonly keys: EncryptionKey[];
+  readonly encryptKeys: boolean;
+
+  constructor(options: ValueCipherOptions) {
+    const seen = new Set<string>();
+    this.keys = options.keys
+      .map(key => ValueCipher.toKey(key))
+      .filter(key => !seen.has(key.id) && !!seen.add(key.id));
+    if (this.keys.length === 0) {
+      throw new Error('At least one encryption key is required');
+    }
+    this.encryptKeys = options.encryptKeys === true;
+  }
+
+  /**
+   * Cipher from CACHE_ENCRYPTION_KEY and/or CACHE_ENCRYPTION_KEY_FILE (one key
+   * per line, current first), plus CACHE_ENCRYPTION_PREVIOUS_KEYS (comma list)
+   * kept for reading until a re-encrypt; null when no key is configured
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ValueCipher | null {
+    const keys: string[] = [];
+    if (env.CACHE_ENCRYPTION_KEY) {
+      keys.push(env.CACHE_ENCRYPTION_KEY.trim());
+    }
+    if (env.CACHE_ENCRYPTION_KEY_FILE) {
+      keys.push(...readFileSync(env.CACHE_ENCRYPTION_KEY_FILE, 'utf-8')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#')));
+    }
+    if (keys.length === 0) return null;
+
+    keys.push(...(env.CACHE_ENCRYPTION_PREVIOUS_KEYS || '').split(',').map(key => key.trim()).filter(Boolean));
+    return new ValueCipher({ keys, encryptKeys: env.CACHE_ENCRYPT_KEYS === 'true' });
+  }
+
+  get currentKeyId(): string {
+    return this.keys[0].id;
+  }
+
+  get keyIds(): string[] {
+    return this.keys.map(key => key.id);
+  }
+
+  static isEncrypted(data: unknown): data is string {
+    return typeof data === 'string' && data.startsWith(ValueCipher.PREFIX);
+  }
+
+  /**
+   * Id of the key a value was encrypted with, or null for plaintext
+   */
+  static keyIdOf(data: unknown): string | null {
+    if (!ValueCipher.isEncrypted(data)) return null;
+    return data.slice(ValueCipher.PREFIX.length).split(':', 1)[0];
+  }
+
+  encrypt(text: string): string {
+    const { id, key } = this.keys[0];
+    const iv = crypto.randomBytes(ValueCipher.IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+    return `${ValueCipher.PREFIX}${id}:${payload}`;
+  }
+
+  /**
+   * Decrypts with whichever key in the ring wrote the value; plaintext is returned as-is
+   */
+  decrypt(data: string): string {
+    if (!ValueCipher.isEncrypted(data)) return data;
+
+    const separator = data.indexOf(':', ValueCipher.PREFIX.length);
+    const keyId = data.slice(ValueCipher.PREFIX.length, separator);
+    const entry = this.keys.find(key => key.id === keyId);
+    if (!entry) {
+      throw new Error(`Value encrypted with unknown key ${keyId}`);
+    }
+
+    const payload = Buffer.from(data.slice(separator + 1), 'base64');
+    const iv = payload.subarray(0, ValueCipher.IV_BYTES);
+    const tag = payload.subarray(ValueCipher.IV_BYTES, ValueCipher.IV_BYTES + ValueCipher.TAG_BYTES);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', entry.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(payload.subarray(ValueCipher.IV_BYTES + ValueCipher.TAG_BYTES)),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  /**
+   * Whether a stored value should be rewritten under the current key
+   */
+  needsReencryption(data: unknown): boolean {
+    return ValueCipher.keyIdOf(data) !== this.currentKeyId;
+  }
+
+  /**
+   * Cache key as stored: an HMAC under the given key (default: current) when
+   * keys are encrypted, otherwise the key itself
+   */
+  storageKey(key: string, keyId: string = this.currentKeyId): string {
+    if (!this.encryptKeys) return key;
+
+    const entry = this.keys.find(candidate => candidate.id === keyId) || this.keys[0];
+    return crypto.createHmac('sha256', entry.keyHashKey).update(key).digest('hex').substring(0, 32);
+  }
+
+  /**
+   * Storage keys an entry may live under: current key first, then previous
+   * keys and the plain key for entries not yet re-encrypted
+   */
+  lookupKeys(key: string): string[] {
+    if (!this.encryptKeys) return [key];
+    return [...this.keys.map(entry => this.storageKey(key, entry.id)), key];
+  }
+
+  private static toKey(input: string | Buffer): EncryptionKey {
+    const key = Buffer.isBuffer(input) ? input : ValueCipher.parseKey(input);
+    if (key.length !== 32) {
+      throw new Error(`Encryption keys must be 32 bytes, got ${key.length}`);
+    }
+    return {
+      id: crypto.createHash('sha256').update(key).digest('hex').substring(0, 8),
+      key,
+      keyHashKey: Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), 'cache-key', 32))
+    };
+  }
+
+  private static parseKey(text: string): Buffer {
+    if (/^[0-9a-f]{64}$/i.test(text)) {
+      return Buffer.from(text, 'hex');
+    }
+    const decoded = Buffer.from(text, 'base64');
+    if (decoded.length !== 32) {
+      throw new Error('Encryption keys must be 64 hex characters or 32 bytes in base64 (openssl rand -base64 32)');
+    }
+    return decoded;
+  }
+}
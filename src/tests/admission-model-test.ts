@@ -0,0 +1,135 @@
+/**
+ * Learned admission checks - features, training from re-hit outcomes, persistence
+ */
+
+import { AdmissionModel } from '../services/AdmissionModel.js';
+import { CacheEngine } from '../core/CacheEngine.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { TemplateEngine } from '../templates/TemplateEngine.js';
+import { MetricsCollector } from '../analytics/MetricsCollector.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import OpenAI from 'openai';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runAdmissionModelTests() {
+  console.log('🧪 Starting Admission Model Tests...\n');
+  const dataDir = './test-data/admission';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Feature extraction
+  console.log('Test 1: Feature extraction');
+  const features = AdmissionModel.extractFeatures({
+    prompt: 'Explain how to debug this TypeScript error',
+    context: 'request 5f3c9a1b2d4e7f60 failed at 2024-03-01 10:22:31',
+    model: 'moonshot-v1-8k',
+    taskType: 'debugging',
+    tags: ['backend'],
+    tokens: 120
+  });
+  for (const name of ['bias', 'tokens:s', 'question', 'pattern:debug', 'lang:typescript', 'contains-id', 'contains-date', 'has-context', 'model:moonshot-v1-8k', 'task:debugging', 'tag:backend']) {
+    assert(features[name] === 1, `feature ${name}`);
+  }
+  console.log(`✅ ${Object.keys(features).length} features extracted`);
+
+  // Test 2: Learns reusable prompts from one-offs
+  console.log('\nTest 2: Training from outcomes');
+  const model = new AdmissionModel({ dataDir: `${dataDir}/model`, minSamples: 40 });
+  const reusable = (i: number) => AdmissionModel.extractFeatures({ prompt: `Explain the useEffect hook in React ${i % 3}`, tokens: 300 });
+  const oneOff = (i: number) => AdmissionModel.extractFeatures({ prompt: `Why did job ${100000 + i} fail at 12:0${i % 10}?`, tokens: 30 });
+
+  assert(model.decide(reusable(0)) === null, 'no decision while warming up');
+  for (let i = 0; i < 30; i++) {
+    await model.recordCandidate(`reusable-${i}`, reusable(i), 60);
+    await model.observeRequest(`reusable-${i}`);
+    await model.recordCandidate(`one-off-${i}`, oneOff(i), 60);
+  }
+  const labelled = await model.sweep(Date.now() + 61_000);
+  assert(labelled === 30, 'expired candidates labelled as one-offs');
+
+  assert(model.isTrained(), 'trained after minSamples outcomes');
+  const keep = model.decide(reusable(99))!;
+  const reject = model.decide(oneOff(99))!;
+  assert(keep.admit && !reject.admit, `reusable admitted (${keep.probability.toFixed(2)}), one-off rejected (${reject.probability.toFixed(2)})`);
+
+  const stats = model.getStats();
+  assert(stats.samples === 60 && stats.positives === 30 && stats.pending === 0, 'outcome counts');
+  assert(stats.top_negative.some(w => w.feature === 'contains-id'), 'identifiers learned as a one-off signal');
+  console.log(`✅ p(reusable)=${keep.probability.toFixed(2)}, p(one-off)=${reject.probability.toFixed(2)}`);
+
+  // Test 3: Weights and pending candidates persist
+  console.log('\nTest 3: Persistence');
+  await model.recordCandidate('waiting', reusable(1), 60);
+  await model.save();
+  const reloaded = new AdmissionModel({ dataDir: `${dataDir}/model`, minSamples: 40 });
+  await reloaded.observeRequest('waiting');
+  assert(reloaded.getStats().samples === 61, 'pending candidate labelled after reload');
+  assert(Math.abs(reloaded.predict(oneOff(5)) - model.predict(oneOff(5))) < 0.05, 'weights reloaded');
+  console.log('✅ Model reloaded from admission-model.json');
+
+  // Test 4: Cache engine uses the learned decision
+  console.log('\nTest 4: Cache engine admission');
+  const cacheEngine = new CacheEngine({
+    dataDir: `${dataDir}/engine`,
+    enableVectorCache: false,
+    admission: { minSamples: 10 }
+  });
+  const warm = cacheEngine.shouldCache('Explain the useEffect hook in React');
+  assert(!warm.reason.startsWith('learned-admission'), 'static heuristics decide while warming up');
+
+  for (let i = 0; i < 6; i++) {
+    const prompt = `Explain the useEffect hook in React ${i}`;
+    await cacheEngine.set(prompt, 'It runs side effects after render.', { tokens: 300, forceCache: true });
+    await cacheEngine.get(prompt);
+  }
+  await delay(20);
+  const learned = cacheEngine.getAdmissionModelStats()!;
+  assert(learned.samples === 6 && learned.positives === 6, `re-requests labelled positive (got ${learned.samples})`);
+
+  await cacheEngine.set('Why did job 123456 fail?', 'OOM', { tokens: 30, forceCache: true });
+  assert(cacheEngine.getAdmissionModelStats()!.pending === 1, 'cached entry awaits its outcome');
+  await cacheEngine.invalidate({ key_prefix: '' });
+  await delay(20);
+  assert(cacheEngine.getAdmissionModelStats()!.pending === 0, 'invalidated entries are not labelled');
+  console.log('✅ Outcomes recorded from cache traffic');
+
+  // Test 5: Learned weights in get_advanced_metrics
+  console.log('\nTest 5: Advanced metrics');
+  const handlers = new MCPHandlers(
+    cacheEngine,
+    new ModelOptimizer(),
+    new TemplateEngine(),
+    new MetricsCollector(),
+    new LLMProviderFactory(),
+    {} as OpenAI
+  );
+  const metrics = JSON.parse((await handlers.handleGetAdvancedMetrics({})).content[0].text);
+  assert(metrics.admission_model.samples === 6 && Array.isArray(metrics.admission_model.top_positive), 'admission model exposed');
+  console.log('✅ Weights inspectable through get_advanced_metrics');
+
+  console.log('\n🎉 All Admission Model tests completed successfully!');
+
+  await cacheEngine.close();
+  await delay(300);
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runAdmissionModelTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runAdmissionModelTests };
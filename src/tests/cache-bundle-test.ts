@@ -0,0 +1,193 @@
+/**
+ * Cache bundle checks - export filters, file format, import strategies, expiry and redaction
+ */
+
+import { CacheEngine } from '../core/CacheEngine.js';
+import { CacheBundleFile } from '../core/CacheBundle.js';
+import { PortableCacheEntry } from '../services/SimplePersistentCache.js';
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createEngine(dir: string, options: Partial<ConstructorParameters<typeof CacheEngine>[0]> = {}): CacheEngine {
+  return new CacheEngine({
+    dataDir: dir,
+    enableHeuristics: false,
+    redaction: false,
+    encryption: false,
+    vectorCacheOptions: { embeddingModel: 'local-advanced', useFaiss: false },
+    ...options
+  });
+}
+
+async function runCacheBundleTests() {
+  console.log('🧪 Starting Cache Bundle Tests...\n');
+  const dataDir = './test-data/bundle';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Export filters, from an encrypted cache
+  console.log('Test 1: Export with filters');
+  const source = createEngine(path.join(dataDir, 'source'), {
+    namespace: 'team',
+    encryption: { keys: [crypto.randomBytes(32).toString('hex')] }
+  });
+  await source.set('How do I paginate the orders API?', 'Use the cursor parameter', { model: 'moonshot-v1-8k', tokens: 120, tags: ['api'] });
+  await source.set('Explain the billing retry job', 'It retries failed charges hourly', { model: 'moonshot-v1-8k', tokens: 90, tags: ['billing'] });
+  await source.set('What is our lint config?', 'ESLint with the shared preset', { model: 'moonshot-v1-32k', tokens: 60, tags: ['api'] });
+  await source.get('How do I paginate the orders API?', undefined, 'moonshot-v1-8k');
+  await source.get('How do I paginate the orders API?', undefined, 'moonshot-v1-8k');
+
+  const everything = await source.exportBundle();
+  assert(everything.literal.length === 3 && everything.vector.length === 3, 'unfiltered export holds both caches');
+  assert(everything.namespace === 'team' && everything.version === CacheBundleFile.VERSION, 'bundle header');
+  assert(everything.literal.every(entry => typeof entry.value === 'string' && !entry.value.startsWith('enc:')), 'values exported decrypted');
+
+  const tagged = await source.exportBundle({ tags: ['api'] });
+  assert(tagged.literal.length === 2 && tagged.vector.length === 2, 'tag filter applies to both caches');
+  const byModel = await source.exportBundle({ tags: ['api'], model: 'moonshot-v1-8k' });
+  assert(byModel.literal.length === 1 && byModel.vector.length === 1, 'criteria combine');
+  const popular = await source.exportBundle({ min_hits: 3 }, { includeVector: false });
+  assert(popular.literal.length === 1 && popular.literal[0].hits === 3 && popular.vector.length === 0, 'min_hits and includeVector');
+  console.log(`✅ ${everything.literal.length} literal and ${everything.vector.length} vector entries exported`);
+
+  // Test 2: Bundle files
+  console.log('\nTest 2: Bundle files');
+  const gzPath = path.join(dataDir, 'team-cache.json.gz');
+  const gzBytes = await CacheBundleFile.write(gzPath, everything, { compress: true });
+  const plainBytes = await CacheBundleFile.write(path.join(dataDir, 'team-cache.json'), everything);
+  assert(gzBytes < plainBytes, 'gzip shrinks the bundle');
+  const reread = await CacheBundleFile.read(gzPath);
+  assert(reread.literal.length === 3 && reread.vector[0].embedding !== undefined, 'gzipped bundle reads back with embeddings');
+
+  const expectParseError = (data: string, fragment: string) => {
+    try {
+      CacheBundleFile.parse(Buffer.from(data));
+    } catch (error) {
+      assert((error as Error).message.includes(fragment), `expected "${fragment}", got "${(error as Error).message}"`);
+      return;
+    }
+    throw new Error(`Assertion failed: expected a parse error containing "${fragment}"`);
+  };
+  expectParseError('{"entries": []}', 'format marker');
+  expectParseError(JSON.stringify({ ...everything, version: CacheBundleFile.VERSION + 1 }), 'Unsupported cache bundle version');
+  expectParseError('not json', 'Not a cache bundle');
+  let withheld = '';
+  try {
+    CacheBundleFile.parse(Buffer.from('root:x:0:0:root:/root:/bin/bash\n'));
+  } catch (error) {
+    withheld = (error as Error).message;
+  }
+  assert(withheld === 'Not a cache bundle', `parser output withheld (got "${withheld}")`);
+
+  const bundleDir = path.join(dataDir, 'bundles');
+  assert(CacheBundleFile.resolve(bundleDir, 'team/cache.json.gz') === path.resolve(bundleDir, 'team/cache.json.gz'), 'relative names resolve inside');
+  for (const name of ['/etc/passwd', '../source/literal.json', 'team/../../escape.json', '..', '']) {
+    let refused = false;
+    try {
+      CacheBundleFile.resolve(bundleDir, name);
+    } catch (error) {
+      refused = (error as Error).message.startsWith('Invalid bundle path');
+    }
+    assert(refused, `"${name}" refused`);
+  }
+  console.log(`✅ ${gzBytes} bytes gzipped, ${plainBytes} plain; paths outside the bundle directory refused`);
+
+  // Test 3: Import on a fresh machine
+  console.log('\nTest 3: Import into an empty cache');
+  const target = createEngine(path.join(dataDir, 'target'));
+  const imported = await target.importBundle(reread);
+  assert(imported.literal.imported === 3 && imported.vector?.imported === 3, 'every entry imported');
+  const hit = await target.get('How do I paginate the orders API?', undefined, 'moonshot-v1-8k');
+  assert(hit?.cacheType === 'literal' && hit.value === 'Use the cursor parameter', 'literal hit after import');
+  assert(hit!.hits === 4, 'hit counts carried over');
+  const similar = await target.get('how do I paginate the orders API', 'other context', 'moonshot-v1-8k');
+  assert(similar?.cacheType === 'vector' && similar.value === 'Use the cursor parameter', 'vector hit after import');
+
+  const again = await target.importBundle(reread);
+  assert(again.literal.skipped === 3 && again.vector?.skipped === 3, 'skip keeps what is already cached');
+  console.log('✅ Literal and semantic hits served from the imported bundle');
+
+  // Test 4: Merge strategies
+  console.log('\nTest 4: Merge strategies');
+  const local = await target.set('Which queue runs the exports?', 'The reports queue', { model: 'moonshot-v1-8k', tokens: 40 });
+  await target.rate(local.cacheKey, 1);
+  const incoming = (value: string, quality_score: number): PortableCacheEntry => ({
+    key: local.cacheKey,
+    value,
+    tokens: 40,
+    hits: 1,
+    created_at: Date.now(),
+    expires_at: Date.now() + 3600_000,
+    quality_score
+  });
+  const bundleOf = (...literal: PortableCacheEntry[]) => CacheBundleFile.create({ filter: {}, literal, vector: [] });
+  const cachedValue = async () => (await target.get('Which queue runs the exports?', undefined, 'moonshot-v1-8k'))?.value;
+
+  await target.importBundle(bundleOf(incoming('The exports queue', 0.7)), { strategy: 'keep-higher-quality' });
+  assert(await cachedValue() === 'The reports queue', 'better rated local entry kept');
+  await target.importBundle(bundleOf(incoming('The exports queue', 0.95)), { strategy: 'keep-higher-quality' });
+  assert(await cachedValue() === 'The exports queue', 'better rated incoming entry wins');
+  await target.importBundle(bundleOf(incoming('The legacy queue', 0.1)), { strategy: 'skip' });
+  assert(await cachedValue() === 'The exports queue', 'skip never replaces');
+  await target.importBundle(bundleOf(incoming('The legacy queue', 0.1)), { strategy: 'overwrite' });
+  assert(await cachedValue() === 'The legacy queue', 'overwrite always replaces');
+
+  let rejected = false;
+  await target.importBundle(bundleOf(), { strategy: 'merge' as any }).catch(() => { rejected = true; });
+  assert(rejected, 'unknown strategy rejected');
+  console.log('✅ skip, overwrite and keep-higher-quality');
+
+  // Test 5: Expiry
+  console.log('\nTest 5: Expiry');
+  const old = { ...incoming('Expired answer', 0.8), key: 'expired-entry', created_at: Date.now() - 7200_000, stale_at: Date.now() - 5400_000, expires_at: Date.now() - 3600_000 };
+  const dropped = await target.importBundle(bundleOf(old));
+  assert(dropped.literal.expired === 1 && dropped.literal.imported === 0, 'expired entries dropped');
+  const rebased = await target.importBundle(bundleOf(old), { ttl: 600 });
+  assert(rebased.literal.imported === 1, 'ttl re-bases the expiry');
+  const revived = (await target.exportBundle({}, { includeVector: false })).literal.find(entry => entry.key === 'expired-entry')!;
+  const lifetime = revived.expires_at! - Date.now();
+  assert(lifetime > 590_000 && lifetime <= 600_000, 'expires ttl seconds from now');
+  assert(Math.abs(revived.stale_at! - (revived.expires_at! - 300_000)) < 1000, 'fresh for the same half of its lifetime');
+  console.log('✅ Expired entries dropped unless re-based with ttl');
+
+  // Test 6: Redaction applies to imports
+  console.log('\nTest 6: Redaction');
+  const guarded = createEngine(path.join(dataDir, 'guarded'), {
+    enableVectorCache: false,
+    redaction: { actions: { 'credit-card': 'block-cache' } }
+  });
+  const sensitive = await guarded.importBundle(bundleOf(
+    { ...incoming('Mail ops@example.com for access', 0.8), key: 'masked-entry' },
+    { ...incoming('Card 4111-1111-1111-1111 on file', 0.8), key: 'blocked-entry' }
+  ));
+  assert(sensitive.literal.imported === 1 && sensitive.literal.blocked === 1 && sensitive.vector === null, 'blocked entry not imported');
+  const masked = await guarded.exportBundle();
+  assert(masked.literal[0].value.includes('[REDACTED:email]'), 'masked on the way in');
+  console.log('✅ Imported entries redacted like any other write');
+
+  await Promise.all([source.close(), target.close(), guarded.close()]);
+  console.log('\n🎉 All Cache Bundle tests completed successfully!');
+
+  await delay(300);
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCacheBundleTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runCacheBundleTests };
@@ -0,0 +1,84 @@
+/**
+ * Cache invalidation checks - filters across the literal and vector layers
+ */
+
+import { CacheEngine } from '../core/CacheEngine.js';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runCacheInvalidationTests() {
+  console.log('🧪 Starting Cache Invalidation Tests...\n');
+  const dataDir = './test-data/invalidation';
+
+  const cacheEngine = new CacheEngine({
+    dataDir,
+    vectorCacheOptions: { embeddingModel: 'local-advanced', useFaiss: false }
+  });
+
+  await cacheEngine.set('How do I use React hooks?', 'useState and useEffect...', {
+    model: 'moonshot-v1-8k', tokens: 120, tags: ['react', 'frontend'], taskType: 'coding', forceCache: true
+  });
+  await cacheEngine.set('How do React class components work?', 'render() returns...', {
+    model: 'moonshot-v1-32k', tokens: 150, tags: ['react'], taskType: 'analysis', forceCache: true
+  });
+  await cacheEngine.set('Explain Python decorators', 'A decorator wraps...', {
+    model: 'moonshot-v1-8k', tokens: 90, tags: ['python'], taskType: 'coding', forceCache: true
+  });
+
+  // Test 1: Dry run
+  console.log('Test 1: Dry run');
+  const preview = await cacheEngine.invalidate({ tags: ['react'] }, { dryRun: true });
+  assert(preview.dry_run && preview.literal_removed === 2 && preview.vector_removed === 2, 'dry run reports matches');
+  assert(await cacheEngine.get('How do I use React hooks?', undefined, 'moonshot-v1-8k') !== null, 'dry run keeps entries');
+  console.log('✅ Dry run reports 2 literal + 2 vector entries without removing them');
+
+  // Test 2: Combined criteria
+  console.log('\nTest 2: Tag + model');
+  const combined = await cacheEngine.invalidate({ tags: ['react'], model: 'moonshot-v1-32k' });
+  assert(combined.literal_removed === 1 && combined.vector_removed === 1, 'only the 32k react entry is removed');
+  assert(await cacheEngine.get('How do React class components work?', undefined, 'moonshot-v1-32k') === null,
+    'removed entry misses in both layers');
+  console.log('✅ Criteria are combined');
+
+  // Test 3: Task type and age
+  console.log('\nTest 3: Task type + created_before');
+  const none = await cacheEngine.invalidate({ task_type: 'coding', created_before: Date.now() - 60_000 });
+  assert(none.literal_removed === 0, 'recent entries are kept');
+  const coding = await cacheEngine.invalidate({ task_type: 'coding', created_before: Date.now() + 1 });
+  assert(coding.literal_removed === 2 && coding.vector_removed === 2, 'all coding entries are removed');
+  assert(coding.tokens_invalidated === 210, 'invalidated tokens are reported');
+  console.log('✅ Task type and age filters work');
+
+  // Test 4: Empty filters are rejected
+  console.log('\nTest 4: Empty filter');
+  let rejected = false;
+  try {
+    await cacheEngine.invalidate({});
+  } catch {
+    rejected = true;
+  }
+  assert(rejected, 'empty filter is rejected');
+  console.log('✅ Empty filter cannot purge the whole cache');
+
+  console.log('\n🎉 All Cache Invalidation tests completed successfully!');
+
+  await cacheEngine.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCacheInvalidationTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runCacheInvalidationTests };
@@ -0,0 +1,262 @@
+/**
+ * Code compression checks - comments stripped by real tokenizers, bodies
+ * elided to fit a budget, referenced symbols kept and output that still parses
+ */
+
+import { ContextCompression } from '../optimization/ContextCompression.js';
+import { CodeCompressor } from '../optimization/code/CodeCompressor.js';
+import { TypeScriptLanguage } from '../optimization/code/TypeScriptLanguage.js';
+import { PythonLanguage } from '../optimization/code/PythonLanguage.js';
+import { GoLanguage } from '../optimization/code/GoLanguage.js';
+import { JsonLanguage } from '../optimization/code/JsonLanguage.js';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const TYPESCRIPT = `import { get } from 'https';
+
+// Endpoint of the billing API
+const BASE_URL = 'https://billing.example.com/v1'; // production
+const PATTERN = /\\/\\/ not a comment/g;
+
+/** Client for invoices */
+export class BillingClient {
+  private readonly banner = \`// header
+   kept as is   \`;
+
+  /** Fetches one invoice */
+  async fetchInvoice(id: string): Promise<Invoice> {
+    // Build the URL by hand
+    const url = \`\${BASE_URL}/invoices/\${id}\`; /* no query string */
+    const response = await this.request(url);
+    return parseInvoice(response);
+  }
+
+  private async request(url: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      get(url, res => {
+        let body = '';
+        res.on('data', chunk => { body += chunk; });
+        res.on('end', () => resolve(body));
+      }).on('error', reject);
+    });
+  }
+
+  summarize(invoices: Invoice[]): string {
+    const total = invoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+    const lines = invoices.map(invoice => \`\${invoice.id}: \${invoice.amount}\`);
+    lines.push(\`total: \${total}\`);
+    return lines.join('\\n');
+  }
+}
+
+function parseInvoice(raw: string): Invoice {
+  const data = JSON.parse(raw);
+  return { id: String(data.id), amount: Number(data.amount) };
+}
+
+interface Invoice {
+  id: string;
+  amount: number;
+}
+`;
+
+const PYTHON = `import re
+
+# Matches a URL like http://example.com # not a comment
+URL = re.compile(r"https?://[^\\s#]+")
+
+
+class Report:
+    """Monthly usage report."""
+
+    def __init__(self, rows):
+        # Rows come sorted
+        self.rows = rows
+
+    def render(self, width=80):
+        """Render as text."""
+        header = f"{'name':<{width // 2}}# usage"
+        body = "\\n".join(
+            f"{row['name']}: {row['usage']}"  # one per line
+            for row in self.rows
+        )
+        return header + "\\n" + body
+
+    def totals(self):
+        total = 0
+        for row in self.rows:
+            if row["usage"] > 0:
+                total += row["usage"]
+        return total
+
+
+def load(path):
+    with open(path) as handle:
+        lines = handle.read().splitlines()
+    return Report([parse(line) for line in lines if line.strip()])
+
+
+def parse(line):
+    name, usage = line.split(",")
+    return {"name": name, "usage": int(usage)}
+`;
+
+const GO = `package billing
+
+import "strings"
+
+// Invoice is one billed period.
+type Invoice struct {
+	ID     string // identifier
+	Amount int
+}
+
+const endpoint = "https://billing.example.com/v1" // with // inside
+
+// Total sums the amounts.
+func Total(invoices []Invoice) int {
+	total := 0
+	for _, invoice := range invoices {
+		total += invoice.Amount
+	}
+	return total
+}
+
+func (i *Invoice) Describe() string {
+	var b strings.Builder
+	b.WriteString(i.ID)
+	b.WriteString(\`: raw // string\`)
+	return b.String()
+}
+`;
+
+async function runCodeCompressionTests() {
+  console.log('🧪 Starting Code Compression Tests...\n');
+
+  // Test 1: Comments go, strings, URLs and regexes stay
+  console.log('Test 1: Comment stripping');
+  let result = CodeCompressor.compress(TYPESCRIPT, { maxTokens: 100000, aggressiveness: 'conservative', language: 'typescript' });
+  assert(!result.text.includes('Endpoint of the billing API') && !result.text.includes('// production'), 'line comments removed');
+  assert(!result.text.includes('Build the URL') && !result.text.includes('no query string'), 'comments in bodies removed');
+  assert(result.text.includes("'https://billing.example.com/v1'") && result.text.includes('/\\/\\/ not a comment/g'), 'URL and regex kept');
+  assert(result.text.includes('`// header\n   kept as is   `'), 'template literal kept byte for byte');
+  assert(result.text.includes('/** Client for invoices */'), 'doc comments kept below aggressive');
+  assert(result.technique === 'code-syntax:typescript' && result.elidedSymbols.length === 0, 'nothing elided when conservative');
+
+  result = CodeCompressor.compress(PYTHON, { maxTokens: 100000, aggressiveness: 'conservative', language: 'python' });
+  assert(!result.text.includes('Matches a URL') && !result.text.includes('Rows come sorted') && !result.text.includes('one per line'), 'Python comments removed');
+  assert(result.text.includes('r"https?://[^\\s#]+"') && result.text.includes("}# usage\""), '# inside strings kept');
+  assert(result.text.includes('    def render(self, width=80):\n        """Render as text."""'), 'indentation kept');
+  console.log('✅ Only real comments are removed');
+
+  // Test 2: Bodies elided down to signatures when over budget
+  console.log('\nTest 2: Body elision');
+  const typescript = new TypeScriptLanguage('typescript');
+  const budget = 150;
+  result = CodeCompressor.compress(TYPESCRIPT, { maxTokens: budget, aggressiveness: 'moderate', language: 'typescript' });
+  assert(result.elidedSymbols.length > 0, 'bodies elided over budget');
+  assert(result.text.includes('private async request(url: string): Promise<string> { /*'), 'signature kept with a placeholder body');
+  assert(typescript.syntaxErrors(result.text).length === 0, `elided TypeScript parses (${typescript.syntaxErrors(result.text)})`);
+
+  const all = CodeCompressor.compress(TYPESCRIPT, { maxTokens: budget, aggressiveness: 'aggressive', language: 'typescript' });
+  assert(all.elidedSymbols.length >= result.elidedSymbols.length && !all.text.includes('/** Fetches one invoice */'), 'aggressive elides more and drops docs');
+  assert(!all.text.includes('\n\n'), 'aggressive drops blank lines');
+  assert(typescript.syntaxErrors(all.text).length === 0, 'aggressive output parses');
+  console.log(`✅ Moderate elided ${result.elidedSymbols.join(', ')}`);
+
+  // Test 3: Symbols named in the prompt keep their bodies, with what they call
+  console.log('\nTest 3: Referenced symbols');
+  result = CodeCompressor.compress(TYPESCRIPT, {
+    maxTokens: 50,
+    aggressiveness: 'aggressive',
+    language: 'typescript',
+    query: 'Why does fetchInvoice return the wrong amount?'
+  });
+  assert(result.text.includes('const response = await this.request(url);'), 'referenced body kept');
+  assert(result.text.includes('Number(data.amount)') && result.text.includes("let body = '';"), 'functions it calls kept');
+  assert(result.elidedSymbols.includes('BillingClient.summarize'), 'unrelated body elided');
+  console.log('✅ fetchInvoice and its callees kept');
+
+  // Test 4: Python, Go and JSON still parse
+  console.log('\nTest 4: Other languages');
+  const python = new PythonLanguage();
+  result = CodeCompressor.compress(PYTHON, { maxTokens: 60, aggressiveness: 'moderate', language: 'python', query: 'totals is off' });
+  assert(python.syntaxErrors(result.text).length === 0, `elided Python parses (${python.syntaxErrors(result.text)})`);
+  assert(result.text.includes('"""Render as text."""\n        ...  # '), 'docstring kept over the placeholder');
+  assert(result.text.includes('total += row["usage"]'), 'referenced method kept');
+  assert(python.syntaxErrors('def f():\nreturn 1\n').length > 0, 'bad indentation reported');
+
+  const go = new GoLanguage();
+  result = CodeCompressor.compress(GO, { maxTokens: 40, aggressiveness: 'moderate' });
+  assert(result.languages[0] === 'go' && go.syntaxErrors(result.text).length === 0, 'Go detected and parses');
+  assert(result.text.includes('"https://billing.example.com/v1"') && result.text.includes('`: raw // string`') === !result.elidedSymbols.includes('Invoice.Describe'), 'Go literals kept');
+  assert(!result.text.includes('// identifier') && result.text.includes('// Invoice is one billed period.'), 'Go doc comments kept');
+  assert(result.text.includes('func (i *Invoice) Describe() string {'), 'method signature kept');
+
+  // Balanced brackets are not enough: broken declarations and statements that run together are rejected
+  const brokenGo = [
+    'package p\n\n{\n\treturn 1\n}\n',
+    'package p\n\nfunc Total {\n\treturn 1\n}\n',
+    'package p\n\nfunc f() int {\n\treturn 0, 1 2\n}\n',
+    'package p\n\nfunc f() {\n\tx := 1 y := 2\n}\n',
+    'package p\n\nfunc a() {} func b() {}\n',
+    'package p\n\nfunc f(x bool) {\n\tif x {\n\t}\n\telse {\n\t}\n}\n',
+    'package p\n\nimport "fmt"\n\nfmt.Println("x")\n',
+    'package p\n\nvar x = 1\n\nimport "fmt"\n'
+  ];
+  for (const text of brokenGo) {
+    assert(go.syntaxErrors(text).length > 0, `broken Go rejected: ${JSON.stringify(text)}`);
+  }
+  assert(go.syntaxErrors('type Point struct {\n\tX, Y int `json:"x"`\n}\n\nfunc (p Point) Norm() int { return p.X }\n').length === 0, 'fragments without a package clause accepted');
+
+  // Comments spanning lines end statements, so stripping them must keep the line break
+  const spanning = 'package p\n\nfunc f() int {\n\tx := 1 /* first\n\tsecond */ y := 2\n\treturn x /* a */ + y\n}\n';
+  assert(go.syntaxErrors(spanning).length === 0 && go.syntaxErrors(spanning.replace(/\/\*[^]*?\*\//g, ' ')).length > 0, 'spanning comment separates statements');
+  result = CodeCompressor.compress(spanning, { maxTokens: 100000, aggressiveness: 'conservative', language: 'go' });
+  assert(result.text.includes('x := 1\n') && /return x +\+ y/.test(result.text) && go.syntaxErrors(result.text).length === 0, `stripped Go keeps its statements apart (got ${JSON.stringify(result.text)})`);
+
+  const goFragment = 'if err != nil {\n\t// give up\n\treturn err\n}\n\nfunc retry() error {\n\t// once more\n\treturn nil\n}\n';
+  const fragmentErrors = go.syntaxErrors(goFragment).length;
+  result = CodeCompressor.compress(goFragment, { maxTokens: 1, aggressiveness: 'aggressive', language: 'go' });
+  assert(fragmentErrors > 0 && go.syntaxErrors(result.text).length <= fragmentErrors && !result.text.includes('// once more'), 'no new errors on a Go fragment');
+
+  const json = JSON.stringify({ name: 'usage', rows: Array.from({ length: 40 }, (_, i) => ({ day: i + 1, tokens: i * 100 })) }, null, 2);
+  result = CodeCompressor.compress(json, { maxTokens: 60, aggressiveness: 'moderate' });
+  const parsed = JSON.parse(result.text);
+  assert(result.languages[0] === 'json' && new JsonLanguage().syntaxErrors(result.text).length === 0, 'JSON detected and parses');
+  assert(parsed.rows.length === 4 && parsed.rows[3] === '… 37 more items' && result.elidedSymbols[0] === 'rows', 'long array shortened');
+  console.log('✅ Python, Go and JSON compressed to valid code');
+
+  // Test 5: Through ContextCompression, fences and unknown code
+  console.log('\nTest 5: ContextCompression');
+  const markdown = `Look at this:\n\n\`\`\`ts\n${TYPESCRIPT}\`\`\`\n\nand this config:\n\n\`\`\`yaml\nkey: value   \n\n\n\nnested:\n  child: 1 # note\n\`\`\`\n`;
+  const compressed = ContextCompression.smartCompress(markdown, 200, { contextType: 'code', query: 'summarize' });
+  assert(compressed.technique === 'code-syntax:typescript' && compressed.language === 'typescript', `technique reported (got ${compressed.technique})`);
+  assert(compressed.compressedText.startsWith('Look at this:\n\n```ts\n') && compressed.compressedText.includes('and this config:'), 'prose kept');
+  assert(compressed.compressedText.includes('key: value\n\nnested:\n  child: 1 # note'), 'YAML indentation and comments kept');
+  assert(compressed.compressedText.includes('lines.push(`total: ${total}`);') && compressed.elidedSymbols!.length > 0, 'referenced method kept, others elided');
+  assert(compressed.compressedTokens < compressed.originalTokens, 'tokens saved');
+
+  const broken = 'function broken( {\n  // comment\n  return 1;\n}\n';
+  const unchanged = CodeCompressor.compress(broken, { maxTokens: 1, aggressiveness: 'aggressive', language: 'javascript' });
+  assert(new TypeScriptLanguage('javascript').syntaxErrors(unchanged.text).length <= new TypeScriptLanguage('javascript').syntaxErrors(broken).length, 'no new errors on broken input');
+  console.log(`✅ ${compressed.originalTokens} → ${compressed.compressedTokens} tokens`);
+
+  console.log('\n🎉 All Code Compression tests completed successfully!');
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCodeCompressionTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runCodeCompressionTests };
@@ -0,0 +1,128 @@
+/**
+ * Storage codec checks - text codecs, embedding encodings and on-disk sizes
+ */
+
+import LZString from 'lz-string';
+import { CodecRegistry } from '../storage/codecs/CodecRegistry.js';
+import { EMBEDDING_ENCODINGS, decodeEmbedding, encodeEmbedding } from '../storage/codecs/EmbeddingCodecs.js';
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { VectorCache } from '../cache/VectorCache.js';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return dot / Math.sqrt(na * nb);
+}
+
+async function runCodecTests() {
+  console.log('🧪 Starting Codec Tests...\n');
+  const dataDir = './test-data/codecs';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Text codecs
+  console.log('Test 1: Text codec round trips');
+  const text = JSON.stringify({
+    answer: 'Use useEffect para efeitos colaterais — não no render. 🚀 '.repeat(40),
+    code: 'function App() { const [n, setN] = useState(0); return <button onClick={() => setN(n + 1)}>{n}</button>; }'
+  });
+  for (const name of CodecRegistry.names()) {
+    const { codec, data } = CodecRegistry.encode(name, text);
+    assert(CodecRegistry.decode(codec, data) === text, `${name} round-trips`);
+    console.log(`   ${name.padEnd(10)} ${Buffer.byteLength(JSON.stringify(data))} bytes`);
+  }
+  assert(CodecRegistry.encode('gzip', '"short"', 256).codec === 'none', 'values under the threshold are not compressed');
+  assert(CodecRegistry.encode('gzip', JSON.stringify('x9$Kq!'), 0).codec === 'none', 'incompressible values are stored as-is');
+  console.log('✅ All codecs round-trip');
+
+  // Test 2: Embedding encodings
+  console.log('\nTest 2: Embedding encodings');
+  const vector = Array.from({ length: 384 }, (_, i) => Math.sin(i * 0.37) / 10);
+  for (const encoding of EMBEDDING_ENCODINGS) {
+    const encoded = encodeEmbedding(vector, encoding);
+    const decoded = decodeEmbedding(encoded, encoding);
+    const similarity = cosine(vector, decoded);
+    assert(decoded.length === vector.length, `${encoding} keeps the dimension count`);
+    assert(similarity > 0.999, `${encoding} keeps cosine similarity (${similarity})`);
+    console.log(`   ${encoding.padEnd(8)} ${Buffer.byteLength(JSON.stringify(encoded))} bytes, cosine ${similarity.toFixed(5)}`);
+  }
+  console.log('✅ Encodings preserve similarity');
+
+  // Test 3: Literal cache codecs and legacy entries
+  console.log('\nTest 3: Literal cache');
+  const now = Date.now();
+  const legacyValue = LZString.compress(JSON.stringify('written before codecs'));
+  await fs.mkdir(dataDir, { recursive: true });
+  await fs.writeFile(path.join(dataDir, 'cache.json'), JSON.stringify([{
+    id: 'legacy', key: 'legacy', value: legacyValue, tokens: 10, hits: 1,
+    created_at: now, last_accessed: now, expires_at: now + 60_000,
+    compressed_size: legacyValue.length, original_size: 23
+  }]));
+
+  const cache = new SimplePersistentCache({ dataDir, backend: 'json', codec: 'brotli', codecThreshold: 64 });
+  assert((await cache.get('legacy'))?.value === 'written before codecs', 'entries without a codec decode as lz-string');
+  await cache.set('large', { text }, { tokens: 500 });
+  await cache.set('small', 'ok');
+  assert(JSON.stringify((await cache.get('large'))?.value) === JSON.stringify({ text }), 'brotli values round-trip');
+
+  const stats = await cache.getStats();
+  assert(stats.codecs?.brotli === 1 && stats.codecs?.none === 1 && stats.codecs?.['lz-string'] === 1, 'stats count entries per codec');
+  assert(stats.compression_ratio < 0.5, 'ratio uses stored bytes');
+  await cache.close();
+  console.log(`✅ Codecs per entry: ${JSON.stringify(stats.codecs)}, ratio ${stats.compression_ratio.toFixed(3)}`);
+
+  // Test 4: Vector cache file size
+  console.log('\nTest 4: Vector cache on disk');
+  const sizes: Record<string, number> = {};
+  for (const [label, options] of [
+    ['json', { responseCodec: 'none', embeddingEncoding: 'json' as const }],
+    ['compact', { responseCodec: 'gzip', embeddingEncoding: 'float16' as const }]
+  ] as const) {
+    const dir = path.join(dataDir, `vector-${label}`);
+    const vectors = new VectorCache({ dataDir: dir, embeddingModel: 'local-advanced', useFaiss: false, codecThreshold: 64, ...options });
+    for (let i = 0; i < 30; i++) {
+      await vectors.store(`How do I tune database query number ${i}?`, { answer: `Add an index on column ${i}. `.repeat(20) }, 'moonshot-v1-8k', 100);
+    }
+    await new Promise(resolve => setTimeout(resolve, 300));
+    sizes[label] = (await fs.stat(path.join(dir, 'vector-cache.json'))).size;
+
+    const reopened = new VectorCache({ dataDir: dir, embeddingModel: 'local-advanced', useFaiss: false, ...options });
+    await reopened.initialize();
+    const hit = await reopened.findSimilar('How do I tune a database query number 12?', 'moonshot-v1-8k');
+    const number = hit?.entry.originalPrompt.match(/number (\d+)/)?.[1];
+    assert(!!hit && hit.similarity < 1, `${label} entries reload and serve semantic hits`);
+    assert(hit!.entry.response.answer.startsWith(`Add an index on column ${number}.`), `${label} responses decode`);
+    assert(reopened.getStats().storage.bytes_on_disk === sizes[label], 'stats report the file size');
+  }
+  // Hash embeddings are sparse, so dense model embeddings shrink far more than this
+  assert(sizes.compact < sizes.json * 0.75, 'compact encoding shrinks the file');
+  console.log(`✅ vector-cache.json: ${sizes.json} bytes as JSON, ${sizes.compact} bytes compact`);
+
+  console.log('\n🎉 All Codec tests completed successfully!');
+
+  await new Promise(resolve => setTimeout(resolve, 300));
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCodecTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runCodecTests };
@@ -0,0 +1,106 @@
+/**
+ * Conversation cache checks - canonical multi-turn keys and prefix reuse
+ */
+
+import { CacheEngine } from '../core/CacheEngine.js';
+import { ChatMessage } from '../types/index.js';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runConversationCacheTests() {
+  console.log('🧪 Starting Conversation Cache Tests...\n');
+
+  const cacheEngine = new CacheEngine({
+    dataDir: './test-data/conversation',
+    enableVectorCache: false,
+    enableHeuristics: false
+  });
+  const model = 'moonshot-v1-8k';
+
+  // Test 1: Single-turn conversations share keys with prompt/context calls
+  console.log('Test 1: Single-turn compatibility');
+  const singleTurn: ChatMessage[] = [
+    { role: 'system', content: 'You are a TypeScript expert' },
+    { role: 'user', content: 'Explain generics' }
+  ];
+  assert(
+    cacheEngine.generateConversationKey(singleTurn, model) ===
+      cacheEngine.generateCacheKey('Explain generics', 'You are a TypeScript expert', model),
+    'single-turn key equals prompt/context key'
+  );
+  console.log('✅ Single-turn messages reuse prompt/context keys');
+
+  // Test 2: Canonicalisation
+  console.log('\nTest 2: Canonical keys');
+  const turn2: ChatMessage[] = [
+    ...singleTurn,
+    { role: 'assistant', content: 'Generics let you parameterise types.' },
+    { role: 'user', content: 'Show an example' }
+  ];
+  const reformatted: ChatMessage[] = [
+    ...singleTurn,
+    { role: 'assistant', content: 'Generics let you parameterise types.   \r\n' },
+    { role: 'user', content: '  Show an example\n' }
+  ];
+  assert(
+    cacheEngine.generateConversationKey(turn2, model) === cacheEngine.generateConversationKey(reformatted, model),
+    'whitespace differences do not change the key'
+  );
+  assert(
+    cacheEngine.generateConversationKey(turn2, model) !== cacheEngine.generateConversationKey(turn2, 'gpt-4o'),
+    'model is part of the key'
+  );
+
+  const withTools = (callId: string, args: string): ChatMessage[] => [
+    { role: 'user', content: 'Weather in Lisbon?' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: callId, type: 'function', function: { name: 'get_weather', arguments: args } }]
+    },
+    { role: 'tool', tool_call_id: callId, content: '{"temp": 21}' }
+  ];
+  assert(
+    cacheEngine.generateConversationKey(withTools('call_abc', '{"city":"Lisbon","unit":"c"}'), model) ===
+      cacheEngine.generateConversationKey(withTools('call_xyz', '{"unit": "c", "city": "Lisbon"}'), model),
+    'tool-call ids and argument key order do not change the key'
+  );
+  console.log('✅ Whitespace, tool-call ids and argument order are canonicalised');
+
+  // Test 3: Prefix reuse across turns
+  console.log('\nTest 3: Prefix reuse');
+  await cacheEngine.setConversation(singleTurn, 'Generics let you parameterise types.', { model, tokens: 40 });
+  const info = await cacheEngine.inspectConversation(turn2, model);
+  assert(info.turns === 2, 'second turn is reported');
+  assert(info.cached_prefix_turns === 1, 'first turn is found as cached prefix');
+  assert(await cacheEngine.getConversation(turn2, model) === null, 'second turn is a miss before storing');
+
+  await cacheEngine.setConversation(turn2, 'const id = <T>(x: T) => x;', { model, tokens: 60 });
+  const hit = await cacheEngine.getConversation(reformatted, model);
+  assert(hit?.value === 'const id = <T>(x: T) => x;', 'reformatted replay hits the cached turn');
+  assert(hit?.conversation?.cached_prefix_turns === 1, 'hit reports the cached prefix');
+  console.log('✅ Turn N finds turn N-1 as cached prefix and replays hit');
+
+  console.log('\n🎉 All Conversation Cache tests completed successfully!');
+
+  // Cleanup
+  await cacheEngine.close();
+  await fs.rm('./test-data/conversation', { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runConversationCacheTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runConversationCacheTests };
@@ -0,0 +1,195 @@
+/**
+ * Conversation memory checks - older turns summarised once over budget,
+ * summaries reused and rolled forward, local model with extractive fallback
+ */
+
+import { ConversationMemory } from '../services/ConversationMemory.js';
+import { ExtractiveSummarizer } from '../services/ConversationSummarizers.js';
+import { LocalModelManager } from '../providers/LocalModelManager.js';
+import { NamespaceManager } from '../core/NamespaceManager.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import { ChatMessage } from '../types/index.js';
+import OpenAI from 'openai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const TOPICS = ['invoices', 'webhooks', 'retries', 'caching', 'quotas', 'tenants', 'exports', 'alerts', 'backups', 'audits', 'search', 'billing'];
+
+/**
+ * A system prompt and one user/assistant pair per topic, oldest first
+ */
+function conversation(turns: number): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'system', content: 'You are a careful platform engineer.' }];
+  for (const topic of TOPICS.slice(0, turns)) {
+    messages.push({ role: 'user', content: `How should we handle ${topic}? Keep in mind the ${topic} service is shared by every tenant and was rewritten last quarter.` });
+    messages.push({
+      role: 'assistant',
+      content: `For ${topic}, start with an idempotent worker. Store each ${topic} record with a version so retries are safe. ` +
+        `Then add metrics for ${topic} latency and failures, and alert when the error rate passes two percent for ten minutes.`
+    });
+  }
+  return messages;
+}
+
+function localModels(baseUrl: string): LocalModelManager {
+  return {
+    getAvailableModels: () => [{ modelId: 'tiny-summarizer', baseUrl, contextLength: 4096 }],
+    checkModelHealth: async () => true
+  } as unknown as LocalModelManager;
+}
+
+async function runConversationMemoryTests() {
+  console.log('🧪 Starting Conversation Memory Tests...\n');
+  const dataDir = './test-data/memory';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Extractive summaries
+  console.log('Test 1: Extractive summarizer');
+  const extractive = new ExtractiveSummarizer();
+  const lines = (await extractive.summarize({ previous: null, messages: conversation(3).slice(1), maxTokens: 1000 })).split('\n');
+  assert(lines.length === 6 && lines[0].startsWith('user: How should we handle invoices?'), 'one line per message');
+  const tight = await extractive.summarize({ previous: 'user: earlier question', messages: conversation(6).slice(1), maxTokens: 120 });
+  const kept = tight.split('\n');
+  assert(kept.filter(line => line.startsWith('user:')).length > 1 && tight.includes('How should we handle tenants?'), 'user lines outlive assistant lines');
+  assert(kept.filter(line => line.startsWith('assistant:')).length === 1 && kept[kept.length - 1].startsWith('assistant: For tenants'), 'only the newest assistant line kept');
+  assert(!tight.includes('earlier question'), 'oldest user lines go last');
+  const code = await extractive.summarize({ previous: null, messages: [{ role: 'assistant', content: 'Run this:\n```sh\nrm -rf build\n```\nthen rebuild.' }], maxTokens: 100 });
+  assert(code === 'assistant: Run this: [code] then rebuild.', `code blocks collapsed (got ${code})`);
+  console.log('✅ Lines kept by role within the budget');
+
+  // Test 2: Under budget nothing changes
+  console.log('\nTest 2: Short conversations');
+  const memory = new ConversationMemory({ dataDir, maxTokens: 400 });
+  const short = await memory.prepare(conversation(2), 'gpt-4o-mini');
+  assert(short.summarizedMessages === 0 && short.messages.length === 5, 'sent as is');
+  console.log(`✅ ${short.tokens} tokens sent unchanged`);
+
+  // Test 3: Over budget the older turns are summarised
+  console.log('\nTest 3: Summarising');
+  const long = conversation(8);
+  const first = await memory.prepare(long, 'gpt-4o-mini');
+  assert(first.originalTokens > 400 && first.tokens <= 400, `within budget (${first.originalTokens} → ${first.tokens})`);
+  assert(first.summarizer === 'extractive' && !first.cached && first.summarizedMessages > 0, 'summarised by the fallback');
+  assert(first.messages[0].role === 'system' && (first.messages[0].content as string).startsWith('You are a careful platform engineer.'), 'system prompt kept');
+  assert((first.messages[0].content as string).includes(`Summary of the earlier conversation (${first.summarizedMessages} messages)`), 'summary appended to it');
+  assert(first.messages[1].role === 'user', 'recent turns start at a user message');
+  assert(first.messages[first.messages.length - 1] === long[long.length - 1], 'latest message verbatim');
+  assert(memory.size === 1, 'summary stored');
+  console.log(`✅ ${first.summarizedMessages} messages summarised, ${first.originalTokens} → ${first.tokens} tokens`);
+
+  // Test 4: The next turn reuses the summary, then rolls it forward
+  console.log('\nTest 4: Rolling memory');
+  const next = await memory.prepare(conversation(9), 'gpt-4o-mini');
+  assert(next.cached && next.summarizedMessages === first.summarizedMessages && next.tokens <= 400, 'summary reused while the rest fits');
+  const later = await memory.prepare(conversation(12), 'gpt-4o-mini');
+  assert(!later.cached && later.summarizedMessages > first.summarizedMessages && later.tokens <= 400, 'new summary covers more turns');
+  const newest = TOPICS[later.summarizedMessages / 2 - 1];
+  assert(later.summary!.includes(`How should we handle ${newest}?`), 'turns since the last summary folded in');
+  assert(memory.size === 2, 'one summary per prefix');
+  console.log(`✅ Reused for the next turn, rolled to ${later.summarizedMessages} messages later`);
+
+  // Test 5: Summaries survive a restart
+  console.log('\nTest 5: Persistence');
+  await memory.close();
+  const reopened = new ConversationMemory({ dataDir, maxTokens: 400 });
+  const restored = await reopened.prepare(conversation(12), 'gpt-4o-mini');
+  assert(restored.cached && restored.summary === later.summary, 'summary loaded from disk');
+  const other = await reopened.prepare([{ role: 'system', content: 'Different assistant.' }, ...conversation(8).slice(1)], 'gpt-4o-mini');
+  assert(!other.cached, 'another conversation gets its own summary');
+  await reopened.close();
+  console.log('✅ Stored summaries reused after reopening');
+
+  // Test 6: Local model first, extractive fallback when it is down
+  console.log('\nTest 6: Local model');
+  const prompts: string[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      prompts.push(JSON.parse(body).messages[1].content);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { content: 'The user is designing idempotent workers with metrics and alerts.' } }] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const withModel = new ConversationMemory({ dataDir: `${dataDir}/local`, maxTokens: 400, localModels: localModels(baseUrl) });
+  const abstractive = await withModel.prepare(long, 'gpt-4o-mini');
+  assert(abstractive.summarizer === 'local-model' && abstractive.summary === 'The user is designing idempotent workers with metrics and alerts.', 'local model summary used');
+  assert(prompts.length === 1 && prompts[0].includes('New messages:\nuser: How should we handle invoices?'), 'transcript sent to the local model');
+  await withModel.prepare(conversation(12), 'gpt-4o-mini');
+  assert(prompts.length === 2 && prompts[1].startsWith('Summary so far:\nThe user is designing'), 'previous summary folded into the next one');
+  await withModel.close();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+
+  const modelDown = new ConversationMemory({ dataDir: `${dataDir}/down`, maxTokens: 400, localModels: localModels(baseUrl) });
+  const fallback = await modelDown.prepare(long, 'gpt-4o-mini');
+  assert(fallback.summarizer === 'extractive' && fallback.tokens <= 400, 'extractive fallback when the model fails');
+  await modelDown.close();
+  console.log('✅ Local model summary, extractive when unreachable');
+
+  // Test 7: Handlers send the summary upstream and cache the full conversation
+  console.log('\nTest 7: Chat handler');
+  const sent: ChatMessage[][] = [];
+  const fakeOpenAI = {
+    chat: {
+      completions: {
+        create: async (request: any) => {
+          sent.push(request.messages);
+          return { choices: [{ message: { content: 'Use a dead letter queue.' } }], usage: { total_tokens: 60 } };
+        }
+      }
+    }
+  } as unknown as OpenAI;
+  const manager = new NamespaceManager({
+    cache: { dataDir: `${dataDir}/handlers`, enableVectorCache: false, enableHeuristics: false, maxMemoryMB: 100 },
+    memory: { maxTokens: 400 }
+  });
+  const namespace = manager.get();
+  const handlers = new MCPHandlers(
+    namespace.cacheEngine,
+    new ModelOptimizer(),
+    namespace.templateEngine,
+    namespace.metricsCollector,
+    new LLMProviderFactory(),
+    fakeOpenAI,
+    undefined,
+    namespace.budget,
+    namespace.memory
+  );
+  const chat = async (args: any) => JSON.parse((await handlers.handleSmartMoonshotChat(args)).content[0].text);
+
+  const asked: ChatMessage[] = [...long, { role: 'user', content: 'What about poison messages?' }];
+  const reply = await chat({ messages: asked, force_cache: true });
+  assert(reply.memory?.summarized_messages > 0 && reply.memory.tokens_after <= 400, 'memory reported');
+  assert(sent[0].length < asked.length && sent[0][sent[0].length - 1].content === 'What about poison messages?', 'summary plus recent turns sent');
+  const repeat = await chat({ messages: asked });
+  assert(repeat.cached === true && sent.length === 1, 'full conversation is the cache key');
+  await manager.close();
+  console.log(`✅ ${sent[0].length} of ${asked.length} messages sent upstream`);
+
+  await fs.rm(dataDir, { recursive: true, force: true });
+  console.log('\n🎉 All Conversation Memory tests completed successfully!');
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runConversationMemoryTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runConversationMemoryTests };
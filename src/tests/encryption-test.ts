@@ -0,0 +1,177 @@
+/**
+ * Encryption at rest checks - AES-GCM values, HMAC keys, legacy plaintext and key rotation
+ */
+
+import { ValueCipher } from '../storage/encryption/ValueCipher.js';
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { VectorCache } from '../cache/VectorCache.js';
+import { CacheEngine } from '../core/CacheEngine.js';
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function expectError(fn: () => unknown, fragment: string): void {
+  try {
+    fn();
+  } catch (error) {
+    assert((error as Error).message.includes(fragment), `expected "${fragment}", got "${(error as Error).message}"`);
+    return;
+  }
+  throw new Error(`Assertion failed: expected an error containing "${fragment}"`);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function readDir(dir: string): Promise<string> {
+  const files = await fs.readdir(dir);
+  const contents = await Promise.all(files.map(file => fs.readFile(path.join(dir, file), 'latin1')));
+  return contents.join('\n');
+}
+
+async function runEncryptionTests() {
+  console.log('🧪 Starting Encryption Tests...\n');
+  const dataDir = './test-data/encryption';
+  await fs.rm(dataDir, { recursive: true, force: true });
+  const oldKey = crypto.randomBytes(32).toString('base64');
+  const newKey = crypto.randomBytes(32).toString('hex');
+  const secretCode = 'function chargeCustomer(acmeCorpInternalId) { return ledger.debit(acmeCorpInternalId); }';
+
+  // Test 1: Cipher round trips and failures
+  console.log('Test 1: ValueCipher');
+  const cipher = new ValueCipher({ keys: [oldKey] });
+  const sealed = cipher.encrypt(secretCode);
+  assert(sealed.startsWith(`enc:v1:${cipher.currentKeyId}:`) && !sealed.includes('acmeCorp'), 'self-describing ciphertext');
+  assert(cipher.encrypt(secretCode) !== sealed, 'fresh IV per value');
+  assert(cipher.decrypt(sealed) === secretCode && cipher.decrypt('"plain"') === '"plain"', 'decrypts, plaintext passes through');
+  const tampered = sealed.slice(0, -4) + (sealed.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+  expectError(() => cipher.decrypt(tampered), 'authenticate');
+  expectError(() => new ValueCipher({ keys: [newKey] }).decrypt(sealed), 'unknown key');
+  expectError(() => new ValueCipher({ keys: ['too-short'] }), '32 bytes');
+
+  await fs.mkdir(dataDir, { recursive: true });
+  const keyFile = path.join(dataDir, 'keys.txt');
+  await fs.writeFile(keyFile, `# current first\n${newKey}\n${oldKey}\n`);
+  const fromEnv = ValueCipher.fromEnv({ CACHE_ENCRYPTION_KEY_FILE: keyFile, CACHE_ENCRYPT_KEYS: 'true' })!;
+  assert(fromEnv.keyIds.length === 2 && fromEnv.encryptKeys && fromEnv.decrypt(sealed) === secretCode, 'key file with previous key');
+  assert(ValueCipher.fromEnv({}) === null, 'no key, no encryption');
+  console.log(`✅ AES-256-GCM with key ${cipher.currentKeyId}`);
+
+  // Test 2: Literal cache reads pre-existing plaintext and writes ciphertext
+  console.log('\nTest 2: Literal cache, JSON backend');
+  const jsonDir = path.join(dataDir, 'json');
+  const plain = new SimplePersistentCache({ dataDir: jsonDir, backend: 'json', codec: 'none', cipher: null });
+  await plain.set('legacy', secretCode, { tokens: 40 });
+  await plain.close();
+
+  const encrypted = new SimplePersistentCache({ dataDir: jsonDir, backend: 'json', codec: 'gzip', codecThreshold: 0, cipher });
+  assert((await encrypted.get('legacy'))?.value === secretCode, 'unencrypted entries still read');
+  await encrypted.set('fresh', { code: secretCode, notes: 'ledger entry '.repeat(50) }, { tokens: 40 });
+  assert((await encrypted.get('fresh'))?.value.code === secretCode, 'encrypted entries read back');
+  await encrypted.close();
+  const jsonFile = await fs.readFile(path.join(jsonDir, 'cache.json'), 'utf-8');
+  const freshEntry = JSON.parse(jsonFile).data.find((entry: any) => entry.key === 'fresh');
+  assert(ValueCipher.keyIdOf(freshEntry.value) === cipher.currentKeyId && freshEntry.codec === 'gzip', 'compressed, then encrypted');
+
+  const withoutKey = new SimplePersistentCache({ dataDir: jsonDir, backend: 'json', cipher: null });
+  assert(await withoutKey.get('fresh') === null && (await withoutKey.get('legacy'))?.value === secretCode, 'encrypted entries unreadable without the key');
+  await withoutKey.close();
+  console.log('✅ Legacy plaintext served, new values encrypted');
+
+  // Test 3: Encrypted keys on SQLite
+  console.log('\nTest 3: HMAC keys, SQLite backend');
+  const sqliteDir = path.join(dataDir, 'sqlite');
+  const keyCipher = new ValueCipher({ keys: [oldKey], encryptKeys: true });
+  const sqlite = new SimplePersistentCache({ dataDir: sqliteDir, backend: 'sqlite', cipher: keyCipher });
+  await sqlite.set('prompt-key-1234', secretCode, { tokens: 40, tags: ['billing'] });
+  assert((await sqlite.get('prompt-key-1234'))?.value === secretCode, 'lookup through the HMAC');
+  assert((await sqlite.peek('prompt-key-1234'))?.key === 'prompt-key-1234', 'original key restored for callers');
+  assert((await sqlite.getByTags(['billing']))[0].key === 'prompt-key-1234', 'tag lookups report original keys');
+  await sqlite.close();
+  const dbContents = await readDir(sqliteDir);
+  assert(!dbContents.includes('prompt-key-1234') && !dbContents.includes('acmeCorp'), 'neither key nor value in the database files');
+  console.log('✅ Keys stored as HMACs, values encrypted');
+
+  // Test 4: Key rotation
+  console.log('\nTest 4: Rotation');
+  const rotating = new ValueCipher({ keys: [newKey, oldKey], encryptKeys: true });
+  const rotated = new SimplePersistentCache({ dataDir: sqliteDir, backend: 'sqlite', cipher: rotating });
+  assert((await rotated.get('prompt-key-1234'))?.value === secretCode, 'previous key still decrypts');
+  const result = await rotated.reencrypt();
+  assert(result.reencrypted === 1 && result.failed === 0 && result.key_id === rotating.currentKeyId, 'entry rewritten');
+  assert((await rotated.reencrypt()).unchanged === 1, 'second run has nothing to do');
+  await rotated.close();
+
+  const newOnly = new SimplePersistentCache({ dataDir: sqliteDir, backend: 'sqlite', cipher: new ValueCipher({ keys: [newKey], encryptKeys: true }) });
+  assert((await newOnly.get('prompt-key-1234'))?.value === secretCode, 'readable once the old key is dropped');
+  await newOnly.close();
+
+  const jsonRotation = new SimplePersistentCache({ dataDir: jsonDir, backend: 'json', cipher: new ValueCipher({ keys: [newKey, oldKey] }) });
+  assert((await jsonRotation.reencrypt()).reencrypted === 2, 'plaintext and old-key entries rewritten');
+  await jsonRotation.close();
+  const jsonFiles = await readDir(jsonDir);
+  assert(!jsonFiles.includes('acmeCorp') && !jsonFiles.includes(`enc:v1:${cipher.currentKeyId}`), 'snapshot backup holds no plaintext or old-key data');
+  console.log(`✅ Rotated to key ${rotating.currentKeyId}`);
+
+  // Test 5: Vector cache prompts and responses
+  console.log('\nTest 5: Vector cache');
+  const vectorDir = path.join(dataDir, 'vector');
+  const vectorOptions = { dataDir: vectorDir, embeddingModel: 'local-advanced', useFaiss: false, codecThreshold: 0 };
+  const vectors = new VectorCache({ ...vectorOptions, cipher });
+  await vectors.store('How do I charge acmeCorp customers?', { code: secretCode }, 'moonshot-v1-8k', 100);
+  await delay(300);
+  let vectorFiles = await readDir(vectorDir);
+  assert(!vectorFiles.includes('acmeCorp') && !vectorFiles.includes(oldKey), 'prompts, responses and keys absent from disk');
+
+  const reopened = new VectorCache({ ...vectorOptions, cipher: new ValueCipher({ keys: [newKey, oldKey] }) });
+  await reopened.initialize();
+  const hit = await reopened.findSimilar('How do I charge acmeCorp customers?', 'moonshot-v1-8k');
+  assert(hit?.entry.response.code === secretCode, 'decrypted on load');
+  assert((await reopened.reencrypt()).reencrypted === 1, 'vector entries rewritten');
+  vectorFiles = await readDir(vectorDir);
+  assert(!vectorFiles.includes(`enc:v1:${cipher.currentKeyId}`), 'vector files use the new key only');
+
+  const noKey = new VectorCache({ ...vectorOptions, cipher: null });
+  await noKey.initialize();
+  assert(noKey.getStats().total_entries === 0, 'encrypted entries skipped without the key');
+  console.log('✅ Vector cache encrypted on disk and rotated');
+
+  // Test 6: CacheEngine wiring
+  console.log('\nTest 6: CacheEngine');
+  const engine = new CacheEngine({
+    dataDir: path.join(dataDir, 'engine'),
+    enableHeuristics: false,
+    encryption: { keys: [newKey] },
+    vectorCacheOptions: { embeddingModel: 'local-advanced', useFaiss: false }
+  });
+  await engine.set('Explain the acmeCorp ledger', secretCode, { tokens: 40 });
+  assert((await engine.get('Explain the acmeCorp ledger'))?.value === secretCode, 'engine reads its encrypted entries');
+  const rotation = await engine.reencrypt();
+  assert(rotation.literal.unchanged === 1 && rotation.vector?.reencrypted === 1, 'both caches re-encrypted');
+  await engine.close();
+  await delay(300);
+  assert(!(await readDir(path.join(dataDir, 'engine'))).includes('acmeCorp'), 'nothing readable on disk');
+  console.log('✅ Both caches encrypted through CacheEngine');
+
+  console.log('\n🎉 All Encryption tests completed successfully!');
+
+  await delay(300);
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runEncryptionTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runEncryptionTests };
@@ -0,0 +1,157 @@
+/**
+ * Eviction policy checks - LRU, LFU, W-TinyLFU and cost-aware cleanup
+ */
+
+import { EvictionCandidate, selectVictims } from '../cache/eviction/EvictionPolicy.js';
+import { EvictionPolicyFactory } from '../cache/eviction/EvictionPolicyFactory.js';
+import { TinyLFUPolicy } from '../cache/eviction/TinyLFUPolicy.js';
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { CacheEngine } from '../core/CacheEngine.js';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function candidate(key: string, fields: Partial<EvictionCandidate> = {}): EvictionCandidate {
+  return { key, size: 1000, tokens: 100, hits: 1, created_at: 0, last_accessed: 0, ...fields };
+}
+
+async function runEvictionPolicyTests() {
+  console.log('🧪 Starting Eviction Policy Tests...\n');
+  const dataDir = './test-data/eviction';
+  await fs.rm(dataDir, { recursive: true, force: true });
+  const now = Date.now();
+  const optimizer = new ModelOptimizer();
+  const costOf = (model: string | undefined, tokens: number) => optimizer.estimateCost(model, tokens);
+
+  // Test 1: LRU and LFU ordering
+  console.log('Test 1: LRU and LFU');
+  const entries = [
+    candidate('old-popular', { last_accessed: now - 5000, hits: 20 }),
+    candidate('recent-rare', { last_accessed: now - 100, hits: 1 }),
+    candidate('middle', { last_accessed: now - 1000, hits: 5 })
+  ];
+  const lru = EvictionPolicyFactory.create('lru');
+  const lfu = EvictionPolicyFactory.create('lfu');
+  assert(selectVictims(lru, entries, { count: 1 }, now)[0].key === 'old-popular', 'LRU evicts the oldest access');
+  assert(selectVictims(lfu, entries, { count: 1 }, now)[0].key === 'recent-rare', 'LFU evicts the fewest hits');
+  assert(selectVictims(lru, entries, { bytes: 1500 }, now).length === 2, 'byte target met with whole entries');
+  let unknown = '';
+  try {
+    EvictionPolicyFactory.create('random');
+  } catch (error) {
+    unknown = (error as Error).message;
+  }
+  assert(unknown.includes('Unknown eviction policy'), 'unknown policy rejected');
+  console.log('✅ LRU and LFU order candidates as expected');
+
+  // Test 2: W-TinyLFU keeps frequent entries through a burst of one-offs
+  console.log('\nTest 2: W-TinyLFU');
+  const tinyLfu = new TinyLFUPolicy({ windowRatio: 0.1 });
+  const burst: EvictionCandidate[] = [];
+  for (let i = 0; i < 5; i++) {
+    for (let hit = 0; hit < 6; hit++) tinyLfu.recordAccess(`hot-${i}`);
+    burst.push(candidate(`hot-${i}`, { last_accessed: now - 10_000 }));
+  }
+  for (let i = 0; i < 45; i++) {
+    tinyLfu.recordAccess(`scan-${i}`);
+    burst.push(candidate(`scan-${i}`, { last_accessed: now - 45 + i }));
+  }
+  assert(tinyLfu.frequency('hot-0') === 6 && tinyLfu.frequency('scan-0') === 1, 'sketch estimates frequencies');
+  const evicted = selectVictims(tinyLfu, burst, { count: 40 }, now).map(v => v.key);
+  assert(evicted.every(key => key.startsWith('scan-')), 'frequent entries survive');
+  assert(!evicted.includes('scan-44'), 'most recent entries are protected by the window');
+  const lruEvicted = selectVictims(lru, burst, { count: 40 }, now).map(v => v.key);
+  assert(lruEvicted.includes('hot-0'), 'LRU would have dropped them');
+  console.log('✅ 40 scan entries evicted, 5 hot entries kept');
+
+  // Test 3: Cost-aware keeps the entries saving the most per byte
+  console.log('\nTest 3: Cost-aware ranking');
+  const costAware = EvictionPolicyFactory.create('cost-aware', { costOf });
+  const priced = [
+    candidate('opus-small', { model: 'claude-3-opus', size: 2000, tokens: 500, last_accessed: now }),
+    candidate('moonshot-large', { model: 'moonshot-v1-8k', size: 50_000, tokens: 500, last_accessed: now }),
+    candidate('local', { model: 'gemma-2-2b-it', size: 500, tokens: 500, last_accessed: now }),
+    candidate('moonshot-popular', { model: 'moonshot-v1-8k', size: 50_000, tokens: 500, hits: 40, last_accessed: now })
+  ];
+  const order = costAware.rank(priced, now).map(c => c.key);
+  assert(order[0] === 'local' && order[1] === 'moonshot-large', `free and cheap-per-byte entries go first (got ${order.join(', ')})`);
+  assert(order[order.length - 1] === 'opus-small', 'expensive small entry kept longest');
+  const decayed = costAware.rank([
+    candidate('fresh', { hits: 2, last_accessed: now }),
+    candidate('idle', { hits: 40, last_accessed: now - 7 * 86_400_000 })
+  ], now);
+  assert(decayed[0].key === 'idle', 'hits of long idle entries decay');
+  console.log(`✅ Eviction order: ${order.join(' → ')}`);
+
+  // Test 4: Literal store cleanup under maxMemoryMB
+  console.log('\nTest 4: SimplePersistentCache cleanup');
+  const store = new SimplePersistentCache({
+    dataDir: `${dataDir}/literal`,
+    backend: 'sqlite',
+    codec: 'none',
+    maxMemoryMB: 2000 / 1024 / 1024,
+    evictionPolicy: EvictionPolicyFactory.create('cost-aware', { costOf })
+  });
+  const answer = 'x'.repeat(900);
+  await store.set('gpt4', answer, { tokens: 800, model: 'gpt-4o' });
+  await store.set('opus', answer, { tokens: 800, model: 'claude-3-opus' });
+  await store.set('moonshot', answer, { tokens: 800, model: 'moonshot-v1-8k' });
+  await store.set('local', answer, { tokens: 800, model: 'phi-3-mini-4k-instruct' });
+  const result = await store.cleanup();
+  assert(result.removed === 2, `two entries evicted to fit (got ${result.removed})`);
+  assert(!(await store.has('local')) && !(await store.has('moonshot')), 'cheapest answers evicted');
+  assert(await store.has('opus') && await store.has('gpt4'), 'expensive answers kept');
+  const stats = await store.getStats();
+  assert(stats.eviction!.policy === 'cost-aware' && stats.eviction!.evicted === 2, 'eviction reported in stats');
+  await store.close();
+  console.log('✅ Cost-aware cleanup kept the expensive answers');
+
+  // Test 5: Vector cache uses the configured policy
+  console.log('\nTest 5: CacheEngine evictionPolicy');
+  const cacheEngine = new CacheEngine({
+    dataDir: `${dataDir}/engine`,
+    enableHeuristics: false,
+    evictionPolicy: 'lfu',
+    vectorCacheOptions: { maxEntries: 5, embeddingModel: 'local-advanced', useFaiss: false }
+  });
+  const prompts = ['Explain closures', 'Explain promises', 'Explain generators', 'Explain proxies', 'Explain symbols'];
+  for (const prompt of prompts) {
+    await cacheEngine.set(prompt, `${prompt}: answer`, { tokens: 50 });
+  }
+  for (const prompt of prompts.slice(1)) {
+    await cacheEngine.get(`${prompt.toLowerCase()}?`);
+  }
+  await cacheEngine.set('Explain iterators', 'answer', { tokens: 50 });
+  const engineStats = await cacheEngine.getStats();
+  assert(engineStats.vector_cache.eviction.policy === 'lfu' && engineStats.vector_cache.eviction.evicted === 1, 'vector eviction reported');
+  assert(engineStats.eviction!.policy === 'lfu', 'literal store uses the same policy');
+  // Hash embeddings make these prompts near neighbours, so check which entry answers
+  assert((await cacheEngine.get('explain closures?'))?.value !== 'Explain closures: answer', 'least used vector entry evicted');
+  assert((await cacheEngine.get('explain promises?'))?.value === 'Explain promises: answer', 'used entries kept');
+  console.log('✅ LFU applied to the vector cache');
+
+  console.log('\n🎉 All Eviction Policy tests completed successfully!');
+
+  await cacheEngine.close();
+  await delay(300);
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runEvictionPolicyTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runEvictionPolicyTests };
@@ -0,0 +1,153 @@
+/**
+ * Model catalog checks - one price per model across modules, effective dates, validation and hot reload
+ */
+
+import { ModelCatalog, ModelCatalogFile } from '../catalog/ModelCatalog.js';
+import { TokenCostIntegration } from '../optimization/TokenCostIntegration.js';
+import { SmartRouter } from '../optimization/SmartRouter.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (condition()) return true;
+    await delay(50);
+  }
+  return condition();
+}
+
+async function runModelCatalogTests() {
+  console.log('🧪 Starting Model Catalog Tests...\n');
+  const dataDir = './test-data/catalog';
+  await fs.rm(dataDir, { recursive: true, force: true });
+  await fs.mkdir(dataDir, { recursive: true });
+
+  const defaults: ModelCatalogFile = JSON.parse(await fs.readFile(ModelCatalog.DEFAULT_FILE, 'utf-8'));
+  ModelCatalog.setShared(new ModelCatalog(defaults));
+
+  // Test 1: Every module prices a model the same way
+  console.log('Test 1: Single source of prices');
+  const factory = new LLMProviderFactory();
+  const optimizer = new ModelOptimizer();
+  const fromFactory = factory.getProviderConfig('gpt-4o')!.model;
+  const fromOptimizer = optimizer.getModelComparison().find(model => model.name === 'GPT-4o')!;
+  const fromTokenCost = TokenCostIntegration.getAllModels().find(model => model.name === 'gpt-4o')!;
+  for (const pricing of [fromFactory, fromOptimizer, fromTokenCost]) {
+    assert(pricing.inputCostPer1M === 2.5 && pricing.outputCostPer1M === 10, 'gpt-4o at the catalog price');
+    assert(pricing.contextWindow === 128000 && pricing.cachedInputCostPer1M === 1.25, 'context window and cached input price');
+  }
+  const million = TokenCostIntegration.estimateCost('gpt-4o', 1_000_000, 1_000_000);
+  assert(million.totalCost === 12.5 && close(optimizer.estimateCost('gpt-4o', 1_000_000), 0.7 * 2.5 + 0.3 * 10), 'same price in every estimate');
+  assert(factory.getAllModels().length === TokenCostIntegration.getAllModels().length, 'factory and TokenCost list the same models');
+  assert(TokenCostIntegration.hasModel('claude-3-haiku-20240307') && factory.getProviderConfig('claude-3-haiku') !== null, 'aliases resolve');
+  console.log(`✅ ${factory.getAllModels().length} models priced from catalog ${ModelCatalog.shared().revision}`);
+
+  // Test 2: Effective dates and cached input
+  console.log('\nTest 2: Effective dates');
+  const catalog = ModelCatalog.shared();
+  assert(catalog.get('gpt-4o', new Date('2024-06-01'))!.price.input_per_1m === 5, 'launch price before the cut');
+  assert(catalog.get('gpt-4o', new Date('2024-10-02'))!.price.input_per_1m === 2.5, 'new price from its effective date');
+  assert(catalog.get('gpt-4o-mini', new Date('2024-01-01')) === undefined, 'not priced before release');
+  assert(catalog.priceHistory('gpt-4o').length === 2, 'price history kept');
+  const cached = TokenCostIntegration.estimateCost('gpt-4o', 1_000_000, 0, 800_000);
+  assert(cached.cachedInputCost === 1 && cached.inputCost === 1.5 && cached.effectiveFrom === '2024-10-02', 'cached input billed at its rate');
+  assert(TokenCostIntegration.estimateCost('moonshot-v1-8k', 1_000_000, 0, 1_000_000).totalCost === 0.15, 'cached rate defaults to input rate');
+  console.log('✅ Prices resolved by date');
+
+  // Test 3: Validation
+  console.log('\nTest 3: Validation');
+  const expectParseError = (content: unknown, fragment: string) => {
+    try {
+      ModelCatalog.parse(typeof content === 'string' ? content : JSON.stringify(content));
+    } catch (error) {
+      assert((error as Error).message.includes(fragment), `expected "${fragment}", got "${(error as Error).message}"`);
+      return;
+    }
+    throw new Error(`Assertion failed: expected a parse error containing "${fragment}"`);
+  };
+  const withModel = (changes: object) => ({ ...defaults, models: [...defaults.models, { ...defaults.models[0], id: 'extra', ...changes }] });
+  expectParseError('{"models": []}', 'format marker');
+  expectParseError({ ...defaults, version: ModelCatalog.VERSION + 1 }, 'Unsupported model catalog version');
+  expectParseError(withModel({ provider: 'acme' }), 'unknown provider acme');
+  expectParseError(withModel({ aliases: ['gpt-4o'] }), 'gpt-4o is listed twice');
+  expectParseError(withModel({ prices: [{ effective_from: 'soon', input_per_1m: 1, output_per_1m: 1 }] }), 'invalid effective_from');
+  expectParseError(withModel({ prices: [{ effective_from: '2025-01-01', input_per_1m: -1, output_per_1m: 1 }] }), 'invalid price');
+  console.log('✅ Malformed catalogs rejected');
+
+  // Test 4: Hot reload
+  console.log('\nTest 4: Hot reload');
+  const file = path.join(dataDir, 'models.json');
+  const write = (content: object) => fs.writeFile(file, JSON.stringify(content, null, 2));
+  await write(defaults);
+  const watched = ModelCatalog.load(file).watch(20);
+  ModelCatalog.setShared(watched);
+
+  const repriced = {
+    ...defaults,
+    revision: 'finance-update',
+    models: defaults.models
+      .filter(model => model.id !== 'moonshot-v1-32k')
+      .map(model => model.id === 'gpt-4o'
+        ? { ...model, prices: [...model.prices, { effective_from: '2025-01-01', input_per_1m: 2, output_per_1m: 8 }] }
+        : model)
+  };
+  await write(repriced);
+  assert(await waitFor(() => watched.revision === 'finance-update'), 'file change picked up');
+  assert(factory.getProviderConfig('gpt-4o')!.model.inputCostPer1M === 2, 'factory sees the new price');
+  assert(optimizer.getModelComparison().find(model => model.name === 'GPT-4o')!.outputCostPer1M === 8, 'optimizer sees the new price');
+  assert(TokenCostIntegration.estimateCost('gpt-4o', 1_000_000, 0).totalCost === 2, 'TokenCost sees the new price');
+  assert(!factory.getAllModels().some(model => model.name === 'moonshot-v1-32k'), 'removed model gone');
+
+  const routing = new SmartRouter().route('Review this function for bugs', 'function add(a, b) { return a - b; }', { taskType: 'coding' });
+  assert(![routing.model, ...routing.alternatives.map(alt => alt.model)].includes('moonshot-v1-32k'), 'router skips removed models');
+
+  await fs.writeFile(file, '{"format": "mcp-model-catalog", "version": 1,');
+  await delay(300);
+  assert(watched.revision === 'finance-update' && TokenCostIntegration.hasModel('gpt-4o'), 'invalid file ignored, previous content kept');
+  console.log(`✅ Reloaded to revision ${watched.revision}`);
+
+  // Test 5: A scheduled price takes effect on its date
+  console.log('\nTest 5: Scheduled price');
+  const switchAt = new Date(Date.now() + 400).toISOString();
+  ModelCatalog.setShared(new ModelCatalog({
+    ...defaults,
+    models: defaults.models.map(model => model.id === 'moonshot-v1-8k'
+      ? { ...model, prices: [...model.prices, { effective_from: switchAt, input_per_1m: 0.1, output_per_1m: 2 }] }
+      : model)
+  }));
+  assert(factory.getProviderConfig('moonshot-v1-8k')!.model.inputCostPer1M === 0.15, 'current price until the switch');
+  await delay(500);
+  assert(factory.getProviderConfig('moonshot-v1-8k')!.model.inputCostPer1M === 0.1, 'factory switches on the date');
+  assert(close(optimizer.estimateCost('moonshot-v1-8k', 1_000_000), 0.7 * 0.1 + 0.3 * 2), 'optimizer switches on the date');
+  console.log('✅ Scheduled price applied without reload');
+
+  ModelCatalog.setShared(null);
+  console.log('\n🎉 All Model Catalog tests completed successfully!');
+
+  await delay(300);
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runModelCatalogTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runModelCatalogTests };
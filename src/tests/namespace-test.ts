@@ -0,0 +1,198 @@
+/**
+ * Namespace checks - tenant isolation, shared namespaces, quotas and token budgets
+ */
+
+import { NamespaceManager, Namespace } from '../core/NamespaceManager.js';
+import { TokenBudget } from '../core/TokenBudget.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import { QueueIntegration } from '../queue/QueueIntegration.js';
+import OpenAI from 'openai';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function expectError(fn: () => unknown, fragment: string): void {
+  try {
+    fn();
+  } catch (error) {
+    assert((error as Error).message.includes(fragment), `expected "${fragment}", got "${(error as Error).message}"`);
+    return;
+  }
+  throw new Error(`Assertion failed: expected an error containing "${fragment}"`);
+}
+
+async function runNamespaceTests() {
+  console.log('🧪 Starting Namespace Tests...\n');
+  const dataDir = './test-data/namespaces';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  let upstreamCalls = 0;
+  const fakeOpenAI = {
+    chat: {
+      completions: {
+        create: async (request: any) => {
+          upstreamCalls++;
+          return {
+            choices: [{ message: { content: `answer to: ${request.messages[request.messages.length - 1].content}` } }],
+            usage: { total_tokens: 80 }
+          };
+        }
+      }
+    }
+  } as unknown as OpenAI;
+
+  const manager = new NamespaceManager({
+    cache: { dataDir, enableVectorCache: false, enableHeuristics: false, maxMemoryMB: 100 },
+    namespaces: {
+      'team-a': { clients: ['team-a-agent'], readShared: true, maxMemoryMB: 20 },
+      'team-b': { tokenBudget: 200 },
+      common: {}
+    },
+    shared: ['common']
+  });
+  const optimizer = new ModelOptimizer();
+  const providers = new LLMProviderFactory();
+  const handlersFor = (namespace: Namespace) => new MCPHandlers(
+    namespace.cacheEngine,
+    optimizer,
+    namespace.templateEngine,
+    namespace.metricsCollector,
+    providers,
+    fakeOpenAI,
+    undefined,
+    namespace.budget
+  );
+  const teamA = manager.get('team-a');
+  const teamB = manager.get('team-b');
+  const common = manager.get('common');
+  const [chatA, chatB, chatCommon] = [teamA, teamB, common].map(namespace => {
+    const handlers = handlersFor(namespace);
+    return async (args: any) => JSON.parse((await handlers.handleSmartMoonshotChat(args)).content[0].text);
+  });
+
+  // Test 1: Namespace resolution
+  console.log('Test 1: Resolving namespaces');
+  assert(manager.resolve(undefined, 'team-a-agent') === 'team-a', 'client assigned to its namespace');
+  assert(manager.resolve(undefined, 'other-client') === 'default', 'unassigned clients use the default');
+  assert(manager.resolve('Team-B') === 'team-b', 'names are case-insensitive');
+  expectError(() => manager.resolve('team-a', 'other-client'), 'not available to client');
+  expectError(() => manager.resolve('../etc'), 'Invalid namespace');
+  const strict = new NamespaceManager({ cache: { dataDir }, strict: true, namespaces: { known: {} } });
+  expectError(() => strict.resolve('unknown'), 'Unknown namespace');
+  assert(strict.resolve('known') === 'known', 'configured namespaces allowed in strict mode');
+  const perClient = new NamespaceManager({ cache: { dataDir }, perClient: true });
+  assert(perClient.resolve(undefined, 'Claude Desktop') === 'claude-desktop', 'per-client namespace from the client name');
+  console.log('✅ Argument, client assignment and default resolved');
+
+  // Test 2: Caches, templates and metrics are isolated
+  console.log('\nTest 2: Isolation');
+  const prompt = 'What is our deployment checklist?';
+  assert((await chatA({ prompt })).cached === false, 'team-a miss');
+  assert((await chatA({ prompt })).cached === true, 'team-a hit');
+  const fromB = await chatB({ prompt });
+  assert(fromB.cached === false && upstreamCalls === 2, 'team-b does not see team-a entries');
+
+  teamA.templateEngine.createTemplate({
+    id: 'team-a-runbook', name: 'Runbook', category: 'docs', template: 'Runbook for {{service}}',
+    variables: ['service'], cache_eligible: true, recommended_model: 'moonshot-v1-8k'
+  });
+  assert(!!teamA.templateEngine.getTemplate('team-a-runbook') && !teamB.templateEngine.getTemplate('team-a-runbook'), 'templates per namespace');
+  assert(teamA.metricsCollector.getMetricsReport().usage.hits === 1 && teamB.metricsCollector.getMetricsReport().usage.hits === 0, 'metrics per namespace');
+  const files = await fs.readdir(`${dataDir}/namespaces`);
+  assert(files.includes('team-a') && files.includes('team-b'), 'one data directory per namespace');
+  console.log('✅ Team B cannot read Team A prompts');
+
+  // Test 3: Opt-in shared namespaces
+  console.log('\nTest 3: Shared namespace');
+  const sharedPrompt = 'Where is the company style guide?';
+  await chatCommon({ prompt: sharedPrompt });
+  const sharedHit = await chatA({ prompt: sharedPrompt });
+  assert(sharedHit.cached === true && sharedHit.shared_from === 'common', 'team-a reads the shared namespace');
+  const beforeB = upstreamCalls;
+  assert((await chatB({ prompt: sharedPrompt })).cached === false && upstreamCalls === beforeB + 1, 'team-b did not opt in');
+  console.log('✅ Shared entries only reach namespaces that opt in');
+
+  // Test 4: Token budgets
+  console.log('\nTest 4: Token budget');
+  const second = await chatB({ prompt: 'How do I rotate the API keys?' });
+  assert(second.cached === false && second.tokens_used === 80, 'within budget');
+  const blocked = await chatB({ prompt: 'One more question' });
+  assert(blocked.error === 'Request failed' && blocked.message.includes('Token budget exhausted'), 'upstream blocked once the budget is spent');
+  assert((await chatB({ prompt })).cached === true, 'cache hits are still served');
+  const usage = await new TokenBudget('team-b', `${dataDir}/namespaces/team-b`, 200).getUsage();
+  assert(usage.used === 240 && usage.remaining === 0, `usage persisted (got ${usage.used})`);
+  const concurrent = new TokenBudget('burst', `${dataDir}/burst`, null);
+  await Promise.all(Array.from({ length: 20 }, () => concurrent.consume(5)));
+  const reloaded = await new TokenBudget('burst', `${dataDir}/burst`, null).getUsage();
+  assert(reloaded.used === 100, `concurrent usage saved in order (got ${reloaded.used})`);
+  console.log(`✅ Budget stopped upstream calls at ${usage.used}/200 tokens`);
+
+  // Test 5: Per-namespace summary
+  console.log('\nTest 5: Summary');
+  const summary = await manager.getSummary();
+  const a = summary.find(s => s.namespace === 'team-a')!;
+  const b = summary.find(s => s.namespace === 'team-b')!;
+  assert(a.max_memory_mb === 20 && b.max_memory_mb === 100, 'per-namespace memory quota');
+  assert(a.reads_shared.includes('common') && b.reads_shared.length === 0, 'shared reads reported');
+  assert(b.token_budget.limit === 200 && a.token_budget.limit === null, 'budgets reported');
+  console.log('✅ Quotas and usage reported per namespace');
+
+  // Test 6: One queue serves every namespace; refreshes are de-duplicated per namespace
+  console.log('\nTest 6: Background refreshes');
+  let refreshCalls = 0;
+  const slowOpenAI = {
+    chat: {
+      completions: {
+        create: async () => {
+          refreshCalls++;
+          await delay(100);
+          return { choices: [{ message: { content: `answer ${refreshCalls}` } }], usage: { total_tokens: 10 } };
+        }
+      }
+    }
+  } as unknown as OpenAI;
+  const queue = new QueueIntegration(optimizer, teamA.cacheEngine, { enabled: false });
+  const [staleA, staleC] = [teamA, common].map(namespace => {
+    const handlers = new MCPHandlers(
+      namespace.cacheEngine, optimizer, namespace.templateEngine, namespace.metricsCollector, providers, slowOpenAI, queue
+    );
+    return async (args: any) => JSON.parse((await handlers.handleSmartMoonshotChat(args)).content[0].text);
+  });
+  const refreshed = { prompt: 'Who owns the billing service?', soft_ttl: 0.2 };
+  await staleA(refreshed);
+  await staleC(refreshed);
+  await delay(300);
+  const before = refreshCalls;
+  assert((await staleA(refreshed)).stale === true && (await staleC(refreshed)).stale === true, 'both namespaces serve a stale entry');
+  const key = teamA.cacheEngine.generateCacheKey(refreshed.prompt, undefined, 'moonshot-v1-8k');
+  assert(key === common.cacheEngine.generateCacheKey(refreshed.prompt, undefined, 'moonshot-v1-8k'), 'same prompt, same key in both namespaces');
+  assert(queue.isRefreshPending(key, 'team-a') && queue.isRefreshPending(key, 'common'), 'each namespace refreshes its own entry');
+  await delay(300);
+  assert(refreshCalls === before + 2, `one refresh per namespace (got ${refreshCalls - before})`);
+  console.log('✅ A pending refresh in one namespace does not hold back another');
+
+  console.log('\n🎉 All Namespace tests completed successfully!');
+
+  await manager.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runNamespaceTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runNamespaceTests };
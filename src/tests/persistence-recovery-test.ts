@@ -0,0 +1,119 @@
+/**
+ * Crash-safety checks - atomic snapshots, journal replay and recovery from the backup
+ */
+
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { JsonStorageBackend } from '../storage/JsonStorageBackend.js';
+import { VectorCache } from '../cache/VectorCache.js';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runPersistenceRecoveryTests() {
+  console.log('🧪 Starting Persistence Recovery Tests...\n');
+  const dataDir = './test-data/recovery';
+  const cacheFile = path.join(dataDir, 'cache.json');
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Instances are never closed below: each reopen simulates a restart after a kill
+  const open = () => new SimplePersistentCache({ backend: new JsonStorageBackend(dataDir) });
+
+  // Test 1: Writes after the last snapshot come back from the journal
+  console.log('Test 1: Journal replay');
+  let backend = new JsonStorageBackend(dataDir);
+  let cache = new SimplePersistentCache({ backend });
+  await cache.set('first', 'saved in snapshot 1');
+  await backend.flush();
+  await cache.set('second', 'saved in snapshot 2');
+  await cache.delete('first');
+  await backend.flush();
+  await cache.set('third', 'only in the journal');
+
+  cache = open();
+  assert((await cache.get('third'))?.value === 'only in the journal', 'journaled set is replayed');
+  assert((await cache.get('second'))?.value === 'saved in snapshot 2', 'snapshot entries are loaded');
+  assert(!(await cache.has('first')), 'snapshot deletes are kept');
+  console.log('✅ Unsnapshotted writes survive a restart');
+
+  // Test 2: Truncated snapshot (kill during a non-atomic write)
+  console.log('\nTest 2: Truncated cache.json');
+  const contents = await fs.readFile(cacheFile, 'utf8');
+  await fs.writeFile(cacheFile, contents.slice(0, Math.floor(contents.length / 2)));
+
+  cache = open();
+  assert((await cache.get('second'))?.value === 'saved in snapshot 2', 'backup plus previous journal restore snapshot 2');
+  assert((await cache.get('third'))?.value === 'only in the journal', 'current journal is still replayed');
+  assert(!(await cache.has('first')), 'deletes from the previous journal are replayed');
+  console.log('✅ Recovered from the last good snapshot');
+
+  // Test 3: Checksum mismatch
+  console.log('\nTest 3: Corrupted cache.json');
+  backend = new JsonStorageBackend(dataDir);
+  cache = new SimplePersistentCache({ backend });
+  await cache.set('fourth', 'checksummed');
+  await backend.flush();
+  const snapshot = await fs.readFile(cacheFile, 'utf8');
+  assert(snapshot.includes('"key": "fourth"'), 'snapshot holds the new entry');
+  await fs.writeFile(cacheFile, snapshot.replace('"key": "fourth"', '"key": "fourth-x"'));
+
+  cache = open();
+  assert(!(await cache.has('fourth-x')), 'tampered snapshot is rejected');
+  assert((await cache.get('fourth'))?.value === 'checksummed', 'checksum mismatch falls back to backup + journal');
+  console.log('✅ Checksum mismatch detected');
+
+  // Test 4: Torn journal line
+  console.log('\nTest 4: Torn journal record');
+  await cache.set('fifth', 'before the tear');
+  await fs.appendFile(path.join(dataDir, 'cache.journal'), '{"c":"0000","r":"{\\"op\\":\\"se');
+  await cache.set('sixth', 'after the tear');
+
+  cache = open();
+  assert((await cache.get('fifth'))?.value === 'before the tear', 'records before the tear are replayed');
+  assert((await cache.get('sixth'))?.value === 'after the tear', 'records after the tear are replayed');
+  console.log('✅ Torn record skipped');
+
+  // Test 5: Vector cache
+  console.log('\nTest 5: Vector cache journal and snapshot');
+  const vectorDir = path.join(dataDir, 'vector');
+  const vectorOptions = { dataDir: vectorDir, embeddingModel: 'local-advanced', useFaiss: false };
+  let vectors = new VectorCache(vectorOptions);
+  for (let i = 0; i < 20; i++) {
+    await vectors.store(`How do I deploy service ${i}?`, `answer ${i}`, 'moonshot-v1-8k', 50);
+  }
+  await new Promise(resolve => setTimeout(resolve, 300));
+  await vectors.store('Stored right before the crash', 'journaled', 'moonshot-v1-8k', 50);
+
+  vectors = new VectorCache(vectorOptions);
+  await vectors.initialize();
+  assert(vectors.getStats().total_entries === 21, 'all entries survive, including the journaled one');
+
+  await fs.writeFile(path.join(vectorDir, 'vector-cache.json'), '{"snapshot":1,"checks');
+  vectors = new VectorCache(vectorOptions);
+  await vectors.initialize();
+  assert(vectors.getStats().total_entries === 21, 'truncated vector snapshot is recovered');
+  assert((await vectors.findSimilar('How do I deploy service 7?', 'moonshot-v1-8k'))?.entry.response === 'answer 7',
+    'recovered entries are searchable');
+  console.log('✅ Vector cache recovered');
+
+  console.log('\n🎉 All Persistence Recovery tests completed successfully!');
+
+  await new Promise(resolve => setTimeout(resolve, 300));
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPersistenceRecoveryTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runPersistenceRecoveryTests };
@@ -0,0 +1,113 @@
+/**
+ * Query-focused compression checks - chunks ranked against the prompt, kept
+ * in order within the budget, dropped chunks reported
+ */
+
+import { ContextCompression } from '../optimization/ContextCompression.js';
+import { SmartRouter } from '../optimization/SmartRouter.js';
+import { Bm25, relevanceTerms } from '../optimization/relevance/Bm25.js';
+import { ContextChunker } from '../optimization/relevance/ContextChunker.js';
+import { HashEmbeddingProvider } from '../cache/embeddings/HashEmbeddingProvider.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const SECTIONS = {
+  billing: 'Invoices are generated on the first day of each month. The billing service sums the usage records of every tenant and applies the discount tier before emailing the invoice.',
+  retries: 'Failed webhook deliveries are retried with exponential backoff. After seven attempts the delivery is marked as dead and an alert is raised to the on-call engineer.',
+  cache: 'The response cache stores completions keyed by a normalized prompt hash. Entries expire after their TTL and the eviction policy removes the least valuable ones when memory runs low.',
+  onboarding: 'New employees receive a laptop on their first day. The onboarding checklist covers security training, benefits enrollment and meeting the team.',
+  office: 'The office kitchen is cleaned every Friday afternoon. Please label food stored in the fridge with your name and the date.'
+};
+
+const DOCUMENT = [
+  '# Platform handbook',
+  ...Object.entries(SECTIONS).flatMap(([name, body]) => [`## ${name[0].toUpperCase()}${name.slice(1)}`, body])
+].join('\n\n');
+
+async function runQueryCompressionTests() {
+  console.log('🧪 Starting Query-Focused Compression Tests...\n');
+
+  // Test 1: Terms and BM25
+  console.log('Test 1: BM25 ranking');
+  assert(relevanceTerms('fetchInvoice max_tokens Configurações').join(' ') === 'fetchinvoice fetch invoice max_token max token configuracoe', 'identifiers split, accents and plurals folded');
+  const bm25 = new Bm25(Object.values(SECTIONS));
+  const scores = bm25.score('How is the invoice emailed to each tenant?');
+  assert(scores.indexOf(Math.max(...scores)) === 0 && scores[4] === 0, `billing ranks first (got ${scores.map(score => score.toFixed(2))})`);
+  console.log('✅ Relevant paragraph ranks first');
+
+  // Test 2: Chunking
+  console.log('\nTest 2: Chunking');
+  const paragraphs = ContextChunker.split(DOCUMENT);
+  assert(paragraphs.length === 11 && paragraphs[0].heading && !paragraphs[2].heading, `headings and paragraphs split (got ${paragraphs.length})`);
+  const sentences = ContextChunker.split(DOCUMENT, 20);
+  assert(sentences.length > paragraphs.length, 'long paragraphs split into sentences');
+  const fenced = ContextChunker.split('Intro.\n\n```ts\nconst a = 1;\n\nconst b = 2;\n```\n\nOutro.', 1);
+  assert(fenced.length === 3 && fenced[1].text.startsWith('```ts') && fenced[1].text.endsWith('```'), 'code fences kept whole');
+  assert(sentences.every(chunk => DOCUMENT.slice(chunk.start, chunk.end) === chunk.text), 'chunks point into the original');
+  console.log(`✅ ${paragraphs.length} paragraphs, ${sentences.length} sentence groups`);
+
+  // Test 3: Compression keeps what the query needs, in order, within budget
+  console.log('\nTest 3: Query-focused compression');
+  const maxTokens = Math.floor(TokenEstimator.estimateFromText(DOCUMENT) * 0.45);
+  const result = ContextCompression.compress(DOCUMENT, {
+    maxTokens,
+    query: 'Why was the webhook delivery marked as dead after retries?',
+    aggressiveness: 'conservative'
+  });
+  assert(result.technique === 'query-focus:bm25', `technique reported (got ${result.technique})`);
+  assert(result.compressedTokens <= maxTokens, `within budget (${result.compressedTokens}/${maxTokens})`);
+  assert(result.compressedText.includes(SECTIONS.retries) && result.compressedText.includes('## Retries'), 'relevant section and its heading kept');
+  assert(!result.compressedText.includes('kitchen') && !result.compressedText.includes('laptop'), 'unrelated sections dropped');
+  const dropped = result.droppedChunks!;
+  assert(dropped.some(chunk => chunk.preview.startsWith('The office kitchen')) && dropped.every(chunk => chunk.tokens > 0), 'dropped chunks reported');
+  const positions = ['# Platform handbook', '## Retries', SECTIONS.retries]
+    .map(part => result.compressedText.indexOf(part))
+    .filter(position => position >= 0);
+  assert(positions.every((position, i) => i === 0 || position > positions[i - 1]), 'original order kept');
+  assert(result.qualityScore > 0.5 && result.qualityScore <= 1, `quality is retained relevance (${result.qualityScore.toFixed(2)})`);
+
+  const sentenceLevel = ContextCompression.smartCompress(DOCUMENT, maxTokens, { query: 'cache eviction TTL memory' });
+  assert(sentenceLevel.compressedText.includes('eviction policy') && !sentenceLevel.compressedText.includes('kitchen'), 'smartCompress keeps the cache sentences');
+  console.log(`✅ ${result.originalTokens} → ${result.compressedTokens} tokens, ${dropped.length} chunks dropped`);
+
+  // Test 4: Embedding ranking
+  console.log('\nTest 4: Embeddings');
+  const embedded = await ContextCompression.compressForQuery(DOCUMENT, 'invoice discount tier for tenants', { maxTokens }, new HashEmbeddingProvider());
+  assert(embedded.technique === 'query-focus:embedding', `embedding ranker used (got ${embedded.technique})`);
+  assert(embedded.compressedText.includes('discount tier') && embedded.compressedTokens <= maxTokens, 'billing kept within budget');
+  const lexical = await ContextCompression.compressForQuery(DOCUMENT, 'invoice discount tier for tenants', { maxTokens });
+  assert(lexical.technique === 'query-focus:bm25', 'BM25 without a provider');
+  console.log('✅ Embedding and BM25 rankers both focus on billing');
+
+  // Test 5: SmartRouter compresses the context, not the prompt
+  console.log('\nTest 5: SmartRouter');
+  const filler = Array.from({ length: 40 }, (_, i) => `${SECTIONS.office} Note ${i}.`).join('\n\n');
+  const context = `${filler}\n\n${SECTIONS.retries}\n\n${filler}`;
+  const prompt = 'Explain when a webhook delivery is marked as dead.';
+  const router = new SmartRouter({ hitProbability: 0, averageLatency: 6000, costPerHit: 0.0001 }); // Cache too slow to win
+  const decision = router.route(prompt, context, { taskType: 'long-context', maxBudget: 1 });
+  assert(decision.compression !== undefined, `context compressed (route ${decision.route})`);
+  assert(decision.compression!.compressedText.includes('seven attempts'), 'relevant paragraph survives');
+  assert(!decision.compression!.compressedText.includes(prompt), 'prompt left out of the compressed context');
+  assert(decision.compression!.droppedChunks!.length > 0, 'irrelevant chunks dropped');
+  console.log(`✅ ${decision.compression!.droppedChunks!.length} filler chunks dropped`);
+
+  console.log('\n🎉 All Query-Focused Compression tests completed successfully!');
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runQueryCompressionTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runQueryCompressionTests };
@@ -0,0 +1,145 @@
+/**
+ * Quality feedback checks - rate_response, demotion, eviction and decision accuracy
+ */
+
+import { CacheEngine, DEFAULT_QUALITY_SCORE } from '../core/CacheEngine.js';
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { TemplateEngine } from '../templates/TemplateEngine.js';
+import { MetricsCollector } from '../analytics/MetricsCollector.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import OpenAI from 'openai';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runRateResponseTests() {
+  console.log('🧪 Starting Rate Response Tests...\n');
+  const dataDir = './test-data/rating';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  const cacheEngine = new CacheEngine({
+    dataDir: `${dataDir}/engine`,
+    enableHeuristics: false,
+    vectorCacheOptions: { embeddingModel: 'local-advanced', useFaiss: false }
+  });
+  const model = 'moonshot-v1-8k';
+
+  // Test 1: Good ratings raise the score
+  console.log('Test 1: Thumbs up');
+  const good = await cacheEngine.set('How do I read a file in Node.js?', 'Use fs.readFile.', { model, tokens: 50 });
+  const up = await cacheEngine.rate(good.cacheKey, 1);
+  assert(up!.action === 'kept' && up!.quality_score === (DEFAULT_QUALITY_SCORE + 1) / 2, 'quality rises');
+  assert(up!.literal_updated && up!.vector_updated === 1, 'literal and vector entries updated');
+  const stillFresh = await cacheEngine.get('How do I read a file in Node.js?', undefined, model);
+  assert(stillFresh!.freshness!.stale === false, 'well rated entries stay fresh');
+  console.log(`✅ Quality ${DEFAULT_QUALITY_SCORE} → ${up!.quality_score}`);
+
+  // Test 2: One thumbs-down demotes, a second evicts
+  console.log('\nTest 2: Thumbs down');
+  const prompt = 'What does HTTP status 418 mean?';
+  const paraphrase = 'what does HTTP status 418 mean';
+  const bad = await cacheEngine.set(prompt, 'It means the server is overloaded.', { model, tokens: 40 });
+  assert((await cacheEngine.get(paraphrase, undefined, model))?.cacheType === 'vector', 'paraphrase served by the vector cache');
+
+  const demoted = await cacheEngine.rate(bad.cacheKey, 0);
+  assert(demoted!.action === 'demoted', 'first thumbs-down demotes');
+  const staleHit = await cacheEngine.get(prompt, undefined, model);
+  assert(staleHit!.cacheType === 'literal' && staleHit!.freshness!.stale === true, 'demoted entry is served stale so it gets refreshed');
+  assert(await cacheEngine.get(paraphrase, undefined, model) === null, 'demoted entry is left out of vector matches');
+
+  const evicted = await cacheEngine.rate(bad.cacheKey, 0);
+  assert(evicted!.action === 'evicted' && evicted!.vector_updated === 1, 'second thumbs-down evicts');
+  assert(await cacheEngine.get(prompt, undefined, model) === null, 'evicted entry is gone');
+  assert(await cacheEngine.rate(bad.cacheKey, 1) === null, 'rating a missing entry reports nothing');
+  console.log('✅ Demoted, then evicted');
+
+  // Test 3: Ratings persist in SQLite
+  console.log('\nTest 3: Quality persists in SQLite');
+  const sqlite = new SimplePersistentCache({ dataDir: `${dataDir}/sqlite`, backend: 'sqlite' });
+  await sqlite.set('k', 'v', { ttl: 60 });
+  await sqlite.update('k', { quality_score: 0.42, ratings: 3 });
+  await sqlite.close();
+  const reopened = new SimplePersistentCache({ dataDir: `${dataDir}/sqlite`, backend: 'sqlite' });
+  const stored = await reopened.peek('k');
+  assert(stored!.quality_score === 0.42 && stored!.ratings === 3, 'quality_score and ratings stored');
+  await reopened.close();
+  console.log('✅ quality_score and ratings round trip');
+
+  // Test 4: rate_response tool
+  console.log('\nTest 4: rate_response by request id');
+  const metrics = new MetricsCollector();
+  const fakeOpenAI = {
+    chat: {
+      completions: {
+        create: async () => ({
+          choices: [{ message: { content: 'Array.prototype.flat flattens nested arrays.' } }],
+          usage: { total_tokens: 60 }
+        })
+      }
+    }
+  } as unknown as OpenAI;
+  const handlers = new MCPHandlers(
+    cacheEngine,
+    new ModelOptimizer(),
+    new TemplateEngine(),
+    metrics,
+    new LLMProviderFactory(),
+    fakeOpenAI
+  );
+  const call = async (fn: Promise<any>) => JSON.parse((await fn).content[0].text);
+
+  const answer = await call(handlers.handleSmartMoonshotChat({ prompt: 'What does Array.flat do?', force_cache: true }));
+  assert(typeof answer.request_id === 'string' && typeof answer.cache_key === 'string', 'response carries request id and cache key');
+
+  const rated = await call(handlers.handleRateResponse({ request_id: answer.request_id, rating: 'down' }));
+  assert(rated.rated === true && rated.action === 'demoted', 'rating by request id demotes');
+  const again = await call(handlers.handleRateResponse({ request_id: answer.request_id, rating: 'down' }));
+  assert(again.error === 'Rating failed', 'a request can only be rated once');
+  const invalid = await call(handlers.handleRateResponse({ cache_key: answer.cache_key }));
+  assert(invalid.error === 'Rating failed', 'rating or score is required');
+
+  const hit = await call(handlers.handleSmartMoonshotChat({ prompt: 'What does Array.flat do?' }));
+  assert(hit.cached === true && hit.cache_key === answer.cache_key, 'cache hits can be rated too');
+  await call(handlers.handleRateResponse({ request_id: hit.request_id, score: 0.9 }));
+  assert(metrics.getEfficiencyMetrics().decision_accuracy === 50, 'decision accuracy from ratings');
+  console.log('✅ Ratings feed decision accuracy');
+
+  // Test 5: Poor accuracy re-tunes the heuristics
+  console.log('\nTest 5: Heuristics adjustment');
+  const adjustments: Array<number | undefined> = [];
+  const adjust = cacheEngine.adjustHeuristics.bind(cacheEngine);
+  cacheEngine.adjustHeuristics = (hitRate, tokens, accuracy) => {
+    adjustments.push(accuracy);
+    adjust(hitRate, tokens, accuracy);
+  };
+  for (let i = 0; i < 8; i++) {
+    await call(handlers.handleRateResponse({ cache_key: good.cacheKey, rating: 'down' }));
+    await cacheEngine.set('How do I read a file in Node.js?', 'Use fs.readFile.', { model, tokens: 50 });
+  }
+  assert(adjustments.length === 1 && adjustments[0]! < 0.5, 'heuristics adjusted after 10 ratings with low accuracy');
+  console.log(`✅ Adjusted with accuracy ${(adjustments[0]! * 100).toFixed(0)}%`);
+
+  console.log('\n🎉 All Rate Response tests completed successfully!');
+
+  await cacheEngine.close();
+  await new Promise(resolve => setTimeout(resolve, 300));
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runRateResponseTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runRateResponseTests };
@@ -0,0 +1,87 @@
+/**
+ * Redis storage backend checks - uses REDIS_URL when set, ioredis-mock otherwise
+ */
+
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { RedisStorageBackend } from '../storage/RedisStorageBackend.js';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function createClient(): Redis {
+  return process.env.REDIS_URL
+    ? new Redis(process.env.REDIS_URL, { lazyConnect: true })
+    : new RedisMock() as unknown as Redis;
+}
+
+async function runRedisStorageTests() {
+  console.log('🧪 Starting Redis Storage Tests...\n');
+  const prefix = `mcp-test-${Date.now()}:`;
+
+  // ioredis-mock shares data between instances, like two servers on one Redis
+  const first = new SimplePersistentCache({ backend: new RedisStorageBackend(createClient(), prefix) });
+  const second = new SimplePersistentCache({ backend: new RedisStorageBackend(createClient(), prefix) });
+
+  // Test 1: Round trip
+  console.log('Test 1: Set and get');
+  const value = { answer: 'useState e useEffect', code: 'const [a, setA] = useState(0); // ação' };
+  await first.set('react-hooks', value, { tokens: 120, tags: ['react'], model: 'moonshot-v1-8k', taskType: 'coding' });
+  const hit = await first.get('react-hooks');
+  assert(JSON.stringify(hit?.value) === JSON.stringify(value), 'value survives compression and Redis');
+  assert(hit?.hits === 2, 'hit count is incremented');
+  console.log('✅ Compressed value round-trips through Redis');
+
+  // Test 2: Shared between instances
+  console.log('\nTest 2: Shared cache');
+  await second.set('python-decorators', 'A decorator wraps...', { tokens: 90, tags: ['python'] });
+  assert((await first.get('python-decorators'))?.value === 'A decorator wraps...', 'first sees second\'s write');
+  assert((await second.get('react-hooks'))?.hits === 3, 'hits are counted across instances');
+  console.log('✅ Both instances read and count the same entries');
+
+  // Test 3: Native expiry
+  console.log('\nTest 3: TTL');
+  await first.set('short-lived', 'soon gone', { ttl: 1 });
+  assert(await second.has('short-lived'), 'entry exists before expiry');
+  await new Promise(resolve => setTimeout(resolve, 1100));
+  assert(!(await second.has('short-lived')), 'entry expires');
+  assert(await second.get('short-lived') === null, 'expired entry misses');
+  console.log('✅ Entries expire at their TTL');
+
+  // Test 4: Stats and ranking
+  console.log('\nTest 4: Stats');
+  const stats = await second.getStats();
+  assert(stats.total_entries === 2, 'stats count live entries only');
+  assert(stats.top_keys[0].key === 'react-hooks' && stats.top_keys[0].hits === 3, 'top keys come from the hits ranking');
+  console.log(`✅ ${stats.total_entries} entries, ${stats.total_hits} hits`);
+
+  // Test 5: Invalidation by predicate
+  console.log('\nTest 5: deleteWhere');
+  const preview = await first.deleteWhere(entry => !!entry.tags?.includes('react'), true);
+  assert(preview.length === 1 && preview[0].task_type === 'coding', 'metadata is available without values');
+  await second.deleteWhere(entry => !!entry.tags?.includes('react'));
+  assert(await first.get('react-hooks') === null, 'deletion is visible to the other instance');
+  console.log('✅ Predicate deletion works across instances');
+
+  console.log('\n🎉 All Redis Storage tests completed successfully!');
+
+  await first.deleteWhere(() => true);
+  await first.close();
+  await second.close();
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runRedisStorageTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runRedisStorageTests };
@@ -0,0 +1,150 @@
+/**
+ * Single-flight checks - concurrent misses share one upstream call
+ */
+
+import { SingleFlight } from '../core/SingleFlight.js';
+import { CacheEngine } from '../core/CacheEngine.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { TemplateEngine } from '../templates/TemplateEngine.js';
+import { MetricsCollector } from '../analytics/MetricsCollector.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import OpenAI from 'openai';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runSingleFlightTests() {
+  console.log('🧪 Starting Single-Flight Tests...\n');
+  const dataDir = './test-data/single-flight';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Concurrent calls for one key run once
+  console.log('Test 1: Concurrent calls share one execution');
+  const flight = new SingleFlight<string>();
+  let calls = 0;
+  const slow = async () => {
+    calls++;
+    await delay(50);
+    return `result ${calls}`;
+  };
+
+  const results = await Promise.all(Array.from({ length: 5 }, () => flight.run('a', slow)));
+  assert(calls === 1, 'upstream called once');
+  assert(results.every(r => r.value === 'result 1'), 'every caller gets the same value');
+  assert(results.filter(r => !r.coalesced).length === 1, 'exactly one leader');
+  assert(flight.getStats().coalesced === 4 && flight.getStats().in_flight === 0, 'stats count the waiters');
+
+  await Promise.all([flight.run('b', slow), flight.run('c', slow)]);
+  assert(calls === 3, 'different keys do not coalesce');
+  await flight.run('a', slow);
+  assert(calls === 4, 'the key is released once the call settles');
+  console.log('✅ 5 concurrent calls, 1 upstream call');
+
+  // Test 2: Errors reach every waiter
+  console.log('\nTest 2: Failures propagate');
+  const failing = Array.from({ length: 3 }, () =>
+    flight.run('boom', async () => {
+      await delay(20);
+      throw new Error('upstream down');
+    }).then(() => 'ok', (error: Error) => error.message)
+  );
+  const outcomes = await Promise.all(failing);
+  assert(outcomes.every(o => o === 'upstream down'), 'all callers see the error');
+  assert(flight.getStats().failures === 1, 'one failed upstream call');
+  const retry = await flight.run('boom', async () => 'recovered');
+  assert(retry.value === 'recovered' && !retry.coalesced, 'a failed key can be retried');
+  console.log('✅ Errors shared, key released');
+
+  // Test 3: Smart chat fan-out
+  console.log('\nTest 3: Concurrent smart chat misses');
+  const cacheEngine = new CacheEngine({
+    dataDir,
+    enableVectorCache: false,
+    enableHeuristics: false
+  });
+  const metrics = new MetricsCollector();
+  let upstreamCalls = 0;
+  const fakeOpenAI = {
+    chat: {
+      completions: {
+        create: async () => {
+          upstreamCalls++;
+          await delay(100);
+          return {
+            choices: [{ message: { content: 'Use EXPLAIN ANALYZE to inspect the plan.' } }],
+            usage: { total_tokens: 120 }
+          };
+        }
+      }
+    }
+  } as unknown as OpenAI;
+  const handlers = new MCPHandlers(
+    cacheEngine,
+    new ModelOptimizer(),
+    new TemplateEngine(),
+    metrics,
+    new LLMProviderFactory(),
+    fakeOpenAI
+  );
+
+  const args = { prompt: 'How do I debug a slow Postgres query?', model: 'moonshot-v1-8k' };
+  const responses = await Promise.all(
+    Array.from({ length: 6 }, () => handlers.handleSmartMoonshotChat(args))
+  );
+  const bodies = responses.map(r => JSON.parse(r.content[0].text));
+
+  assert(upstreamCalls === 1, `one upstream call for 6 agents (got ${upstreamCalls})`);
+  assert(bodies.every(b => b.response === 'Use EXPLAIN ANALYZE to inspect the plan.'), 'all agents get the response');
+  assert(bodies.filter(b => b.coalesced).length === 5, 'five requests coalesced');
+  assert(bodies.filter(b => b.coalesced).every(b => b.tokens_saved === 120), 'coalesced requests report tokens saved');
+
+  const usage = metrics.getMetricsReport().usage;
+  assert(usage.coalesced === 5 && usage.misses === 1 && usage.requests === 6, 'metrics count coalesced requests');
+  assert(metrics.getDashboardData().overview.coalesced_requests === 5, 'dashboard shows coalesced requests');
+
+  const stats = await cacheEngine.getStats();
+  assert(stats.coalescing.leaders === 1 && stats.coalescing.coalesced === 5, 'cache stats report coalescing');
+
+  const later = JSON.parse((await handlers.handleSmartMoonshotChat(args)).content[0].text);
+  assert(later.cached === true && upstreamCalls === 1, 'later requests hit the cache');
+  console.log(`✅ 6 agents, ${upstreamCalls} upstream call, ${usage.coalesced} coalesced`);
+
+  // Test 4: Conversations coalesce on their conversation key
+  console.log('\nTest 4: Concurrent conversation misses');
+  const conversationArgs = {
+    messages: [
+      { role: 'system', content: 'You are a database expert.' },
+      { role: 'user', content: 'Why is my index not used?' }
+    ]
+  };
+  const conversationBodies = (await Promise.all(
+    Array.from({ length: 3 }, () => handlers.handleSmartMoonshotChat(conversationArgs))
+  )).map(r => JSON.parse(r.content[0].text));
+  assert(upstreamCalls === 2, 'one upstream call for the conversation');
+  assert(conversationBodies.filter(b => b.coalesced).length === 2, 'two conversation requests coalesced');
+  console.log('✅ Conversation fan-out coalesced');
+
+  console.log('\n🎉 All Single-Flight tests completed successfully!');
+
+  await cacheEngine.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSingleFlightTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runSingleFlightTests };
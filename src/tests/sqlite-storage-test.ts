@@ -0,0 +1,91 @@
+/**
+ * SQLite storage backend checks - JSON import, indexed queries and persistence
+ */
+
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runSqliteStorageTests() {
+  console.log('🧪 Starting SQLite Storage Tests...\n');
+  const dataDir = './test-data/sqlite';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: One-time import of an existing cache.json
+  console.log('Test 1: JSON import');
+  const legacy = new SimplePersistentCache({ dataDir, backend: 'json' });
+  await legacy.set('legacy-key', { answer: 'migrated ✓' }, { tokens: 80, tags: ['legacy'], model: 'moonshot-v1-8k' });
+  await legacy.set('expired-key', 'gone', { ttl: -1 });
+  await legacy.close();
+
+  let cache = new SimplePersistentCache({ dataDir, backend: 'sqlite' });
+  const migrated = await cache.get('legacy-key');
+  assert(migrated?.value.answer === 'migrated ✓', 'live JSON entries are imported');
+  assert(!(await cache.has('expired-key')), 'expired JSON entries are skipped');
+  await cache.delete('legacy-key');
+  await cache.close();
+
+  cache = new SimplePersistentCache({ dataDir, backend: 'sqlite' });
+  assert(!(await cache.has('legacy-key')), 'cache.json is not imported twice');
+  console.log('✅ cache.json imported once');
+
+  // Test 2: Tags, models and stats
+  console.log('\nTest 2: Indexed queries');
+  for (let i = 0; i < 300; i++) {
+    await cache.set(`key-${i}`, `response ${i}`, {
+      tokens: 100,
+      tags: i % 3 === 0 ? ['react', 'frontend'] : ['python'],
+      model: i % 2 === 0 ? 'moonshot-v1-8k' : 'moonshot-v1-32k'
+    });
+  }
+  await cache.get('key-3');
+  await cache.get('key-3');
+
+  const react = await cache.getByTags(['react']);
+  assert(react.length === 100, 'tag lookup returns every tagged entry');
+  assert(react[0].key === 'key-3' && react[0].hits === 3, 'tag results are ordered by hits');
+
+  const usage = await cache.getModelUsage();
+  assert(usage.length === 2 && usage.every(model => model.entries === 150), 'usage is aggregated per model');
+
+  const stats = await cache.getStats();
+  assert(stats.total_entries === 300 && stats.top_keys[0].key === 'key-3', 'stats cover all entries');
+  console.log(`✅ ${react.length} tagged entries, ${usage.length} models, ${stats.total_entries} entries`);
+
+  // Test 3: Durability across restarts and invalidation
+  console.log('\nTest 3: Persistence');
+  await cache.close();
+  cache = new SimplePersistentCache({ dataDir, backend: 'sqlite' });
+  assert((await cache.get('key-3'))?.hits === 4, 'entries and hit counts survive a restart');
+
+  const removed = await cache.deleteWhere(entry => entry.model === 'moonshot-v1-32k');
+  assert(removed.length === 150, 'predicate deletion matches by model');
+  assert((await cache.getByTags(['python'])).length === 100, 'deleted entries leave the tag index');
+  await cache.close();
+
+  const files = await fs.readdir(dataDir);
+  assert(files.includes('cache.db'), 'database is created in the data directory');
+  console.log(`✅ Database persisted at ${path.join(dataDir, 'cache.db')}`);
+
+  console.log('\n🎉 All SQLite Storage tests completed successfully!');
+
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSqliteStorageTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runSqliteStorageTests };
@@ -0,0 +1,173 @@
+/**
+ * Stale-while-revalidate checks - soft expiry, stale answers and background refresh
+ */
+
+import { SimplePersistentCache } from '../services/SimplePersistentCache.js';
+import { CacheEngine } from '../core/CacheEngine.js';
+import { MCPHandlers } from '../handlers/MCPHandlers.js';
+import { ModelOptimizer } from '../services/ModelOptimizer.js';
+import { TemplateEngine } from '../templates/TemplateEngine.js';
+import { MetricsCollector } from '../analytics/MetricsCollector.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import { QueueIntegration } from '../queue/QueueIntegration.js';
+import OpenAI from 'openai';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * OpenAI stand-in answering "answer v<n>" after a delay
+ */
+function createFakeOpenAI(latencyMs: number) {
+  const upstream = { calls: 0 };
+  const client = {
+    chat: {
+      completions: {
+        create: async () => {
+          const version = ++upstream.calls;
+          await delay(latencyMs);
+          return {
+            choices: [{ message: { content: `answer v${version}` } }],
+            usage: { total_tokens: 80 }
+          };
+        }
+      }
+    }
+  } as unknown as OpenAI;
+  return { client, upstream };
+}
+
+async function runStaleWhileRevalidateTests() {
+  console.log('🧪 Starting Stale-While-Revalidate Tests...\n');
+  const dataDir = './test-data/swr';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Soft and hard expiry on stored entries
+  for (const backend of ['json', 'sqlite'] as const) {
+    console.log(`Test 1 (${backend}): Entries carry soft and hard expiry`);
+    const cache = new SimplePersistentCache({ dataDir: `${dataDir}/${backend}`, backend });
+    await cache.set('docs', { answer: 'v1' }, { ttl: 0.6, softTtl: 0.2 });
+    await cache.set('plain', { answer: 'v1' }, { ttl: 60 });
+
+    const fresh = await cache.get('docs');
+    assert(!!fresh && !fresh.stale && fresh.stale_at! < fresh.expires_at!, 'fresh before the soft expiry');
+    await delay(300);
+    const stale = await cache.get('docs');
+    assert(!!stale && stale.stale && stale.value.answer === 'v1', 'served stale after the soft expiry');
+    assert((await cache.get('plain'))!.stale === false, 'entries without a soft TTL never go stale');
+    await delay(400);
+    assert(await cache.get('docs') === null, 'gone after the hard expiry');
+    await cache.close();
+    console.log(`✅ ${backend}: fresh → stale → expired`);
+  }
+
+  // Test 2: Stale answers are immediate and refreshed in the background
+  console.log('\nTest 2: Stale hit returns at once and refreshes');
+  const cacheEngine = new CacheEngine({ dataDir: `${dataDir}/engine`, enableVectorCache: false, enableHeuristics: false });
+  const metrics = new MetricsCollector();
+  const fake = createFakeOpenAI(150);
+  const handlers = new MCPHandlers(
+    cacheEngine,
+    new ModelOptimizer(),
+    new TemplateEngine(),
+    metrics,
+    new LLMProviderFactory(),
+    fake.client
+  );
+  const chat = async (args: any) => JSON.parse((await handlers.handleSmartMoonshotChat(args)).content[0].text);
+  const args = { prompt: 'Where are the docs for the fetch API?', soft_ttl: 0.2 };
+
+  const first = await chat(args);
+  assert(first.cached === false && first.response === 'answer v1', 'first call goes upstream');
+  const hit = await chat(args);
+  assert(hit.cached === true && hit.stale === false, 'fresh hit is not stale');
+
+  await delay(300);
+  const started = Date.now();
+  const staleResults = await Promise.all([chat(args), chat(args), chat(args)]);
+  assert(Date.now() - started < 150, 'stale answers do not wait for upstream');
+  assert(staleResults.every(r => r.stale === true && r.revalidating === true && r.response === 'answer v1'), 'stale answer returned');
+  assert(typeof staleResults[0].age_seconds === 'number', 'response exposes the age');
+
+  await delay(300);
+  assert(fake.upstream.calls === 2, `one refresh for concurrent stale hits (got ${fake.upstream.calls})`);
+  const refreshed = await chat(args);
+  assert(refreshed.cached === true && refreshed.stale === false && refreshed.response === 'answer v2', 'refreshed entry is fresh');
+  console.log('✅ Stale served immediately, single background refresh');
+
+  // Test 3: Refresh through the job queue
+  console.log('\nTest 3: Refresh through JobQueueManager');
+  const queueEngine = new CacheEngine({
+    dataDir: `${dataDir}/queue`,
+    enableVectorCache: false,
+    enableHeuristics: false,
+    softTtlRatio: 0.5
+  });
+  const queue = new QueueIntegration(new ModelOptimizer(), queueEngine, {
+    enabled: true,
+    maxConcurrency: 2,
+    enableRateLimiting: true,
+    enableLoadBalancing: true,
+    enableCircuitBreaker: true,
+    enableAutoScaling: true
+  });
+  const queuedFake = createFakeOpenAI(20);
+  const queuedHandlers = new MCPHandlers(
+    queueEngine,
+    new ModelOptimizer(),
+    new TemplateEngine(),
+    new MetricsCollector(),
+    new LLMProviderFactory(),
+    queuedFake.client,
+    queue
+  );
+  const queuedArgs = { prompt: 'Link to the Node.js fs docs?', soft_ttl: 0.4 };
+  await queuedHandlers.handleSmartMoonshotChat(queuedArgs);
+  await delay(500);
+  const queuedStale = JSON.parse((await queuedHandlers.handleSmartMoonshotChat(queuedArgs)).content[0].text);
+  assert(queuedStale.stale === true, 'stale hit');
+  assert(queue.isRefreshPending(queueEngine.generateCacheKey(queuedArgs.prompt, undefined, 'moonshot-v1-8k')), 'refresh pending in the queue');
+
+  for (let i = 0; i < 50 && queuedFake.upstream.calls < 2; i++) {
+    await delay(50);
+  }
+  await delay(50);
+  const queuedFresh = JSON.parse((await queuedHandlers.handleSmartMoonshotChat(queuedArgs)).content[0].text);
+  assert(queuedFresh.response === 'answer v2' && queuedFresh.stale === false, `queue refresh stored the new answer (got ${queuedFresh.response})`);
+  assert(queue.getMetrics().completedJobs >= 1, 'refresh ran as a queue job');
+  console.log('✅ Refresh processed as a cache job');
+
+  // Test 4: Default soft TTL from the configured ratio
+  console.log('\nTest 4: softTtlRatio');
+  await queueEngine.set('How do I configure eslint?', 'use eslint.config.js', { tokens: 10 });
+  const ratioHit = await queueEngine.get('How do I configure eslint?');
+  const freshness = ratioHit!.freshness!;
+  const created = freshness.expires_at! - 3600 * 1000;
+  assert(Math.abs((freshness.stale_at! - created) - 1800 * 1000) < 50, 'soft expiry at half the TTL');
+  console.log('✅ Soft TTL derived from the hard TTL');
+
+  console.log('\n🎉 All Stale-While-Revalidate tests completed successfully!');
+
+  await queue.shutdown();
+  await cacheEngine.close();
+  await queueEngine.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runStaleWhileRevalidateTests()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { runStaleWhileRevalidateTests };
@@ -0,0 +1,74 @@
+/**
+ * Tokenizer subsystem checks - BPE counts per model family vs the legacy chars/4.5 ratio
+ */
+
+import { TokenizerRegistry } from '../tokenizers/TokenizerRegistry.js';
+import { HeuristicTokenizer } from '../tokenizers/HeuristicTokenizer.js';
+import { LLMProviderFactory } from '../providers/LLMProviderFactory.js';
+import { TokenEstimator } from '../utils/TokenEstimator.js';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runTokenizerTests() {
+  console.log('🧪 Starting Tokenizer Tests...\n');
+
+  // Test 1: Known BPE counts
+  console.log('Test 1: Known BPE counts');
+  const cl100k = TokenizerRegistry.forSpec({ encoding: 'cl100k_base' });
+  const o200k = TokenizerRegistry.forSpec({ encoding: 'o200k_base' });
+  assert(cl100k.count('hello world') === 2, 'cl100k "hello world" should be 2 tokens');
+  assert(o200k.count('hello world') === 2, 'o200k "hello world" should be 2 tokens');
+  assert(cl100k.count('') === 0, 'empty text should be 0 tokens');
+  assert(cl100k.count('<|endoftext|>') > 1, 'special token markers are counted as plain text');
+  console.log('✅ cl100k/o200k counts match reference values');
+
+  // Test 2: Model name resolution
+  console.log('\nTest 2: Model name resolution');
+  new LLMProviderFactory();
+  assert(TokenizerRegistry.resolveSpec('gpt-4o').encoding === 'o200k_base', 'gpt-4o uses o200k_base');
+  assert(TokenizerRegistry.resolveSpec('gpt-3.5-turbo').encoding === 'cl100k_base', 'gpt-3.5 uses cl100k_base');
+  assert(TokenizerRegistry.resolveSpec('claude-3-haiku').scale === 1.1, 'claude models are scaled');
+  assert(TokenizerRegistry.resolveSpec('unknown-model').encoding === 'cl100k_base', 'unknown models fall back to cl100k');
+  console.log('✅ Model names resolve to the expected encodings');
+
+  // Test 3: Code and Portuguese vs the legacy ratio
+  console.log('\nTest 3: Code and Portuguese vs chars/4.5');
+  const samples: Record<string, string> = {
+    code: 'const total = items.reduce((sum, item) => sum + item.price * item.qty, 0);\nif (total > 100) { applyDiscount(0.1); }',
+    portuguese: 'A configuração de expiração do cache não está funcionando após a atualização da aplicação.'
+  };
+  for (const [name, text] of Object.entries(samples)) {
+    const bpe = TokenEstimator.estimateFromText(text, 'gpt-4');
+    const legacy = Math.ceil(text.length / 4.5);
+    const heuristic = new HeuristicTokenizer().count(text);
+    console.log(`   ${name}: bpe=${bpe} legacy=${legacy} heuristic=${heuristic}`);
+    assert(Math.abs(heuristic - bpe) <= Math.abs(legacy - bpe), `heuristic fallback should beat chars/4.5 on ${name}`);
+  }
+  console.log('✅ Heuristic fallback tracks BPE more closely than the legacy ratio');
+
+  // Test 4: Conversation and length-based estimates
+  console.log('\nTest 4: Conversation and length estimates');
+  const conversation = TokenEstimator.estimateConversation([
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content: 'hello world' }
+  ], 'moonshot-v1-8k');
+  assert(conversation > 2, 'conversation includes formatting overhead');
+  assert(TokenEstimator.estimateFromLength(4500, 'moonshot-v1-8k') > 0, 'length estimate is positive');
+  console.log(`✅ Conversation estimate: ${conversation} tokens`);
+
+  console.log('\n🎉 All Tokenizer tests completed successfully!');
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTokenizerTests().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+export { runTokenizerTests };
@@ -0,0 +1,102 @@
+/**
+ * ANN index checks - HNSW recall against brute force, latency, removals and persistence
+ */
+
+import { HNSWIndex } from '../cache/index/HNSWIndex.js';
+import { toUnitVector } from '../cache/index/VectorIndex.js';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function randomVector(dimensions: number, center?: number[]): number[] {
+  return Array.from({ length: dimensions }, (_, i) => (center ? center[i] : 0) + (Math.random() - 0.5));
+}
+
+function bruteForce(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  const q = toUnitVector(query);
+  return Array.from(vectors.entries())
+    .map(([id, vector]) => {
+      const v = toUnitVector(vector);
+      let dot = 0;
+      for (let i = 0; i < v.length; i++) dot += v[i] * q[i];
+      return { id, dot };
+    })
+    .sort((a, b) => b.dot - a.dot)
+    .slice(0, k)
+    .map(r => r.id);
+}
+
+async function runVectorIndexTests() {
+  console.log('🧪 Starting Vector Index Tests...\n');
+
+  const dimensions = 128;
+  const total = 3000;
+  const vectors = new Map<string, number[]>();
+  const centers = Array.from({ length: 30 }, () => randomVector(dimensions));
+
+  // Test 1: Build
+  console.log('Test 1: Build');
+  const index = new HNSWIndex();
+  const buildStart = Date.now();
+  for (let i = 0; i < total; i++) {
+    const vector = randomVector(dimensions, centers[i % centers.length]);
+    vectors.set(`v${i}`, vector);
+    index.add(`v${i}`, vector);
+  }
+  assert(index.size === total, 'all vectors indexed');
+  console.log(`✅ Indexed ${total} vectors in ${Date.now() - buildStart}ms`);
+
+  // Test 2: Recall and latency
+  console.log('\nTest 2: Recall@10 vs brute force');
+  const queries = Array.from({ length: 50 }, (_, i) => randomVector(dimensions, centers[i % centers.length]));
+  let found = 0;
+  let searchTime = 0;
+  for (const query of queries) {
+    const start = performance.now();
+    const results = index.search(query, 10);
+    searchTime += performance.now() - start;
+
+    const expected = new Set(bruteForce(vectors, query, 10));
+    found += results.filter(r => expected.has(r.id)).length;
+  }
+  const recall = found / (queries.length * 10);
+  const avgMs = searchTime / queries.length;
+  assert(recall >= 0.9, `recall@10 should be >= 0.9 (got ${recall.toFixed(3)})`);
+  assert(avgMs < 5, `average search should take < 5ms (got ${avgMs.toFixed(2)}ms)`);
+  console.log(`✅ Recall@10 ${(recall * 100).toFixed(1)}%, ${avgMs.toFixed(2)}ms per query`);
+
+  // Test 3: Filters and removals
+  console.log('\nTest 3: Filters and removals');
+  const target = vectors.get('v42')!;
+  assert(index.search(target, 1)[0].id === 'v42', 'vector finds itself');
+  assert(index.search(target, 1, id => id !== 'v42')[0].id !== 'v42', 'filter excludes ids');
+  index.remove('v42');
+  assert(!index.has('v42') && index.size === total - 1, 'removed id is gone');
+  assert(index.search(target, 5).every(r => r.id !== 'v42'), 'removed id is never returned');
+  console.log('✅ Filtered search and tombstones work');
+
+  // Test 4: Persistence
+  console.log('\nTest 4: Serialize and restore');
+  const saved = JSON.parse(JSON.stringify(index.serialize()));
+  const restored = HNSWIndex.restore(saved, id => vectors.get(id));
+  assert(restored !== null && restored.size === index.size, 'restored index has the same size');
+  assert(restored!.search(vectors.get('v7')!, 1)[0].id === 'v7', 'restored index answers queries');
+  assert(HNSWIndex.restore(saved, id => (id === 'v7' ? undefined : vectors.get(id))) === null,
+    'missing entries invalidate the saved graph');
+  console.log('✅ Graph round-trips without re-inserting vectors');
+
+  console.log('\n🎉 All Vector Index tests completed successfully!');
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runVectorIndexTests().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+export { runVectorIndexTests };
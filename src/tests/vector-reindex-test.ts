@@ -0,0 +1,72 @@
+/**
+ * Embedding migration checks - stale vector detection and background reindex
+ */
+
+import { VectorCache } from '../cache/VectorCache.js';
+import * as fs from 'fs/promises';
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function runVectorReindexTests() {
+  console.log('🧪 Starting Vector Reindex Tests...\n');
+  const dataDir = './test-data/reindex';
+  await fs.rm(dataDir, { recursive: true, force: true });
+
+  // Test 1: Entries written with one embedding configuration
+  console.log('Test 1: Populate with 384-dimension embeddings');
+  const original = new VectorCache({ dataDir, embeddingModel: 'local-advanced', embeddingDimensions: 384 });
+  for (let i = 0; i < 50; i++) {
+    await original.store(`How do I configure service number ${i} in production?`, `answer ${i}`, 'moonshot-v1-8k', 100);
+  }
+  await new Promise(resolve => setTimeout(resolve, 200));
+  console.log('✅ Stored 50 entries');
+
+  // Test 2: Reopen with a different dimension count
+  console.log('\nTest 2: Mismatch detection');
+  const upgraded = new VectorCache({ dataDir, embeddingModel: 'local-advanced', embeddingDimensions: 256 });
+  await upgraded.initialize();
+  let status = upgraded.getEmbeddingStatus();
+  assert(status.persisted?.dimensions === 384, 'persisted file records the old dimensions');
+  assert(status.stale_entries === 50, 'all entries are detected as stale');
+  assert(
+    (await upgraded.findSimilar('How do I configure service number 7 in production?', 'moonshot-v1-8k'))?.entry.response === 'answer 7',
+    'stale entries still serve literal hits'
+  );
+  console.log(`✅ ${status.stale_entries} stale entries detected`);
+
+  // Test 3: Background reindex
+  console.log('\nTest 3: Background reindex');
+  const started = await upgraded.startReindex({ batchSize: 8 });
+  assert(started.state === 'running' && started.total === 50, 'reindex starts with all stale entries');
+  while (upgraded.getEmbeddingStatus().reindex.state === 'running') {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  status = upgraded.getEmbeddingStatus();
+  assert(status.reindex.state === 'completed' && status.reindex.processed === 50, 'reindex completes');
+  assert(status.stale_entries === 0, 'no stale entries remain');
+  assert(status.persisted?.dimensions === 256, 'file now records the new dimensions');
+
+  const semantic = await upgraded.findSimilar('How can I configure service number 7 in production?', 'moonshot-v1-8k');
+  assert(semantic !== null && semantic.similarity < 1, 'reindexed entries serve semantic hits');
+  console.log(`✅ Reindexed ${status.reindex.processed} entries`);
+
+  console.log('\n🎉 All Vector Reindex tests completed successfully!');
+
+  // Let the snapshot triggered by the last hit finish before removing its directory
+  await new Promise(resolve => setTimeout(resolve, 300));
+  await fs.rm(dataDir, { recursive: true, force: true });
+}
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runVectorReindexTests().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+export { runVectorReindexTests };
@@ -0,0 +1,46 @@
+import { createRequire } from 'module';
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import { Tokenizer } from './Tokenizer.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Byte-pair encoding tokenizer backed by the offline vocabularies shipped with js-tiktoken.
+ * Ranks are loaded lazily on first use and shared between instances of the same encoding.
+ */
+export class BPETokenizer implements Tokenizer {
+  private static encoders: Map<string, Tiktoken> = new Map();
+
+  readonly name: string;
+  private readonly encoding: 'cl100k_base' | 'o200k_base';
+
+  constructor(encoding: 'cl100k_base' | 'o200k_base') {
+    this.encoding = encoding;
+    this.name = encoding;
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+    return this.encode(text).length;
+  }
+
+  encode(text: string): number[] {
+    if (!text) return [];
+    // Special-token markers inside user text are counted as plain text, never rejected
+    return this.getEncoder().encode(text, [], []);
+  }
+
+  decode(tokens: number[]): string {
+    return this.getEncoder().decode(tokens);
+  }
+
+  private getEncoder(): Tiktoken {
+    let encoder = BPETokenizer.encoders.get(this.encoding);
+    if (!encoder) {
+      const ranks = require(`js-tiktoken/ranks/${this.encoding}`) as TiktokenBPE;
+      encoder = new Tiktoken(ranks);
+      BPETokenizer.encoders.set(this.encoding, encoder);
+    }
+    return encoder;
+  }
+}
@@ -0,0 +1,59 @@
+import { Tokenizer } from './Tokenizer.js';
+
+/**
+ * Offline fallback tokenizer used when no BPE vocabulary can be loaded.
+ * Splits text the way BPE pre-tokenizers do (words, digit groups, punctuation
+ * runs, CJK characters) and charges long words by length, which tracks real
+ * tokenizers far better than a flat chars/4.5 ratio on code and Portuguese.
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+
+  private static readonly CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+  private static readonly PIECE_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+|\p{N}{1,3}|[^\s\p{L}\p{N}]+|\s+/gu;
+  private static readonly ASCII_WORD_CHARS = 6;
+  private static readonly ACCENTED_WORD_CHARS = 4;
+
+  count(text: string): number {
+    if (!text) return 0;
+
+    let tokens = 0;
+    for (const piece of text.match(HeuristicTokenizer.PIECE_PATTERN) || []) {
+      tokens += this.countPiece(piece);
+    }
+    return tokens;
+  }
+
+  /**
+   * Heuristic tokens have no vocabulary ids; returns placeholder ids so that
+   * callers relying on the array length still get the right count
+   */
+  encode(text: string): number[] {
+    return new Array(this.count(text)).fill(0);
+  }
+
+  private countPiece(piece: string): number {
+    if (/^\s+$/.test(piece)) {
+      // Single spaces merge into the following word; indentation and blank lines do not
+      return piece === ' ' ? 0 : Math.ceil(piece.replace(/ /g, '').length + piece.length / 8);
+    }
+
+    if (/^\p{L}+$/u.test(piece)) {
+      if (HeuristicTokenizer.CJK_PATTERN.test(piece)) {
+        return 1;
+      }
+      // Non-ASCII letters (accents, cedilla) split words into more merges
+      const perToken = /[^\x00-\x7f]/.test(piece)
+        ? HeuristicTokenizer.ACCENTED_WORD_CHARS
+        : HeuristicTokenizer.ASCII_WORD_CHARS;
+      return Math.max(1, Math.ceil(piece.length / perToken));
+    }
+
+    if (/^\p{N}+$/u.test(piece)) {
+      return 1;
+    }
+
+    // Punctuation/operator runs: common pairs like "=>" or "();" merge, long runs do not
+    return Math.max(1, Math.ceil(piece.length / 2));
+  }
+}
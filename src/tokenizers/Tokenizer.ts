@@ -0,0 +1,20 @@
+/**
+ * Tokenizer contracts shared by the BPE and heuristic backends
+ */
+
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base' | 'heuristic';
+
+export interface TokenizerSpec {
+  encoding: TokenizerEncoding;
+  /**
+   * Correction factor applied on top of the base encoding, used for model
+   * families whose vocabulary is not distributed (Moonshot, Claude, local GGUF)
+   */
+  scale?: number;
+}
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+  encode(text: string): number[];
+}
@@ -0,0 +1,113 @@
+import { Tokenizer, TokenizerSpec } from './Tokenizer.js';
+import { BPETokenizer } from './BPETokenizer.js';
+import { HeuristicTokenizer } from './HeuristicTokenizer.js';
+import { Logger } from '../utils/Logger.js';
+
+/**
+ * Applies a correction factor to a base tokenizer's count
+ */
+class ScaledTokenizer implements Tokenizer {
+  readonly name: string;
+
+  constructor(private readonly base: Tokenizer, private readonly scale: number) {
+    this.name = `${base.name}x${scale}`;
+  }
+
+  count(text: string): number {
+    return Math.ceil(this.base.count(text) * this.scale);
+  }
+
+  encode(text: string): number[] {
+    return this.base.encode(text);
+  }
+}
+
+/**
+ * Resolves the tokenizer used for a given model name.
+ * Providers register exact model specs (see LLMProviderFactory); unknown names
+ * fall back to family prefix rules and finally to cl100k_base.
+ */
+export class TokenizerRegistry {
+  private static readonly DEFAULT_SPEC: TokenizerSpec = { encoding: 'cl100k_base' };
+
+  private static readonly FAMILY_RULES: Array<{ pattern: RegExp; spec: TokenizerSpec }> = [
+    { pattern: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/i, spec: { encoding: 'o200k_base' } },
+    { pattern: /^(gpt-4|gpt-3\.5|gpt-35|text-embedding)/i, spec: { encoding: 'cl100k_base' } },
+    // Moonshot's vocabulary is tiktoken-derived and close to cl100k on mixed text
+    { pattern: /^(moonshot|kimi)/i, spec: { encoding: 'cl100k_base', scale: 1.0 } },
+    // Claude tokenizes noticeably finer than cl100k
+    { pattern: /^claude/i, spec: { encoding: 'cl100k_base', scale: 1.1 } },
+    // Small SentencePiece vocabularies (Phi-3, Gemma, Llama GGUF builds)
+    { pattern: /^(phi|gemma|llama|local-)/i, spec: { encoding: 'cl100k_base', scale: 1.2 } }
+  ];
+
+  private static modelSpecs: Map<string, TokenizerSpec> = new Map();
+  private static tokenizers: Map<string, Tokenizer> = new Map();
+  private static logger = new Logger('TokenizerRegistry');
+
+  /**
+   * Registers the tokenizer spec for an exact model name
+   */
+  static registerModel(model: string, spec: TokenizerSpec): void {
+    this.modelSpecs.set(model, spec);
+  }
+
+  /**
+   * Resolves the spec for a model name (exact registration first, then family rules)
+   */
+  static resolveSpec(model?: string): TokenizerSpec {
+    if (!model) return this.DEFAULT_SPEC;
+
+    const registered = this.modelSpecs.get(model);
+    if (registered) return registered;
+
+    const rule = this.FAMILY_RULES.find(r => r.pattern.test(model));
+    return rule ? rule.spec : this.DEFAULT_SPEC;
+  }
+
+  /**
+   * Gets the tokenizer for a model name
+   */
+  static forModel(model?: string): Tokenizer {
+    return this.forSpec(this.resolveSpec(model));
+  }
+
+  static forSpec(spec: TokenizerSpec): Tokenizer {
+    const cacheKey = `${spec.encoding}:${spec.scale ?? 1}`;
+    let tokenizer = this.tokenizers.get(cacheKey);
+
+    if (!tokenizer) {
+      const base = this.createBase(spec);
+      tokenizer = spec.scale && spec.scale !== 1 ? new ScaledTokenizer(base, spec.scale) : base;
+      this.tokenizers.set(cacheKey, tokenizer);
+    }
+
+    return tokenizer;
+  }
+
+  /**
+   * Counts tokens of a text for a model name
+   */
+  static count(text: string, model?: string): number {
+    return this.forModel(model).count(text);
+  }
+
+  private static createBase(spec: TokenizerSpec): Tokenizer {
+    if (spec.encoding === 'heuristic') {
+      return new HeuristicTokenizer();
+    }
+
+    const bpe = new BPETokenizer(spec.encoding);
+    try {
+      // Force the vocabulary to load now so a missing rank file degrades gracefully
+      bpe.count('warmup');
+      return bpe;
+    } catch (error) {
+      this.logger.warn('BPE vocabulary unavailable, using heuristic tokenizer', {
+        encoding: spec.encoding,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return new HeuristicTokenizer();
+    }
+  }
+}
@@ -1,3 +1,7 @@
+import { TokenizerSpec } from '../tokenizers/Tokenizer.js';
+import { EvictionPolicyName, EvictionStats } from '../cache/eviction/EvictionPolicy.js';
+import { NamespaceConfig } from '../core/NamespaceManager.js';
+
 // Core Types
 export interface CacheEntry {
   id: string;
@@ -7,11 +11,72 @@ export interface CacheEntry {
   hits: number;
   created_at: number;
   last_accessed: number;
+  /** Soft expiry: past it the entry is still served, marked stale, until expires_at */
+  stale_at?: number;
   expires_at?: number;
   tags?: string[];
   model?: string;
+  task_type?: string;
+  /** Codec of value; entries without one were written with lz-string */
+  codec?: string;
+  /** Bytes of the stored value as written to disk */
   compressed_size: number;
   original_size: number;
+  /** 0-1, from rate_response feedback; unrated entries count as DEFAULT_QUALITY_SCORE */
+  quality_score?: number;
+  /** Number of ratings folded into quality_score */
+  ratings?: number;
+  /** Original cache key, encrypted, when key holds its HMAC instead */
+  sealed_key?: string;
+}
+
+export interface InvalidationFilter {
+  /** Matches entries carrying any of these tags */
+  tags?: string[];
+  model?: string;
+  task_type?: string;
+  /** Matches entries created before this timestamp (ms since epoch) */
+  created_before?: number;
+  key_prefix?: string;
+}
+
+export interface InvalidationResult {
+  dry_run: boolean;
+  literal_removed: number;
+  vector_removed: number;
+  tokens_invalidated: number;
+  keys: string[];
+}
+
+export interface RatingResult {
+  cache_key: string;
+  quality_score: number;
+  ratings: number;
+  /** demoted: served stale and refreshed, left out of semantic matches; evicted: removed */
+  action: 'kept' | 'demoted' | 'evicted';
+  literal_updated: boolean;
+  vector_updated: number;
+}
+
+export interface CacheExportFilter {
+  /** Exports entries carrying any of these tags */
+  tags?: string[];
+  model?: string;
+  /** Exports entries hit at least this many times */
+  min_hits?: number;
+}
+
+/**
+ * What happens when an imported entry is already cached:
+ * skip keeps the local one, overwrite replaces it, keep-higher-quality keeps
+ * whichever has the higher quality score (the local one on ties)
+ */
+export type CacheImportStrategy = 'skip' | 'overwrite' | 'keep-higher-quality';
+
+export interface CacheImportResult {
+  strategy: CacheImportStrategy;
+  literal: { imported: number; skipped: number; expired: number; blocked: number };
+  vector: { imported: number; skipped: number; blocked: number } | null;
 }
 
 export interface CacheStats {
@@ -21,6 +86,9 @@ export interface CacheStats {
   cache_size_mb: number;
   hit_rate: number;
   compression_ratio: number;
+  /** Entry count per codec */
+  codecs?: Record<string, number>;
+  eviction?: EvictionStats;
   top_keys: Array<{key: string, hits: number, tokens_saved: number}>;
 }
 
@@ -28,7 +96,10 @@ export interface CacheDecision {
   shouldCache: boolean;
   reason: string;
   estimatedSavings: number;
+  /** Hard TTL in seconds */
   ttl: number;
+  /** Seconds the entry stays fresh; between softTtl and ttl it is served stale while refreshed */
+  softTtl?: number;
 }
 
 // Model Types
@@ -36,7 +107,10 @@ export interface ModelPricing {
   name: string;
   inputCostPer1M: number;
   outputCostPer1M: number;
+  /** Input read from the provider's prompt cache */
+  cachedInputCostPer1M?: number;
   contextWindow: number;
+  maxOutputTokens?: number;
   performance: number;
   cachingSupport: boolean;
   recommended: string[];
@@ -57,6 +131,8 @@ export interface SmartCacheOptions {
   maxMemoryMB?: number;
   defaultTTL?: number;
   enableHeuristics?: boolean;
+  /** Which entries both caches give up first when full (default lru) */
+  evictionPolicy?: EvictionPolicyName;
 }
 
 export interface MCPServerConfig {
@@ -65,6 +141,13 @@ export interface MCPServerConfig {
   cache: SmartCacheOptions & {
     enableVectorCache?: boolean;
   };
+  namespaces?: {
+    default?: string;
+    config?: Record<string, NamespaceConfig>;
+    shared?: string[];
+    perClient?: boolean;
+    strict?: boolean;
+  };
   models: {
     primary: string;
     fallback: string;
@@ -82,6 +165,25 @@ export interface MCPServerConfig {
     enableCircuitBreaker?: boolean;
     enableAutoScaling?: boolean;
   };
+  /** Scheduled replay of a prompt corpus to keep frequent prompts cached */
+  warmup?: {
+    corpus: string;
+    /** Namespace the scheduled run fills (default: the default namespace) */
+    namespace?: string;
+    /** cron expression */
+    schedule: string;
+    maxTokens?: number;
+    concurrency?: number;
+    limit?: number;
+  };
+  /** Rolling summaries of long conversations sent upstream */
+  memory?: {
+    enabled: boolean;
+    maxTokens?: number;
+    minRecentMessages?: number;
+    /** Summarise with a local model when one is running, before the extractive fallback */
+    localModel?: boolean;
+  };
 }
 
 // Analytics Types
@@ -89,13 +191,27 @@ export interface UsageMetrics {
   requests: number;
   hits: number;
   misses: number;
+  /** Misses served by an identical upstream call already in flight */
+  coalesced: number;
   tokens_saved: number;
   decisions_made: number;
+  /** Caching decisions whose answer was later rated */
+  rated_decisions: number;
   correct_decisions: number;
   model_optimizations: number;
   cost_savings: number;
 }
 
+export interface RedactionMetrics {
+  /** Requests or responses in which sensitive data was found */
+  events: number;
+  masked: number;
+  blocked_caching: number;
+  rejected: number;
+  /** Matches per detector */
+  by_detector: Record<string, number>;
+}
+
 export interface EfficiencyMetrics {
   cache_hit_rate: number;
   decision_accuracy: number;
@@ -110,6 +226,7 @@ export interface LLMProvider {
   baseURL: string;
   supportsStreaming: boolean;
   supportsCaching: boolean;
+  tokenizer?: TokenizerSpec;
 }
 
 // Template Types
@@ -124,6 +241,24 @@ export interface PromptTemplate {
   recommended_model: string;
 }
 
+// Conversation Types
+export interface ChatToolCall {
+  id?: string;
+  type?: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  name?: string;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
 // Task Types
 export type TaskType = 'coding' | 'analysis' | 'documentation' | 'long-context' | 'general' | 'debugging' | 'optimization';
 export type QualityLevel = 'fast' | 'balanced' | 'premium';
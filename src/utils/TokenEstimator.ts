@@ -1,16 +1,44 @@
+import { TokenizerRegistry } from '../tokenizers/TokenizerRegistry.js';
+
 /**
  * Accurate token estimation utilities
+ * Counts are produced by the model's tokenizer (see TokenizerRegistry)
  */
 export class TokenEstimator {
-  private static readonly CHARS_PER_TOKEN = 4.5; // Average for multilingual content
   private static readonly WORD_TO_TOKEN_RATIO = 0.75; // Approximate words to tokens
 
+  // Mixed English/Portuguese/code sample used to derive a chars-per-token ratio per tokenizer
+  private static readonly CALIBRATION_SAMPLE = [
+    'Explain how async/await works in JavaScript and when to prefer Promise.all.',
+    'Analise este componente React e sugira melhorias de performance e acessibilidade.',
+    'export async function fetchUser(id: string): Promise<User> {\n  const res = await api.get(`/users/${id}`);\n  return res.data;\n}',
+    'Você poderia revisar a configuração do Redis e explicar a política de expiração?'
+  ].join('\n');
+  private static charsPerToken: Map<string, number> = new Map();
+
   /**
-   * Estimates tokens from text using character-based calculation
+   * Counts tokens of a text with the tokenizer of the given model
    */
-  static estimateFromText(text: string): number {
+  static estimateFromText(text: string, model?: string): number {
     if (!text) return 0;
-    return Math.ceil(text.length / TokenEstimator.CHARS_PER_TOKEN);
+    return TokenizerRegistry.count(text, model);
+  }
+
+  /**
+   * Estimates tokens when only a character count is known, using the
+   * tokenizer's ratio on a calibration sample
+   */
+  static estimateFromLength(chars: number, model?: string): number {
+    if (chars <= 0) return 0;
+
+    const tokenizerName = TokenizerRegistry.forModel(model).name;
+    let ratio = this.charsPerToken.get(tokenizerName);
+    if (ratio === undefined) {
+      ratio = this.CALIBRATION_SAMPLE.length / this.estimateFromText(this.CALIBRATION_SAMPLE, model);
+      this.charsPerToken.set(tokenizerName, ratio);
+    }
+
+    return Math.ceil(chars / ratio);
   }
 
   /**
@@ -21,26 +49,20 @@ export class TokenEstimator {
   }
 
   /**
-   * More accurate estimation considering code vs natural language
+   * Kept for compatibility: BPE counts already account for code vs natural language
    */
-  static estimateAccurate(text: string): number {
-    if (!text) return 0;
-
-    // Code tends to have more tokens per character
-    const isCode = this.detectCode(text);
-    const multiplier = isCode ? 1.2 : 1.0;
-    
-    return Math.ceil((text.length / TokenEstimator.CHARS_PER_TOKEN) * multiplier);
+  static estimateAccurate(text: string, model?: string): number {
+    return this.estimateFromText(text, model);
   }
 
   /**
    * Estimates tokens for a conversation
    */
-  static estimateConversation(messages: Array<{role: string, content: string}>): number {
+  static estimateConversation(messages: Array<{role: string, content: string}>, model?: string): number {
     let total = 0;
     
     for (const message of messages) {
-      total += this.estimateFromText(message.content);
+      total += this.estimateFromText(message.content, model);
       total += 4; // Role and message formatting overhead
     }
     
@@ -51,8 +73,12 @@ export class TokenEstimator {
   /**
    * Estimates response tokens based on prompt complexity
    */
-  static estimateResponseTokens(prompt: string, responseType: 'short' | 'medium' | 'long' = 'medium'): number {
-    const promptTokens = this.estimateFromText(prompt);
+  static estimateResponseTokens(
+    prompt: string,
+    responseType: 'short' | 'medium' | 'long' = 'medium',
+    model?: string
+  ): number {
+    const promptTokens = this.estimateFromText(prompt, model);
     
     const multipliers = {
       'short': 0.5,
@@ -116,13 +142,13 @@ export class TokenEstimator {
   /**
    * Provides token usage breakdown for analysis
    */
-  static analyzeTokenUsage(text: string): {
+  static analyzeTokenUsage(text: string, model?: string): {
     total: number;
     type: 'code' | 'natural' | 'mixed';
     complexity: 'low' | 'medium' | 'high';
     cacheRecommendation: boolean;
   } {
-    const total = this.estimateFromText(text);
+    const total = this.estimateFromText(text, model);
     const isCode = this.detectCode(text);
     const lines = text.split('\n').length;
     const words = text.split(/\s+/).length;